@@ -43,7 +43,7 @@ export abstract class Client<Model extends ClientModel, QueryParams, Body, Item,
       const items = await this.driver.list()
       return { data: items.map(this.toModel) }
     } catch (err) {
-      return { error: err.message }
+      return { error: err }
     }
   }
   /**
@@ -58,7 +58,7 @@ export abstract class Client<Model extends ClientModel, QueryParams, Body, Item,
       if (!item) throw new ModelNotFoundError()
       return { data: this.toModel(item) }
     } catch (err) {
-      return { error: err.message }
+      return { error: err }
     }
   }
   /**
@@ -73,7 +73,7 @@ export abstract class Client<Model extends ClientModel, QueryParams, Body, Item,
       if (!ok) throw new Error(`put error`)
       return { data: model }
     } catch (err) {
-      return { error: err.message }
+      return { error: err }
     }
   }
   /**
@@ -89,7 +89,7 @@ export abstract class Client<Model extends ClientModel, QueryParams, Body, Item,
       if (!ok) throw new Error(`update error`)
       return {}
     } catch (err) {
-      return { error: err.message }
+      return { error: err }
     }
   }
   /**
@@ -104,7 +104,7 @@ export abstract class Client<Model extends ClientModel, QueryParams, Body, Item,
       if (!ok) throw new Error(`delete error`)
       return {}
     } catch (err) {
-      return { error: err.message }
+      return { error: err }
     }
   }
 }
\ No newline at end of file
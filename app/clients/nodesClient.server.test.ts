@@ -2,8 +2,9 @@ import test from "tape"
 import { ulid } from "ulid"
 import type { Test } from "tape"
 
-import { client } from "./nodesClient.server"
-import { ModelNotFoundError } from "../server/errors.server"
+import { client, MAX_REVISIONS } from "./nodesClient.server"
+import { ModelNotFoundError, PreconditionFailedError } from "../server/errors.server"
+import { withoutTimestamps } from "../tests/nodes"
 import type { NodeItem } from "../models/node"
 import type { NodeDynamoItem } from "../drivers/nodesDynamoDriver.server"
 
@@ -67,20 +68,20 @@ test("nodesClient.toModel()", async (assert: Test) => {
 test("nodesClient.get()", async (assert: Test) => {
   const parent = ulid()
   const userId = ulid()
-  const node: NodeItem = { id: ulid(), content: ulid(), parent, userId, interpreter: undefined, meta: undefined }
+  const node: NodeItem = { id: ulid(), content: ulid(), parent, userId, interpreter: undefined, meta: undefined, version: 1 }
   // Normal GET excecution
   assert.deepEqual(await client.put(node), { data: node })
-  assert.deepEqual(await client.get("invalid_id"), { error: new ModelNotFoundError() })
-  assert.deepEqual(await client.get(node.id, userId), { data: { ...node } })
+  assert.deepEqual(withoutTimestamps(await client.get("invalid_id")), { error: new ModelNotFoundError() })
+  assert.deepEqual(withoutTimestamps(await client.get(node.id, userId)), { data: { ...node } })
   // Recursive GET excecution
-  const subNode1 = { id: ulid(), content: ulid(), parent: node.id, userId, interpreter: undefined, meta: undefined }
-  const subNode2 = { id: ulid(), content: ulid(), parent: node.id, userId, interpreter: undefined, meta: undefined }
-  const subNode3 = { id: ulid(), content: ulid(), parent: node.id, userId, interpreter: undefined, meta: undefined }
+  const subNode1 = { id: ulid(), content: ulid(), parent: node.id, userId, interpreter: undefined, meta: undefined, version: 1 }
+  const subNode2 = { id: ulid(), content: ulid(), parent: node.id, userId, interpreter: undefined, meta: undefined, version: 1 }
+  const subNode3 = { id: ulid(), content: ulid(), parent: node.id, userId, interpreter: undefined, meta: undefined, version: 1 }
   node.collection = [subNode1, subNode2, subNode3]
   assert.deepEqual(await client.put(subNode1), { data: subNode1 })
   assert.deepEqual(await client.put(subNode2), { data: subNode2 })
   assert.deepEqual(await client.put(subNode3), { data: subNode3 })
-  assert.deepEqual(await client.get(node.id, userId, true), { data: node })
+  assert.deepEqual(withoutTimestamps(await client.get(node.id, userId, true)), { data: node })
   // End tests
   assert.end()
 })
@@ -88,14 +89,18 @@ test("nodesClient.get()", async (assert: Test) => {
 test("nodesClient.put()", async (assert: Test) => {
   const parent = ulid()
   const userId = ulid()
-  const node1 = { id: ulid(), content: ulid(), parent, userId, interpreter: undefined, meta: undefined }
-  const node2 = { id: ulid(), content: ulid(), parent, userId, interpreter: undefined, meta: undefined }
-  const node3 = { id: ulid(), content: ulid(), parent, userId, interpreter: undefined, meta: undefined }
+  const node1 = { id: ulid(), content: ulid(), parent, userId, interpreter: undefined, meta: undefined, version: 1 }
+  const node2 = { id: ulid(), content: ulid(), parent, userId, interpreter: undefined, meta: undefined, version: 1 }
+  const node3 = { id: ulid(), content: ulid(), parent, userId, interpreter: undefined, meta: undefined, version: 1 }
   assert.deepEqual(await client.put(node1), { data: node1 })
   assert.deepEqual(await client.put(node2), { data: node2 })
-  assert.deepEqual(await client.query({ parent, userId }), { data: [node1, node2] })
+  assert.deepEqual(withoutTimestamps(await client.query({ parent, userId })), { data: [node1, node2] })
   assert.deepEqual(await client.put(node3, node1.id), { data: node3 })
-  assert.deepEqual(await client.query({ parent, userId }), { data: [node1, node3, node2] })
+  assert.deepEqual(withoutTimestamps(await client.query({ parent, userId })), { data: [node1, node3, node2] })
+  // Putting an existing node should fail with a conflict and leave the list untouched
+  const { error } = await client.put(node1)
+  assert.equal(error && error.name, "ConflictError")
+  assert.deepEqual(withoutTimestamps(await client.query({ parent, userId })), { data: [node1, node3, node2] })
   assert.end()
 })
 
@@ -104,11 +109,119 @@ test("nodesClient.update()", async (assert: Test) => {
   const userId = ulid()
   const content = "example"
   const newContent = "change"
-  const node = { id: ulid(), content, parent, userId, interpreter: undefined, meta: undefined }
+  const node = { id: ulid(), content, parent, userId, interpreter: undefined, meta: undefined, version: 1 }
   assert.deepEqual(await client.put(node), { data: node })
-  assert.deepEqual(await client.get(node.id, node.userId), { data: node })
+  assert.deepEqual(withoutTimestamps(await client.get(node.id, node.userId)), { data: node })
   assert.deepEqual(await client.update(node.id, { content: newContent }, node.userId), {})
-  assert.deepEqual(await client.get(node.id, node.userId), { data: { ...node, content: newContent } })
+  assert.deepEqual(withoutTimestamps(await client.get(node.id, node.userId)), { data: { ...node, content: newContent, version: 2 } })
+  assert.end()
+})
+
+test("nodesClient timestamps", async (assert: Test) => {
+  const userId = ulid()
+  const editorId = ulid()
+  const node = { id: ulid(), content: ulid(), parent: ulid(), userId }
+  const before = Date.now()
+  await client.put(node)
+  const { data: created } = await client.get(node.id, userId)
+  // New nodes should be created and updated by their owner at the same time.
+  assert.ok(created.createdAt >= before && created.createdAt <= Date.now())
+  assert.equal(created.updatedAt, created.createdAt)
+  assert.equal(created.updatedBy, userId)
+  // Updating the content should only change the update attributes.
+  await new Promise<void>(resolve => setTimeout(resolve, 5))
+  assert.deepEqual(await client.update(node.id, { content: "updated" }, userId), {})
+  await client.driver.update(client.createPK(node.id, userId), { content: "edited" }, undefined, editorId)
+  const { data: updated } = await client.get(node.id, userId)
+  assert.equal(updated.createdAt, created.createdAt)
+  assert.ok(updated.updatedAt > created.updatedAt)
+  assert.equal(updated.updatedBy, editorId)
+  // Updating the metadata shouldn't change them.
+  await client.meta(node.id, userId, { isOpened: true })
+  const { data: opened } = await client.get(node.id, userId)
+  assert.equal(opened.updatedAt, updated.updatedAt)
+  assert.equal(opened.updatedBy, editorId)
+  assert.end()
+})
+
+test("nodesClient versions", async (assert: Test) => {
+  const userId = ulid()
+  const node = { id: ulid(), content: ulid(), parent: ulid(), userId, interpreter: undefined, meta: undefined, version: 1 }
+  assert.deepEqual(await client.put(node), { data: node })
+  // Writes conditioned to the current version should succeed.
+  assert.deepEqual(await client.update(node.id, { content: "first" }, userId, 1), {})
+  assert.deepEqual(await client.update(node.id, { content: "second" }, userId, 2), {})
+  assert.deepEqual(await client.meta(node.id, userId, { isOpened: true }, 3), { data: { isOpened: true } })
+  // Updating the metadata shouldn't change the version.
+  assert.equal((await client.get(node.id, userId)).data.version, 3)
+  // Writes conditioned to a previous version should fail.
+  assert.deepEqual(await client.update(node.id, { content: "stale" }, userId, 2), { error: new PreconditionFailedError() })
+  assert.deepEqual(await client.meta(node.id, userId, { isOpened: false }, 2), { error: new PreconditionFailedError() })
+  assert.deepEqual(await client.delete(node.id, userId, 2), { error: new PreconditionFailedError() })
+  assert.deepEqual(withoutTimestamps(await client.get(node.id, userId)), { data: { ...node, content: "second", meta: { isOpened: true }, version: 3 } })
+  assert.deepEqual(await client.delete(node.id, userId, 3), {})
+  assert.deepEqual(withoutTimestamps(await client.get(node.id, userId)), { error: new ModelNotFoundError() })
+  assert.end()
+})
+
+test("nodesClient.history()", async (assert: Test) => {
+  const userId = ulid()
+  const node = { id: ulid(), content: "original", parent: ulid(), userId, interpreter: undefined, meta: undefined, version: 1 }
+  assert.deepEqual(await client.put(node), { data: node })
+  assert.deepEqual(await client.history(node.id, userId), { data: [] })
+  // The first change should also record the original content.
+  assert.deepEqual(await client.update(node.id, { content: "first" }, userId), {})
+  let { data } = await client.history(node.id, userId)
+  assert.deepEqual(data.map(({ content, userId }) => ({ content, userId })), [
+    { content: "first", userId },
+    { content: "original", userId: undefined },
+  ])
+  // Changes from the same user made right after the latest revision should be compacted.
+  assert.deepEqual(await client.update(node.id, { content: "second" }, userId), {})
+  assert.deepEqual(await client.update(node.id, { interpreter: "code" }, userId), {})
+  data = (await client.history(node.id, userId)).data
+  assert.deepEqual(data.map(({ content, interpreter }) => ({ content, interpreter })), [
+    { content: "second", interpreter: "code" },
+    { content: "original", interpreter: undefined },
+  ])
+  // Updates that don't change anything shouldn't be recorded.
+  assert.deepEqual(await client.update(node.id, { content: "second" }, userId), {})
+  assert.equal((await client.history(node.id, userId)).data.length, 2)
+  // Missing or trashed Nodes have no history.
+  assert.deepEqual(await client.history(ulid(), userId), { error: new ModelNotFoundError() })
+  assert.deepEqual(await client.update(ulid(), { content: "new" }, userId), { error: new ModelNotFoundError() })
+  assert.end()
+})
+
+test("nodesClient.history() without compaction", async (assert: Test) => {
+  // Revisions without a user are never compacted, so every change is recorded.
+  const node = { id: ulid(), content: "0", parent: ulid(), interpreter: undefined, meta: undefined, version: 1 }
+  assert.deepEqual(await client.put(node), { data: node })
+  for (let i = 1; i <= MAX_REVISIONS + 1; i++) {
+    assert.deepEqual(await client.update(node.id, { content: String(i) }), {})
+  }
+  // Only the latest `MAX_REVISIONS` revisions should be kept.
+  const { data } = await client.history(node.id)
+  assert.equal(data.length, MAX_REVISIONS)
+  assert.equal(data[0].content, String(MAX_REVISIONS + 1))
+  assert.equal(data[MAX_REVISIONS - 1].content, "2")
+  assert.end()
+})
+
+test("nodesClient.revert()", async (assert: Test) => {
+  const userId = ulid()
+  const node = { id: ulid(), content: "original", parent: ulid(), userId, interpreter: undefined, meta: undefined, version: 1 }
+  assert.deepEqual(await client.put(node), { data: node })
+  assert.deepEqual(await client.update(node.id, { content: "", interpreter: "code" }, userId), {})
+  const { data: [, original] } = await client.history(node.id, userId)
+  assert.deepEqual(await client.revert(node.id, original.id, userId), {})
+  assert.deepEqual(withoutTimestamps(await client.get(node.id, userId)), { data: { ...node, interpreter: "markdown", version: 3 } })
+  // Reverting to a content that doesn't change the node is a noop.
+  assert.deepEqual(await client.revert(node.id, original.id, userId), {})
+  // Reverting should be recorded as a change of the current user.
+  const { data } = await client.history(node.id, userId)
+  assert.deepEqual(data.map(({ content }) => content), ["original", "original"])
+  assert.deepEqual(await client.revert(node.id, ulid(), userId), { error: new ModelNotFoundError() })
   assert.end()
 })
 
@@ -116,28 +229,167 @@ test("nodesClient.delete()", async (assert: Test) => {
   const parent = ulid()
   const userId = ulid()
   const id = ulid()
-  const node = { id, content: ulid(), parent, userId, interpreter: undefined, meta: undefined }
+  const node = { id, content: ulid(), parent, userId, interpreter: undefined, meta: undefined, version: 1 }
   assert.deepEqual(await client.put(node), { data: node })
-  assert.deepEqual(await client.get(node.id, node.userId), { data: node })
+  assert.deepEqual(withoutTimestamps(await client.get(node.id, node.userId)), { data: node })
   assert.deepEqual(await client.delete(node.id, node.userId), {})
-  assert.deepEqual(await client.get(node.id, node.userId), { error: new ModelNotFoundError() })
+  assert.deepEqual(withoutTimestamps(await client.get(node.id, node.userId)), { error: new ModelNotFoundError() })
+  // The sub-nodes of trashed nodes can't be read or changed
+  const root = { id: ulid(), content: ulid(), userId }
+  const child = { id: ulid(), content: ulid(), parent: root.id, userId }
+  const other = { id: ulid(), content: ulid(), userId }
+  for (let node of [root, child, other]) await client.put(node)
+  assert.deepEqual(await client.delete(root.id, userId), {})
+  assert.deepEqual(await client.get(child.id, userId), { error: new ModelNotFoundError() })
+  assert.deepEqual(await client.history(child.id, userId), { error: new ModelNotFoundError() })
+  assert.deepEqual(await client.update(child.id, { content: "new" }, userId), { error: new ModelNotFoundError() })
+  assert.deepEqual(await client.meta(child.id, userId, { isOpened: true }), { error: new ModelNotFoundError() })
+  assert.deepEqual(await client.duplicate(child.id, userId), { error: new ModelNotFoundError() })
+  assert.deepEqual(await client.after(child.id, undefined, undefined, userId), { error: new ModelNotFoundError() })
+  assert.deepEqual(await client.after(other.id, child.id, undefined, userId), { error: new ModelNotFoundError() })
+  assert.deepEqual(await client.put({ id: ulid(), content: ulid(), parent: child.id, userId }), { error: new ModelNotFoundError() })
+  assert.end()
+})
+
+test("nodesClient.search()", async (assert: Test) => {
+  const userId = ulid()
+  const node1 = { id: ulid(), content: "Groceries", userId }
+  const node11 = { id: ulid(), content: "Buy milk and bread", parent: node1.id, userId }
+  const node12 = { id: ulid(), content: "Milk, milk, and more milk", parent: node1.id, userId }
+  const node2 = { id: ulid(), content: JSON.stringify({ content: "Milk the cow, then drink the milk", meta: { language: "js" } }), userId }
+  for (let node of [node1, node11, node12, node2]) await client.put(node)
+  // Hits should contain every term, sorted by how many times they appear.
+  const { data: hits } = await client.search("milk", userId)
+  assert.deepEqual(hits.map(hit => hit.node.id), [node12.id, node2.id, node11.id])
+  assert.ok(hits[0].score > hits[1].score)
+  assert.deepEqual(hits.map(hit => hit.path.map(node => node.id)), [[node1.id], [], [node1.id]])
+  assert.deepEqual((await client.search("MILK bread", userId)).data.map(hit => hit.node.id), [node11.id])
+  assert.deepEqual((await client.search("milk", userId, 1)).data.map(hit => hit.node.id), [node12.id])
+  assert.deepEqual(await client.search("milk", ulid()), { data: [] })
+  assert.deepEqual(await client.search("  ", userId), { data: [] })
+  // Trashed Nodes, and their sub-nodes, should be left out.
+  assert.deepEqual(await client.delete(node1.id, userId), {})
+  assert.deepEqual((await client.search("milk", userId)).data.map(hit => hit.node.id), [node2.id])
+  assert.deepEqual(await client.ancestors(node11.id, userId), { error: new ModelNotFoundError() })
+  assert.deepEqual(await client.restore(node1.id, userId), {})
+  assert.deepEqual((await client.ancestors(node11.id, userId)).data.map(node => node.id), [node1.id])
+  assert.end()
+})
+
+test("nodesClient.restore()", async (assert: Test) => {
+  const parent = ulid()
+  const userId = ulid()
+  // Nodes are restored on their parent only if it still exists
+  const root = { id: parent, content: ulid(), userId }
+  assert.deepEqual(await client.put(root), { data: root })
+  const node1 = { id: ulid(), content: ulid(), parent, userId, interpreter: undefined, meta: undefined, version: 1 }
+  const node2 = { id: ulid(), content: ulid(), parent, userId, interpreter: undefined, meta: undefined, version: 1 }
+  assert.deepEqual(await client.put(node1), { data: node1 })
+  assert.deepEqual(await client.put(node2), { data: node2 })
+  // Deleted nodes should be listed in the trash
+  assert.deepEqual(await client.delete(node1.id, userId), {})
+  const { data } = await client.trash(userId)
+  assert.deepEqual(data && data.map(node => node.id), [node1.id])
+  assert.equal(data && data[0].parent, parent)
+  assert.deepEqual(withoutTimestamps(await client.query({ parent, userId })), { data: [node2] })
+  // Restored nodes should go back to their original position
+  assert.deepEqual(await client.restore(node1.id, userId), {})
+  assert.deepEqual(withoutTimestamps(await client.query({ parent, userId })), { data: [node1, node2] })
+  assert.deepEqual(await client.trash(userId), { data: [] })
+  // Only trashed nodes can be restored
+  assert.deepEqual(await client.restore(node1.id, userId), { error: new ModelNotFoundError() })
+  // Expired nodes should be purged
+  assert.deepEqual(await client.delete(node1.id, userId), {})
+  assert.deepEqual(await client.purge(0, userId), { data: 0 })
+  assert.deepEqual(await client.purge(Date.now() + 1, userId), { data: 1 })
+  assert.deepEqual(await client.trash(userId), { data: [] })
+  // Nodes whose ancestors are in the trash should go to the root list
+  const node21 = { id: ulid(), content: ulid(), parent: node2.id, userId, interpreter: undefined, meta: undefined, version: 1 }
+  const node211 = { id: ulid(), content: ulid(), parent: node21.id, userId, interpreter: undefined, meta: undefined, version: 1 }
+  assert.deepEqual(await client.put(node21), { data: node21 })
+  assert.deepEqual(await client.put(node211), { data: node211 })
+  assert.deepEqual(await client.delete(node211.id, userId), {})
+  assert.deepEqual(await client.delete(node2.id, userId), {})
+  assert.deepEqual(await client.restore(node211.id, userId), {})
+  assert.deepEqual((await client.query({ userId })).data.map(node => node.id), [parent, node211.id])
+  assert.end()
+})
+
+test("nodesClient.duplicate()", async (assert: Test) => {
+  const parent = ulid()
+  const userId = ulid()
+  const node1 = { id: ulid(), content: ulid(), parent, userId, interpreter: undefined, meta: undefined, version: 1 }
+  const node2 = { id: ulid(), content: ulid(), parent, userId, interpreter: undefined, meta: undefined, version: 1 }
+  const node11 = { id: ulid(), content: ulid(), parent: node1.id, userId, interpreter: "code", meta: { isOpened: true }, version: 1 }
+  assert.deepEqual(await client.put(node1), { data: node1 })
+  assert.deepEqual(await client.put(node2), { data: node2 })
+  assert.deepEqual(await client.put(node11), { data: node11 })
+  // A shallow copy should be put right after the original node
+  const { data: copy2 } = await client.duplicate(node2.id, userId)
+  assert.notEqual(copy2.id, node2.id)
+  assert.deepEqual(withoutTimestamps(await client.query({ parent, userId })), { data: [node1, node2, { ...node2, id: copy2.id }] })
+  // A deep copy should also copy the sub-nodes with new ids
+  const { data: copy1 } = await client.duplicate(node1.id, userId, true)
+  assert.deepEqual((await client.query({ parent, userId })).data.map(node => node.id), [node1.id, copy1.id, node2.id, copy2.id])
+  const { data: collection } = await client.query({ parent: copy1.id, userId })
+  assert.equal(collection.length, 1)
+  assert.notEqual(collection[0].id, node11.id)
+  assert.deepEqual(withoutTimestamps(collection[0]), { ...node11, id: collection[0].id, parent: copy1.id })
+  // The original sub-nodes should be left untouched
+  assert.deepEqual(withoutTimestamps(await client.query({ parent: node1.id, userId })), { data: [node11] })
+  // Missing nodes can't be duplicated
+  assert.deepEqual(await client.duplicate(ulid(), userId), { error: new ModelNotFoundError() })
+  assert.end()
+})
+
+test("nodesClient.putCollections()", async (assert: Test) => {
+  const parent = ulid()
+  const userId = ulid()
+  const node1 = { id: ulid(), content: ulid(), parent, userId, interpreter: undefined, meta: undefined, version: 1 }
+  const node11 = { id: ulid(), content: ulid(), parent: node1.id, userId, interpreter: "code", meta: undefined, version: 1 }
+  const node12 = { id: ulid(), content: ulid(), parent: node1.id, userId, interpreter: undefined, meta: undefined, version: 1 }
+  const node121 = { id: ulid(), content: ulid(), parent: node12.id, userId, interpreter: undefined, meta: undefined, version: 1 }
+  // The sub-nodes should be stored, in order, without storing the node itself
+  assert.deepEqual(await client.putCollections([{ ...node1, collection: [node11, { ...node12, collection: [node121] }] }], userId), {})
+  assert.deepEqual(await client.query({ parent, userId }), { data: [] })
+  assert.deepEqual(withoutTimestamps(await client.query({ parent: node1.id, userId })), { data: [node11, node12] })
+  assert.deepEqual(withoutTimestamps(await client.query({ parent: node12.id, userId })), { data: [node121] })
+  // Putting the node should make its sub-nodes reachable
+  assert.deepEqual(await client.put(node1), { data: node1 })
+  assert.deepEqual((await client.query({ parent, userId, recursive: true, deep: true })).data[0].collection.map(node => node.id), [node11.id, node12.id])
+  // The sub-nodes of a node that couldn't be put should be deleted
+  const node2 = { id: ulid(), content: ulid(), parent, userId }
+  const node21 = { id: ulid(), content: ulid(), parent: node2.id, userId }
+  const node211 = { id: ulid(), content: ulid(), parent: node21.id, userId }
+  assert.deepEqual(await client.putCollections([{ ...node2, collection: [{ ...node21, collection: [node211] }] }], userId), {})
+  assert.deepEqual(await client.deleteCollections([node2], userId), {})
+  assert.deepEqual(await client.query({ parent: node2.id, userId }), { data: [] })
+  assert.deepEqual(await client.query({ parent: node21.id, userId }), { data: [] })
   assert.end()
 })
 
 test("nodesClient.after()", async (assert: Test) => {
   const parent = ulid()
   const userId = ulid()
-  const node1 = { id: ulid(), content: ulid(), parent, userId, interpreter: undefined, meta: undefined }
-  const node2 = { id: ulid(), content: ulid(), parent, userId, interpreter: undefined, meta: undefined }
-  const node3 = { id: ulid(), content: ulid(), parent, userId, interpreter: undefined, meta: undefined }
+  const node1 = { id: ulid(), content: ulid(), parent, userId, interpreter: undefined, meta: undefined, version: 1 }
+  const node2 = { id: ulid(), content: ulid(), parent, userId, interpreter: undefined, meta: undefined, version: 1 }
+  const node3 = { id: ulid(), content: ulid(), parent, userId, interpreter: undefined, meta: undefined, version: 1 }
   assert.deepEqual(await client.put(node1), { data: node1 })
   assert.deepEqual(await client.put(node2), { data: node2 })
   assert.deepEqual(await client.put(node3), { data: node3 })
-  assert.deepEqual(await client.query({ parent, userId }), { data: [node1, node2, node3] })
+  assert.deepEqual(withoutTimestamps(await client.query({ parent, userId })), { data: [node1, node2, node3] })
   assert.deepEqual(await client.after(node3.id, parent, node1.id, userId), {})
-  assert.deepEqual(await client.query({ parent, userId }), { data: [node1, node3, node2] })
+  assert.deepEqual(withoutTimestamps(await client.query({ parent, userId })), { data: [node1, node3, node2] })
   assert.deepEqual(await client.after(node2.id, parent, undefined, userId), {})
-  assert.deepEqual(await client.query({ parent, userId }), { data: [node2, node1, node3] })
+  assert.deepEqual(withoutTimestamps(await client.query({ parent, userId })), { data: [node2, node1, node3] })
+  // Nodes can't be moved after a node that isn't on the list
+  const other = { id: ulid(), content: ulid(), parent: ulid(), userId }
+  await client.put(other)
+  for (let afterId of [ulid(), other.id]) {
+    const { error } = await client.after(node2.id, parent, afterId, userId)
+    assert.equal(error?.name, "InvalidMoveError")
+  }
+  assert.deepEqual(withoutTimestamps(await client.query({ parent, userId })), { data: [node2, node1, node3] })
   assert.end()
 })
 
@@ -145,7 +397,7 @@ test("nodesClient.meta()", async (assert: Test) => {
   const parent = ulid()
   const userId = ulid()
   const isOpened = true
-  const node = { id: ulid(), content: ulid(), parent, userId, interpreter: undefined, meta: undefined }
+  const node = { id: ulid(), content: ulid(), parent, userId, interpreter: undefined, meta: undefined, version: 1 }
   assert.deepEqual(await client.put(node), { data: node })
   const resp1 = await client.get(node.id, node.userId)
   // A node should not have a meta object by default
@@ -163,38 +415,38 @@ test("nodesClient.meta()", async (assert: Test) => {
 test("nodesClient.query()", async (assert: Test) => {
   const parent = ulid()
   const userId = ulid()
-  const node1: NodeItem = { id: ulid(), content: ulid(), parent, userId, interpreter: undefined, meta: undefined }
-  const node2: NodeItem = { id: ulid(), content: ulid(), parent, userId, interpreter: undefined, meta: undefined }
-  const node3: NodeItem = { id: ulid(), content: ulid(), parent, userId, interpreter: undefined, meta: undefined }
+  const node1: NodeItem = { id: ulid(), content: ulid(), parent, userId, interpreter: undefined, meta: undefined, version: 1 }
+  const node2: NodeItem = { id: ulid(), content: ulid(), parent, userId, interpreter: undefined, meta: undefined, version: 1 }
+  const node3: NodeItem = { id: ulid(), content: ulid(), parent, userId, interpreter: undefined, meta: undefined, version: 1 }
   // Insert three new nodes
   assert.deepEqual(await client.put(node1), { data: node1 })
   assert.deepEqual(await client.put(node2), { data: node2 })
   assert.deepEqual(await client.put(node3), { data: node3 })
   // Happy path
-  assert.deepEqual(await client.query({ parent, userId }), { data: [node1, node2, node3] })
+  assert.deepEqual(withoutTimestamps(await client.query({ parent, userId })), { data: [node1, node2, node3] })
   // Invalid parent path
-  assert.deepEqual(await client.query({ parent: "invalid", userId }), { data: [] })
+  assert.deepEqual(withoutTimestamps(await client.query({ parent: "invalid", userId })), { data: [] })
   // Recursive query (following meta.isOpened)
   // Add three new nodes under node1
-  const node11: NodeItem = { id: ulid(), content: ulid(), parent: node1.id, userId, interpreter: undefined, meta: undefined }
-  const node12: NodeItem = { id: ulid(), content: ulid(), parent: node1.id, userId, interpreter: undefined, meta: undefined }
-  const node13: NodeItem = { id: ulid(), content: ulid(), parent: node1.id, userId, interpreter: undefined, meta: undefined }
+  const node11: NodeItem = { id: ulid(), content: ulid(), parent: node1.id, userId, interpreter: undefined, meta: undefined, version: 1 }
+  const node12: NodeItem = { id: ulid(), content: ulid(), parent: node1.id, userId, interpreter: undefined, meta: undefined, version: 1 }
+  const node13: NodeItem = { id: ulid(), content: ulid(), parent: node1.id, userId, interpreter: undefined, meta: undefined, version: 1 }
   const updatedNode1: NodeItem = { ...node1, meta: { ...node1.meta, isOpened: true } }
   assert.deepEqual(await client.put(node11), { data: node11 })
   assert.deepEqual(await client.put(node12), { data: node12 })
   assert.deepEqual(await client.put(node13), { data: node13 })
   // Add three new nodes under node3
-  const node31: NodeItem = { id: ulid(), content: ulid(), parent: node3.id, userId, interpreter: undefined, meta: undefined }
-  const node32: NodeItem = { id: ulid(), content: ulid(), parent: node3.id, userId, interpreter: undefined, meta: undefined }
-  const node33: NodeItem = { id: ulid(), content: ulid(), parent: node3.id, userId, interpreter: undefined, meta: undefined }
+  const node31: NodeItem = { id: ulid(), content: ulid(), parent: node3.id, userId, interpreter: undefined, meta: undefined, version: 1 }
+  const node32: NodeItem = { id: ulid(), content: ulid(), parent: node3.id, userId, interpreter: undefined, meta: undefined, version: 1 }
+  const node33: NodeItem = { id: ulid(), content: ulid(), parent: node3.id, userId, interpreter: undefined, meta: undefined, version: 1 }
   const updatedNode3: NodeItem = { ...node3, meta: { ...node3.meta, isOpened: true } }
   assert.deepEqual(await client.put(node31), { data: node31 })
   assert.deepEqual(await client.put(node32), { data: node32 })
   assert.deepEqual(await client.put(node33), { data: node33 })
   // Add three new nodes under node32
-  const node321: NodeItem = { id: ulid(), content: ulid(), parent: node32.id, userId, interpreter: undefined, meta: undefined }
-  const node322: NodeItem = { id: ulid(), content: ulid(), parent: node32.id, userId, interpreter: undefined, meta: undefined }
-  const node323: NodeItem = { id: ulid(), content: ulid(), parent: node32.id, userId, interpreter: undefined, meta: undefined }
+  const node321: NodeItem = { id: ulid(), content: ulid(), parent: node32.id, userId, interpreter: undefined, meta: undefined, version: 1 }
+  const node322: NodeItem = { id: ulid(), content: ulid(), parent: node32.id, userId, interpreter: undefined, meta: undefined, version: 1 }
+  const node323: NodeItem = { id: ulid(), content: ulid(), parent: node32.id, userId, interpreter: undefined, meta: undefined, version: 1 }
   const updatedNode32: NodeItem = { ...node32, meta: { ...node32.meta, isOpened: true } }
   assert.deepEqual(await client.put(node321), { data: node321 })
   assert.deepEqual(await client.put(node322), { data: node322 })
@@ -208,15 +460,68 @@ test("nodesClient.query()", async (assert: Test) => {
   assert.deepEqual(await client.meta(node3.id, node3.userId, { isOpened: true }), { data: updatedNode3.meta })
   assert.deepEqual(await client.meta(node32.id, node32.userId, { isOpened: true }), { data: updatedNode32.meta })
   // Query recursively
-  assert.deepEqual(await client.query({ parent, userId, recursive: true }), { data: [updatedNode1, node2, updatedNode3] })
+  assert.deepEqual(withoutTimestamps(await client.query({ parent, userId, recursive: true })), { data: [updatedNode1, node2, updatedNode3] })
+  // Query recursively up to a given depth
+  const { collection, ...unloadedNode32 } = updatedNode32
+  assert.deepEqual(
+    withoutTimestamps(await client.query({ parent, userId, recursive: true, depth: 2 })),
+    { data: [updatedNode1, node2, { ...updatedNode3, collection: [node31, unloadedNode32, node33] }] }
+  )
+  assert.deepEqual(withoutTimestamps(await client.query({ parent, userId, recursive: true, depth: 1 })), { data: [updatedNode1, node2, updatedNode3].map(({ collection, ...node }) => node) })
 })
 
+test("nodesClient.query() pagination", async (assert: Test) => {
+  const parent = ulid()
+  const userId = ulid()
+  const nodes: NodeItem[] = [1, 2, 3, 4, 5].map(() => ({ id: ulid(), content: ulid(), parent, userId, interpreter: undefined, meta: undefined, version: 1 }))
+  for (let node of nodes) {
+    assert.deepEqual(await client.put(node), { data: node })
+  }
+  // Every page should return the cursor of the next one.
+  assert.deepEqual(withoutTimestamps(await client.query({ parent, userId, limit: 2 })), { data: nodes.slice(0, 2), offset: nodes[1].id })
+  assert.deepEqual(withoutTimestamps(await client.query({ parent, userId, limit: 2, cursor: nodes[1].id })), { data: nodes.slice(2, 4), offset: nodes[3].id })
+  // The last page shouldn't return a cursor.
+  assert.deepEqual(withoutTimestamps(await client.query({ parent, userId, limit: 2, cursor: nodes[3].id })), { data: nodes.slice(4) })
+  assert.deepEqual(withoutTimestamps(await client.query({ parent, userId, limit: 5 })), { data: nodes })
+  // Opened sub-nodes should be paginated as well.
+  const children: NodeItem[] = [1, 2, 3].map(() => ({ id: ulid(), content: ulid(), parent: nodes[0].id, userId, interpreter: undefined, meta: undefined, version: 1 }))
+  for (let child of children) {
+    assert.deepEqual(await client.put(child), { data: child })
+  }
+  await client.meta(nodes[0].id, userId, { isOpened: true })
+  const { data } = await client.query({ parent, userId, recursive: true, limit: 2 })
+  assert.deepEqual(withoutTimestamps(data[0].collection), children.slice(0, 2))
+  assert.equal(data[0].cursor, children[1].id)
+  assert.equal(data[1].cursor, undefined)
+  // A cursor that doesn't belong to the list should fail.
+  assert.equal((await client.query({ parent, userId, limit: 2, cursor: children[0].id })).error?.name, "InvalidCursorError")
+  // End
+  assert.end()
+})
 
-
-
-
-
-
-
-
-
+test("nodesClient.check()", async (assert: Test) => {
+  const parent = ulid()
+  const userId = ulid()
+  const branch = client.createPK(parent, userId)
+  const nodes: NodeItem[] = [1, 2, 3].map(() => ({ id: ulid(), content: ulid(), parent, userId }))
+  for (let node of nodes) {
+    await client.put(node)
+  }
+  const [pk1, pk2, pk3] = nodes.map(node => client.createPK(node.id, userId))
+  assert.deepEqual(await client.check(branch), { data: { branch, size: 3, anomalies: [], order: [pk1, pk2, pk3] } })
+  // Unlink the last two `Nodes`, as a partial failure would.
+  await client.driver.relink(branch, [pk1])
+  assert.deepEqual((await client.query({ parent, userId })).data?.map(node => node.id), [nodes[0].id])
+  const { data } = await client.check(branch)
+  assert.deepEqual(data?.anomalies.map(anomaly => anomaly.type), ["multiple-tails", "unreachable", "unreachable"])
+  assert.equal(data?.fixed, undefined)
+  // Fixing the branch should append them after the tail.
+  assert.equal((await client.check(branch, true)).data?.fixed, true)
+  assert.deepEqual((await client.query({ parent, userId })).data?.map(node => node.id), nodes.map(node => node.id))
+  assert.deepEqual((await client.check(branch)).data?.anomalies, [])
+  // Only the branches of `Nodes` should be checked.
+  assert.ok((await client.branches()).data?.includes(branch))
+  assert.equal((await client.check("Profile")).error?.message, "invalid branch = Profile")
+  // End
+  assert.end()
+})
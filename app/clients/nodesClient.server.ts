@@ -1,11 +1,45 @@
-import type { DynamoDBDocumentClient } from "@aws-sdk/lib-dynamodb"
+import { ulid, monotonicFactory } from "ulid"
 
 import { Client } from "./client.server"
-import { driver } from "../drivers/nodesDynamoDriver.server"
-import { Node, NodeItem, NodePatch, NodeMeta } from "../models/node"
+import { driver } from "../drivers/nodesDriver.server"
+import { Node, NodeItem, NodePatch, NodeMeta, NodeRevision, NodeSearchHit } from "../models/node"
 import type { DBClientResponse } from "../types"
-import { ModelNotFoundError } from "../server/errors.server"
-import type { NodesDynamoDriver, NodeDynamoItem } from "../drivers/nodesDynamoDriver.server"
+import { InvalidMoveError, ModelNotFoundError, PreconditionFailedError } from "../server/errors.server"
+import { createSearchTerms } from "../drivers/nodesDynamoDriver.server"
+import { checkBranch } from "../server/integrity.server"
+import type { NodeDynamoItem, NodeRevisionItem } from "../drivers/nodesDynamoDriver.server"
+import type { NodesDriver } from "../drivers/nodesDriver.server"
+import type { NodesBranchReport } from "../server/integrity.server"
+
+/**
+ * REVISION_COMPACTION_WINDOW is the time, in milliseconds, during which
+ * consecutive changes of the same user are merged into a single revision.
+ */
+export const REVISION_COMPACTION_WINDOW = 1000 * 60 * 5
+/**
+ * MAX_REVISIONS is the maximum number of revisions kept for each `Node`.
+ * Once reached, the oldest revisions are deleted.
+ */
+export const MAX_REVISIONS = 50
+/**
+ * createRevisionId creates the unique identifiers of the revisions. They must
+ * sort in creation order, even when created on the same millisecond.
+ */
+const createRevisionId = monotonicFactory()
+/**
+ * MAX_SEARCH_HITS is the default number of hits returned by a search.
+ */
+export const MAX_SEARCH_HITS = 20
+/**
+ * MAX_QUERY_DEPTH is the default number of levels of sub-nodes loaded by
+ * a recursive query.
+ */
+export const MAX_QUERY_DEPTH = 32
+/**
+ * QUERY_CONCURRENCY is the maximum number of branches read at once by a
+ * recursive query.
+ */
+export const QUERY_CONCURRENCY = 8
 
 /**
  * QueryParams is the configuration interface of a `#NodeDBClient.query()` command.
@@ -24,30 +58,58 @@ export interface NodesQueryParams {
    * of each sub-node recursively.
    */
   recursive?: boolean;
+  /**
+   * deep is a flag that, along with `recursive`, tells the client to get
+   * the sub-nodes of every sub-node, whether they are opened or not.
+   */
+  deep?: boolean;
+  /**
+   * depth is the maximum number of levels of sub-nodes loaded by a
+   * recursive query. Defaults to `MAX_QUERY_DEPTH`.
+   */
+  depth?: number;
+  /**
+   * limit is the maximum number of Nodes of each list. When set, the
+   * lists are paginated and the id of the last Node of an incomplete list
+   * is returned as its cursor.
+   */
+  limit?: number;
+  /**
+   * cursor is the id of the Node after which the list under `parent`
+   * starts. It's only used along with `limit`.
+   */
+  cursor?: string;
 }
 /**
  * NodesClient handles communication with the DynamoDB table.
  * @param config - Configuration object.
  */
-export class NodesClient extends Client<NodeItem, NodesQueryParams, NodeItem, NodeDynamoItem, NodePatch, DynamoDBDocumentClient> {
+export class NodesClient extends Client<NodeItem, NodesQueryParams, NodeItem, NodeDynamoItem, NodePatch, unknown> {
   /**
-   * driver is the interface to be used against a DynamoDB table.
+   * driver is the interface to be used against the database, selected
+   * through the `DB_DRIVER` environment variable.
    */
-  driver: NodesDynamoDriver = driver
+  driver: NodesDriver = driver
   /**
    * toModel converts a NodeDynamoItem into a Node object.
    * @param NodesObject - DynamoDB response to convert.
    */
   toModel(item: NodeDynamoItem): NodeItem {
-    const [b0, b1, b2] = item._b.split("#")
-    return {
+    const [b0, b1, b2] = (item._o || item._b).split("#")
+    const node: NodeItem = {
       id: item.id,
       content: item.content,
       userId: b0 === "Nodes" ? undefined : b0,
       parent: b1 === "Nodes" ? b2 : b1,
       interpreter: item._t,
       meta: item._m,
+      version: item._v || 0,
     }
+    if (item.createdAt !== undefined) node.createdAt = item.createdAt
+    if (item.updatedAt !== undefined) node.updatedAt = item.updatedAt
+    if (item.updatedBy !== undefined) node.updatedBy = item.updatedBy
+    if (item._d !== undefined) node.deletedAt = item._d
+    return node
   }
   /**
    * toBody converts a Node into a valid body value.
@@ -63,21 +125,31 @@ export class NodesClient extends Client<NodeItem, NodesQueryParams, NodeItem, No
   createPK(id?: string, userId?: string): string {
     return [userId, "Nodes", id].filter(x => x !== undefined).join("#")
   }
+  /**
+   * createTrashPK returns the branch that holds the trashed `Nodes`
+   * of a user.
+   * @param userId - Unique identifier of the user.
+   */
+  createTrashPK(userId?: string): string {
+    return [userId, "Trash"].filter(x => x !== undefined).join("#")
+  }
   /**
    * get returns a Node identified by its `id`.
    * @param id - `Node` unique identifier.
    * @param userId - User unique identifier.
+   * @param recursive - Gets the node plus its sub-nodes.
+   * @param limit - Maximum number of sub-nodes of each list.
+   * @param cursor - Id of the sub-node after which the sub-nodes start.
    */
-  async get(id: string, userId?: string, recursive: boolean = false): Promise<DBClientResponse<NodeItem>> {
+  async get(id: string, userId?: string, recursive: boolean = false, limit?: number, cursor?: string): Promise<DBClientResponse<NodeItem>> {
     try {
-      const pk = this.createPK(id, userId)
-      const item = await this.driver.get(pk)
-      if (!item) throw new ModelNotFoundError()
+      const item = await this.getItem(this.createPK(id, userId))
       const node = this.toModel(item)
       if (recursive) {
-        const { data, error } = await this.query({ parent: id, userId, recursive })
+        const { data, error, offset } = await this.query({ parent: id, userId, recursive, limit, cursor })
         if (error) throw error
         node.collection = data as NodeItem[]
+        if (offset !== undefined) node.cursor = offset
       }
       return { data: node }
     } catch (err) {
@@ -85,26 +157,82 @@ export class NodesClient extends Client<NodeItem, NodesQueryParams, NodeItem, No
     }
   }
   /**
-   * query returns a collection of Nodes.
+   * getItem returns the item of a `Node`. It fails with a
+   * `ModelNotFoundError` if the `Node`, or any of its ancestors, is in the
+   * trash.
+   * @param pk - `Node` unique identifier.
+   */
+  private async getItem(pk: string): Promise<NodeDynamoItem> {
+    const item = await this.driver.get(pk)
+    if (!item || item._d !== undefined) throw new ModelNotFoundError()
+    const ancestors = await this.driver.ancestors(pk)
+    if (ancestors.some(ancestor => ancestor._d !== undefined)) throw new ModelNotFoundError()
+    return item
+  }
+  /**
+   * isTrashed returns true if a `Node`, or any of its ancestors, is in the
+   * trash. Missing `Nodes` are not.
+   * @param pk - `Node` unique identifier.
+   */
+  private async isTrashed(pk: string): Promise<boolean> {
+    const item = await this.driver.get(pk)
+    if (!item) return false
+    if (item._d !== undefined) return true
+    const ancestors = await this.driver.ancestors(pk)
+    return ancestors.some(ancestor => ancestor._d !== undefined)
+  }
+  /**
+   * query returns a collection of Nodes. If a `limit` is given, only a
+   * page of each list is returned, and the `offset` is the cursor of the
+   * next page of the collection, if there is one.
    */
   async query(params: NodesQueryParams = {}): Promise<DBClientResponse<NodeItem[]>> {
     try {
-      const { parent, userId, recursive } = params
+      const { parent, userId, recursive, deep, depth = MAX_QUERY_DEPTH, limit, cursor } = params
       const pk = this.createPK(parent, userId)
-      const items = await this.driver.list(pk)
-      const nodes = items.map(this.toModel)
-      if (recursive) {
-        for (let node of nodes) {
-          if (node.meta?.isOpened) {
-            const { data, error } = await this.query({ parent: node.id, userId, recursive })
-            if (error) throw error
-            node.collection = data as NodeItem[]
-          }
-        }
-      }
-      return { data: nodes }
+      const { nodes, offset } = await this.list(pk, limit, cursor === undefined ? undefined : this.createPK(cursor, userId))
+      if (recursive) await this.fill(nodes, userId, deep, depth, limit)
+      return offset === undefined ? { data: nodes } : { data: nodes, offset }
     } catch (err) {
-      return { error: err.message }
+      return { error: err }
+    }
+  }
+  /**
+   * list returns the `Nodes` under a branch, or only a page of them if a
+   * `limit` is given, along with the id of the last `Node` of the page if
+   * the list continues after it.
+   * @param pk - Branch of the `Nodes`.
+   * @param limit - Maximum number of `Nodes` to return.
+   * @param cursor - `pk` of the `Node` after which the page starts.
+   */
+  private async list(pk: string, limit?: number, cursor?: string): Promise<{ nodes: NodeItem[], offset?: string }> {
+    if (limit === undefined) return { nodes: (await this.driver.list(pk)).map(this.toModel) }
+    const { items, offset } = await this.driver.page(pk, limit, cursor)
+    return { nodes: items.map(this.toModel), offset: offset === undefined ? undefined : items[items.length - 1].id }
+  }
+  /**
+   * fill loads the sub-nodes of the opened `Nodes` of a list, one level at
+   * a time. The branches of a level are read concurrently, up to
+   * `QUERY_CONCURRENCY` at once.
+   * @param nodes - `Nodes` whose sub-nodes should be loaded.
+   * @param userId - User unique identifier.
+   * @param deep - Flag that also loads the sub-nodes of closed `Nodes`.
+   * @param depth - Number of levels of the tree the `Nodes` belong to. The
+   *                `Nodes` themselves are the first one.
+   * @param limit - Maximum number of sub-nodes loaded for each `Node`.
+   */
+  private async fill(nodes: NodeItem[], userId?: string, deep: boolean = false, depth: number = MAX_QUERY_DEPTH, limit?: number): Promise<void> {
+    let level = nodes
+    for (let i = 1; i < depth && level.length > 0; i++) {
+      const opened = level.filter(node => node.meta?.isOpened || deep)
+      const branches = await mapConcurrently(opened, QUERY_CONCURRENCY, node => this.list(this.createPK(node.id, userId), limit))
+      level = []
+      opened.forEach((node, index) => {
+        const { nodes, offset } = branches[index]
+        node.collection = nodes
+        if (offset !== undefined) node.cursor = offset
+        level.push(...node.collection)
+      })
     }
   }
   /**
@@ -112,8 +240,10 @@ export class NodesClient extends Client<NodeItem, NodesQueryParams, NodeItem, No
    * @param id - `Node` unique identifier.
    * @param userId - User unique identifier.
    * @param meta - Metadata to be updated.
+   * @param version - Expected version of the `Node`. The metadata is not
+   *                  part of the version, so it's not increased.
    */
-  async meta(id: string, userId?: string, meta?: NodeMeta): Promise<DBClientResponse<NodeMeta | undefined>> {
+  async meta(id: string, userId?: string, meta?: NodeMeta, version?: number): Promise<DBClientResponse<NodeMeta | undefined>> {
     try {
       if (!meta) {
         const { data, error } = await this.get(id, userId)
@@ -121,11 +251,13 @@ export class NodesClient extends Client<NodeItem, NodesQueryParams, NodeItem, No
         return { data: data.meta }
       }
       const pk = this.createPK(id, userId)
+      const item = await this.getItem(pk)
+      if (version !== undefined && (item._v || 0) !== version) throw new PreconditionFailedError()
       const ok = await this.driver.meta(pk, meta)
       if (!ok) throw new Error(`couldn't apply new metadata changes to the node with id = ${id}`)
       return { data: meta }
     } catch (err) {
-      return { error: err.message }
+      return { error: err }
     }
   }
   /**
@@ -138,17 +270,118 @@ export class NodesClient extends Client<NodeItem, NodesQueryParams, NodeItem, No
       const pk = this.createPK(node.id, node.userId)
       const parentPk = this.createPK(node.parent, node.userId)
       const afterPk = afterId ? this.createPK(afterId, node.userId) : undefined
+      if (await this.isTrashed(parentPk)) throw new ModelNotFoundError()
       const ok = await this.driver.put(pk, node, parentPk, afterPk)
       if (!ok) throw new Error(`error while storing node with pk = ${pk} at parent = ${parentPk}`)
       return { data: node }
     } catch (err) {
-      return { error: err.message }
+      return { error: err }
+    }
+  }
+  /**
+   * update updates the content or the interpreter of a `Node`, and records
+   * the change on its history. If a `version` is given, the update fails
+   * with a `PreconditionFailedError` when the `Node` is on another version.
+   * @param id - `Node` unique identifier.
+   * @param patch - Patch to apply to the `Node`.
+   * @param userId - User unique identifier.
+   * @param version - Expected version of the `Node`.
+   */
+  async update(id: string, patch: NodePatch, userId?: string, version?: number): Promise<DBClientResponse<undefined>> {
+    try {
+      const pk = this.createPK(id, userId)
+      const item = await this.getItem(pk)
+      if (version !== undefined && (item._v || 0) !== version) throw new PreconditionFailedError()
+      const content = typeof patch.content === "string" ? patch.content : item.content
+      const interpreter = patch.interpreter || item._t
+      // An undefined interpreter is rendered as markdown.
+      if (content === item.content && (interpreter || "markdown") === (item._t || "markdown")) return {}
+      // The update is conditioned to the version that was read, so the
+      // recorded revision can't miss a concurrent change.
+      const ok = await this.driver.update(pk, patch, item._v || 0, userId)
+      if (!ok) throw new Error(`couldn't update the node with id = ${id}`)
+      await this.record(pk, item, { content, interpreter }, userId)
+      return {}
+    } catch (err) {
+      return { error: err }
+    }
+  }
+  /**
+   * record stores a new revision of a `Node`. The first recorded change
+   * also stores the content the `Node` had before it, and changes made by
+   * the same user within `REVISION_COMPACTION_WINDOW` of the latest
+   * revision replace it instead of creating a new one.
+   * @param pk - `Node` unique identifier.
+   * @param item - `Node` item before the change.
+   * @param patch - New content and interpreter of the `Node`.
+   * @param userId - Unique identifier of the user that made the change.
+   */
+  private async record(pk: string, item: NodeDynamoItem, patch: Pick<NodeRevision, "content" | "interpreter">, userId?: string): Promise<void> {
+    const revisions = (await this.driver.revisions(pk)).map(this.toRevision)
+    const now = Date.now()
+    if (revisions.length === 0) {
+      const original: NodeRevision = { id: createRevisionId(), content: item.content, interpreter: item._t, createdAt: now }
+      await this.driver.putRevision(pk, original)
+      revisions.push(original)
+    }
+    const latest = revisions[revisions.length - 1]
+    const compact = latest.userId !== undefined && latest.userId === userId && now - latest.createdAt < REVISION_COMPACTION_WINDOW
+    const revision: NodeRevision = { ...patch, id: compact ? latest.id : createRevisionId(), userId, createdAt: now }
+    await this.driver.putRevision(pk, revision)
+    if (!compact) revisions.push(revision)
+    if (revisions.length > MAX_REVISIONS) {
+      await this.driver.deleteRevisions(pk, revisions.slice(0, revisions.length - MAX_REVISIONS).map(({ id }) => id))
+    }
+  }
+  /**
+   * toRevision converts a NodeRevisionItem into a NodeRevision object.
+   * @param item - Revision item to convert.
+   */
+  toRevision(item: NodeRevisionItem): NodeRevision {
+    const revision: NodeRevision = { id: item.id, content: item.content, createdAt: item._c }
+    if (item._t) revision.interpreter = item._t
+    if (item._u) revision.userId = item._u
+    return revision
+  }
+  /**
+   * history returns the revisions of a `Node`, starting from the most
+   * recent one.
+   * @param id - `Node` unique identifier.
+   * @param userId - User unique identifier.
+   */
+  async history(id: string, userId?: string): Promise<DBClientResponse<NodeRevision[]>> {
+    try {
+      const pk = this.createPK(id, userId)
+      await this.getItem(pk)
+      const revisions = await this.driver.revisions(pk)
+      return { data: revisions.map(this.toRevision).reverse() }
+    } catch (err) {
+      return { error: err }
+    }
+  }
+  /**
+   * revert sets the content and interpreter of a `Node` back to the ones
+   * of one of its revisions. The change is recorded as a new revision.
+   * @param id - `Node` unique identifier.
+   * @param revisionId - Unique identifier of the revision to restore.
+   * @param userId - User unique identifier.
+   */
+  async revert(id: string, revisionId: string, userId?: string): Promise<DBClientResponse<undefined>> {
+    try {
+      const { data, error } = await this.history(id, userId)
+      if (error) throw error
+      const revision = data.find(revision => revision.id === revisionId)
+      if (revision === undefined) throw new ModelNotFoundError()
+      return this.update(id, { content: revision.content, interpreter: revision.interpreter || "markdown" }, userId)
+    } catch (err) {
+      return { error: err }
     }
   }
   /**
    * after drops a `Node` to the position after another `Node`. If
    * `after` is `undefined` then the `Node` should be dragged to
-   * the beginning of the list.
+   * the beginning of the list. It fails with an `InvalidMoveError` if
+   * the `Node` after which it should be positioned isn't on the list.
    * @param id - Node unique identifier.
    * @param parent - Node parent.
    * @param afterId - Unique identifier of the `Node` after which the
@@ -160,15 +393,355 @@ export class NodesClient extends Client<NodeItem, NodesQueryParams, NodeItem, No
       const pk = this.createPK(id, userId)
       const _b = this.createPK(parent, userId)
       const apk = !afterId ? undefined : this.createPK(afterId, userId)
+      await this.getItem(pk)
+      if (await this.isTrashed(_b)) throw new ModelNotFoundError()
       const ok = await this.driver.after(pk, _b, apk)
-      if (!ok) throw new Error(`couldn't move node with id = ${id} after node with id ${afterId}`)
+      if (!ok) throw new InvalidMoveError(`couldn't move node with id = ${id} after node with id = ${afterId}`)
+      return {}
+    } catch (err) {
+      return { error: err }
+    }
+  }
+  /**
+   * duplicate creates a copy of a `Node` right after the original one.
+   * If `deep` is `true`, all of its sub-nodes are copied as well. Every
+   * copy gets a new unique identifier.
+   * @param id - `Node` unique identifier.
+   * @param userId - User unique identifier.
+   * @param deep - Flag that also copies the sub-nodes of the `Node`.
+   */
+  async duplicate(id: string, userId?: string, deep: boolean = false): Promise<DBClientResponse<NodeItem>> {
+    try {
+      const { data: node, error } = await this.get(id, userId)
+      if (error) throw error
+      if (deep) {
+        const { data, error } = await this.query({ parent: id, userId, recursive: true, deep, depth: Infinity })
+        if (error) throw error
+        node.collection = data
+      }
+      const [copy] = this.copy([node])
+      // The sub-nodes are stored first, so they only become reachable
+      // once the copy is linked after the original `Node`.
+      const path = await this.createPath(this.createPK(node.parent, userId))
+      await this.putCopies(copy.collection || [], userId, [...path, this.createPK(copy.id, userId)])
+      const { error: putError } = await this.put(copy, id)
+      if (putError) throw putError
+      return { data: copy }
+    } catch (err) {
+      return { error: err }
+    }
+  }
+  /**
+   * copy returns a copy of a list of `Nodes`, and their sub-nodes, with new
+   * unique identifiers.
+   * @param nodes - `Nodes` to copy.
+   * @param parent - Unique identifier of the parent of the copies.
+   */
+  private copy(nodes: NodeItem[], parent?: string): NodeItem[] {
+    return nodes.map(node => {
+      const copy: NodeItem = { ...node, id: ulid() }
+      if (parent !== undefined) copy.parent = parent
+      if (node.collection) copy.collection = this.copy(node.collection, copy.id)
+      return copy
+    })
+  }
+  /**
+   * putCollections stores the sub-nodes of a list of new `Nodes`, with a
+   * single batched write per branch. The `Nodes` themselves are not stored,
+   * so their sub-nodes only become reachable once they are put under the
+   * parent they have.
+   * @param nodes - New `Nodes` whose sub-nodes should be stored.
+   * @param userId - User unique identifier.
+   */
+  async putCollections(nodes: NodeItem[], userId?: string): Promise<DBClientResponse<undefined>> {
+    try {
+      for (let node of nodes) {
+        const path = await this.createPath(this.createPK(node.parent, userId))
+        await this.putCopies(node.collection || [], userId, [...path, this.createPK(node.id, userId)])
+      }
+      return {}
+    } catch (err) {
+      return { error: err }
+    }
+  }
+  /**
+   * deleteCollections permanently deletes the sub-nodes stored by
+   * `putCollections` for a list of new `Nodes` that couldn't be stored.
+   * @param nodes - New `Nodes` whose sub-nodes should be deleted.
+   * @param userId - User unique identifier.
+   */
+  async deleteCollections(nodes: NodeItem[], userId?: string): Promise<DBClientResponse<undefined>> {
+    try {
+      for (let node of nodes) {
+        const ok = await this.driver.purge(this.createPK(node.id, userId))
+        if (!ok) throw new Error(`couldn't delete the sub-nodes of the node with id = ${node.id}`)
+      }
+      return {}
+    } catch (err) {
+      return { error: err }
+    }
+  }
+  /**
+   * createPath returns the `pk` of a `Node` along with the ones of its
+   * ancestors, starting from the root. It's empty for the root of the tree.
+   * @param pk - `Node` unique identifier.
+   */
+  private async createPath(pk: string): Promise<string[]> {
+    const [item, ancestors] = await Promise.all([this.driver.get(pk), this.driver.ancestors(pk)])
+    if (item === undefined) return []
+    return [...ancestors.reverse().map(ancestor => ancestor.pk), pk]
+  }
+  /**
+   * putCopies stores the sub-nodes of a list of copied `Nodes`, one branch at a time.
+   * The path of each branch is built from the one of its parent, so it isn't read.
+   * @param nodes - Copied `Nodes` to store.
+   * @param userId - User unique identifier.
+   * @param path - `pk` of the parent of the copies along with the ones of
+   *               its ancestors, starting from the root.
+   */
+  private async putCopies(nodes: NodeItem[], userId: string | undefined, path: string[]): Promise<void> {
+    if (nodes.length === 0) return
+    for (let node of nodes) {
+      await this.putCopies(node.collection || [], userId, [...path, this.createPK(node.id, userId)])
+    }
+    const parent = this.createPK(nodes[0].parent, userId)
+    const items = nodes.map(node => ({ pk: this.createPK(node.id, userId), body: node }))
+    const ok = await this.driver.putBranch(parent, items, path)
+    if (!ok) throw new Error(`couldn't store the copies under parent = ${parent}`)
+  }
+  /**
+   * delete moves a `Node`, along with all its sub-nodes, to the trash.
+   * @param id - `Node` unique identifier.
+   * @param userId - User unique identifier.
+   * @param version - Expected version of the `Node`.
+   */
+  async delete(id: string, userId?: string, version?: number): Promise<DBClientResponse<undefined>> {
+    try {
+      const pk = this.createPK(id, userId)
+      const ok = await this.driver.trash(pk, this.createTrashPK(userId), Date.now(), version)
+      if (!ok) throw new Error(`couldn't move the node with id = ${id} to the trash`)
+      return {}
+    } catch (err) {
+      return { error: err }
+    }
+  }
+  /**
+   * trash returns the list of `Nodes` currently in the trash of a user,
+   * sorted from the most recently deleted.
+   * @param userId - User unique identifier.
+   */
+  async trash(userId?: string): Promise<DBClientResponse<NodeItem[]>> {
+    try {
+      const items = await this.driver.branch(this.createTrashPK(userId))
+      const nodes = items.map(this.toModel).sort((a, b) => b.deletedAt - a.deletedAt)
+      return { data: nodes }
+    } catch (err) {
+      return { error: err }
+    }
+  }
+  /**
+   * ancestors returns the ancestors of a `Node`, starting from the root of
+   * the tree. It fails with a `ModelNotFoundError` if the `Node`, or any of
+   * its ancestors, is in the trash.
+   * @param id - `Node` unique identifier.
+   * @param userId - User unique identifier.
+   */
+  async ancestors(id: string, userId?: string): Promise<DBClientResponse<NodeItem[]>> {
+    try {
+      const pk = this.createPK(id, userId)
+      const item = await this.driver.get(pk)
+      if (!item || item._d !== undefined) throw new ModelNotFoundError()
+      const ancestors = await this.driver.ancestors(pk)
+      if (ancestors.some(ancestor => ancestor._d !== undefined)) throw new ModelNotFoundError()
+      return { data: ancestors.reverse().map(this.toModel) }
+    } catch (err) {
+      return { error: err }
+    }
+  }
+  /**
+   * search returns the `Nodes` of a user whose content contains every term
+   * of a query. Hits are scored by how many times the terms appear on them,
+   * with rarer terms weighting more, and come with their ancestors. Trashed
+   * `Nodes` are left out.
+   * @param query - Search query.
+   * @param userId - User unique identifier.
+   * @param limit - Maximum number of hits to return.
+   */
+  async search(query: string, userId?: string, limit: number = MAX_SEARCH_HITS): Promise<DBClientResponse<NodeSearchHit[]>> {
+    try {
+      const terms = Object.keys(createSearchTerms(query))
+      if (terms.length === 0) return { data: [] }
+      const root = this.createPK(undefined, userId)
+      const postings = await Promise.all(terms.map(term => this.driver.search(root, term)))
+      const documents = await this.driver.documents(root)
+      const total = Math.max(documents, new Set(postings.flat().map(item => item.id)).size)
+      const scores = new Map<string, { score: number, matches: number }>()
+      for (let items of postings) {
+        const weight = Math.log(1 + total / items.length)
+        for (let item of items) {
+          const { score, matches } = scores.get(item.id) || { score: 0, matches: 0 }
+          scores.set(item.id, { score: score + item._f * weight, matches: matches + 1 })
+        }
+      }
+      const ranked = [...scores.entries()]
+        .filter(([_, { matches }]) => matches === terms.length)
+        .sort(([_a, a], [_b, b]) => b.score - a.score)
+      const hits: NodeSearchHit[] = []
+      // Hits are loaded a page at a time, since some of them may be trashed.
+      for (let i = 0; i < ranked.length && hits.length < limit; i += limit) {
+        const page = ranked.slice(i, i + limit)
+        const items = await this.driver.batchGet(page.map(([id]) => this.createPK(id, userId)))
+        const paths = await this.paths(items.filter(item => item._d === undefined), root)
+        for (let [id, { score }] of page) {
+          if (hits.length === limit) break
+          const item = items.find(item => item.id === id)
+          const path = item && paths.get(item.pk)
+          if (!path) continue
+          hits.push({ node: this.toModel(item), path: path.map(this.toModel), score })
+        }
+      }
+      return { data: hits }
+    } catch (err) {
+      return { error: err }
+    }
+  }
+  /**
+   * paths returns the ancestors of a list of `Node` items, root first,
+   * loading them together. Items with a trashed ancestor are left out.
+   * @param items - `Node` items.
+   * @param root - Root branch of the tree of the user.
+   */
+  private async paths(items: NodeDynamoItem[], root: string): Promise<Map<string, NodeDynamoItem[]>> {
+    const pks = new Set(items.flatMap(item => [item._b, ...(item._p || [])]).filter(pk => pk !== root))
+    const ancestors = new Map((await this.driver.batchGet([...pks])).map(item => [item.pk, item]))
+    const result = new Map<string, NodeDynamoItem[]>()
+    for (let item of items) {
+      let path: NodeDynamoItem[] = []
+      for (let pk = item._b; pk !== root;) {
+        const ancestor = ancestors.get(pk)
+        // The path hint may be stale, so the ancestors are read one at a time.
+        if (!ancestor || path.includes(ancestor)) {
+          path = await this.driver.ancestors(item.pk)
+          break
+        }
+        path.push(ancestor)
+        pk = ancestor._b
+      }
+      if (path.some(ancestor => ancestor._d !== undefined)) continue
+      result.set(item.pk, path.reverse())
+    }
+    return result
+  }
+  /**
+   * restore moves a `Node` out of the trash. If its parent no longer
+   * exists, or if it's in the trash along with any of its ancestors, the
+   * `Node` is restored at the end of the root list.
+   * @param id - `Node` unique identifier.
+   * @param userId - User unique identifier.
+   */
+  async restore(id: string, userId?: string): Promise<DBClientResponse<undefined>> {
+    try {
+      const pk = this.createPK(id, userId)
+      const item = await this.driver.get(pk)
+      if (!item || item._d === undefined || !item._o) throw new ModelNotFoundError()
+      const root = this.createPK(undefined, userId)
+      let parent = root
+      if (item._o !== root) {
+        const parentItem = await this.driver.get(item._o)
+        if (parentItem && parentItem._d === undefined) {
+          const ancestors = await this.driver.ancestors(item._o)
+          if (ancestors.every(ancestor => ancestor._d === undefined)) parent = item._o
+        }
+      }
+      const ok = await this.driver.restore(pk, this.createTrashPK(userId), parent)
+      if (!ok) throw new Error(`couldn't restore the node with id = ${id}`)
       return {}
     } catch (err) {
-      return { error: err.message }
+      return { error: err }
+    }
+  }
+  /**
+   * purge permanently deletes the `Nodes` that were moved to the trash
+   * before a given time, along with all their sub-nodes.
+   * @param before - Time in milliseconds.
+   * @param userId - User unique identifier.
+   */
+  async purge(before: number, userId?: string): Promise<DBClientResponse<number>> {
+    try {
+      const items = await this.driver.branch(this.createTrashPK(userId))
+      const expired = items.filter(item => item._d < before)
+      for (let item of expired) {
+        await this.driver.purge(item.pk)
+      }
+      return { data: expired.length }
+    } catch (err) {
+      return { error: err }
+    }
+  }
+  /**
+   * branches returns every branch that holds a `Nodes` linked list, for
+   * every user. Other items stored on the same table, like the profiles
+   * of the users, are left out.
+   */
+  async branches(): Promise<DBClientResponse<string[]>> {
+    try {
+      const branches = await this.driver.branches()
+      return { data: branches.filter(isNodesBranch) }
+    } catch (err) {
+      return { error: err }
+    }
+  }
+  /**
+   * check looks for inconsistencies on the linked list of a branch. If
+   * `fix` is set and any is found, the list is relinked: the unreachable
+   * `Nodes` are appended after the tail and the `head` item is rebuilt.
+   * @param branch - Branch to check.
+   * @param fix - Flag that repairs the branch.
+   */
+  async check(branch: string, fix: boolean = false): Promise<DBClientResponse<NodesBranchReport>> {
+    try {
+      if (!isNodesBranch(branch)) throw new Error(`invalid branch = ${branch}`)
+      const report = checkBranch(branch, await this.driver.branch(branch))
+      if (fix && report.anomalies.length > 0) report.fixed = await this.driver.relink(branch, report.order)
+      return { data: report }
+    } catch (err) {
+      return { error: err }
     }
   }
 }
 /**
  * client is a preconfigured instance of the NodesClient class.
  */
-export const client = new NodesClient()
\ No newline at end of file
+export const client = new NodesClient()
+/**
+ * Functions
+ */
+/**
+ * mapConcurrently calls an async function with every value of a list, with
+ * up to `concurrency` calls running at once, and returns their results in
+ * the order of the list.
+ * @param values - Values to map.
+ * @param concurrency - Maximum number of concurrent calls.
+ * @param fn - Async function to call with every value.
+ */
+async function mapConcurrently<T, R>(values: T[], concurrency: number, fn: (value: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(values.length)
+  let next = 0
+  const worker = async () => {
+    while (next < values.length) {
+      const index = next++
+      results[index] = await fn(values[index])
+    }
+  }
+  await Promise.all(Array.from({ length: Math.min(concurrency, values.length) }, worker))
+  return results
+}
+/**
+ * isNodesBranch checks if a branch holds the sub-nodes of a `Node`, or the
+ * top level `Nodes` of a user.
+ * @param branch - Branch to check.
+ */
+function isNodesBranch(branch: string): boolean {
+  const segments = branch.split("#")
+  return segments[segments.length - 1] === "Nodes" || segments[segments.length - 2] === "Nodes"
+}
\ No newline at end of file
@@ -0,0 +1,81 @@
+import test from "tape"
+import { ulid } from "ulid"
+import type { Test } from "tape"
+
+import { client, hashSecret, TOKEN_PREFIX } from "./tokensClient.server"
+import { ModelNotFoundError } from "../server/errors.server"
+import type { TokenItem, TokenScope } from "../models/token"
+
+test("tokensClient.createPK()", async (assert: Test) => {
+  const id = ulid()
+  const userId = ulid()
+  assert.throws(() => client.createPK(), "id can't be undefined")
+  assert.throws(() => client.createPK(id), "userId can't be undefined")
+  assert.equal(client.createPK(id, userId), `${userId}#Tokens#${id}`)
+  assert.end()
+})
+
+test("tokensClient.create()", async (assert: Test) => {
+  const userId = ulid()
+  const root = ulid()
+  const { data, error } = await client.create(userId, "  script  ", "write", root)
+  assert.equal(error, undefined, "error should be undefined")
+  assert.equal(data.token.name, "script", "should trim the name")
+  assert.equal(data.token.scope, "write")
+  assert.equal(data.token.root, root)
+  assert.ok(data.secret.startsWith(`${TOKEN_PREFIX}_${userId}_${data.token.id}_`), "should prefix the secret")
+  // Only the hash of the secret should be stored.
+  const item = await client.driver.get(client.createPK(data.token.id, userId))
+  assert.equal(item.hash, hashSecret(data.secret), "should store the hash of the secret")
+  assert.ok(!Object.values(item).includes(data.secret), "shouldn't store the secret")
+  // The stored token shouldn't expose the hash.
+  assert.deepEqual(await client.get(data.token.id, userId), { data: data.token })
+  // Tokens limited to the home Node can access every Node.
+  const home = await client.create(userId, "home", "read", "home")
+  assert.equal(home.data.token.root, undefined, "should ignore the home root")
+  assert.end()
+})
+
+test("tokensClient.create() validation", async (assert: Test) => {
+  const userId = ulid()
+  assert.equal((await client.create(userId, " ", "read")).error?.name, "InvalidRequestError", "should reject empty names")
+  assert.equal((await client.create(userId, "x".repeat(101), "read")).error?.name, "InvalidRequestError", "should reject long names")
+  assert.equal((await client.create(userId, "script", "admin" as unknown as TokenScope)).error?.name, "InvalidRequestError", "should reject unknown scopes")
+  assert.deepEqual(await client.query(userId), { data: [] }, "shouldn't store invalid tokens")
+  assert.end()
+})
+
+test("tokensClient.verify()", async (assert: Test) => {
+  const userId = ulid()
+  const { data } = await client.create(userId, "script", "read")
+  // Should return the token of a valid secret, and record its use.
+  const verified = await client.verify(data.secret)
+  assert.equal(verified.error, undefined, "error should be undefined")
+  assert.equal(verified.data.id, data.token.id)
+  assert.equal(verified.data.userId, userId)
+  assert.ok(verified.data.lastUsedAt >= data.token.createdAt, "should set the last used time")
+  assert.equal((await client.get(data.token.id, userId)).data.lastUsedAt, verified.data.lastUsedAt, "should store the last used time")
+  // Should reject malformed, or tampered, secrets.
+  const tampered = data.secret.slice(0, -1) + (data.secret.endsWith("0") ? "1" : "0")
+  for (let secret of ["", ulid(), tampered, data.secret.replace(userId, ulid())]) {
+    assert.equal((await client.verify(secret)).error?.name, "UnauthorizedError", "should reject invalid secrets")
+  }
+  // Should reject the secrets of deleted tokens.
+  await client.delete(data.token.id, userId)
+  assert.equal((await client.verify(data.secret)).error?.name, "UnauthorizedError", "should reject revoked tokens")
+  assert.end()
+})
+
+test("tokensClient.query()", async (assert: Test) => {
+  const userId = ulid()
+  const first = await client.create(userId, "first", "read")
+  const second = await client.create(userId, "second", "write")
+  await client.create(ulid(), "other", "read")
+  const byId = (a: TokenItem, b: TokenItem) => a.id < b.id ? -1 : 1
+  const { data } = await client.query(userId)
+  assert.deepEqual(data.sort(byId), [first.data.token, second.data.token].sort(byId), "should list the tokens of the user")
+  await client.delete(first.data.token.id, userId)
+  assert.deepEqual(await client.query(userId), { data: [second.data.token] }, "shouldn't list deleted tokens")
+  assert.deepEqual(await client.get(first.data.token.id, userId), { error: new ModelNotFoundError() })
+  assert.end()
+})
@@ -0,0 +1,182 @@
+import { createHash, randomBytes, timingSafeEqual } from "crypto"
+import { ulid } from "ulid"
+
+import { Client } from "./client.server"
+import { driver } from "../drivers/tokensDriver.server"
+import { InvalidRequestError, UnauthorizedError } from "../server/errors.server"
+import type { TokenDynamoBody, TokenDynamoItem } from "../drivers/tokensDynamoDriver.server"
+import type { TokensDriver } from "../drivers/tokensDriver.server"
+import type { CreatedToken, TokenItem, TokenPatch, TokenScope } from "../models/token"
+import type { DBClientResponse } from "../types"
+
+/**
+ * TOKEN_PREFIX is the prefix of every personal API token secret, so they
+ * can be told apart from other credentials.
+ */
+export const TOKEN_PREFIX = "rnt"
+/**
+ * TOKEN_SCOPES are the valid scopes of a token.
+ */
+export const TOKEN_SCOPES: TokenScope[] = ["read", "write"]
+/**
+ * MAX_TOKEN_NAME_LENGTH is the maximum length of the name of a token.
+ */
+export const MAX_TOKEN_NAME_LENGTH = 100
+/**
+ * TOKEN_TOUCH_INTERVAL is the minimum time, in milliseconds, between two
+ * updates of the last used time of a token, so a script doesn't write on
+ * every request it makes.
+ */
+const TOKEN_TOUCH_INTERVAL = 1000 * 60
+/**
+ * SECRET_PATTERN matches a token secret, capturing the user id, the token
+ * id and its random part.
+ */
+const SECRET_PATTERN = new RegExp(`^${TOKEN_PREFIX}_(.+)_([0-9A-Z]{26})_([0-9a-f]{64})$`)
+
+/**
+ * TokensClient handles the personal API tokens of the users.
+ */
+export class TokensClient extends Client<TokenItem, string, TokenDynamoBody, TokenDynamoItem, TokenPatch, unknown> {
+  /**
+   * driver is the interface to be used against the database, selected
+   * through the `DB_DRIVER` environment variable.
+   */
+  driver: TokensDriver = driver
+  /**
+   * createPK returns a valid Primary Key from the token id and its user id.
+   * @param id - Token unique identifier.
+   * @param userId - User unique identifier.
+   */
+  createPK(id?: string, userId?: string): string {
+    if (!id) throw new Error("id can't be undefined")
+    if (!userId) throw new Error("userId can't be undefined")
+    return `${this.createBranch(userId)}#${id}`
+  }
+  /**
+   * createBranch returns the branch that holds the tokens of a user.
+   * @param userId - User unique identifier.
+   */
+  createBranch(userId: string): string {
+    return `${userId}#Tokens`
+  }
+  /**
+   * toModel turns a stored item into a token, leaving its hash out.
+   * @param item - Item returned from the database.
+   */
+  toModel = (item: TokenDynamoItem): TokenItem => {
+    const token: TokenItem = {
+      id: item.id,
+      userId: item.pk.split("#")[0],
+      name: item.name,
+      scope: item.scope,
+      createdAt: item.createdAt,
+    }
+    if (item.root !== undefined) token.root = item.root
+    if (item.lastUsedAt !== undefined) token.lastUsedAt = item.lastUsedAt
+    return token
+  }
+  /**
+   * toBody converts a token, along with the hash of its secret, into a
+   * valid body value.
+   * @param token - Token to convert.
+   */
+  toBody = (token: TokenItem & { hash: string }): TokenDynamoBody => {
+    const body: TokenDynamoBody = {
+      _b: this.createBranch(token.userId),
+      id: token.id,
+      name: token.name,
+      scope: token.scope,
+      hash: token.hash,
+      createdAt: token.createdAt || Date.now(),
+    }
+    if (token.root !== undefined) body.root = token.root
+    return body
+  }
+  /**
+   * query returns the tokens of a user, oldest first.
+   * @param userId - User unique identifier.
+   */
+  async query(userId?: string): Promise<DBClientResponse<TokenItem[]>> {
+    try {
+      if (!userId) throw new Error("userId can't be undefined")
+      const items = await this.driver.list(this.createBranch(userId))
+      return { data: items.map(this.toModel) }
+    } catch (err) {
+      return { error: err }
+    }
+  }
+  /**
+   * create stores a new token for a user, and returns it along with its
+   * secret. Only the hash of the secret is stored.
+   * @param userId - User unique identifier.
+   * @param name - Label of the token.
+   * @param scope - Access the token grants.
+   * @param root - Unique identifier of the `Node` the token is limited to.
+   */
+  async create(userId: string, name: string, scope: TokenScope, root?: string): Promise<DBClientResponse<CreatedToken>> {
+    try {
+      name = name.trim()
+      if (name === "") throw new InvalidRequestError("name can't be empty")
+      if (name.length > MAX_TOKEN_NAME_LENGTH) throw new InvalidRequestError(`name can't be longer than ${MAX_TOKEN_NAME_LENGTH} characters`)
+      if (!TOKEN_SCOPES.includes(scope)) throw new InvalidRequestError(`invalid scope = ${scope}`)
+      const token: TokenItem = { id: ulid(), userId, name, scope, createdAt: Date.now() }
+      if (root && root !== "home") token.root = root
+      const secret = `${TOKEN_PREFIX}_${userId}_${token.id}_${randomBytes(32).toString("hex")}`
+      const ok = await this.driver.put(this.createPK(token.id, userId), this.toBody({ ...token, hash: hashSecret(secret) }))
+      if (!ok) throw new Error("put error")
+      return { data: { token, secret } }
+    } catch (err) {
+      return { error: err }
+    }
+  }
+  /**
+   * verify returns the token a secret belongs to. It fails with an
+   * `UnauthorizedError` if the secret isn't valid, or if its token was
+   * revoked. The last used time of the token is updated at most once
+   * every `TOKEN_TOUCH_INTERVAL`.
+   * @param secret - Secret sent on the `Authorization` header.
+   */
+  async verify(secret: string): Promise<DBClientResponse<TokenItem>> {
+    try {
+      const match = secret.match(SECRET_PATTERN)
+      if (!match) throw new UnauthorizedError("invalid token")
+      const pk = this.createPK(match[2], match[1])
+      const item = await this.driver.get(pk)
+      if (!item || !isSameHash(item.hash, hashSecret(secret))) throw new UnauthorizedError("invalid token")
+      const token = this.toModel(item)
+      const now = Date.now()
+      if (now - (token.lastUsedAt || 0) >= TOKEN_TOUCH_INTERVAL) {
+        await this.driver.update(pk, { lastUsedAt: now })
+        token.lastUsedAt = now
+      }
+      return { data: token }
+    } catch (err) {
+      return { error: err }
+    }
+  }
+}
+/**
+ * client is a preconfigured instance of the TokensClient class.
+ */
+export const client = new TokensClient()
+/**
+ * Functions
+ */
+/**
+ * hashSecret returns the SHA-256 hash of a token secret, hex encoded.
+ * @param secret - Token secret.
+ */
+export function hashSecret(secret: string): string {
+  return createHash("sha256").update(secret).digest("hex")
+}
+/**
+ * isSameHash compares two hashes in constant time.
+ * @param a - First hash.
+ * @param b - Second hash.
+ */
+function isSameHash(a: string, b: string): boolean {
+  const bufferA = Buffer.from(a || "", "hex")
+  const bufferB = Buffer.from(b, "hex")
+  return bufferA.length === bufferB.length && timingSafeEqual(bufferA, bufferB)
+}
@@ -1,17 +1,17 @@
-import type { DynamoDBDocumentClient } from "@aws-sdk/lib-dynamodb"
-
 import { Client } from "./client.server"
-import { driver } from "../drivers/usersDynamoDriver.server"
+import { driver } from "../drivers/usersDriver.server"
 import { User, UserBody } from "../models/user"
-import type { UsersDynamoDriver, UserItem } from "../drivers/usersDynamoDriver.server"
+import type { UserItem } from "../drivers/usersDynamoDriver.server"
+import type { UsersDriver } from "../drivers/usersDriver.server"
 
 export type UserPatch = Pick<UserBody, "avatarURL" | "name" | "location">
 
-export class UsersClient extends Client<User, undefined, UserBody, UserItem, UserPatch, DynamoDBDocumentClient> {
+export class UsersClient extends Client<User, undefined, UserBody, UserItem, UserPatch, unknown> {
   /**
-   * driver is the interface to be used agains a DynamoDB table.
+   * driver is the interface to be used against the database, selected
+   * through the `DB_DRIVER` environment variable.
    */
-  driver: UsersDynamoDriver = driver
+  driver: UsersDriver = driver
   /**
    * createPK returns a valid Primary Key from the id and the provider
    */
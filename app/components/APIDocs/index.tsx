@@ -1,6 +1,8 @@
-import { ReactNode } from "react"
+import { ReactNode, useCallback, useState } from "react"
+import type { FormEvent } from "react"
 
 import { ScrollArea } from "../ScrollArea"
+import type { OpenAPIDocument, OpenAPIOperation, OpenAPIParameter } from "../../server/openapi.server"
 
 export interface APIDocsProps {
   endpoint: string;
@@ -35,4 +37,183 @@ APIDocs.Input = ({ label, children }: { label: string, children: ReactNode }) =>
       <div className={`APIDocs__Input--content`}>{children}</div>
     </ScrollArea>
   </div>
-)
\ No newline at end of file
+)
+/**
+ * METHODS are the HTTP methods an OpenAPI path can describe, in the order
+ * they are listed.
+ */
+const METHODS = ["get", "post", "put", "patch", "delete"]
+/**
+ * APIExplorerProps represent the props of the APIExplorer component.
+ */
+export interface APIExplorerProps {
+  /**
+   * document is the OpenAPI document that describes the API.
+   */
+  document: OpenAPIDocument;
+  /**
+   * isSignedIn is a flag that tells if the requests can be executed.
+   */
+  isSignedIn: boolean;
+}
+/**
+ * APIExplorerResult is the response of an executed request.
+ */
+interface APIExplorerResult {
+  /**
+   * statusCode is the status code of the response.
+   */
+  statusCode: number;
+  /**
+   * body is the body of the response, formatted when it's JSON.
+   */
+  body: string;
+}
+/**
+ * APIExplorer lists the endpoints described by an OpenAPI document, grouped
+ * by their tags, with an example request for each one of them. Signed in
+ * users can execute the requests against their own data.
+ */
+export function APIExplorer({ document, isSignedIn }: APIExplorerProps) {
+  const operations = Object.entries(document.paths).flatMap(([path, methods]) =>
+    METHODS.filter(method => methods[method]).map(method => ({ path, method, operation: methods[method] }))
+  )
+  return (
+    <div className="APIExplorer">
+      <h1>API Docs</h1>
+      <p className="APIExplorer__Description">
+        {document.info.description} The OpenAPI document is available at <a href="/api/openapi.json">/api/openapi.json</a>.
+        {!isSignedIn && " Sign in to execute the requests."}
+      </p>
+      {document.tags.map(tag => (
+        <section key={tag.name} className="APIExplorer__Tag">
+          <h2 className="APIExplorer__Tag--name">{tag.name}</h2>
+          <p className="APIExplorer__Description">{tag.description}</p>
+          {operations.filter(({ operation }) => operation.tags.includes(tag.name)).map(({ path, method, operation }) => (
+            <APIExplorer.Operation key={operation.operationId} path={path} method={method} operation={operation} isSignedIn={isSignedIn} />
+          ))}
+        </section>
+      ))}
+    </div>
+  )
+}
+
+APIExplorer.Operation = ({ path, method, operation, isSignedIn }: { path: string, method: string, operation: OpenAPIOperation, isSignedIn: boolean }) => {
+  const parameters = operation.parameters || []
+  const example = operation.requestBody?.content["application/json"]?.example
+  const [values, setValues] = useState<{ [name: string]: string }>(() =>
+    Object.fromEntries(parameters.map(parameter => [parameter.name, parameter.example === undefined ? "" : String(parameter.example)]))
+  )
+  const [body, setBody] = useState(example === undefined ? "" : JSON.stringify(example, null, 2))
+  const [isLoading, setIsLoading] = useState(false)
+  const [result, setResult] = useState<APIExplorerResult | undefined>(undefined)
+  const url = toURL(path, parameters, values)
+  /**
+   * handleSubmit executes the request, and shows its response.
+   */
+  const handleSubmit = useCallback(async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    setIsLoading(true)
+    try {
+      const headers = new Headers({ "Accept": "application/json" })
+      for (let parameter of parameters) {
+        if (parameter.in === "header" && values[parameter.name] !== "") headers.set(parameter.name, values[parameter.name])
+      }
+      if (operation.requestBody) headers.set("Content-Type", "application/json")
+      const response = await fetch(url, { method: method.toUpperCase(), headers, body: operation.requestBody ? body : undefined })
+      const text = await response.text()
+      let formatted = text
+      try {
+        formatted = JSON.stringify(JSON.parse(text), null, 2)
+      } catch (err) {
+        // The body isn't JSON, so it's shown as it is.
+      }
+      setResult({ statusCode: response.status, body: formatted })
+    } catch (err) {
+      setResult({ statusCode: 0, body: err.message })
+    } finally {
+      setIsLoading(false)
+    }
+  }, [url, method, operation, parameters, values, body])
+
+  return (
+    <details className="APIExplorer__Operation">
+      <summary className="APIExplorer__Operation--summary">
+        <span className={`APIExplorer__Method APIExplorer__Method--${method}`}>{method.toUpperCase()}</span>
+        <code className="APIExplorer__Path">{path}</code>
+        <span>{operation.summary}</span>
+      </summary>
+      {operation.description && <p className="APIExplorer__Description">{operation.description}</p>}
+      <form className="APIExplorer__Form" onSubmit={handleSubmit}>
+        {parameters.map(parameter => (
+          <label key={parameter.name} className="APIExplorer__Parameter">
+            <span className="APIExplorer__Parameter--name">{parameter.name}{parameter.required && " *"} <small>({parameter.in})</small></span>
+            <input
+              value={values[parameter.name]}
+              onChange={(e) => setValues({ ...values, [parameter.name]: e.currentTarget.value })}
+              placeholder={parameter.description}
+              className="APIExplorer__Parameter--input"
+            />
+          </label>
+        ))}
+        {operation.requestBody &&
+          <textarea value={body} onChange={(e) => setBody(e.currentTarget.value)} className="APIExplorer__Body" rows={6} aria-label="Body" />
+        }
+        <APIDocs.Input label="Example Request">
+          <pre>{toExample(method, url, parameters, values, operation.requestBody ? body : undefined)}</pre>
+        </APIDocs.Input>
+        <button type="submit" disabled={!isSignedIn || isLoading} className="APIExplorer__Execute">
+          {isLoading ? "Executing…" : "Execute"}
+        </button>
+      </form>
+      {result &&
+        <APIDocs.Container>
+          <APIDocs.Details>
+            <APIDocs.Input label="Endpoint">{url}</APIDocs.Input>
+            <APIDocs.Input label="Status Code">{result.statusCode}</APIDocs.Input>
+          </APIDocs.Details>
+          <APIDocs.Input label="Body">{result.body}</APIDocs.Input>
+        </APIDocs.Container>
+      }
+    </details>
+  )
+}
+/**
+ * Functions
+ */
+/**
+ * toURL replaces the path parameters of an endpoint, and appends the query
+ * parameters that have a value.
+ * @param path - Path of the endpoint.
+ * @param parameters - Parameters of the operation.
+ * @param values - Values of the parameters, by name.
+ */
+function toURL(path: string, parameters: OpenAPIParameter[], values: { [name: string]: string }): string {
+  const query = new URLSearchParams()
+  let url = path
+  for (let parameter of parameters) {
+    const value = values[parameter.name]
+    if (parameter.in === "path") url = url.replace(`{${parameter.name}}`, encodeURIComponent(value))
+    if (parameter.in === "query" && value !== "") query.set(parameter.name, value)
+  }
+  const search = query.toString()
+  return search === "" ? url : `${url}?${search}`
+}
+/**
+ * toExample returns an example `curl` command of a request.
+ * @param method - HTTP method of the request.
+ * @param url - URL of the request.
+ * @param parameters - Parameters of the operation.
+ * @param values - Values of the parameters, by name.
+ * @param body - Body of the request.
+ */
+function toExample(method: string, url: string, parameters: OpenAPIParameter[], values: { [name: string]: string }, body?: string): string {
+  const origin = typeof window === "undefined" ? "" : window.location.origin
+  const lines = [`curl -X ${method.toUpperCase()} '${origin}${url}'`]
+  for (let parameter of parameters) {
+    if (parameter.in === "header" && values[parameter.name] !== "") lines.push(`-H '${parameter.name}: ${values[parameter.name]}'`)
+  }
+  lines.push("-H 'Cookie: ReNodes_root_session=…'")
+  if (body !== undefined) lines.push("-H 'Content-Type: application/json'", `-d '${body.replace(/'/g, "'\\''")}'`)
+  return lines.join(" \\\n  ")
+}
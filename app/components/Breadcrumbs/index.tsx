@@ -0,0 +1,40 @@
+import { toTitle } from "../../hooks/useParsedContent"
+import type { NodeItem } from "../../models/node"
+
+/**
+ * BreadcrumbsProps represent the props of the Breadcrumbs component.
+ */
+export interface BreadcrumbsProps {
+  /**
+   * node is the Node being shown.
+   */
+  node: NodeItem;
+  /**
+   * path is the list of ancestors of the Node, starting from the root.
+   */
+  path: NodeItem[];
+}
+/**
+ * Breadcrumbs renders a link to every ancestor of a Node, starting from
+ * the home Node, followed by the title of the Node itself.
+ */
+export function Breadcrumbs({ node, path }: BreadcrumbsProps) {
+  if (node.id === "home") return null
+  return (
+    <nav className="Breadcrumbs" aria-label="Breadcrumbs">
+      <ol className="Breadcrumbs__List">
+        <li className="Breadcrumbs__Item">
+          <a href="/home" className="Breadcrumbs__Link">Home</a>
+        </li>
+        {path.map(ancestor => (
+          <li key={ancestor.id} className="Breadcrumbs__Item">
+            <a href={`/${ancestor.id}`} className="Breadcrumbs__Link">{toTitle(ancestor.content)}</a>
+          </li>
+        ))}
+        <li className="Breadcrumbs__Item Breadcrumbs__Item--current" aria-current="page">
+          {toTitle(node.content)}
+        </li>
+      </ol>
+    </nav>
+  )
+}
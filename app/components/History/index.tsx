@@ -0,0 +1,123 @@
+import type { NodeItem, NodeRevision } from "../../models/node"
+
+/**
+ * DiffLine represents a single line of the difference between two texts.
+ */
+export interface DiffLine {
+  /**
+   * type tells if the line was added, removed, or is on both texts.
+   */
+  type: "added" | "removed" | "unchanged";
+  /**
+   * value is the content of the line.
+   */
+  value: string;
+}
+/**
+ * HistoryProps represent the props of the History component.
+ */
+export interface HistoryProps {
+  /**
+   * node is the current version of the Node.
+   */
+  node: NodeItem;
+  /**
+   * revisions is the list of revisions of the Node, most recent first.
+   */
+  revisions: NodeRevision[];
+  /**
+   * userId is the unique identifier of the current user.
+   */
+  userId?: string;
+}
+/**
+ * History renders the list of revisions of a Node, and lets the user compare
+ * them with the current content and restore them.
+ */
+export function History({ node, revisions, userId }: HistoryProps) {
+  return (
+    <div className="History">
+      <h2 className="History__Title">History</h2>
+      <p className="History__Description">
+        Revisions of <a href={`/${node.id}`}>{node.content.split("\n")[0] || "an empty Node"}</a>. Open a revision to compare it with the current content.
+        Restoring a revision keeps the current content as a new revision.
+      </p>
+      {revisions.length === 0
+        ? <p className="History__Empty">This Node hasn't been edited yet.</p>
+        : <ul className="History__List">
+          {revisions.map(revision => <History.Item key={revision.id} node={node} revision={revision} userId={userId} />)}
+        </ul>
+      }
+    </div>
+  )
+}
+
+History.Item = ({ node, revision, userId }: { node: NodeItem, revision: NodeRevision, userId?: string }) => {
+  const createdAt = new Date(revision.createdAt)
+  const isCurrent = revision.content === node.content && (revision.interpreter || "markdown") === (node.interpreter || "markdown")
+  const author = revision.userId === undefined
+    ? "Original content"
+    : revision.userId === userId ? "Edited by you" : `Edited by ${revision.userId}`
+  return (
+    <li className="History__Item">
+      <details className="History__Item--details">
+        <summary className="History__Item--summary">
+          <span title={createdAt.toISOString()}>{createdAt.toLocaleString()}</span>
+          <span className="History__Item--author">{author} · {revision.interpreter || "markdown"}</span>
+        </summary>
+        <pre className="History__Diff">
+          {diffLines(revision.content, node.content).map((line, index) => (
+            <div key={index} className={`History__Diff--${line.type}`}>
+              {line.type === "added" ? "+ " : line.type === "removed" ? "- " : "  "}{line.value}
+            </div>
+          ))}
+        </pre>
+      </details>
+      {isCurrent
+        ? <span className="History__Item--current">Current</span>
+        : <form method="post" action={`/${node.id}/history`} className="History__Item--form">
+          <input type="hidden" name="revisionId" value={revision.id} />
+          <button type="submit" className="History__Item--restore">Restore</button>
+        </form>
+      }
+    </li>
+  )
+}
+/**
+ * Functions
+ */
+/**
+ * diffLines returns the lines that have to be removed from, or added to, a
+ * text to get another one. It uses the longest common subsequence of lines
+ * of both texts, which is good enough for the size of a Node.
+ * @param from - Original text.
+ * @param to - Modified text.
+ */
+export function diffLines(from: string, to: string): DiffLine[] {
+  const a = from.split("\n")
+  const b = to.split("\n")
+  // lcs[i][j] holds the length of the longest common subsequence of a[i:] and b[j:].
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+  const result: DiffLine[] = []
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push({ type: "unchanged", value: a[i] })
+      i++
+      j++
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      result.push({ type: "removed", value: a[i++] })
+    } else {
+      result.push({ type: "added", value: b[j++] })
+    }
+  }
+  while (i < a.length) result.push({ type: "removed", value: a[i++] })
+  while (j < b.length) result.push({ type: "added", value: b[j++] })
+  return result
+}
@@ -0,0 +1,130 @@
+import { useCallback, useState } from "react"
+import type { ChangeEvent, FormEvent } from "react"
+
+import { toTitle } from "../../hooks/useParsedContent"
+import type { NodeItem, NodesFormat, NodesImportResult } from "../../models/node"
+
+/**
+ * headers is a constant that configures the appropiate headers to use on a fetch request.
+ */
+const headers = new Headers()
+headers.append("Accept", "application/json")
+headers.append("Content-Type", "application/x-www-form-urlencoded;charset=UTF-8")
+/**
+ * EXTENSIONS maps the extension of an uploaded file to its format.
+ */
+const EXTENSIONS: { [extension: string]: NodesFormat } = {
+  md: "markdown",
+  markdown: "markdown",
+  txt: "markdown",
+  opml: "opml",
+  xml: "opml",
+  json: "json",
+}
+/**
+ * ImportProps represent the props of the Import component.
+ */
+export interface ImportProps {
+  /**
+   * node is the Node where the imported Nodes will be added.
+   */
+  node: NodeItem;
+}
+/**
+ * Import renders a form to paste, or upload, a Markdown outline, an OPML
+ * file or a ReNodes JSON export, and add its Nodes at the end of the
+ * collection of a Node.
+ */
+export function Import({ node }: ImportProps) {
+  const [document, setDocument] = useState("")
+  const [format, setFormat] = useState<NodesFormat | "">("")
+  const [isLoading, setIsLoading] = useState(false)
+  const [result, setResult] = useState<NodesImportResult | undefined>(undefined)
+  const [error, setError] = useState<string | undefined>(undefined)
+  /**
+   * handleFileChange loads an uploaded file into the document, and guesses
+   * its format from its extension.
+   */
+  const handleFileChange = useCallback(async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.currentTarget.files?.[0]
+    if (!file) return
+    const extension = file.name.split(".").pop().toLowerCase()
+    if (EXTENSIONS[extension]) setFormat(EXTENSIONS[extension])
+    setDocument(await file.text())
+  }, [setDocument, setFormat])
+  /**
+   * handleSubmit sends the document to be imported.
+   */
+  const handleSubmit = useCallback(async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    setIsLoading(true)
+    setResult(undefined)
+    setError(undefined)
+    try {
+      const response = await fetch(`/${node.id}/import`, {
+        method: "POST",
+        headers,
+        body: new URLSearchParams({ document, format }).toString(),
+      })
+      const body = await response.json()
+      if (!response.ok) throw new Error(body.error || response.statusText)
+      setResult(body)
+    } catch (err) {
+      setError(err.message)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [node, document, format])
+
+  return (
+    <div className="Import">
+      <h2 className="Import__Title">Import</h2>
+      <p className="Import__Description">
+        Paste, or upload, a Markdown outline, an OPML file or a ReNodes JSON export. Its Nodes will be added at the end
+        of <a href={`/${node.id}`}>{node.id === "home" ? "Home" : toTitle(node.content)}</a>.
+      </p>
+      <form className="Import__Form" onSubmit={handleSubmit}>
+        <div className="Import__Controls">
+          <input type="file" accept=".md,.markdown,.txt,.opml,.xml,.json" onChange={handleFileChange} className="Import__File" />
+          <select value={format} onChange={(e) => setFormat(e.currentTarget.value as NodesFormat | "")} className="Import__Format" aria-label="Format">
+            <option value="">Detect format</option>
+            <option value="markdown">Markdown</option>
+            <option value="opml">OPML</option>
+            <option value="json">JSON</option>
+          </select>
+        </div>
+        <textarea
+          value={document}
+          onChange={(e) => setDocument(e.currentTarget.value)}
+          placeholder={"- A Node\n  - A sub-node"}
+          className="Import__Document"
+          rows={16}
+        />
+        <button type="submit" disabled={isLoading || document.trim() === ""} className="Import__Submit">
+          {isLoading ? "Importing…" : "Import"}
+        </button>
+      </form>
+      {error && <p className="Import__Error">{error}</p>}
+      {result && <Import.Result node={node} result={result} />}
+    </div>
+  )
+}
+
+Import.Result = ({ node, result }: { node: NodeItem, result: NodesImportResult }) => {
+  return (
+    <div className="Import__Result">
+      <p className="Import__Description">
+        Imported {result.imported} {result.imported === 1 ? "Node" : "Nodes"}. <a href={`/${node.id}`}>Go back</a>.
+      </p>
+      {result.errors.length > 0 &&
+        <ul className="Import__Errors">
+          {result.errors.map(error => (
+            <li key={error.index} className="Import__Error">
+              #{error.index + 1} "{toTitle(error.content)}": {error.error}
+            </li>
+          ))}
+        </ul>
+      }
+    </div>
+  )
+}
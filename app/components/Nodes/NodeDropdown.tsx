@@ -2,6 +2,7 @@ import * as DropdownMenu from "@radix-ui/react-dropdown-menu"
 import { FontAwesomeIcon } from "@fortawesome/react-fontawesome"
 
 import { NodeControl } from "./NodeControl"
+import type { NodesFormat } from "../../models/node"
 /**
  * VOID is a placeholder function that does nothing.
  */
@@ -22,6 +23,26 @@ export interface NodeDropdown {
    * onDelete is the callback called when the delete action is triggered.
    */
   onDelete?: () => void;
+  /**
+   * Flag that indicates wether the duplicate option should be available.
+   */
+  noDuplicate?: boolean;
+  /**
+   * onDuplicate is the callback called when the duplicate action is triggered.
+   */
+  onDuplicate?: () => void;
+  /**
+   * onHistory is the callback called when the history action is triggered.
+   */
+  onHistory?: () => void;
+  /**
+   * onExport is the callback called when the export action is triggered.
+   */
+  onExport?: (format: NodesFormat) => void;
+  /**
+   * onImport is the callback called when the import action is triggered.
+   */
+  onImport?: () => void;
   /**
    * onAdd is the callback called when the add action is triggered.
    */
@@ -50,6 +71,11 @@ export function NodeDropdown({
   noExternalLink = false,
   onExternalLink,
   onDelete,
+  noDuplicate = false,
+  onDuplicate,
+  onHistory,
+  onExport,
+  onImport,
   onAdd,
   interpreter,
   onInterpreter,
@@ -111,6 +137,48 @@ export function NodeDropdown({
           <div className="DropdownMenu__CenterSlot">Add Node</div>
           <div className="DropdownMenu__RightSlot">⇧+Enter</div>
         </DropdownMenu.Item>
+        {!noDuplicate &&
+          <DropdownMenu.Item className="DropdownMenu__Item" onSelect={onDuplicate ? onDuplicate : VOID}>
+            <div className="DropdownMenu__LeftSlot"> <FontAwesomeIcon icon={["fas", "copy"]} /></div>
+            <div className="DropdownMenu__CenterSlot">Duplicate Node</div>
+            <div className="DropdownMenu__RightSlot"></div>
+          </DropdownMenu.Item>
+        }
+        <DropdownMenu.Item className="DropdownMenu__Item" onSelect={onHistory ? onHistory : VOID}>
+          <div className="DropdownMenu__LeftSlot"> <FontAwesomeIcon icon={["fas", "history"]} /></div>
+          <div className="DropdownMenu__CenterSlot">History</div>
+          <div className="DropdownMenu__RightSlot"></div>
+        </DropdownMenu.Item>
+        <DropdownMenu.Root>
+          <DropdownMenu.TriggerItem className="DropdownMenu__Item">
+            <div className="DropdownMenu__LeftSlot"> <FontAwesomeIcon icon={["fas", "download"]} /></div>
+            <div className="DropdownMenu__CenterSlot">Export</div>
+            <div className="DropdownMenu__RightSlot"><FontAwesomeIcon icon={["fas", "chevron-right"]} /></div>
+          </DropdownMenu.TriggerItem>
+          <DropdownMenu.Content className="DropdownMenu__Content" sideOffset={2} alignOffset={-5}>
+            <DropdownMenu.Label className="DropdownMenu__Label">Export</DropdownMenu.Label>
+            <DropdownMenu.Item className="DropdownMenu__Item" onSelect={() => onExport && onExport("markdown")}>
+              <div className="DropdownMenu__LeftSlot"></div>
+              <div className="DropdownMenu__CenterSlot">Markdown</div>
+              <div className="DropdownMenu__RightSlot"></div>
+            </DropdownMenu.Item>
+            <DropdownMenu.Item className="DropdownMenu__Item" onSelect={() => onExport && onExport("opml")}>
+              <div className="DropdownMenu__LeftSlot"></div>
+              <div className="DropdownMenu__CenterSlot">OPML</div>
+              <div className="DropdownMenu__RightSlot"></div>
+            </DropdownMenu.Item>
+            <DropdownMenu.Item className="DropdownMenu__Item" onSelect={() => onExport && onExport("json")}>
+              <div className="DropdownMenu__LeftSlot"></div>
+              <div className="DropdownMenu__CenterSlot">JSON</div>
+              <div className="DropdownMenu__RightSlot"></div>
+            </DropdownMenu.Item>
+          </DropdownMenu.Content>
+        </DropdownMenu.Root>
+        <DropdownMenu.Item className="DropdownMenu__Item" onSelect={onImport ? onImport : VOID}>
+          <div className="DropdownMenu__LeftSlot"> <FontAwesomeIcon icon={["fas", "upload"]} /></div>
+          <div className="DropdownMenu__CenterSlot">Import</div>
+          <div className="DropdownMenu__RightSlot"></div>
+        </DropdownMenu.Item>
         <DropdownMenu.Item className="DropdownMenu__Item DropdownMenu__Item--red" onSelect={onDelete ? onDelete : VOID}>
           <div className="DropdownMenu__LeftSlot"> <FontAwesomeIcon icon={["fas", "trash"]} /></div>
           <div className="DropdownMenu__CenterSlot">Delete Node</div>
@@ -1,19 +1,28 @@
-import { useState, useCallback } from "react";
+import { useState, useCallback, useEffect, useRef } from "react";
 import TextareaAutosize from "react-textarea-autosize";
 import { useDebounceCallback } from "@react-hook/debounce"
-import type { KeyboardEventHandler, FormEvent } from "react"
+import cn from "classnames"
+import type { KeyboardEventHandler, FormEvent, SyntheticEvent } from "react"
 
 import { useMarked } from "../../hooks/useMarked"
-import { useParsedContent } from "../../hooks/useParsedContent"
+import { useParsedContent, parse } from "../../hooks/useParsedContent"
 import { useHasMounted } from "../../hooks/useHasMounted"
+import { useCollaboration } from "../../hooks/useCollaboration"
 import { ScrollArea } from "../../components/ScrollArea"
 import { Loader } from "../Utils/Loader"
 import type { ParsedContent } from "../../hooks/useParsedContent"
+import type { CollabPeer } from "../../models/collab"
+import type { TextSelection } from "../../models/textOperation"
 
 /**
  * NodeInterpreterProps represent the props of the NodeInterpreter component.
  */
 export interface NodeInterpreterProps {
+  /**
+   * id is the unique identifier of the Node being interpreted. Its content
+   * is edited collaboratively when it's set.
+   */
+  id?: string;
   /**
    * isInEditMode is a flag used to indicate if the Node being interpreted is
    * in edit mode.
@@ -35,8 +44,16 @@ export interface NodeInterpreterProps {
   /**
    * onSave is called whenever the user wants to save the current edits.
    * @param content - Edited content to save.
+   * @param version - Version the content was persisted as, if it was.
    */
-  onSave: (content: string) => void;
+  onSave: (content: string, version?: number) => void;
+  /**
+   * onSync is called whenever the collaborative editing session persists
+   * the content.
+   * @param content - Persisted content.
+   * @param version - Version the content was persisted as.
+   */
+  onSync?: (content: string, version: number) => void;
   /**
    * onAdd is called whenever the user wants to add a Node after the one
    * being edited.
@@ -46,6 +63,16 @@ export interface NodeInterpreterProps {
    * onDelete is called if the user wants to delete the Node being edited.
    */
   onDelete: () => void;
+  /**
+   * onIndent is called if the user wants to move the Node being edited inside
+   * its previous sibling.
+   */
+  onIndent?: () => void;
+  /**
+   * onOutdent is called if the user wants to move the Node being edited after
+   * its parent.
+   */
+  onOutdent?: () => void;
   /**
    * tabIndex is the tab index to apply on an interpreter input for better
    * page handling.
@@ -59,6 +86,7 @@ export function NodeInterpreter({ isInEditMode, interpreter, ...props }: NodeInt
   if (isInEditMode) return <NodeEditInterpreter {...props} />
   switch (interpreter) {
     case "code": return <NodeCodeInterpreter {...props} />
+    case "task": return <NodeTaskInterpreter {...props} />
     default: return <NodeMarkdownInterpreter {...props} />
   }
 }
@@ -66,6 +94,11 @@ export function NodeInterpreter({ isInEditMode, interpreter, ...props }: NodeInt
  * NodeEditInterpreterProps are thr props for the NodeEditInterpreter component.
  */
 export interface NodeEditInterpreterProps {
+  /**
+   * id is the unique identifier of the Node being edited. Its content is
+   * edited collaboratively when it's set.
+   */
+  id?: string;
   /**
    * content is the serialized version of the code
    */
@@ -78,8 +111,16 @@ export interface NodeEditInterpreterProps {
   /**
    * onSave is called whenever the user wants to save the current edits.
    * @param content - Edited content to save.
+   * @param version - Version the content was persisted as, if it was.
+   */
+  onSave: (content: string, version?: number) => void;
+  /**
+   * onSync is called whenever the collaborative editing session persists
+   * the content.
+   * @param content - Persisted content.
+   * @param version - Version the content was persisted as.
    */
-  onSave: (content: string) => void;
+  onSync?: (content: string, version: number) => void;
   /**
    * onAdd is called whenever the user wants to add a Node after the one
    * being edited.
@@ -89,13 +130,23 @@ export interface NodeEditInterpreterProps {
    * onDelete is called if the user wants to delete the Node being edited.
    */
   onDelete: () => void;
+  /**
+   * onIndent is called if the user wants to move the Node being edited inside
+   * its previous sibling.
+   */
+  onIndent?: () => void;
+  /**
+   * onOutdent is called if the user wants to move the Node being edited after
+   * its parent.
+   */
+  onOutdent?: () => void;
   /**
    * tabIndex is the tab index to apply on an interpreter input for better
    * page handling.
    */
   tabIndex?: number;
 }
-export function NodeEditInterpreter({ content, onChange, onSave, ...props }: NodeEditInterpreterProps) {
+export function NodeEditInterpreter({ id, content, onChange, onSave, ...props }: NodeEditInterpreterProps) {
   const parsed = useParsedContent<ParsedContent>(content, { content: "" })
   /**
    * handleChange can handle both simple contents, and serialized content objects.
@@ -110,41 +161,73 @@ export function NodeEditInterpreter({ content, onChange, onSave, ...props }: Nod
   /**
    * handleSave can handle both simple contents, and serialized content objects.
    * @param content - Updated content.
+   * @param version - Version the content was persisted as, if it was.
    */
-  const handleSave = useCallback((content: string) => {
+  const handleSave = useCallback((content: string, version?: number) => {
     onSave(parsed.meta !== undefined
       ? JSON.stringify({ ...parsed, content })
-      : content
+      : content,
+      version
     )
   }, [onSave, parsed])
 
   return <NodeEditInterpreterComponent
     {...props}
+    // Serialized content objects are edited on their own, since the
+    // collaborative editing session changes the content as a whole.
+    id={parsed.meta === undefined ? id : undefined}
     onChange={handleChange}
     onSave={handleSave}
     content={parsed.content}
   />
 }
 /**
- * NodeEditInterpreter interprets the content as a textare component.
+ * NodeEditInterpreter interprets the content as a textare component. If the
+ * Node `id` is set, the content is edited along with the other users editing
+ * it, and the collaborative editing session persists it.
  */
-export function NodeEditInterpreterComponent({ content, onChange, onSave, onAdd, onDelete, ...props }: NodeEditInterpreterProps) {
+export function NodeEditInterpreterComponent({ id, content, onChange, onSave, onSync, onAdd, onDelete, onIndent, onOutdent, ...props }: NodeEditInterpreterProps) {
   const [unbouncedContent, setDebouncedContent] = useState(content)
   const onDebouncedChange = useDebounceCallback(onChange, 1000)
+  const collaboration = useCollaboration(id, content, onSync)
+  const isCollaborating = collaboration.status !== "disconnected"
+  const value = isCollaborating ? collaboration.text : unbouncedContent
+  const textarea = useRef<HTMLTextAreaElement>(null)
   /**
    * handleChange handles updates to the content
    * @param e - React form event of an HTMLTextAreaElement
    */
   const handleChange = useCallback((e: FormEvent<HTMLTextAreaElement>) => {
     const updatedContent = e.currentTarget.value
+    if (isCollaborating) return collaboration.change(updatedContent, toSelection(e.currentTarget))
     setDebouncedContent(updatedContent)
     if (updatedContent !== content) onDebouncedChange(updatedContent)
-  }, [onDebouncedChange, setDebouncedContent, content])
+  }, [onDebouncedChange, setDebouncedContent, content, isCollaborating, collaboration.change])
+  /**
+   * handleSelect sends the selection of the user to the other users.
+   * @param e - React event of an HTMLTextAreaElement
+   */
+  const handleSelect = useCallback((e: SyntheticEvent<HTMLTextAreaElement>) => {
+    if (isCollaborating) collaboration.select(toSelection(e.currentTarget))
+  }, [isCollaborating, collaboration.select])
+  /**
+   * handleBlur persists the content edited collaboratively.
+   */
+  const handleBlur = useCallback(() => {
+    if (isCollaborating) collaboration.save().catch(() => undefined)
+  }, [isCollaborating, collaboration.save])
   /**
    * handleKeyDown holds the logic to manage the different key bindings supported.
    * @param e - React KeyboardEvent object for an HTMLTextAreaElement
    */
   const handleKeyDown = useCallback<KeyboardEventHandler<HTMLTextAreaElement>>((e) => {
+    if (e.key === "Tab" && !e.ctrlKey && onIndent && onOutdent) {
+      e.preventDefault()
+      // Flush the pending edits before the Node is moved.
+      if (!isCollaborating && unbouncedContent !== content) onChange(unbouncedContent)
+      e.shiftKey ? onOutdent() : onIndent()
+      return
+    }
     if (!e.shiftKey && !e.ctrlKey) return
     switch (e.key) {
       case "Enter": {
@@ -158,23 +241,106 @@ export function NodeEditInterpreterComponent({ content, onChange, onSave, onAdd,
         return
       }
       case "s": {
-        onSave(unbouncedContent)
+        if (!isCollaborating) return onSave(unbouncedContent)
+        collaboration.save().then(
+          (saved) => onSave(saved.content, saved.version),
+          () => onSave(collaboration.text)
+        )
         return
       }
     }
-  }, [onAdd, onDelete, onSave, unbouncedContent])
+  }, [onAdd, onDelete, onSave, onChange, onIndent, onOutdent, content, unbouncedContent, isCollaborating, collaboration])
+  // Keep editing the content on its own if the session is lost.
+  useEffect(() => {
+    if (!id || collaboration.status !== "disconnected") return
+    setDebouncedContent(collaboration.text)
+    if (collaboration.text !== content) onDebouncedChange(collaboration.text)
+  }, [id, collaboration.status])
+  // Keep the caret of the user next to the same characters when the other
+  // users change the content.
+  useEffect(() => {
+    const { selection } = collaboration
+    if (!selection || !textarea.current || document.activeElement !== textarea.current) return
+    const [start, end] = [selection.anchor, selection.head].sort((a, b) => a - b)
+    textarea.current.setSelectionRange(start, end, selection.anchor > selection.head ? "backward" : "forward")
+  }, [collaboration.selection])
 
-  return (
+  const input = (
     <TextareaAutosize
       name="content"
       className="Interpreter Interpreter__Edit"
-      value={unbouncedContent}
+      value={value}
       onChange={handleChange}
       onKeyDown={handleKeyDown}
       autoFocus={true}
       {...props}
+      {...(id && {
+        ref: textarea,
+        readOnly: collaboration.status === "connecting",
+        onSelect: handleSelect,
+        onBlur: handleBlur,
+      })}
     />
   )
+  if (!id) return input
+  return (
+    <div className="Interpreter__Collab">
+      {input}
+      <NodeCollabCarets text={value} peers={collaboration.peers} />
+      {collaboration.peers.length > 0 &&
+        <ul className="Interpreter__Collab--peers">
+          {collaboration.peers.map(peer => (
+            <li key={peer.clientId} style={{ backgroundColor: peer.color }}>{peer.name}</li>
+          ))}
+        </ul>
+      }
+    </div>
+  )
+}
+/**
+ * NodeCollabCaretsProps represent the props of the NodeCollabCarets component.
+ */
+export interface NodeCollabCaretsProps {
+  /**
+   * text is the content being edited.
+   */
+  text: string;
+  /**
+   * peers are the other users editing the content.
+   */
+  peers: CollabPeer[];
+}
+/**
+ * NodeCollabCarets shows the carets of the other users editing a content. It
+ * lays the content out like the textarea it covers, with a mark on each
+ * caret.
+ */
+export function NodeCollabCarets({ text, peers }: NodeCollabCaretsProps) {
+  const carets = peers
+    .filter(peer => peer.selection !== undefined)
+    .map(peer => ({ peer, index: Math.min(peer.selection.head, text.length) }))
+    .sort((a, b) => a.index - b.index)
+  let index = 0
+  const children = []
+  for (let caret of carets) {
+    children.push(text.slice(index, caret.index))
+    children.push(
+      <span
+        key={caret.peer.clientId}
+        className="Interpreter__Collab--caret"
+        style={{ borderColor: caret.peer.color, backgroundColor: caret.peer.color }}
+        data-name={caret.peer.name}
+      />
+    )
+    index = caret.index
+  }
+  children.push(text.slice(index))
+
+  return (
+    <div className="Interpreter Interpreter__Edit Interpreter__Collab--carets" aria-hidden={true}>
+      {children}
+    </div>
+  )
 }
 /**
  * NodeCodeInterpreterProps defines the porps of the NodeCodeInterpreter component.
@@ -304,6 +470,195 @@ export function NodeCodeInterpreterComponent({ language, content, filename, onFi
     </div>
   )
 }
+/**
+ * TaskPriority are the priorities that can be given to a task.
+ */
+export type TaskPriority = "low" | "medium" | "high"
+/**
+ * TaskParsedContent describes the types of the deserialized content of a
+ * Node interpreted as a task.
+ */
+export interface TaskParsedContent {
+  /**
+   * content is the description of the task, written as Markdown.
+   */
+  content: string;
+  /**
+   * meta holds the state of the task.
+   */
+  meta: {
+    /**
+     * done is a flag that indicates that the task was completed.
+     */
+    done: boolean;
+    /**
+     * due is the date, as YYYY-MM-DD, by which the task should be completed.
+     */
+    due?: string;
+    /**
+     * priority is the priority of the task.
+     */
+    priority?: TaskPriority;
+    /**
+     * assignee is the name of the person in charge of the task.
+     */
+    assignee?: string;
+  }
+}
+/**
+ * TaskProgress represents how many of the tasks of a collection are done.
+ */
+export interface TaskProgress {
+  /**
+   * done is the number of completed tasks.
+   */
+  done: number;
+  /**
+   * total is the number of tasks.
+   */
+  total: number;
+}
+/**
+ * NodeTaskInterpreterProps defines the props of the NodeTaskInterpreter component.
+ */
+export interface NodeTaskInterpreterProps {
+  /**
+   * content is the serialized data
+   */
+  content: string;
+  /**
+   * onChange updates the content of the Node.
+   */
+  onChange: (content: string) => void;
+}
+/**
+ * NodeTaskInterpreter handles the logic of the NodeTaskInterpreterComponent.
+ */
+export function NodeTaskInterpreter({ content, onChange }: NodeTaskInterpreterProps) {
+  const parsed = useParsedContent<TaskParsedContent>(content, { content: "", meta: { done: false } })
+  const [assignee, setAssignee] = useState(parsed.meta.assignee || "")
+  /**
+   * handleMetaChange applies a change on the state of the task.
+   * @param meta - Task attributes to change.
+   */
+  const handleMetaChange = useCallback((meta: Partial<TaskParsedContent["meta"]>) => {
+    onChange(JSON.stringify({ ...parsed, meta: { ...parsed.meta, ...meta } }))
+  }, [onChange, parsed])
+  /**
+   * debouncedHandleMetaChange is the debounced version of handleMetaChange.
+   */
+  const debouncedHandleMetaChange = useDebounceCallback(handleMetaChange, 1000)
+  /**
+   * handleDoneChange marks the task as done, or as pending.
+   * @param e - React FormEvent for an HTMLInputElement.
+   */
+  const handleDoneChange = useCallback((e: FormEvent<HTMLInputElement>) => {
+    handleMetaChange({ done: e.currentTarget.checked })
+  }, [handleMetaChange])
+  /**
+   * handleDueChange updates the due date of the task.
+   * @param e - React FormEvent for an HTMLInputElement.
+   */
+  const handleDueChange = useCallback((e: FormEvent<HTMLInputElement>) => {
+    handleMetaChange({ due: e.currentTarget.value || undefined })
+  }, [handleMetaChange])
+  /**
+   * handlePriorityChange updates the priority of the task.
+   * @param e - React FormEvent for an HTMLSelectElement.
+   */
+  const handlePriorityChange = useCallback((e: FormEvent<HTMLSelectElement>) => {
+    handleMetaChange({ priority: (e.currentTarget.value || undefined) as TaskPriority | undefined })
+  }, [handleMetaChange])
+  /**
+   * handleAssigneeChange updates the value stored on the assignee state variable.
+   * @param e - React FormEvent for an HTMLInputElement.
+   */
+  const handleAssigneeChange = useCallback((e: FormEvent<HTMLInputElement>) => {
+    const value = e.currentTarget.value
+    setAssignee(value)
+    if (value !== (parsed.meta.assignee || "")) debouncedHandleMetaChange({ assignee: value || undefined })
+  }, [setAssignee, debouncedHandleMetaChange, parsed])
+
+  return <NodeTaskInterpreterComponent
+    content={parsed.content}
+    done={!!parsed.meta.done}
+    due={parsed.meta.due}
+    priority={parsed.meta.priority}
+    assignee={assignee}
+    onDoneChange={handleDoneChange}
+    onDueChange={handleDueChange}
+    onPriorityChange={handlePriorityChange}
+    onAssigneeChange={handleAssigneeChange}
+  />
+}
+/**
+ * NodeTaskInterpreterComponentProps represent the props of NodeTaskInterpreterComponent.
+ */
+export interface NodeTaskInterpreterComponentProps {
+  /**
+   * content is the description of the task.
+   */
+  content: string;
+  /**
+   * done is a flag that indicates that the task was completed.
+   */
+  done: boolean;
+  /**
+   * due is the date by which the task should be completed.
+   */
+  due?: string;
+  /**
+   * priority is the priority of the task.
+   */
+  priority?: TaskPriority;
+  /**
+   * assignee is the name of the person in charge of the task.
+   */
+  assignee: string;
+  /**
+   * onDoneChange is the function called when the checkbox is toggled.
+   */
+  onDoneChange: (e: FormEvent<HTMLInputElement>) => void;
+  /**
+   * onDueChange is the function called to update the due date.
+   */
+  onDueChange: (e: FormEvent<HTMLInputElement>) => void;
+  /**
+   * onPriorityChange is the function called to update the priority.
+   */
+  onPriorityChange: (e: FormEvent<HTMLSelectElement>) => void;
+  /**
+   * onAssigneeChange is the function called to update the assignee.
+   */
+  onAssigneeChange: (e: FormEvent<HTMLInputElement>) => void;
+}
+export function NodeTaskInterpreterComponent({ content, done, due, priority, assignee, onDoneChange, onDueChange, onPriorityChange, onAssigneeChange }: NodeTaskInterpreterComponentProps) {
+  const __html = useMarked(content)
+  const hasMounted = useHasMounted()
+  const isOverdue = !done && due !== undefined && due < new Date().toISOString().slice(0, 10)
+
+  return (
+    <div className={cn("Interpreter Interpreter__Task", { "Interpreter__Task--done": done })}>
+      <input type="checkbox" checked={done} onChange={onDoneChange} className="Interpreter__Task--checkbox" />
+      <div className="Interpreter__Task--body">
+        {!hasMounted
+          ? <Loader />
+          : <div className="Interpreter__Task--content" dangerouslySetInnerHTML={{ __html }} />
+        }
+        <div className="Interpreter__Task--inputs">
+          <input type="date" value={due || ""} onChange={onDueChange} className={cn("Interpreter__Task--due", { "Interpreter__Task--overdue": isOverdue })} />
+          <select value={priority || ""} onChange={onPriorityChange} className={cn("Interpreter__Task--priority", priority && `Interpreter__Task--${priority}`)}>
+            <option value="">No priority</option>
+            <option value="low">Low</option>
+            <option value="medium">Medium</option>
+            <option value="high">High</option>
+          </select>
+          <input type="text" value={assignee} placeholder="Assignee" onChange={onAssigneeChange} className="Interpreter__Task--assignee" />
+        </div>
+      </div>
+    </div>
+  )
+}
 /**
  * NodeMarkdownInterpreter can interpret and rende the Node's content as Markdown.
  */
@@ -322,4 +677,26 @@ export function NodeMarkdownInterpreter({ content }: { content: string }) {
       }
     </div>
   )
-}
\ No newline at end of file
+}
+/**
+ * Functions
+ */
+/**
+ * getTaskProgress counts how many of the Nodes interpreted as tasks, from a
+ * list of Nodes, are done. Nodes with other interpreters are ignored.
+ * @param nodes - Nodes to check.
+ */
+export function getTaskProgress(nodes: { interpreter?: string, content: string }[]): TaskProgress {
+  const tasks = nodes.filter(node => node.interpreter === "task")
+  const done = tasks.filter(node => !!parse<TaskParsedContent>(node.content, { content: "", meta: { done: false } }).meta.done)
+  return { done: done.length, total: tasks.length }
+}
+/**
+ * toSelection returns the selection of a textarea.
+ * @param textarea - Textarea element.
+ */
+function toSelection(textarea: HTMLTextAreaElement): TextSelection {
+  return textarea.selectionDirection === "backward"
+    ? { anchor: textarea.selectionEnd, head: textarea.selectionStart }
+    : { anchor: textarea.selectionStart, head: textarea.selectionEnd }
+}
@@ -8,10 +8,11 @@ import type { KeyboardEventHandler, FocusEventHandler } from "react"
 
 import { NodeControl } from "./NodeControl"
 import { NodeDropdown } from "./NodeDropdown"
-import { NodeInterpreter } from "./NodeInterpreter"
+import { NodeInterpreter, getTaskProgress } from "./NodeInterpreter"
 import { NodeAddChild } from "./NodeAddChild"
 import { Loader } from "../Utils/Loader"
-import type { Node as NodeModel, NodeItem, NodeMeta, NodePatch } from "../../models/node"
+import { diffLines } from "../History"
+import type { Node as NodeModel, NodeItem, NodeMeta, NodePatch, NodesEvent, NodesFormat } from "../../models/node"
 
 /**
  * headers is a constant that configures the appropiate headers to use on a fetch request.
@@ -19,10 +20,15 @@ import type { Node as NodeModel, NodeItem, NodeMeta, NodePatch } from "../../mod
 const headers = new Headers()
 headers.append("Accept", "application/json")
 headers.append("Content-Type", "application/x-www-form-urlencoded;charset=UTF-8")
+/**
+ * PRECONDITION_FAILED is the status code returned when a Node was modified
+ * on another page before the mutation was applied.
+ */
+const PRECONDITION_FAILED = 412
 /**
  * ImmutableNodeModel is a representation of NodeModel as an Immutable Map.
  */
-type ImmutableNodeModel = ImmutableMap<keyof NodeModel, string | string[] | NodeMeta>
+type ImmutableNodeModel = ImmutableMap<keyof NodeModel, string | string[] | number | NodeMeta>
 /**
  * ImmutableNodeState represent the state of all the Nodes as an ImmutableMap.
  */
@@ -81,6 +87,21 @@ export interface NodeBranchProps {
    * loading is a flag that tells the Branch that new data is being loaded.
    */
   loading?: boolean;
+  /**
+   * hasMore is a flag that tells the Branch that only a page of the Node
+   * id's was loaded.
+   */
+  hasMore?: boolean;
+  /**
+   * loadingMore is a flag that tells the Branch that the next page of Node
+   * id's is being loaded.
+   */
+  loadingMore?: boolean;
+  /**
+   * onLoadMore is the function to be called when the end of the Branch is
+   * reached, and there are more Nodes to load.
+   */
+  onLoadMore?: () => void;
 }
 /**
  * NodeDrag is the interface React DND uses to handle dragging a Node.
@@ -102,6 +123,14 @@ export interface NodeDrag {
    * type indicates the type of the Node being dragged.
    */
   type: string
+  /**
+   * parent is the id of the parent of the Node being dragged.
+   */
+  parent: string
+  /**
+   * hoverParent is the id of the parent of the Node being hovered.
+   */
+  hoverParent?: string
 }
 /**
  * NodesTreeContext is the React context used throughout the Node's Tree.
@@ -130,18 +159,22 @@ export function NodesTree({ root, parent }: NodesTreeProps) {
     }))
   ))
   /**
-   * editMutation persists edit actions on the backend.
+   * editMutation persists edit actions on the backend. It resolves to `true`
+   * if the Node was modified on another page before the edit was applied.
    * @param variables - Mutation variables.
    * @property variables.id - Node unique identifier.
    * @property variables.patch - Node patch to apply.
+   * @property variables.version - Version of the Node the patch was made on.
    */
-  const editMutation = useMutation(({ id, patch }: { id: string, patch: NodePatch }) => (
+  const editMutation = useMutation(({ id, patch, version }: { id: string, patch: NodePatch, version?: number }) => (
     fetch(`/${id}`, {
       method: "PUT",
-      headers,
+      headers: createVersionHeaders(version),
       body: toFormBody(patch)
     }).then((response) => {
+      if (response.status === PRECONDITION_FAILED) return true
       if (!response.ok) throw new Error("couldn't edit the Node")
+      return false
     })
   ))
   /**
@@ -160,16 +193,20 @@ export function NodesTree({ root, parent }: NodesTreeProps) {
     })
   ))
   /**
-   * deleteMutation persists delete actions on the backend.
+   * deleteMutation persists delete actions on the backend. It resolves to
+   * `true` if the Node was modified on another page before being deleted.
    * @param variables - Mutation variables.
    * @property variables.id - Node unique identifier
+   * @property variables.version - Version of the Node to delete.
    */
-  const deleteMutation = useMutation(({ id }: { id: string }) => (
+  const deleteMutation = useMutation(({ id, version }: { id: string, version?: number }) => (
     fetch(`/${id}`, {
       method: "DELETE",
-      headers,
+      headers: createVersionHeaders(version),
     }).then((response) => {
+      if (response.status === PRECONDITION_FAILED) return true
       if (!response.ok) throw new Error("couldn't edit the Node's metadata")
+      return false
     })
   ))
   /**
@@ -178,16 +215,38 @@ export function NodesTree({ root, parent }: NodesTreeProps) {
    * @property variables.parent - Node parent
    * @property variables.dragId - Node unique identifier.
    * @property variables.afterId - Node after which the dragged Node should be placed.
+   * @property variables.last - Flag that places the dragged Node at the end of the collection.
    */
-  const dragMutation = useMutation(({ parent, dragId, afterId }: { parent: string, dragId: string, afterId?: string }) => (
+  const dragMutation = useMutation(({ parent, dragId, afterId, last }: { parent: string, dragId: string, afterId?: string, last?: boolean }) => (
     fetch(`/${parent}`, {
       method: "POST",
       headers,
-      body: toFormBody({ dragId, afterId })
+      body: toFormBody({ dragId, afterId, last })
     }).then((response) => {
       if (!response.ok) throw new Error("couldn't drag the Node")
     })
   ))
+  /**
+   * duplicateMutation persists duplicate actions on the backend, and returns
+   * the updated parent Node along with the copy.
+   * @param variables - Mutation variables.
+   * @property variables.parent - Node parent.
+   * @property variables.duplicateId - Unique identifier of the Node to copy.
+   * @property variables.deep - Flag that also copies the sub-nodes of the Node.
+   */
+  const duplicateMutation = useMutation(({ parent, duplicateId, deep }: { parent: string, duplicateId: string, deep?: boolean }) => (
+    fetch(`/${parent}`, {
+      method: "POST",
+      headers,
+      body: toFormBody({ duplicateId, deep })
+    }).then((response) => {
+      if (!response.ok) throw new Error("couldn't duplicate the Node")
+      return fetch(`/${parent}`, { headers })
+    }).then((response) => {
+      if (!response.ok) throw new Error("couldn't fetch the duplicated Node")
+      return response.json() as Promise<{ data: NodeItem }>
+    })
+  ))
   /**
    * onToggleIsOpened toggles the value of the model's isOpened meta value.
    * @param model - The model whose `isOpened` value should be toggled.
@@ -215,7 +274,7 @@ export function NodesTree({ root, parent }: NodesTreeProps) {
   const onAddSibling = useCallback((model: ImmutableNodeModel) => {
     const id = ulid()
     const parent = model.get("parent") as string || "home"
-    const node: NodeModel = { id, content: "", parent, collection: [], meta: { isInEditMode: true } }
+    const node: NodeModel = { id, content: "", parent, collection: [], meta: { isInEditMode: true }, version: 1, createdAt: Date.now(), updatedAt: Date.now() }
     state = state.set(id, ImmutableMap(node) as ImmutableNodeModel)
     const collection = state.getIn([parent, "collection"]) as string[]
     const index = collection.findIndex((id) => id === model.get("id") as string)
@@ -229,7 +288,7 @@ export function NodesTree({ root, parent }: NodesTreeProps) {
   const onAddChild = useCallback((model: ImmutableNodeModel) => {
     const id = ulid()
     const parent = model.get("id") as string
-    const node: NodeModel = { id, content: "", parent, collection: [], meta: { isInEditMode: true } }
+    const node: NodeModel = { id, content: "", parent, collection: [], meta: { isInEditMode: true }, version: 1, createdAt: Date.now(), updatedAt: Date.now() }
     state = state.set(id, ImmutableMap(node) as ImmutableNodeModel)
     const collection = model.get("collection") as string[]
     setState(state.setIn([parent, "collection"], [...collection, id]))
@@ -244,8 +303,30 @@ export function NodesTree({ root, parent }: NodesTreeProps) {
     const parent = model.get("parent") as string || "home"
     const collection = state.getIn([parent, "collection"]) as string[]
     setState(state.setIn([parent, "collection"], collection.filter(_id => _id !== id)))
-    deleteMutation.mutate({ id })
+    deleteMutation.mutate({ id, version: model.get("version") as number | undefined }, {
+      onSuccess: (conflict) => {
+        if (!conflict) return
+        if (window.confirm("This Node was modified on another page. Do you want to delete it anyway?")) {
+          deleteMutation.mutate({ id })
+        } else {
+          window.location.reload()
+        }
+      }
+    })
   }, [setState, state])
+  /**
+   * onDuplicate copies a Node, along with its sub-nodes, right after it.
+   * @param model - Node model to duplicate.
+   */
+  const onDuplicate = useCallback((model: ImmutableNodeModel) => {
+    const id = model.get("id") as string
+    const parent = model.get("parent") as string || "home"
+    duplicateMutation.mutate({ parent, duplicateId: id, deep: true }, {
+      onSuccess: ({ data }) => {
+        setState((state) => state.merge(createImmutableNodesStateFrom(data, state)))
+      }
+    })
+  }, [setState])
   /**
    * onOpenExternalLink opens a new page with the model Node as root.
    * @param model - Node model to open on a new page.
@@ -253,6 +334,29 @@ export function NodesTree({ root, parent }: NodesTreeProps) {
   const onOpenExternalLink = useCallback((model: ImmutableNodeModel) => {
     window.open(window.location.origin + "/" + model.get("id") as string)
   }, [setState, state])
+  /**
+   * onOpenHistory navigates to the page with the revisions of the model Node.
+   * @param model - Node model whose history should be opened.
+   */
+  const onOpenHistory = useCallback((model: ImmutableNodeModel) => {
+    window.location.assign(`/${model.get("id") as string}/history`)
+  }, [])
+  /**
+   * onExport downloads the model Node, along with its sub-nodes, on the
+   * given format.
+   * @param model - Node model to export.
+   * @param format - Format of the downloaded file.
+   */
+  const onExport = useCallback((model: ImmutableNodeModel, format: NodesFormat) => {
+    window.location.assign(`/${model.get("id") as string}/export?format=${format}`)
+  }, [])
+  /**
+   * onOpenImport navigates to the page to import Nodes into the model Node.
+   * @param model - Node model where the Nodes should be imported.
+   */
+  const onOpenImport = useCallback((model: ImmutableNodeModel) => {
+    window.location.assign(`/${model.get("id") as string}/import`)
+  }, [])
   /**
    * onInterpreterChange updates the value of a Node model's interpeter.
    * @param model - Node model to update.
@@ -260,8 +364,9 @@ export function NodesTree({ root, parent }: NodesTreeProps) {
    */
   const onInterpreterChange = useCallback((model: ImmutableNodeModel, interpreter: string) => {
     const id = model.get("id") as string
+    if (interpreter === (model.get("interpreter") || "markdown")) return
     setState(state.setIn([id, "interpreter"], interpreter))
-    editMutation.mutate({ id, patch: { interpreter } })
+    onEdit(model, { interpreter })
   }, [setState, state])
   /**
    * onContentChange updates the value of a Node model's content.
@@ -270,30 +375,104 @@ export function NodesTree({ root, parent }: NodesTreeProps) {
    */
   const onContentChange = useCallback((model: ImmutableNodeModel, content: string) => {
     const id = model.get("id") as string
+    if (content === model.get("content")) return
     setState(state.setIn([id, "content"], content))
-    editMutation.mutate({ id, patch: { content } })
+    onEdit(model, { content })
   }, [setState, state])
   /**
    * onSave updates the value of a Node model's content and set the value of
    * isInEditMode to false.
    * @param model - Node model to update.
    * @param content - New content content.
+   * @param version - Version the content was persisted as, if it was.
    */
-  const onSave = useCallback((model: ImmutableNodeModel, content: string) => {
+  const onSave = useCallback((model: ImmutableNodeModel, content: string, version?: number) => {
     const id = model.get("id") as string
-    state = state.setIn([id, "content"], content)
     setState(state.setIn([id, "meta", "isInEditMode"], false))
-    editMutation.mutate({ id, patch: { content } })
+    if (version !== undefined) return onSync(model, content, version)
+    if (content === model.get("content")) return
+    setState((state) => state.setIn([id, "content"], content))
+    onEdit(model, { content })
   }, [setState, state])
+  /**
+   * onSync updates the value of a Node model's content with the one
+   * persisted by its collaborative editing session.
+   * @param model - Node model to update.
+   * @param content - Persisted content.
+   * @param version - Version the content was persisted as.
+   */
+  const onSync = useCallback((model: ImmutableNodeModel, content: string, version: number) => {
+    const id = model.get("id") as string
+    setState((state) => {
+      if (!state.has(id) || version <= (state.getIn([id, "version"]) as number)) return state
+      return state.mergeIn([id], { content, version, updatedAt: Date.now() })
+    })
+  }, [setState])
+  /**
+   * onEdit persists a patch made on top of the current version of a Node
+   * model. Every edit increases the version of the Node, so the version is
+   * increased right away for the next edit to be made on top of this one.
+   * @param model - Node model that was edited.
+   * @param patch - Patch to persist.
+   */
+  const onEdit = useCallback((model: ImmutableNodeModel, patch: NodePatch) => {
+    const id = model.get("id") as string
+    const version = model.get("version") as number | undefined
+    setState((state) => {
+      const updated = state.setIn([id, "updatedAt"], Date.now())
+      return version === undefined ? updated : updated.setIn([id, "version"], version + 1)
+    })
+    editMutation.mutate({ id, patch, version }, {
+      onSuccess: (conflict) => {
+        if (conflict) onConflict(id, patch.content === undefined ? model.get("content") as string : patch.content)
+      }
+    })
+  }, [setState])
+  /**
+   * onConflict resolves an edit that was rejected because the Node was
+   * modified on another page. The user can either reload the latest version
+   * of the Node, discarding the edit, or merge both versions and review the
+   * result on edit mode.
+   * @param id - Node unique identifier.
+   * @param content - Content of the rejected edit.
+   */
+  const onConflict = useCallback(async (id: string, content: string) => {
+    const response = await fetch(`/${id}`, { headers })
+    if (!response.ok) throw new Error("couldn't fetch the Node's data")
+    const { data } = await response.json() as { data: NodeItem }
+    const reload = data.content === content || window.confirm(
+      "This Node was modified on another page.\n\n" +
+      "Press OK to reload the latest version, or Cancel to merge it with your changes."
+    )
+    setState((state) => {
+      state = state.merge(createImmutableNodesStateFrom(data, state))
+      if (reload) return state
+      return state
+        .setIn([id, "content"], mergeContent(data.content, content))
+        .setIn([id, "meta", "isInEditMode"], true)
+    })
+  }, [setState])
   /**
    * onDrag updates the position of Node inside it's parent collection by dragging
-   * it after another Node.
+   * it after another Node. If the hovered Node belongs to another parent, the
+   * Node is moved after it, inside the hovered Node's parent collection.
    * @param dragId - Node unique identifier.
    * @param dragIndex - Current index of the Node being dragged.
    * @param hoverIndex - Index of the Node being hovered.
+   * @param hoverParent - Parent of the Node being hovered.
    */
-  const onDrag = useCallback((dragId: string, dragIndex: number, hoverIndex?: number) => {
+  const onDrag = useCallback((dragId: string, dragIndex: number, hoverIndex?: number, hoverParent?: string) => {
     const parent = state.getIn([dragId, "parent"]) as string || "home"
+    if (hoverParent && hoverParent !== parent) {
+      if (isDescendant(state, hoverParent, dragId)) return
+      const collection = state.getIn([hoverParent, "collection"]) as string[]
+      const afterId = collection[hoverIndex]
+      state = state.setIn([parent, "collection"], (state.getIn([parent, "collection"]) as string[]).filter(id => id !== dragId))
+      state = state.setIn([hoverParent, "collection"], [...collection.slice(0, hoverIndex + 1), dragId, ...collection.slice(hoverIndex + 1)])
+      setState(state.setIn([dragId, "parent"], hoverParent))
+      dragMutation.mutate({ parent: hoverParent, dragId, afterId })
+      return
+    }
     const collection = state.getIn([parent, "collection"]) as string[]
     const afterId = hoverIndex === 0 ? undefined : collection[hoverIndex]
     collection.splice(dragIndex, 1)
@@ -301,6 +480,51 @@ export function NodesTree({ root, parent }: NodesTreeProps) {
     setState(state.setIn([parent, "collection"], [...collection]))
     dragMutation.mutate({ parent, dragId, afterId })
   }, [setState, state])
+  /**
+   * onIndent moves a Node to the end of the collection of its previous sibling.
+   * @param model - Node model to indent.
+   */
+  const onIndent = useCallback((model: ImmutableNodeModel) => {
+    const id = model.get("id") as string
+    const parent = model.get("parent") as string || "home"
+    const collection = state.getIn([parent, "collection"]) as string[]
+    const index = collection.indexOf(id)
+    if (index < 1) return
+    const target = collection[index - 1]
+    const isOpened = !!state.getIn([target, "meta", "isOpened"])
+    state = state.setIn([parent, "collection"], collection.filter(_id => _id !== id))
+    state = state.setIn([id, "parent"], target)
+    // The collection of a closed Node may not be loaded yet, so we open it
+    // once the Node has been moved to get its updated collection.
+    if (isOpened) state = state.setIn([target, "collection"], [...(state.getIn([target, "collection"]) as string[] || []), id])
+    setState(state)
+    dragMutation.mutate({ parent: target, dragId: id, last: true }, {
+      onSuccess: () => {
+        if (isOpened) return
+        setState((state) => state.setIn([target, "meta", "isOpened"], true))
+        metaMutation.mutate({ id: target, meta: { isOpened: true } })
+      }
+    })
+  }, [setState, state])
+  /**
+   * onOutdent moves a Node after its parent, inside its grandparent's collection.
+   * @param model - Node model to outdent.
+   */
+  const onOutdent = useCallback((model: ImmutableNodeModel) => {
+    const id = model.get("id") as string
+    const parent = model.get("parent") as string || "home"
+    if (parent === "home") return
+    const grandParent = state.getIn([parent, "parent"]) as string || "home"
+    // The grandparent is outside of the current tree.
+    if (!state.has(grandParent)) return
+    const collection = state.getIn([parent, "collection"]) as string[]
+    const parentCollection = state.getIn([grandParent, "collection"]) as string[]
+    const index = parentCollection.indexOf(parent)
+    state = state.setIn([parent, "collection"], collection.filter(_id => _id !== id))
+    state = state.setIn([grandParent, "collection"], [...parentCollection.slice(0, index + 1), id, ...parentCollection.slice(index + 1)])
+    setState(state.setIn([id, "parent"], grandParent))
+    dragMutation.mutate({ parent: grandParent, dragId: id, afterId: parent })
+  }, [setState, state])
   /**
    * onFetch substitutes an existing model from a current on gotten from the backend.
    * @param id - Node's unique identifier.
@@ -312,6 +536,49 @@ export function NodesTree({ root, parent }: NodesTreeProps) {
     setState(state.merge(createImmutableNodesStateFrom(data, state)))
     return state.get(id)
   }, [setState, state])
+  /**
+   * onLoadMore appends the next page of sub-nodes of a Node, gotten from
+   * the backend, to its collection.
+   * @param id - Node's unique identifier.
+   */
+  const onLoadMore = useCallback(async (id: string) => {
+    const cursor = state.getIn([id, "cursor"]) as string | undefined
+    if (cursor === undefined) return
+    const response = await fetch(`/${id}?cursor=${encodeURIComponent(cursor)}`, { headers })
+    if (!response.ok) throw new Error("couldn't fetch the Node's sub-nodes")
+    const { data } = await response.json() as { data: NodeItem }
+    setState(state => {
+      const collection = (state.getIn([id, "collection"]) || []) as string[]
+      const ids = (data.collection || []).map(item => item.id).filter(childId => !collection.includes(childId))
+      return state
+        .merge(createImmutableNodesStateFrom(data, state))
+        .setIn([id, "collection"], [...collection, ...ids])
+    })
+  }, [setState, state])
+  /**
+   * Listens for the changes made on other pages, or devices, to the Nodes
+   * of the tree. The events of the changes made on this page are ignored
+   * while applying them, since they are already on the state. The tree is
+   * fetched again after reconnecting, so the missed changes get loaded.
+   */
+  useEffect(() => {
+    const source = new EventSource(`/${root.id}/events`)
+    let isReconnecting = false
+    source.onopen = async () => {
+      if (!isReconnecting) return
+      const response = await fetch(`/${root.id}`, { headers })
+      if (!response.ok) return
+      const { data } = await response.json() as { data: NodeItem }
+      setState((state) => state.merge(createImmutableNodesStateFrom(data, state)))
+    }
+    source.onerror = () => {
+      isReconnecting = true
+    }
+    source.onmessage = (e: MessageEvent) => {
+      setState((state) => applyNodesEvent(state, JSON.parse(e.data)))
+    }
+    return () => source.close()
+  }, [root.id, setState])
   // ---
   return (
     <NodesTreeContext.Provider value={{
@@ -321,10 +588,18 @@ export function NodesTree({ root, parent }: NodesTreeProps) {
       onContentChange,
       onDelete,
       onDrag,
+      onDuplicate,
+      onExport,
       onFetch,
+      onIndent,
       onInterpreterChange,
+      onLoadMore,
       onOpenExternalLink,
+      onOpenHistory,
+      onOpenImport,
+      onOutdent,
       onSave,
+      onSync,
       onToggleIsInEditMode,
       onToggleIsOpened,
     }}>
@@ -355,12 +630,21 @@ export function Node({
     onContentChange,
     onDelete,
     onDrag,
+    onDuplicate,
+    onExport,
     onFetch,
+    onIndent,
     onInterpreterChange,
+    onLoadMore,
     onOpenExternalLink,
+    onOpenHistory,
+    onOpenImport,
+    onOutdent,
     onSave,
+    onSync,
     onToggleIsInEditMode,
     onToggleIsOpened,
+    state,
   } = useContext(NodesTreeContext)
   /**
    * id is the unique identifier of a Node.
@@ -374,6 +658,10 @@ export function Node({
    * collection is a list of child Nodes.
    */
   const collection = model.get("collection") as string[]
+  /**
+   * cursor is the id of the last loaded child Node, if there are more to load.
+   */
+  const cursor = model.get("cursor") as string | undefined
   /**
    * interpreter is the name of the interpreter that should render the node
    */
@@ -382,6 +670,27 @@ export function Node({
    * content is the content of the node
    */
   const content = model.get("content") as string
+  /**
+   * createdAt is the time, in milliseconds, at which the Node was created.
+   */
+  const createdAt = model.get("createdAt") as number | undefined
+  /**
+   * updatedAt is the time, in milliseconds, of the latest edit of the Node.
+   */
+  const updatedAt = model.get("updatedAt") as number | undefined
+  /**
+   * updatedBy is the unique identifier of the author of the latest edit.
+   */
+  const updatedBy = model.get("updatedBy") as string | undefined
+  /**
+   * progress counts the loaded child Nodes interpreted as tasks, and how
+   * many of them are done.
+   */
+  const progress = getTaskProgress(collection
+    .map(id => state.get(id) as ImmutableNodeModel | undefined)
+    .filter(child => child !== undefined)
+    .map(child => ({ interpreter: child.get("interpreter") as string, content: child.get("content") as string }))
+  )
   /**
    * isOpened is a flag that indicates that the sub-nodes collection is opened.
    */
@@ -401,6 +710,18 @@ export function Node({
   const query = useQuery<ImmutableNodeModel>(["Node", id], async () => onFetch(id), {
     enabled: false,
   })
+  /**
+   * pageQuery is a React Query function to fetch the next page of child Nodes.
+   */
+  const pageQuery = useQuery(["Node", id, "page", cursor], async () => onLoadMore(id), {
+    enabled: false,
+  })
+  /**
+   * handleOnLoadMore loads the next page of child Nodes.
+   */
+  const handleOnLoadMore = useCallback(() => {
+    if (!pageQuery.isFetching) pageQuery.refetch()
+  }, [pageQuery.isFetching, pageQuery.refetch])
   /**
    * handleOnToggleIsOpened toggles the visibility of child Nodes.
    */
@@ -431,6 +752,12 @@ export function Node({
   const handleOnDelete = useCallback(() => {
     onDelete(model)
   }, [onDelete, model])
+  /**
+   * handleOnDuplicate duplicates the current Node.
+   */
+  const handleOnDuplicate = useCallback(() => {
+    onDuplicate(model)
+  }, [onDuplicate, model])
   /**
    * handleOnInterpreterChange update the value of the model's interpreter.
    * @param value - New interpreter value.
@@ -449,16 +776,56 @@ export function Node({
    * handleOnSave update th value of the model's content and toggles off the
    * isInEditMode meta value.
    * @param value - New content value
+   * @param version - Version the content was persisted as, if it was.
    */
-  const handleOnSave = useCallback((value: string) => {
-    onSave(model, value)
+  const handleOnSave = useCallback((value: string, version?: number) => {
+    onSave(model, value, version)
   }, [onSave, model])
+  /**
+   * handleOnSync update the value of the model's content with the one
+   * persisted by its collaborative editing session.
+   * @param value - Persisted content value.
+   * @param version - Version the content was persisted as.
+   */
+  const handleOnSync = useCallback((value: string, version: number) => {
+    onSync(model, value, version)
+  }, [onSync, model])
+  /**
+   * handleOnIndent moves the Node inside its previous sibling.
+   */
+  const handleOnIndent = useCallback(() => {
+    onIndent(model)
+  }, [onIndent, model])
+  /**
+   * handleOnOutdent moves the Node after its parent.
+   */
+  const handleOnOutdent = useCallback(() => {
+    onOutdent(model)
+  }, [onOutdent, model])
   /**
    * handleOnOpenExternalLink opens the Node on another window.
    */
   const handleOnOpenExternalLink = useCallback(() => {
     onOpenExternalLink(model)
   }, [onOpenExternalLink, model])
+  /**
+   * handleOnOpenHistory opens the history of the Node.
+   */
+  const handleOnOpenHistory = useCallback(() => {
+    onOpenHistory(model)
+  }, [onOpenHistory, model])
+  /**
+   * handleOnExport downloads the Node on the given format.
+   */
+  const handleOnExport = useCallback((format: NodesFormat) => {
+    onExport(model, format)
+  }, [onExport, model])
+  /**
+   * handleOnOpenImport opens the page to import Nodes into the Node.
+   */
+  const handleOnOpenImport = useCallback(() => {
+    onOpenImport(model)
+  }, [onOpenImport, model])
   /**
    * handleOnFocus focuses on the edit textarea if the Node is in edit mode.
    */
@@ -498,13 +865,15 @@ export function Node({
   const ref = useRef<any>(null)
   // Set up the drop logic.
   const [{ hoveredClassName, hovered, handlerId }, drop] = useDrop({
-    accept: parent || "NODE",
+    accept: "NODE",
     collect: (monitor) => {
       const item = (monitor.getItem() || {}) as NodeDrag
-      const { dragIndex, hoverIndex } = item
+      const { dragIndex, hoverIndex, hoverParent } = item
+      const isHovered = hoverIndex === index && hoverParent === (parent || "home")
+      const isSameParent = item.parent === (parent || "home")
       const className = cn({
-        hoverTop: hoverIndex === index && dragIndex > index,
-        hoverBottom: hoverIndex === index && dragIndex < index
+        hoverTop: isHovered && isSameParent && dragIndex > index,
+        hoverBottom: isHovered && (!isSameParent || dragIndex < index)
       })
       return {
         handlerId: monitor.getHandlerId(),
@@ -514,20 +883,22 @@ export function Node({
     },
     hover: (item: NodeDrag) => {
       if (!ref.current || index === -1) return
-      const { hoverIndex } = item
-      if (hoverIndex === index) return
+      const { hoverIndex, hoverParent } = item
+      if (hoverIndex === index && hoverParent === (parent || "home")) return
       item.hoverIndex = index
+      item.hoverParent = parent || "home"
     },
     drop: (item: NodeDrag) => {
-      const { id, dragIndex, hoverIndex } = item
-      if (dragIndex === hoverIndex) return
-      onDrag(id, dragIndex, hoverIndex)
+      const { id: dragId, dragIndex, hoverIndex, hoverParent } = item
+      if (dragId === id) return
+      if (dragIndex === hoverIndex && hoverParent === item.parent) return
+      onDrag(dragId, dragIndex, hoverIndex, hoverParent)
     }
   })
   // Set up the drag logic
   const [_, drag, preview] = useDrag({
-    type: parent || "NODE",
-    item: () => ({ id, dragIndex: index, type: parent || "NODE" }),
+    type: "NODE",
+    item: () => ({ id, dragIndex: index, type: "NODE", parent: parent || "home" }),
   })
   // Combine the drop and preview values with our ref.
   drop(preview(ref))
@@ -536,6 +907,7 @@ export function Node({
     <Fragment>
       {!isHome &&
         <div
+          id={id}
           className={cn("Node", { [hoveredClassName]: hovered })}
           ref={ref}
           tabIndex={isInEditMode ? undefined : index + tabIndexOffset}
@@ -552,6 +924,11 @@ export function Node({
             <NodeDropdown
               onAdd={handleOnAddSibling}
               onDelete={handleOnDelete}
+              noDuplicate={isRoot}
+              onDuplicate={handleOnDuplicate}
+              onHistory={handleOnOpenHistory}
+              onExport={handleOnExport}
+              onImport={handleOnOpenImport}
               noExternalLink={isRoot}
               onExternalLink={handleOnOpenExternalLink}
               isInEditMode={isInEditMode}
@@ -561,6 +938,7 @@ export function Node({
             />
           </div>
           <NodeInterpreter
+            id={isHome ? undefined : id}
             isInEditMode={isInEditMode}
             interpreter={interpreter}
             content={content}
@@ -568,11 +946,37 @@ export function Node({
             onDelete={handleOnDelete}
             onChange={handleOnContentChange}
             onSave={handleOnSave}
+            onSync={handleOnSync}
+            onIndent={handleOnIndent}
+            onOutdent={handleOnOutdent}
             tabIndex={index + tabIndexOffset}
           />
+          {progress.total > 0 &&
+            <span className={cn("Node__Progress", { "Node__Progress--complete": progress.done === progress.total })}>
+              {progress.done}/{progress.total} done
+            </span>
+          }
+          {updatedAt !== undefined &&
+            <span
+              className="Node__Timestamps"
+              title={[
+                createdAt !== undefined && `Created on ${new Date(createdAt).toLocaleString()}`,
+                `Edited on ${new Date(updatedAt).toLocaleString()}${updatedBy ? ` by ${updatedBy}` : ""}`,
+              ].filter(Boolean).join("\n")}
+            >
+              edited {formatRelativeTime(updatedAt)}
+            </span>
+          }
         </div>
       }
-      {(isHome || isOpened) && <NodeBranch loading={collection.length === 0 && query.isLoading} collection={collection} onAdd={handleOnAddChild} />}
+      {(isHome || isOpened) && <NodeBranch
+        loading={collection.length === 0 && query.isLoading}
+        collection={collection}
+        onAdd={handleOnAddChild}
+        hasMore={cursor !== undefined}
+        loadingMore={pageQuery.isFetching}
+        onLoadMore={handleOnLoadMore}
+      />}
     </Fragment>
   )
 }
@@ -580,8 +984,23 @@ export function Node({
  * NodeBranch renders a collection of Nodes.
  * @param props - NodeBranch properties.
  */
-export function NodeBranch({ loading, collection, onAdd }: NodeBranchProps) {
+export function NodeBranch({ loading, collection, onAdd, hasMore = false, loadingMore = false, onLoadMore }: NodeBranchProps) {
   const { state } = useContext(NodesTreeContext)
+  /**
+   * endRef references the element at the end of the Branch, used to load
+   * more Nodes once it's scrolled into view.
+   */
+  const endRef = useRef<HTMLDivElement>(null)
+  // The observer is created again after every page, so the next one is
+  // loaded if the end of the Branch is still in view.
+  useEffect(() => {
+    if (!hasMore || loadingMore || !onLoadMore || !endRef.current) return
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some(entry => entry.isIntersecting)) onLoadMore()
+    })
+    observer.observe(endRef.current)
+    return () => observer.disconnect()
+  }, [hasMore, loadingMore, onLoadMore, collection.length])
 
   if (loading) return <div className="Nodes"><Loader /></div>
 
@@ -591,6 +1010,7 @@ export function NodeBranch({ loading, collection, onAdd }: NodeBranchProps) {
         ? <NodeAddChild onAdd={onAdd} />
         : collection.map((id, index) => <Node key={id} tabIndexOffset={collection.length} index={index} model={state.get(id)} />)
       }
+      {hasMore && <div ref={endRef}>{loadingMore && <Loader />}</div>}
     </div>
   )
 }
@@ -624,6 +1044,133 @@ function createImmutableNodesStateFrom(item: NodeItem, result?: ImmutableNodesSt
 
   return result
 }
+/**
+ * applyNodesEvent applies a change made on another page to the
+ * ImmutableNodesState. Changes on Nodes that aren't loaded are ignored, and
+ * so are the ones already applied. The content of a Node that is being
+ * edited is kept, so saving it raises a conflict instead of losing the
+ * change of either page.
+ * @param state - Current ImmutableNodesState.
+ * @param event - Change to apply.
+ */
+function applyNodesEvent(state: ImmutableNodesState, event: NodesEvent): ImmutableNodesState {
+  const { id, node } = event
+  const model = state.get(id)
+  switch (event.type) {
+    case "add": {
+      if (model || !state.has(event.parent)) return state
+      // Nodes appended to a list that isn't fully loaded show up with the
+      // next page.
+      if (event.afterId === undefined && state.getIn([event.parent, "cursor"]) !== undefined) return state
+      state = createImmutableNodesStateFrom({ ...node, parent: event.parent }, state)
+      return state.setIn([event.parent, "collection"], insertAfter(state.getIn([event.parent, "collection"]) as string[], id, event.afterId))
+    }
+    case "update": {
+      if (!model || node.version <= (model.get("version") as number)) return state
+      if (model.getIn(["meta", "isInEditMode"])) return state
+      return state.set(id, model.merge({
+        content: node.content,
+        interpreter: node.interpreter,
+        version: node.version,
+        updatedAt: node.updatedAt,
+        updatedBy: node.updatedBy,
+      }) as ImmutableNodeModel)
+    }
+    case "meta": {
+      if (!model) return state
+      const meta = model.get("meta") as NodeMeta
+      return state.setIn([id, "meta"], { ...meta, ...event.meta, isInEditMode: meta.isInEditMode })
+    }
+    case "move": {
+      const from = model ? model.get("parent") as string || "home" : event.from
+      if (state.has(from)) {
+        state = state.setIn([from, "collection"], (state.getIn([from, "collection"]) as string[]).filter(_id => _id !== id))
+      }
+      if (!state.has(event.parent)) return state
+      state = model
+        ? state.setIn([id, "parent"], event.parent)
+        : createImmutableNodesStateFrom({ ...node, parent: event.parent }, state)
+      return state.setIn([event.parent, "collection"], insertAfter(state.getIn([event.parent, "collection"]) as string[], id, event.afterId))
+    }
+    case "delete": {
+      const parent = model ? model.get("parent") as string || "home" : event.parent
+      if (!state.has(parent)) return state
+      return state.setIn([parent, "collection"], (state.getIn([parent, "collection"]) as string[]).filter(_id => _id !== id))
+    }
+    default:
+      return state
+  }
+}
+/**
+ * insertAfter returns a collection with a Node id put after another one. A
+ * `null` afterId puts it first, while an undefined, or missing, one puts
+ * it last.
+ * @param collection - List of Node id's.
+ * @param id - Unique identifier of the Node to insert.
+ * @param afterId - Unique identifier of the Node after which it goes.
+ */
+function insertAfter(collection: string[] = [], id: string, afterId?: string | null): string[] {
+  const rest = collection.filter(_id => _id !== id)
+  const index = afterId === null ? 0 : afterId === undefined ? -1 : rest.indexOf(afterId) + 1
+  return index <= 0 && afterId !== null ? [...rest, id] : [...rest.slice(0, index), id, ...rest.slice(index)]
+}
+/**
+ * isDescendant checks if a Node is a descendant of another by walking up its
+ * parents on the ImmutableNodesState.
+ * @param state - Current ImmutableNodesState.
+ * @param id - Unique identifier of the Node to check.
+ * @param ancestorId - Unique identifier of the possible ancestor.
+ */
+function isDescendant(state: ImmutableNodesState, id: string, ancestorId: string): boolean {
+  const visited = new Set<string>()
+  while (id && !visited.has(id)) {
+    if (id === ancestorId) return true
+    visited.add(id)
+    id = state.getIn([id, "parent"]) as string
+  }
+  return false
+}
+/**
+ * createVersionHeaders returns the headers of a request that should only
+ * be applied on a given version of a Node.
+ * @param version - Expected version of the Node.
+ */
+function createVersionHeaders(version?: number): Headers {
+  const result = new Headers(headers)
+  if (version !== undefined) result.append("If-Match", `"${version}"`)
+  return result
+}
+/**
+ * mergeContent merges two versions of the content of a Node, keeping the
+ * lines of both of them in order.
+ * @param latest - Latest content stored on the backend.
+ * @param content - Content that couldn't be stored.
+ */
+function mergeContent(latest: string, content: string): string {
+  return diffLines(latest, content).map(line => line.value).join("\n")
+}
+/**
+ * formatRelativeTime returns how long ago a given time was, in the largest
+ * unit that fits, like "5 minutes ago" or "yesterday".
+ * @param time - Time, in milliseconds.
+ * @param now - Current time, in milliseconds.
+ */
+function formatRelativeTime(time: number, now: number = Date.now()): string {
+  const units: [Intl.RelativeTimeFormatUnit, number][] = [
+    ["year", 1000 * 60 * 60 * 24 * 365],
+    ["month", 1000 * 60 * 60 * 24 * 30],
+    ["week", 1000 * 60 * 60 * 24 * 7],
+    ["day", 1000 * 60 * 60 * 24],
+    ["hour", 1000 * 60 * 60],
+    ["minute", 1000 * 60],
+  ]
+  const elapsed = time - now
+  const format = new Intl.RelativeTimeFormat(undefined, { numeric: "auto" })
+  for (const [unit, size] of units) {
+    if (Math.abs(elapsed) >= size) return format.format(Math.round(elapsed / size), unit)
+  }
+  return "just now"
+}
 /**
  * toFormBody converts an object into a valid form encoded string.
  * @param obj - Object to stringify.
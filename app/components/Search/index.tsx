@@ -0,0 +1,58 @@
+import { parse, toTitle } from "../../hooks/useParsedContent"
+import type { NodeSearchHit } from "../../models/node"
+
+/**
+ * SNIPPET_LENGTH is the maximum number of characters shown of each hit.
+ */
+const SNIPPET_LENGTH = 160
+/**
+ * SearchProps represent the props of the Search component.
+ */
+export interface SearchProps {
+  /**
+   * hits is the list of Nodes that matched the query, best matches first.
+   */
+  hits: NodeSearchHit[];
+  /**
+   * query is the search query.
+   */
+  query: string;
+}
+/**
+ * Search renders the hits of a search, along with the path to each one of
+ * them, and lets the user jump to them.
+ */
+export function Search({ hits, query }: SearchProps) {
+  return (
+    <div className="Search">
+      <h2 className="Search__Title">Search</h2>
+      {query.trim() === ""
+        ? <p className="Search__Empty">Type something on the search box to find your Nodes.</p>
+        : hits.length === 0
+          ? <p className="Search__Empty">No Nodes match "{query}".</p>
+          : <ul className="Search__List">
+            {hits.map(hit => <Search.Item key={hit.node.id} hit={hit} />)}
+          </ul>
+      }
+    </div>
+  )
+}
+
+Search.Item = ({ hit }: { hit: NodeSearchHit }) => {
+  const content = parse(hit.node.content, { content: "" }).content
+  return (
+    <li className="Search__Item">
+      <form method="post" action="/search" className="Search__Item--form">
+        <input type="hidden" name="id" value={hit.node.id} />
+        <button type="submit" className="Search__Item--button">
+          <span className="Search__Item--path">
+            {["Home", ...hit.path.map(node => toTitle(node.content))].join(" › ")}
+          </span>
+          <span className="Search__Item--content">
+            {content.length > SNIPPET_LENGTH ? content.slice(0, SNIPPET_LENGTH) + "…" : content || <em>Empty Node</em>}
+          </span>
+        </button>
+      </form>
+    </li>
+  )
+}
@@ -0,0 +1,137 @@
+import { useCallback, useState } from "react"
+import type { FormEvent } from "react"
+
+import type { CreatedToken, TokenItem, TokenScope } from "../../models/token"
+
+/**
+ * headers is a constant that configures the appropiate headers to use on a fetch request.
+ */
+const headers = new Headers()
+headers.append("Accept", "application/json")
+headers.append("Content-Type", "application/x-www-form-urlencoded;charset=UTF-8")
+/**
+ * SCOPES describes the access granted by each scope.
+ */
+const SCOPES: { [scope in TokenScope]: string } = {
+  read: "Read-only",
+  write: "Read and write",
+}
+/**
+ * TokensProps represent the props of the Tokens component.
+ */
+export interface TokensProps {
+  /**
+   * tokens is the list of personal API tokens of the user.
+   */
+  tokens: TokenItem[];
+}
+/**
+ * Tokens renders the personal API tokens of the user, and lets the user
+ * create and revoke them.
+ */
+export function Tokens({ tokens }: TokensProps) {
+  const [created, setCreated] = useState<CreatedToken[]>([])
+  const list = [...tokens, ...created.map(({ token }) => token).filter(token => !tokens.some(({ id }) => id === token.id))]
+
+  return (
+    <div className="Tokens">
+      <h2 className="Tokens__Title">API Tokens</h2>
+      <p className="Tokens__Description">
+        Personal API tokens authenticate scripts and integrations against the <a href="/api/docs">API</a>, sent
+        as an <code>Authorization: Bearer</code> header. They can be read-only, and limited to a Node along with its sub-nodes.
+      </p>
+      <Tokens.Form onCreate={(token) => setCreated(created => [...created, token])} />
+      {created.map(({ token, secret }) => <Tokens.Secret key={token.id} token={token} secret={secret} />)}
+      {list.length === 0
+        ? <p className="Tokens__Empty">There are no tokens.</p>
+        : <ul className="Tokens__List">
+          {list.map(token => <Tokens.Item key={token.id} token={token} />)}
+        </ul>
+      }
+    </div>
+  )
+}
+
+Tokens.Form = ({ onCreate }: { onCreate: (created: CreatedToken) => void }) => {
+  const [name, setName] = useState("")
+  const [scope, setScope] = useState<TokenScope>("read")
+  const [root, setRoot] = useState("")
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | undefined>(undefined)
+  /**
+   * handleSubmit sends the new token to be created.
+   */
+  const handleSubmit = useCallback(async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    setIsLoading(true)
+    setError(undefined)
+    try {
+      const response = await fetch("/settings/tokens", {
+        method: "POST",
+        headers,
+        body: new URLSearchParams({ intent: "create", name, scope, root: root.trim() }).toString(),
+      })
+      const body = await response.json()
+      if (!response.ok) throw new Error(body.error || response.statusText)
+      onCreate(body.data)
+      setName("")
+      setRoot("")
+    } catch (err) {
+      setError(err.message)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [name, scope, root, onCreate])
+
+  return (
+    <form className="Tokens__Form" onSubmit={handleSubmit}>
+      <input value={name} onChange={(e) => setName(e.currentTarget.value)} placeholder="Name" aria-label="Name" maxLength={100} className="Tokens__Input" />
+      <select value={scope} onChange={(e) => setScope(e.currentTarget.value as TokenScope)} aria-label="Scope" className="Tokens__Input">
+        {Object.entries(SCOPES).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+      </select>
+      <input value={root} onChange={(e) => setRoot(e.currentTarget.value)} placeholder="Node id (optional)" aria-label="Node" className="Tokens__Input" />
+      <button type="submit" disabled={isLoading || name.trim() === ""} className="Tokens__Button">
+        {isLoading ? "Creating…" : "Create"}
+      </button>
+      {error && <p className="Tokens__Error">{error}</p>}
+    </form>
+  )
+}
+
+Tokens.Secret = ({ token, secret }: CreatedToken) => {
+  return (
+    <div className="Tokens__Secret">
+      <p className="Tokens__Description">
+        Copy the secret of <strong>{token.name}</strong> now, it won't be shown again.
+      </p>
+      <input readOnly value={secret} onFocus={(e) => e.currentTarget.select()} aria-label="Secret" className="Tokens__Secret--value" />
+    </div>
+  )
+}
+
+Tokens.Item = ({ token }: { token: TokenItem }) => {
+  const createdAt = new Date(token.createdAt)
+  const lastUsedAt = token.lastUsedAt === undefined ? undefined : new Date(token.lastUsedAt)
+  return (
+    <li className="Tokens__Item">
+      <div className="Tokens__Item--content">
+        <span className="Tokens__Item--name">{token.name}</span>
+        <span className="Tokens__Item--scope">
+          {SCOPES[token.scope]}{token.root && <>, limited to <a href={`/${token.root}`}>#{token.root}</a></>}
+        </span>
+      </div>
+      <div className="Tokens__Item--dates">
+        <span title={createdAt.toISOString()}>Created on {createdAt.toLocaleDateString()}</span>
+        {lastUsedAt
+          ? <span title={lastUsedAt.toISOString()}>Last used on {lastUsedAt.toLocaleDateString()}</span>
+          : <span>Never used</span>
+        }
+      </div>
+      <form method="post" action="/settings/tokens" className="Tokens__Item--form">
+        <input type="hidden" name="intent" value="revoke" />
+        <input type="hidden" name="id" value={token.id} />
+        <button type="submit" className="Tokens__Button">Revoke</button>
+      </form>
+    </li>
+  )
+}
@@ -0,0 +1,56 @@
+import type { NodeItem } from "../../models/node"
+
+/**
+ * ONE_DAY_IN_MILLISECONDS is the representation of a day counted in milliseconds.
+ */
+const ONE_DAY_IN_MILLISECONDS = 1000 * 60 * 60 * 24
+/**
+ * TrashProps represent the props of the Trash component.
+ */
+export interface TrashProps {
+  /**
+   * nodes is the list of trashed Nodes.
+   */
+  nodes: NodeItem[];
+  /**
+   * retention is the number of days a Node is kept in the trash.
+   */
+  retention: number;
+}
+/**
+ * Trash renders the list of trashed Nodes, and lets the user restore them.
+ */
+export function Trash({ nodes, retention }: TrashProps) {
+  return (
+    <div className="Trash">
+      <h2 className="Trash__Title">Trash</h2>
+      <p className="Trash__Description">
+        Deleted Nodes, along with their sub-nodes, are kept for {retention} days before being permanently deleted.
+      </p>
+      {nodes.length === 0
+        ? <p className="Trash__Empty">The trash is empty.</p>
+        : <ul className="Trash__List">
+          {nodes.map(node => <Trash.Item key={node.id} node={node} retention={retention} />)}
+        </ul>
+      }
+    </div>
+  )
+}
+
+Trash.Item = ({ node, retention }: { node: NodeItem, retention: number }) => {
+  const deletedAt = new Date(node.deletedAt)
+  const expiresAt = new Date(node.deletedAt + retention * ONE_DAY_IN_MILLISECONDS)
+  return (
+    <li className="Trash__Item">
+      <div className="Trash__Item--content">{node.content || <em>Empty Node</em>}</div>
+      <div className="Trash__Item--dates">
+        <span title={deletedAt.toISOString()}>Deleted on {deletedAt.toLocaleDateString()}</span>
+        <span title={expiresAt.toISOString()}>Expires on {expiresAt.toLocaleDateString()}</span>
+      </div>
+      <form method="post" action="/trash" className="Trash__Item--form">
+        <input type="hidden" name="id" value={node.id} />
+        <button type="submit" className="Trash__Item--restore">Restore</button>
+      </form>
+    </li>
+  )
+}
@@ -1,6 +1,6 @@
 import { forwardRef } from "react"
 import { FontAwesomeIcon } from "@fortawesome/react-fontawesome"
-import { faCaretDown, faSignOutAlt, faUser, faHome } from "@fortawesome/free-solid-svg-icons"
+import { faCaretDown, faSignOutAlt, faUser, faHome, faTrash, faSearch, faKey } from "@fortawesome/free-solid-svg-icons"
 import * as DropdownMenu from "@radix-ui/react-dropdown-menu"
 
 import { UserProvider, useUserContext } from "../../hooks/useUserContext"
@@ -9,15 +9,20 @@ import type { UserBody } from "../../models/user"
 
 export interface NavBarProps {
   user: UserBody | undefined;
+  /**
+   * query is the current search query, if any.
+   */
+  query?: string;
 }
 
-export function NavBar({ user }: NavBarProps) {
+export function NavBar({ user, query }: NavBarProps) {
   return (
     <UserProvider userBody={user}>
       <div className="NavBar">
         <h1 className="Title">
           re<span className="Title__gradient">Nodes</span>
         </h1>
+        {user && <NavBar.Search query={query} />}
         {user
           ? <NavBar.User />
           : <NavBar.SignIn />
@@ -37,6 +42,15 @@ NavBar.SignIn = () => {
   )
 }
 
+NavBar.Search = ({ query }: { query?: string }) => {
+  return (
+    <form className="NavBar__Search" action="/search" method="get" role="search">
+      <FontAwesomeIcon icon={faSearch} className="NavBar__Search--icon" />
+      <input type="search" name="q" defaultValue={query} placeholder="Search" aria-label="Search Nodes" className="NavBar__Search--input" />
+    </form>
+  )
+}
+
 NavBar.User = () => {
   const { user } = useUserContext()
   return (
@@ -54,6 +68,16 @@ NavBar.User = () => {
           <div className="DropdownMenu__CenterSlot">Profile</div>
           <div className="DropdownMenu__RightSlot"></div>
         </DropdownMenu.Item>
+        <DropdownMenu.Item className="DropdownMenu__Item" onSelect={() => window.location.href = "/trash"}>
+          <div className="DropdownMenu__LeftSlot"><FontAwesomeIcon icon={faTrash} /></div>
+          <div className="DropdownMenu__CenterSlot">Trash</div>
+          <div className="DropdownMenu__RightSlot"></div>
+        </DropdownMenu.Item>
+        <DropdownMenu.Item className="DropdownMenu__Item" onSelect={() => window.location.href = "/settings/tokens"}>
+          <div className="DropdownMenu__LeftSlot"><FontAwesomeIcon icon={faKey} /></div>
+          <div className="DropdownMenu__CenterSlot">API Tokens</div>
+          <div className="DropdownMenu__RightSlot"></div>
+        </DropdownMenu.Item>
         <DropdownMenu.Separator className="DropdownMenu__Separator" />
         <DropdownMenu.Item className="DropdownMenu__Item" onSelect={() => window.location.href = "/auth/signout?origin_uri=" + location.href}>
           <div className="DropdownMenu__LeftSlot"><FontAwesomeIcon icon={faSignOutAlt} /></div>
@@ -4,8 +4,9 @@ import { DynamoDBDocumentClient } from "@aws-sdk/lib-dynamodb"
 const DB_ENDPOINT = process.env.DB_ENDPOINT
 const TABLE_NAME = process.env.TABLE_NAME
 const AWS_REGION = process.env.AWS_REGION || "us-east-1"
+const DB_DRIVER = process.env.DB_DRIVER || "dynamo"
 
-if (!TABLE_NAME) throw new Error("environment variable TABLE_NAME can't be undefined")
+if (!TABLE_NAME && DB_DRIVER === "dynamo") throw new Error("environment variable TABLE_NAME can't be undefined")
 
 let config: DynamoDBClientConfig = {
   region: AWS_REGION,
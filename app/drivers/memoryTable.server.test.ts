@@ -0,0 +1,64 @@
+import test from "tape"
+import type { Test } from "tape"
+
+import { MemoryTable } from "./memoryTable.server"
+
+test("memoryTable.query()", (assert: Test) => {
+  const table = new MemoryTable()
+  table.put({ pk: "b", _b: "branch", _n: "." })
+  table.put({ pk: "#branch", _b: "branch", _n: "a" })
+  table.put({ pk: "a", _b: "branch", _n: "b" })
+  table.put({ pk: "c", _b: "branch" })
+  table.put({ pk: "d", _b: "other", _n: "." })
+  // `byBranch` should return every item of the branch sorted by `pk`.
+  assert.deepEqual(table.query("byBranch", "branch").map(item => item.pk), ["#branch", "a", "b", "c"])
+  // `byNext` should skip the items without `_n`, and sort them by `_n`.
+  assert.deepEqual(table.query("byNext", "branch").map(item => item.pk), ["b", "#branch", "a"])
+  assert.deepEqual(table.query("byNext", "branch", "b").map(item => item.pk), ["a"])
+  // Changing the branch of an item should update the index.
+  table.put({ pk: "c", _b: "other" })
+  assert.deepEqual(table.query("byBranch", "other").map(item => item.pk), ["c", "d"])
+  table.delete("d")
+  assert.deepEqual(table.query("byBranch", "other").map(item => item.pk), ["c"])
+  // Branches without items on `byNext` should only be listed on `byBranch`.
+  assert.deepEqual(table.branchNames("byBranch"), ["branch", "other"])
+  assert.deepEqual(table.branchNames("byNext"), ["branch"])
+  assert.end()
+})
+
+test("memoryTable.get()", (assert: Test) => {
+  const table = new MemoryTable()
+  const item = { pk: "a", _m: { isOpened: true }, content: undefined }
+  table.put(item)
+  // Items should be copied, and their `undefined` values removed.
+  item._m.isOpened = false
+  assert.deepEqual(table.get("a"), { pk: "a", _m: { isOpened: true } })
+  const stored = table.get("a")
+  if (stored) stored._m.isOpened = false
+  assert.deepEqual(table.get("a"), { pk: "a", _m: { isOpened: true } })
+  assert.equal(table.get("b"), undefined)
+  assert.end()
+})
+
+test("memoryTable.transaction()", (assert: Test) => {
+  const table = new MemoryTable()
+  table.put({ pk: "a", _b: "branch", content: "a" })
+  // A failed transaction should leave the table untouched.
+  assert.throws(() => table.transaction(() => {
+    table.put({ pk: "a", _b: "other", content: "updated" })
+    table.put({ pk: "b", _b: "branch" })
+    table.delete("a")
+    throw new Error("failed")
+  }), /failed/)
+  assert.deepEqual(table.get("a"), { pk: "a", _b: "branch", content: "a" })
+  assert.equal(table.get("b"), undefined)
+  assert.deepEqual(table.query("byBranch", "branch").map(item => item.pk), ["a"])
+  assert.deepEqual(table.query("byBranch", "other"), [])
+  // A successful transaction should return the value of the function.
+  assert.equal(table.transaction(() => {
+    table.put({ pk: "b", _b: "branch" })
+    return true
+  }), true)
+  assert.deepEqual(table.query("byBranch", "branch").map(item => item.pk), ["a", "b"])
+  assert.end()
+})
@@ -0,0 +1,156 @@
+import type { Table, TableIndex, TableItem } from "./tableDriver.server"
+
+declare global {
+  /**
+   * __memoryTable holds the process wide `MemoryTable` instance.
+   */
+  var __memoryTable: MemoryTable | undefined
+}
+/**
+ * MemoryTable is an implementation of the `Table` interface that keeps
+ * every item in memory. It's meant to be used on tests and for local
+ * development, since its items are lost once the process exits.
+ */
+export class MemoryTable implements Table {
+  /**
+   * items holds every item of the table by its `pk`.
+   */
+  private items = new Map<string, TableItem>()
+  /**
+   * branches holds the `pk` of the items of each branch.
+   */
+  private branches = new Map<string, Set<string>>()
+  /**
+   * journal holds the original value of the items written during the
+   * current transaction, so they can be rolled back.
+   */
+  private journal?: Map<string, TableItem | undefined>
+  /**
+   * get returns a copy of a single item identified by its `pk`.
+   * @param pk - Item unique identifier.
+   */
+  get(pk: string): TableItem | undefined {
+    const item = this.items.get(pk)
+    return item === undefined ? undefined : clone(item)
+  }
+  /**
+   * put inserts or replaces a copy of an item.
+   * @param item - Item to store.
+   */
+  put(item: TableItem): void {
+    this.record(item.pk)
+    this.write(clone(item))
+  }
+  /**
+   * delete deletes the item identified by its `pk`.
+   * @param pk - Item unique identifier.
+   */
+  delete(pk: string): void {
+    this.record(pk)
+    this.remove(pk)
+  }
+  /**
+   * query returns a copy of the items of a branch, sorted by the index
+   * sort key.
+   * @param index - Index to query.
+   * @param _b - Branch to query.
+   * @param value - Optional value the sort key must be equal to.
+   */
+  query(index: TableIndex, _b: string, value?: string): TableItem[] {
+    const key = index === "byBranch" ? "pk" : "_n"
+    const items: TableItem[] = []
+    for (let pk of this.branches.get(_b) || []) {
+      const item = this.items.get(pk) as TableItem
+      if (item[key] === undefined || (value !== undefined && item[key] !== value)) continue
+      items.push(clone(item))
+    }
+    return items.sort((a, b) => a[key] < b[key] ? -1 : a[key] > b[key] ? 1 : 0)
+  }
+  /**
+   * branchNames returns every branch that holds items on an index, sorted.
+   * @param index - Index to scan.
+   */
+  branchNames(index: TableIndex): string[] {
+    const key = index === "byBranch" ? "pk" : "_n"
+    const result: string[] = []
+    for (let [_b, pks] of this.branches) {
+      if ([...pks].some(pk => (this.items.get(pk) as TableItem)[key] !== undefined)) result.push(_b)
+    }
+    return result.sort()
+  }
+  /**
+   * transaction runs a function as an all-or-nothing transaction. Nested
+   * transactions are part of the outer one.
+   * @param fn - Function to run.
+   */
+  transaction<T>(fn: () => T): T {
+    if (this.journal !== undefined) return fn()
+    this.journal = new Map()
+    try {
+      return fn()
+    } catch (err) {
+      for (let [pk, item] of this.journal) {
+        item === undefined ? this.remove(pk) : this.write(item)
+      }
+      throw err
+    } finally {
+      this.journal = undefined
+    }
+  }
+  /**
+   * clear deletes every item of the table.
+   */
+  clear(): void {
+    this.items.clear()
+    this.branches.clear()
+  }
+  /**
+   * record stores the original value of an item on the current
+   * transaction journal.
+   * @param pk - Item unique identifier.
+   */
+  private record(pk: string): void {
+    if (this.journal === undefined || this.journal.has(pk)) return
+    this.journal.set(pk, this.items.get(pk))
+  }
+  /**
+   * write stores an item and updates the branches index.
+   * @param item - Item to store.
+   */
+  private write(item: TableItem): void {
+    this.remove(item.pk)
+    this.items.set(item.pk, item)
+    if (item._b === undefined) return
+    if (!this.branches.has(item._b)) this.branches.set(item._b, new Set())
+    this.branches.get(item._b)?.add(item.pk)
+  }
+  /**
+   * remove deletes an item and updates the branches index.
+   * @param pk - Item unique identifier.
+   */
+  private remove(pk: string): void {
+    const item = this.items.get(pk)
+    if (item === undefined) return
+    this.items.delete(pk)
+    if (item._b === undefined) return
+    const branch = this.branches.get(item._b)
+    branch?.delete(pk)
+    if (branch?.size === 0) this.branches.delete(item._b)
+  }
+}
+/**
+ * table is the process wide instance of the `MemoryTable` class. It's
+ * stored globally so it survives the purge of the require cache done
+ * by the development server on every request.
+ */
+export const table: MemoryTable = global.__memoryTable || (global.__memoryTable = new MemoryTable())
+/**
+ * Functions
+ */
+/**
+ * clone returns a deep copy of an item, without its `undefined` values.
+ * @param item - Item to copy.
+ */
+function clone(item: TableItem): TableItem {
+  return JSON.parse(JSON.stringify(item))
+}
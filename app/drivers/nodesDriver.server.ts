@@ -0,0 +1,167 @@
+import { driver as dynamoDriver } from "./nodesDynamoDriver.server"
+import { NodesTableDriver } from "./nodesTableDriver.server"
+import { table as memoryTable } from "./memoryTable.server"
+import { getTable as getSQLiteTable } from "./sqliteTable.server"
+import type { NodeDynamoItem, NodeDynamoPage, NodeRevisionItem, NodeSearchItem } from "./nodesDynamoDriver.server"
+import type { NodeItem, NodePatch, NodeMeta, NodeRevision } from "../models/node"
+import type { DBDriver } from "../types"
+
+/**
+ * DB_DRIVER is the name of the storage used to store the `Nodes`.
+ */
+const DB_DRIVER = process.env.DB_DRIVER || "dynamo"
+
+/**
+ * NodesDriver is the interface every `Nodes` driver must implement.
+ */
+export interface NodesDriver extends DBDriver<NodeItem, NodeDynamoItem, NodePatch, unknown> {
+  /**
+   * list returns the list of `Nodes` under a parent, in linked list order.
+   * @param parent - `Nodes` parent.
+   */
+  list(parent: string): Promise<NodeDynamoItem[]>;
+  /**
+   * page returns up to `limit` `Nodes` under a parent, in linked list
+   * order, starting after the `Node` identified by `cursor`.
+   * @param parent - `Nodes` parent.
+   * @param limit - Maximum number of `Nodes` of the page.
+   * @param cursor - `pk` of the `Node` after which the page starts.
+   */
+  page(parent: string, limit: number, cursor?: string): Promise<NodeDynamoPage>;
+  /**
+   * put inserts a new `Node` after another `Node`, or at the end of the list.
+   * @param pk - `Node` unique identifier.
+   * @param body - `Node` body to be stored.
+   * @param parent - `Node` parent.
+   * @param afterPk - `Node` to set the new `Node` after.
+   */
+  put(pk: string, body: NodeItem, parent?: string, afterPk?: string): Promise<boolean>;
+  /**
+   * update updates the content or interpreter of a `Node`, increases its
+   * version and sets the time and author of the change. It fails with a
+   * `PreconditionFailedError` if a `version` is given and it isn't the
+   * current version of the `Node`.
+   * @param pk - `Node` unique identifier.
+   * @param patch - `Node` patch to be applied to the `item`.
+   * @param version - Expected version of the `Node`.
+   * @param updatedBy - Unique identifier of the user making the change.
+   */
+  update(pk: string, patch: NodePatch, version?: number, updatedBy?: string): Promise<boolean>;
+  /**
+   * meta updates the meta attributes of a `Node`.
+   * @param pk - `Node` unique identifier.
+   * @param meta - Meta object to update.
+   */
+  meta(pk: string, meta: NodeMeta): Promise<boolean>;
+  /**
+   * after moves a `Node` after another `Node`, on the same or another parent.
+   * @param fromPK - `Node` to be moved.
+   * @param parent - `Nodes` parent.
+   * @param afterPK - `Node` after which the `Node` should be placed.
+   */
+  after(fromPK: string, parent: string, afterPK?: string): Promise<boolean>;
+  /**
+   * ancestors returns the ancestors of a `Node`, nearest first.
+   * @param pk - `Node` unique identifier.
+   */
+  ancestors(pk: string): Promise<NodeDynamoItem[]>;
+  /**
+   * trash moves a `Node` to the trash branch.
+   * @param pk - `Node` unique identifier.
+   * @param trash - Trash branch.
+   * @param deletedAt - Time of deletion in milliseconds.
+   * @param version - Expected version of the `Node`.
+   */
+  trash(pk: string, trash: string, deletedAt: number, version?: number): Promise<boolean>;
+  /**
+   * restore moves a `Node` out of the trash.
+   * @param pk - `Node` unique identifier.
+   * @param trash - Trash branch.
+   * @param parent - Branch where to restore the `Node`.
+   */
+  restore(pk: string, trash: string, parent?: string): Promise<boolean>;
+  /**
+   * branch returns all the items stored under a branch, without sorting them.
+   * @param _b - Branch to query.
+   */
+  branch(_b: string): Promise<NodeDynamoItem[]>;
+  /**
+   * purge permanently deletes a `Node` along with all its sub-nodes.
+   * @param pk - `Node` unique identifier.
+   */
+  purge(pk: string): Promise<boolean>;
+  /**
+   * branches returns every branch that holds a `Nodes` linked list.
+   */
+  branches(): Promise<string[]>;
+  /**
+   * relink rewrites the `head` item and the `_n` pointers of a branch so
+   * its list follows the given order.
+   * @param parent - `Nodes` parent.
+   * @param pks - `pk` of every `Node` of the branch, in order.
+   */
+  relink(parent: string, pks: string[]): Promise<boolean>;
+  /**
+   * putBranch stores a list of new `Nodes` under a parent without a list.
+   * @param parent - `Node` parent.
+   * @param items - Ordered list of `pk` and `Node` bodies to store.
+   * @param path - `pk` of the parent along with the ones of its ancestors,
+   *               starting from the root. It's read when it isn't given.
+   */
+  putBranch(parent: string, items: { pk: string, body: NodeItem }[], path?: string[]): Promise<boolean>;
+  /**
+   * search returns the entries of the search index for a term, on the tree
+   * of a user.
+   * @param root - Root branch of the tree of the user.
+   * @param term - Term to look for.
+   */
+  search(root: string, term: string): Promise<NodeSearchItem[]>;
+  /**
+   * documents returns the number of `Nodes` on the search index of a user.
+   * @param root - Root branch of the tree of the user.
+   */
+  documents(root: string): Promise<number>;
+  /**
+   * batchGet returns the items identified by a list of `pk`. Missing items
+   * are left out.
+   * @param pks - Unique identifiers of the items.
+   */
+  batchGet(pks: string[]): Promise<NodeDynamoItem[]>;
+  /**
+   * revisions returns the revisions of a `Node`, oldest first.
+   * @param pk - `Node` unique identifier.
+   */
+  revisions(pk: string): Promise<NodeRevisionItem[]>;
+  /**
+   * putRevision stores a revision of a `Node`, replacing the revision
+   * with the same `id` if it already exists.
+   * @param pk - `Node` unique identifier.
+   * @param revision - Revision to store.
+   */
+  putRevision(pk: string, revision: NodeRevision): Promise<boolean>;
+  /**
+   * deleteRevisions deletes a list of revisions of a `Node`.
+   * @param pk - `Node` unique identifier.
+   * @param ids - Unique identifiers of the revisions to delete.
+   */
+  deleteRevisions(pk: string, ids: string[]): Promise<boolean>;
+}
+/**
+ * driver is the `NodesDriver` selected through the `DB_DRIVER`
+ * environment variable.
+ */
+export const driver: NodesDriver = createDriver()
+/**
+ * Functions
+ */
+/**
+ * createDriver returns the `NodesDriver` configured by `DB_DRIVER`.
+ */
+function createDriver(): NodesDriver {
+  switch (DB_DRIVER) {
+    case "dynamo": return dynamoDriver
+    case "memory": return new NodesTableDriver({ db: memoryTable })
+    case "sqlite": return new NodesTableDriver({ db: getSQLiteTable() })
+    default: throw new Error(`unknown DB_DRIVER = ${DB_DRIVER}`)
+  }
+}
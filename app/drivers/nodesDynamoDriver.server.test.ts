@@ -3,6 +3,7 @@ import { ulid } from "ulid"
 import type { Test } from "tape"
 
 import { driver, NodeDynamoItem } from "./nodesDynamoDriver.server"
+import { key, withoutTimestamps } from "../tests/nodes"
 
 /**
  * To simplify this patterns an abstraction must be made
@@ -142,22 +143,26 @@ test("nodeDynamoDriver.update()", async (assert: Test) => {
   // Put a new element on the table
   assert.equal(await driver.put(pk, { id, content }, root), true)
   // Check that the element was correctly stored.
-  assert.deepEqual(await driver.get(pk), { pk, _b: root, _n: ".", id, content })
+  assert.deepEqual(withoutTimestamps(await driver.get(pk)), { pk, _b: root, _n: ".", id, content, _v: 1, _s: [content.toLowerCase()] })
   // Upate the content value
   let newContent = ulid()
   assert.equal(await driver.update(pk, { content: newContent }), true)
   // Check that the content was updated
-  assert.deepEqual(await driver.get(pk), { pk, _b: root, _n: ".", id, content: newContent })
+  assert.deepEqual(withoutTimestamps(await driver.get(pk)), { pk, _b: root, _n: ".", id, content: newContent, _v: 2, _s: [newContent.toLowerCase()] })
   // Update the interpreter value
   let interpreter = ulid()
   assert.equal(await driver.update(pk, { interpreter }), true)
   // Check that the interpreter was added to the item
-  assert.deepEqual(await driver.get(pk), { pk, _b: root, _n: ".", id, content: newContent, _t: interpreter })
+  assert.deepEqual(withoutTimestamps(await driver.get(pk)), { pk, _b: root, _n: ".", id, content: newContent, _t: interpreter, _v: 3, _s: [newContent.toLowerCase()] })
   // Update both the interpreter and the content
   let newInterpreter = ulid()
   assert.equal(await driver.update(pk, { content, interpreter: newInterpreter }), true)
   // Check that both the content and the interpreter was updated correctly
-  assert.deepEqual(await driver.get(pk), { pk, _b: root, _n: ".", id, content, _t: newInterpreter })
+  assert.deepEqual(withoutTimestamps(await driver.get(pk)), { pk, _b: root, _n: ".", id, content, _t: newInterpreter, _v: 4, _s: [content.toLowerCase()] })
+  // Updates conditioned to another version should fail
+  assert.equal(await driver.update(pk, { content: newContent }, 3).catch(err => err.name), "PreconditionFailedError")
+  assert.equal(await driver.update(pk, { content: newContent }, 4), true)
+  assert.deepEqual(withoutTimestamps(await driver.get(pk)), { pk, _b: root, _n: ".", id, content: newContent, _t: newInterpreter, _v: 5, _s: [newContent.toLowerCase()] })
   // Put a new node with an interpreter
   id = ulid()
   userId = ulid()
@@ -167,7 +172,7 @@ test("nodeDynamoDriver.update()", async (assert: Test) => {
   interpreter = ulid()
   assert.equal(await driver.put(pk, { id, content, interpreter }, root), true)
   // Check that the node was correctly stored
-  assert.deepEqual(await driver.get(pk), { pk, _b: root, _n: ".", id, content, _t: interpreter })
+  assert.deepEqual(withoutTimestamps(await driver.get(pk)), { pk, _b: root, _n: ".", id, content, _t: interpreter, _v: 1, _s: [content.toLowerCase()] })
   // End tests
   assert.end()
 })
@@ -208,13 +213,225 @@ test("nodeDynamoDriver.meta()", async (assert: Test) => {
   }
 })
 
-// Functions
-type KeyConfig = { id?: string, userId?: string, type?: string }
-/**
- * key is a helper function to construct keys to be used as
- * `pk` or `sk` inside the table.
- * @param config - Key configuration object.
- */
-function key({ id = "", userId = "U1", type = "Nodes" }: KeyConfig = {}) {
-  return [userId, type, id].filter(x => x !== "").join("#")
-}
\ No newline at end of file
+test("nodeDynamoDriver concurrent writes", async (assert: Test) => {
+  const userId = ulid()
+  const root = userId + "#Nodes"
+  const ids = ["001", "002", "003", "004", "005"]
+  const pks = ids.map(id => key({ userId, id }))
+  // Put the first element
+  assert.equal(await driver.put(pks[0], { id: ids[0], content: ulid() }, root), true)
+  // Concurrent puts at the tail should either succeed or fail with a `ConflictError`.
+  const results = await Promise.all(ids.slice(1).map((id, index) => (
+    driver.put(pks[index + 1], { id, content: ulid() }, root).catch(err => err)
+  )))
+  results.forEach(result => {
+    if (result !== true) assert.equal(result.name, "ConflictError")
+  })
+  // The list should only contain the `Nodes` that were stored.
+  const stored = [pks[0], ...pks.slice(1).filter((_, index) => results[index] === true)]
+  assert.deepEqual((await driver.list(root)).map(item => item.pk).sort(), stored.sort())
+  // Concurrent deletes should never break the list.
+  const deleted = await Promise.all(stored.map(pk => driver.delete(pk).catch(err => err)))
+  const remaining = stored.filter((_, index) => deleted[index] !== true)
+  assert.deepEqual((await driver.list(root)).map(item => item.pk).sort(), remaining.sort())
+  // End
+  assert.end()
+})
+
+test("nodeDynamoDriver trash", async (assert: Test) => {
+  const userId = ulid()
+  const root = userId + "#Nodes"
+  const trash = userId + "#Trash"
+  const pk1 = key({ userId, id: "001" })
+  const pk2 = key({ userId, id: "002" })
+  const pk3 = key({ userId, id: "003" })
+  const pk21 = key({ userId, id: "021" })
+  assert.equal(await driver.put(pk1, { id: "001", content: ulid() }, root), true)
+  assert.equal(await driver.put(pk2, { id: "002", content: ulid() }, root), true)
+  assert.equal(await driver.put(pk3, { id: "003", content: ulid() }, root), true)
+  assert.equal(await driver.put(pk21, { id: "021", content: ulid() }, pk2), true)
+  // Trashing a `Node` should remove it from its list, and keep its sub-nodes.
+  assert.equal(await driver.trash(pk2, trash, 1), true)
+  assert.deepEqual((await driver.list(root)).map(item => item.pk), [pk1, pk3])
+  assert.deepEqual((await driver.branch(trash)).map(item => item.pk), [pk2])
+  assert.deepEqual((await driver.list(pk2)).map(item => item.pk), [pk21])
+  // Restoring a `Node` should put it back on its original position.
+  assert.equal(await driver.restore(pk2, trash), true)
+  assert.deepEqual((await driver.list(root)).map(item => item.pk), [pk1, pk2, pk3])
+  assert.deepEqual(await driver.branch(trash), [])
+  // If the previous `Node` is gone, it should be restored at the end of the list.
+  assert.equal(await driver.trash(pk2, trash, 2), true)
+  assert.equal(await driver.delete(pk1), true)
+  assert.equal(await driver.restore(pk2, trash), true)
+  assert.deepEqual((await driver.list(root)).map(item => item.pk), [pk3, pk2])
+  // Purging a `Node` should delete it along with its sub-nodes.
+  assert.equal(await driver.trash(pk2, trash, 3), true)
+  assert.equal(await driver.purge(pk2), true)
+  assert.equal(await driver.get(pk2), undefined)
+  assert.equal(await driver.get(pk21), undefined)
+  assert.deepEqual(await driver.branch(pk2), [])
+  assert.deepEqual((await driver.list(root)).map(item => item.pk), [pk3])
+  // End
+  assert.end()
+})
+
+test("nodeDynamoDriver move", async (assert: Test) => {
+  const userId = ulid()
+  const root = userId + "#Nodes"
+  const pk1 = key({ userId, id: "001" })
+  const pk2 = key({ userId, id: "002" })
+  const pk3 = key({ userId, id: "003" })
+  const pk21 = key({ userId, id: "021" })
+  assert.equal(await driver.put(pk1, { id: "001", content: ulid() }, root), true)
+  assert.equal(await driver.put(pk2, { id: "002", content: ulid() }, root), true)
+  assert.equal(await driver.put(pk3, { id: "003", content: ulid() }, root), true)
+  assert.equal(await driver.put(pk21, { id: "021", content: ulid() }, pk2), true)
+  // Moving a `Node` to another parent should splice it after the given `Node`.
+  assert.equal(await driver.after(pk3, pk2, pk21), true)
+  assert.deepEqual((await driver.list(root)).map(item => item.pk), [pk1, pk2])
+  assert.deepEqual((await driver.list(pk2)).map(item => item.pk), [pk21, pk3])
+  // Moving a `Node` to a parent without children should create the list.
+  assert.equal(await driver.after(pk21, pk1), true)
+  assert.deepEqual((await driver.list(pk1)).map(item => item.pk), [pk21])
+  assert.deepEqual((await driver.list(pk2)).map(item => item.pk), [pk3])
+  // Moving a `Node` to the start of another list.
+  assert.equal(await driver.after(pk3, root), true)
+  assert.deepEqual((await driver.list(root)).map(item => item.pk), [pk3, pk1, pk2])
+  assert.deepEqual(await driver.list(pk2), [])
+  // Moving a `Node` inside one of its descendants should fail.
+  assert.equal(await driver.after(pk1, pk21).catch(err => err.name), "InvalidMoveError")
+  assert.equal(await driver.after(pk1, pk1).catch(err => err.name), "InvalidMoveError")
+  assert.deepEqual((await driver.list(root)).map(item => item.pk), [pk3, pk1, pk2])
+  // End
+  assert.end()
+})
+
+test("nodeDynamoDriver.page()", async (assert: Test) => {
+  const userId = ulid()
+  const root = userId + "#Nodes"
+  const [pk1, pk2, pk3] = ["001", "002", "003"].map(id => key({ userId, id }))
+  assert.deepEqual(await driver.page(root, 2), { items: [] })
+  assert.equal(await driver.put(pk1, { id: "001", content: ulid() }, root), true)
+  assert.equal(await driver.put(pk2, { id: "002", content: ulid() }, root), true)
+  assert.equal(await driver.put(pk3, { id: "003", content: ulid() }, root), true)
+  // Pages should follow the linked list order, and point to the next page.
+  let page = await driver.page(root, 2)
+  assert.deepEqual(page.items.map(item => item.pk), [pk1, pk2])
+  assert.equal(page.offset, pk2)
+  page = await driver.page(root, 2, page.offset)
+  assert.deepEqual(page.items.map(item => item.pk), [pk3])
+  assert.equal(page.offset, undefined)
+  // A `Node` put after the cursor should show up on the next page.
+  assert.equal(await driver.after(pk1, root, pk2), true)
+  assert.deepEqual((await driver.page(root, 2, pk2)).items.map(item => item.pk), [pk1, pk3])
+  // The cursor should belong to the list.
+  assert.equal(await driver.page(pk1, 2, pk2).catch(err => err.name), "InvalidCursorError")
+  assert.equal(await driver.page(root, 2, key({ userId, id: "999" })).catch(err => err.name), "InvalidCursorError")
+  // End
+  assert.end()
+})
+
+test("nodeDynamoDriver.relink()", async (assert: Test) => {
+  const userId = ulid()
+  const root = userId + "#Nodes"
+  const [pk1, pk2, pk3] = ["001", "002", "003"].map(id => key({ userId, id }))
+  assert.equal(await driver.put(pk1, { id: "001", content: ulid() }, root), true)
+  assert.equal(await driver.put(pk2, { id: "002", content: ulid() }, root), true)
+  assert.equal(await driver.put(pk3, { id: "003", content: ulid() }, root), true)
+  assert.ok((await driver.branches()).includes(root))
+  // The list should follow the new order.
+  assert.equal(await driver.relink(root, [pk3, pk1, pk2]), true)
+  assert.deepEqual((await driver.list(root)).map(item => item.pk), [pk3, pk1, pk2])
+  assert.equal((await driver.get(pk2))?._n, ".")
+  // Leaving out a `Node` should leave it unreachable.
+  assert.equal(await driver.relink(root, [pk1]), true)
+  assert.deepEqual((await driver.list(root)).map(item => item.pk), [pk1])
+  // The `Nodes` should belong to the branch.
+  assert.equal(await driver.relink(pk1, [pk2]).catch(err => err.name), "ConflictError")
+  // End
+  assert.end()
+})
+
+test("nodeDynamoDriver ancestors", async (assert: Test) => {
+  const userId = ulid()
+  const root = userId + "#Nodes"
+  const [pk1, pk2, pk11, pk111] = ["001", "002", "011", "111"].map(id => key({ userId, id }))
+  assert.equal(await driver.put(pk1, { id: "001", content: ulid() }, root), true)
+  assert.equal(await driver.put(pk2, { id: "002", content: ulid() }, root), true)
+  assert.equal(await driver.put(pk11, { id: "011", content: ulid() }, pk1), true)
+  assert.equal(await driver.put(pk111, { id: "111", content: ulid() }, pk11), true)
+  // Every `Node` should store the path to its parent, starting from the root.
+  assert.equal((await driver.get(pk1))?._p, undefined)
+  assert.deepEqual((await driver.get(pk11))?._p, [pk1])
+  assert.deepEqual((await driver.get(pk111))?._p, [pk1, pk11])
+  assert.deepEqual((await driver.ancestors(pk111)).map(item => item.pk), [pk11, pk1])
+  // Moving a `Node` should update its path, but not the path of its sub-nodes.
+  assert.equal(await driver.after(pk11, pk2), true)
+  assert.deepEqual((await driver.get(pk11))?._p, [pk2])
+  assert.deepEqual((await driver.get(pk111))?._p, [pk1, pk11])
+  // A stale path should still resolve to the current ancestors.
+  assert.deepEqual((await driver.ancestors(pk111)).map(item => item.pk), [pk11, pk2])
+  assert.deepEqual(await driver.ancestors(pk1), [])
+  // End
+  assert.end()
+})
+
+test("nodeDynamoDriver revisions", async (assert: Test) => {
+  const userId = ulid()
+  const root = userId + "#Nodes"
+  const trash = userId + "#Trash"
+  const pk1 = key({ userId, id: "001" })
+  const pk11 = key({ userId, id: "011" })
+  assert.equal(await driver.put(pk1, { id: "001", content: ulid() }, root), true)
+  assert.equal(await driver.put(pk11, { id: "011", content: ulid() }, pk1), true)
+  // Revisions should come back oldest first, and putting an existing one should replace it.
+  assert.equal(await driver.putRevision(pk1, { id: "R1", content: "a", createdAt: 1 }), true)
+  assert.equal(await driver.putRevision(pk1, { id: "R2", content: "b", userId, createdAt: 2 }), true)
+  assert.equal(await driver.putRevision(pk1, { id: "R2", content: "c", userId, createdAt: 3 }), true)
+  assert.equal(await driver.putRevision(pk11, { id: "R1", content: "a", createdAt: 1 }), true)
+  assert.deepEqual((await driver.revisions(pk1)).map(item => [item.id, item.content, item._u, item._c]), [
+    ["R1", "a", undefined, 1],
+    ["R2", "c", userId, 3],
+  ])
+  // Revisions shouldn't show up on the list of sub-nodes.
+  assert.deepEqual((await driver.list(pk1)).map(item => item.pk), [pk11])
+  assert.equal(await driver.deleteRevisions(pk1, ["R1"]), true)
+  assert.deepEqual((await driver.revisions(pk1)).map(item => item.id), ["R2"])
+  // Purging a `Node` should delete its history and the history of its sub-nodes.
+  assert.equal(await driver.trash(pk1, trash, 1), true)
+  assert.equal(await driver.purge(pk1), true)
+  assert.deepEqual(await driver.revisions(pk1), [])
+  assert.deepEqual(await driver.revisions(pk11), [])
+  // End
+  assert.end()
+})
+
+test("nodeDynamoDriver search index", async (assert: Test) => {
+  const userId = ulid()
+  const root = userId + "#Nodes"
+  const trash = userId + "#Trash"
+  const [pk1, pk11] = ["001", "011"].map(id => key({ userId, id }))
+  assert.equal(await driver.put(pk1, { id: "001", content: "Buy milk, and more MILK" }, root), true)
+  assert.equal(await driver.put(pk11, { id: "011", content: JSON.stringify({ content: "Café milk", meta: { done: false } }) }, pk1), true)
+  // Terms should be lowercased, stripped from accents, and unwrapped from JSON contents.
+  assert.deepEqual((await driver.search(root, "milk")).map(item => [item.id, item._f]).sort(), [["001", 2], ["011", 1]])
+  assert.deepEqual((await driver.search(root, "cafe")).map(item => item.id), ["011"])
+  assert.deepEqual(await driver.search(root, "done"), [])
+  // Every new `Node` should be counted, to weight the terms.
+  assert.equal(await driver.documents(root), 2)
+  // Updating the content should replace its terms.
+  assert.equal(await driver.update(pk1, { content: "Buy bread" }), true)
+  assert.deepEqual((await driver.search(root, "milk")).map(item => item.id), ["011"])
+  assert.deepEqual((await driver.search(root, "bread")).map(item => item.id), ["001"])
+  // Purging a `Node` should delete its terms and the terms of its sub-nodes.
+  assert.equal(await driver.trash(pk1, trash, 1), true)
+  assert.equal(await driver.purge(pk1), true)
+  assert.deepEqual(await driver.search(root, "bread"), [])
+  assert.deepEqual(await driver.search(root, "milk"), [])
+  assert.equal(await driver.documents(root), 0)
+  // Copied branches should be counted as well.
+  assert.equal(await driver.putBranch(root, [{ pk: pk1, body: { id: "001", content: "a" } }, { pk: pk11, body: { id: "011", content: "b" } }]), true)
+  assert.equal(await driver.documents(root), 2)
+  // End
+  assert.end()
+})
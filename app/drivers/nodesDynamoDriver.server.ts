@@ -1,9 +1,37 @@
-import { DeleteCommand, QueryCommand, PutCommand, UpdateCommand } from "@aws-sdk/lib-dynamodb"
-import type { PutCommandOutput, QueryCommandOutput, UpdateCommandOutput, DeleteCommandOutput } from "@aws-sdk/lib-dynamodb"
+import { BatchGetCommand, BatchWriteCommand, PutCommand, QueryCommand, ScanCommand, TransactWriteCommand, UpdateCommand } from "@aws-sdk/lib-dynamodb"
+import type { BatchGetCommandInput, BatchGetCommandOutput, BatchWriteCommandInput, BatchWriteCommandOutput, PutCommandOutput, QueryCommandOutput, ScanCommandOutput, TransactWriteCommandInput, TransactWriteCommandOutput, UpdateCommandOutput } from "@aws-sdk/lib-dynamodb"
+import type { CancellationReason } from "@aws-sdk/client-dynamodb"
 
 import { DynamoDriver } from "./dynamoDriver.server"
+import { ConflictError, InvalidCursorError, InvalidMoveError, PreconditionFailedError } from "../server/errors.server"
 import type { DynamoDriverItem } from "./dynamoDriver.server"
-import type { NodeItem, NodePatch, NodeMeta } from "../models/node"
+import type { NodeItem, NodePatch, NodeMeta, NodeRevision } from "../models/node"
+
+/**
+ * BATCH_WRITE_LIMIT is the maximum number of operations DynamoDB
+ * accepts on a single `BatchWriteItem` request.
+ */
+const BATCH_WRITE_LIMIT = 25
+/**
+ * BATCH_GET_LIMIT is the maximum number of items DynamoDB returns on a
+ * single `BatchGetItem` request.
+ */
+const BATCH_GET_LIMIT = 100
+/**
+ * MAX_SEARCH_TERMS is the maximum number of distinct terms of a `Node`
+ * content that are stored on the search index.
+ */
+const MAX_SEARCH_TERMS = 200
+/**
+ * MAX_SEARCH_TERM_LENGTH is the length of the longest term stored on the
+ * search index. Longer words, like URLs or hashes, are left out.
+ */
+const MAX_SEARCH_TERM_LENGTH = 64
+/**
+ * WriteRequest is a single put or delete operation of a `BatchWriteItem`
+ * request.
+ */
+type WriteRequest = BatchWriteCommandInput["RequestItems"][string][number]
 
 /**
  * NodeDynamoItem is the interface that represent how a Node is stored
@@ -28,6 +56,129 @@ export interface NodeDynamoItem extends NodeItem, DynamoDriverItem {
    * _m holds the meta information of the NodeDynamoItem.
    */
   _m?: NodeMeta;
+  /**
+   * _v holds the version of the item. It starts at 1 and it's increased
+   * on every update. Items stored before it existed are on version 0.
+   */
+  _v?: number;
+  /**
+   * createdAt holds the time, in milliseconds, at which the item was created.
+   */
+  createdAt?: number;
+  /**
+   * updatedAt holds the time, in milliseconds, of the latest change of the
+   * content or the interpreter of the item.
+   */
+  updatedAt?: number;
+  /**
+   * updatedBy holds the unique identifier of the user that made the latest
+   * change of the item.
+   */
+  updatedBy?: string;
+  /**
+   * _p holds the `pk` of the ancestors of the item, starting from the root,
+   * at the time it was put or moved. It's only a hint used to get all the
+   * ancestors at once, since moving an ancestor doesn't update it.
+   */
+  _p?: string[];
+  /**
+   * _s holds the terms of the content of the item that are stored on the
+   * search index, so they can be removed when the content changes.
+   */
+  _s?: string[];
+  /**
+   * _d holds the time, in milliseconds, at which the item was moved
+   * to the trash.
+   */
+  _d?: number;
+  /**
+   * _o holds the branch the item belonged to before being moved
+   * to the trash.
+   */
+  _o?: string;
+  /**
+   * _a holds the `pk` of the item that was pointing to the item before
+   * being moved to the trash.
+   */
+  _a?: string;
+}
+/**
+ * NodeRevisionItem is the interface that represent how a revision of a
+ * Node is stored on a DynamoDB table. Revisions live on the history
+ * branch of their `Node`, and since they have no `_n` attribute they
+ * are left out of the `byNext` index.
+ */
+export interface NodeRevisionItem extends DynamoDriverItem {
+  /**
+   * _b holds the history branch of the `Node`.
+   */
+  _b: string;
+  /**
+   * id is the unique identifier of the revision.
+   */
+  id: string;
+  /**
+   * content is the content of the `Node` at the time of the revision.
+   */
+  content: string;
+  /**
+   * _t contains the interpreter value of the `Node`.
+   */
+  _t?: string;
+  /**
+   * _u holds the unique identifier of the user that made the change.
+   */
+  _u?: string;
+  /**
+   * _c holds the time, in milliseconds, of the latest change recorded
+   * on the revision.
+   */
+  _c: number;
+}
+/**
+ * NodeSearchItem is the interface that represent how an entry of the search
+ * index is stored on a DynamoDB table. Every term of the content of a
+ * `Node` is stored on the search branch of the term, so finding the `Nodes`
+ * that contain a term is a single query.
+ */
+export interface NodeSearchItem extends DynamoDriverItem {
+  /**
+   * _b holds the search branch of the term.
+   */
+  _b: string;
+  /**
+   * id is the unique identifier of the `Node` that contains the term.
+   */
+  id: string;
+  /**
+   * _f holds the number of times the term appears on the `Node` content.
+   */
+  _f: number;
+}
+/**
+ * NodeSearchCountItem is the interface that represent how the number of
+ * `Nodes` on the search index of a user is stored on a DynamoDB table. It's
+ * what rare terms are weighted against.
+ */
+export interface NodeSearchCountItem extends DynamoDriverItem {
+  /**
+   * _c holds the number of `Nodes` on the search index.
+   */
+  _c: number;
+}
+/**
+ * NodeDynamoPage is a page of a `Nodes` linked list.
+ */
+export interface NodeDynamoPage {
+  /**
+   * items are the `Node` items of the page, in linked list order.
+   */
+  items: NodeDynamoItem[];
+  /**
+   * offset is the `pk` of the last item of the page. It's only set if the
+   * list continues after it, and it's the cursor of the next page.
+   */
+  offset?: string;
 }
 /**
  * NodesDynamoDriver handles the logic of `Node` items inside a DynamoDB table.
@@ -56,7 +207,9 @@ export class NodesDynamoDriver extends DynamoDriver<NodeItem, NodeDynamoItem, No
    * put inserts a new `Node` in the table. Every put is
    * done using a `ConditionExpression` that avoids replacing
    * an existing `Node` with a new one by checking if an
-   * item already exist on the table with the same `pk`.
+   * item already exist on the table with the same `pk`. The
+   * new `Node` and the update of the `Node` that should point
+   * to it are written in a single transaction.
    * @param pk - `Node` unique identifier.
    * @param body - `Node` body to be stored.
    * @param parent - `Node` parent.
@@ -64,58 +217,104 @@ export class NodesDynamoDriver extends DynamoDriver<NodeItem, NodeDynamoItem, No
    */
   async put(pk: string, body: NodeItem, parent?: string, afterPk?: string): Promise<boolean> {
     if (!parent) return false
-    const after = afterPk === undefined
+    let after = afterPk === undefined
       ? await this.getTail(parent)
       : await this.get(afterPk)
-    if (after === undefined) return this.putFirst(pk, parent, body)
-    const updatePromise: Promise<UpdateCommandOutput> = this.db.send(new UpdateCommand({
-      TableName: this.tableName,
-      Key: { pk: after.pk },
-      UpdateExpression: "SET #_n = :new_n",
-      ConditionExpression: "#_n = :_n",
-      ExpressionAttributeNames: { "#_n": "_n" },
-      ExpressionAttributeValues: { ":_n": after._n, ":new_n": pk },
-    }))
-    const item: NodeDynamoItem = { id: body.id, content: body.content, _t: body.interpreter, pk, _b: parent, _n: after === undefined ? "." : after._n }
-    if (body.interpreter) item._t = body.interpreter
-    const putPromise: Promise<PutCommandOutput> = this.db.send(new PutCommand({
-      TableName: this.tableName,
-      Item: item,
-      ConditionExpression: "attribute_not_exists(#pk)",
-      ExpressionAttributeNames: { "#pk": "pk" },
-    }))
-    const [updateOutput, putOutput] = await Promise.all([updatePromise, putPromise])
-    return (
-      updateOutput.$metadata.httpStatusCode === 200 &&
-      putOutput.$metadata.httpStatusCode === 200
-    )
+    // If the `Node` after which the new `Node` should be put is gone, we
+    // append the new `Node` to the end of the list.
+    if (afterPk !== undefined && (after === undefined || after._b !== parent)) after = await this.getTail(parent)
+    const path = await this.createPath(parent)
+    if (after === undefined) return this.putFirst(pk, parent, body, path)
+    const item = createNodeItem(pk, body, parent, after._n, path)
+    const ok = await this.transact([{
+      Update: {
+        TableName: this.tableName,
+        Key: { pk: after.pk },
+        UpdateExpression: "SET #_n = :new_n",
+        ConditionExpression: "#_n = :_n",
+        ExpressionAttributeNames: { "#_n": "_n" },
+        ExpressionAttributeValues: { ":_n": after._n, ":new_n": pk },
+      }
+    }, {
+      Put: {
+        TableName: this.tableName,
+        Item: item,
+        ConditionExpression: "attribute_not_exists(#pk)",
+        ExpressionAttributeNames: { "#pk": "pk" },
+      }
+    }])
+    if (ok) await this.index(item)
+    return ok
   }
   /**
    * putFirst creates the `head` item along the first `Node` of a new `parent`.
    * @param pk - `Node` unique identifier.
    * @param parent - `Node` parent.
    * @param item - `Node` item to be stored.
+   * @param path - Ancestors of the `Node`.
    */
-  private async putFirst(pk: string, parent: string, body: NodeItem): Promise<boolean> {
-    const putHeadPromise: Promise<PutCommandOutput> = this.db.send(new PutCommand({
-      TableName: this.tableName,
-      Item: { pk: "#" + parent, _b: parent, _n: pk },
-      ConditionExpression: "attribute_not_exists(#pk)",
-      ExpressionAttributeNames: { "#pk": "pk" },
-    }))
-    const item: NodeDynamoItem = { id: body.id, content: body.content, _t: body.interpreter, pk, _b: parent, _n: "." }
-    if (body.interpreter) item._t = body.interpreter
-    const putItemPromise: Promise<PutCommandOutput> = this.db.send(new PutCommand({
+  private async putFirst(pk: string, parent: string, body: NodeItem, path: string[]): Promise<boolean> {
+    const item = createNodeItem(pk, body, parent, ".", path)
+    const ok = await this.transact([{
+      Put: {
+        TableName: this.tableName,
+        Item: { pk: "#" + parent, _b: parent, _n: pk },
+        ConditionExpression: "attribute_not_exists(#pk)",
+        ExpressionAttributeNames: { "#pk": "pk" },
+      }
+    }, {
+      Put: {
+        TableName: this.tableName,
+        Item: item,
+        ConditionExpression: "attribute_not_exists(#pk)",
+        ExpressionAttributeNames: { "#pk": "pk" },
+      }
+    }])
+    if (ok) await this.index(item)
+    return ok
+  }
+  /**
+   * index stores the terms of the content of a new `Node` on the search
+   * index. Terms are written after the `Node`, since a transaction can't
+   * hold all the terms of a long content.
+   * @param item - `Node` item.
+   */
+  private async index(item: NodeDynamoItem): Promise<void> {
+    await this.batchWrite(createSearchItems(item.pk, item.id, item.content).map(Item => ({ PutRequest: { Item } })))
+    await this.count(item.pk, 1)
+  }
+  /**
+   * count adds to the number of `Nodes` on the search index of a user.
+   * @param pk - `Node` unique identifier, or root branch of the user.
+   * @param delta - Number of `Nodes` added, or removed if negative.
+   */
+  private async count(pk: string, delta: number): Promise<void> {
+    await this.db.send(new UpdateCommand({
       TableName: this.tableName,
-      Item: item,
-      ConditionExpression: "attribute_not_exists(#pk)",
-      ExpressionAttributeNames: { "#pk": "pk" },
+      Key: { pk: createSearchCountPK(pk) },
+      UpdateExpression: "ADD #_c :delta",
+      ExpressionAttributeNames: { "#_c": "_c" },
+      ExpressionAttributeValues: { ":delta": delta },
     }))
-    const [putHeadOutput, putItemOutput] = await Promise.all([putHeadPromise, putItemPromise])
-    return (
-      putHeadOutput.$metadata.httpStatusCode === 200 &&
-      putItemOutput.$metadata.httpStatusCode === 200
-    )
+  }
+  /**
+   * transact runs a list of write operations as a single all-or-nothing
+   * transaction. If any of the operations condition fails, none of them
+   * gets applied and a `ConflictError` is thrown.
+   * @param transactItems - List of write operations.
+   */
+  private async transact(transactItems: TransactWriteCommandInput["TransactItems"]): Promise<boolean> {
+    try {
+      const output: TransactWriteCommandOutput = await this.db.send(new TransactWriteCommand({
+        TransactItems: transactItems,
+      }))
+      return output.$metadata.httpStatusCode === 200
+    } catch (err) {
+      if (err.name === "TransactionCanceledException" && isConflict(err.CancellationReasons)) {
+        throw new ConflictError()
+      }
+      throw err
+    }
   }
   /**
    * getTail returns the current tail of the linked list. It should
@@ -137,33 +336,85 @@ export class NodesDynamoDriver extends DynamoDriver<NodeItem, NodeDynamoItem, No
       : undefined
   }
   /**
-   * update update only some specific attributes of a `Node`.
+   * update update only some specific attributes of a `Node`, increases its
+   * version and sets the time and author of the change. If a `version` is
+   * given, the update is conditioned to it being the current version of
+   * the `Node`. When the content changes, the search index is updated with
+   * its new terms.
    * @param pk - `Node` unique identifier.
    * @param patch - `Node` patch to be applied to the `item`.
+   * @param version - Expected version of the `Node`.
+   * @param updatedBy - Unique identifier of the user making the change.
    */
-  async update(pk: string, patch: NodePatch): Promise<boolean> {
-    const updateExpression: string[] = []
-    const expressionAttributeNames: { [key: string]: string } = {}
-    const expressionAttributeValues: { [key: string]: string } = {}
-    if (patch.content) {
-      updateExpression.push("#content = :content")
+  async update(pk: string, patch: NodePatch, version?: number, updatedBy?: string): Promise<boolean> {
+    const updateExpression: string[] = ["#updatedAt = :updatedAt"]
+    const expressionAttributeNames: { [key: string]: string } = { "#_v": "_v", "#updatedAt": "updatedAt" }
+    const expressionAttributeValues: { [key: string]: string | number | string[] } = { ":one": 1, ":updatedAt": Date.now() }
+    if (typeof patch.content === "string") {
+      updateExpression.push("#content = :content", "#_s = :_s")
       expressionAttributeNames["#content"] = "content"
+      expressionAttributeNames["#_s"] = "_s"
       expressionAttributeValues[":content"] = patch.content
+      expressionAttributeValues[":_s"] = Object.keys(createSearchTerms(patch.content))
     }
     if (patch.interpreter) {
       updateExpression.push("#_t = :_t")
       expressionAttributeNames["#_t"] = "_t"
       expressionAttributeValues[":_t"] = patch.interpreter
     }
-    if (updateExpression.length === 0) return true
-    const response: UpdateCommandOutput = await this.db.send(new UpdateCommand({
-      TableName: this.tableName,
-      Key: { pk },
-      UpdateExpression: `SET ${updateExpression.join(",")}`,
-      ExpressionAttributeNames: expressionAttributeNames,
-      ExpressionAttributeValues: expressionAttributeValues,
-    }))
-    return response.$metadata.httpStatusCode === 200
+    if (typeof patch.content !== "string" && !patch.interpreter) return true
+    if (updatedBy) {
+      updateExpression.push("#updatedBy = :updatedBy")
+      expressionAttributeNames["#updatedBy"] = "updatedBy"
+      expressionAttributeValues[":updatedBy"] = updatedBy
+    }
+    let conditionExpression: string | undefined = undefined
+    if (version === 0) {
+      conditionExpression = "attribute_not_exists(#_v)"
+    } else if (version !== undefined) {
+      conditionExpression = "#_v = :_v"
+      expressionAttributeValues[":_v"] = version
+    }
+    try {
+      const response: UpdateCommandOutput = await this.db.send(new UpdateCommand({
+        TableName: this.tableName,
+        Key: { pk },
+        UpdateExpression: `SET ${updateExpression.join(",")} ADD #_v :one`,
+        ConditionExpression: conditionExpression,
+        ExpressionAttributeNames: expressionAttributeNames,
+        ExpressionAttributeValues: expressionAttributeValues,
+        // The previous terms of the `Node` are needed to remove them from
+        // the search index.
+        ReturnValues: "UPDATED_OLD",
+      }))
+      if (typeof patch.content === "string") {
+        const previous = response.Attributes as Partial<NodeDynamoItem> | undefined
+        await this.reindex(pk, patch.content, previous?._s || [])
+      }
+      return response.$metadata.httpStatusCode === 200
+    } catch (err) {
+      if (err.name === "ConditionalCheckFailedException") throw new PreconditionFailedError()
+      throw err
+    }
+  }
+  /**
+   * reindex replaces the entries of a `Node` on the search index with the
+   * terms of its new content.
+   * @param pk - `Node` unique identifier.
+   * @param content - New content of the `Node`.
+   * @param previous - Terms of the previous content of the `Node`.
+   */
+  private async reindex(pk: string, content: string, previous: string[]): Promise<void> {
+    const id = pk.split("#").pop()
+    const items = createSearchItems(pk, id, content)
+    const terms = new Set(items.map(item => item._b))
+    await this.batchWrite([
+      ...previous
+        .map(term => createSearchBranch(pk, term))
+        .filter(branch => !terms.has(branch))
+        .map(branch => ({ DeleteRequest: { Key: { pk: branch + "#" + id } } })),
+      ...items.map(Item => ({ PutRequest: { Item } })),
+    ])
   }
   /**
    * meta updates the meta attributes of a `Node`.
@@ -201,6 +452,8 @@ export class NodesDynamoDriver extends DynamoDriver<NodeItem, NodeDynamoItem, No
   }
   /**
    * delete deletes a single `Node` from the table identified by its key.
+   * The `Node` pointing to the deleted `Node` is updated on the same
+   * transaction.
    * @param key - `Node` unique identifier.
    */
   async delete(pk: string): Promise<boolean> {
@@ -208,43 +461,98 @@ export class NodesDynamoDriver extends DynamoDriver<NodeItem, NodeDynamoItem, No
     if (node === undefined) return true
     const pointingToNode = await this.getPointingTo(node.pk, node._b)
     if (!pointingToNode) return false
-    // 1. Update `pointingToNode` to point to the `Node` currently
-    //    being pointed by the `Node` to be deleted.
-    const updatePromise: Promise<UpdateCommandOutput> = this.db.send(new UpdateCommand({
-      TableName: this.tableName,
-      Key: { pk: pointingToNode.pk },
-      UpdateExpression: "SET #_n = :_new_n",
-      ConditionExpression: "#_n = :_n",
-      ExpressionAttributeNames: { "#_n": "_n" },
-      ExpressionAttributeValues: { ":_new_n": node._n, ":_n": pointingToNode._n },
-    }))
-    // 2. Delete the node.
-    const deletePromise: Promise<DeleteCommandOutput> = this.db.send(new DeleteCommand({
-      TableName: this.tableName,
-      Key: { pk: node.pk },
-      ConditionExpression: "#_n = :_n",
-      ExpressionAttributeNames: { "#_n": "_n" },
-      ExpressionAttributeValues: { ":_n": node._n },
-    }))
-    // TODO: handle errors.
-    await Promise.all([updatePromise, deletePromise])
-    return true
+    return this.transact([{
+      // 1. Update `pointingToNode` to point to the `Node` currently
+      //    being pointed by the `Node` to be deleted.
+      Update: {
+        TableName: this.tableName,
+        Key: { pk: pointingToNode.pk },
+        UpdateExpression: "SET #_n = :_new_n",
+        ConditionExpression: "#_n = :_n",
+        ExpressionAttributeNames: { "#_n": "_n" },
+        ExpressionAttributeValues: { ":_new_n": node._n, ":_n": node.pk },
+      }
+    }, {
+      // 2. Delete the node.
+      Delete: {
+        TableName: this.tableName,
+        Key: { pk: node.pk },
+        ConditionExpression: "#_n = :_n",
+        ExpressionAttributeNames: { "#_n": "_n" },
+        ExpressionAttributeValues: { ":_n": node._n },
+      }
+    }])
   }
   /**
-   * list returns the list of `Nodes` under a `pk`.
+   * list returns the list of `Nodes` under a `pk`. The branch is read page
+   * by page, so it isn't truncated when it's bigger than the size limit of
+   * a single query.
    * @param parent - `Nodes` parent.
    */
   async list(parent: string): Promise<NodeDynamoItem[]> {
-    const queryOutput: QueryCommandOutput = await this.db.send(new QueryCommand({
-      TableName: this.tableName,
-      IndexName: "byBranch",
-      KeyConditionExpression: "#_b = :_b",
-      ExpressionAttributeNames: { "#_b": "_b" },
-      ExpressionAttributeValues: { ":_b": parent },
-    }))
-    if (!queryOutput.Items || queryOutput.Items.length === 0) return []
-    const [head, ...items] = queryOutput.Items as NodeDynamoItem[]
-    return this.follow(head, items)
+    const items = await this.branch(parent)
+    const head = items.find(item => item.pk === "#" + parent)
+    if (head === undefined) return []
+    return this.follow(head, items.filter(item => item !== head))
+  }
+  /**
+   * page returns up to `limit` `Nodes` under a `pk`, starting after the
+   * `Node` identified by `cursor`, or at the start of the list. The `_n`
+   * pointers of the branch are read from the `byNext` index, and followed
+   * in memory, so only the items of the page are read with a batch get.
+   * It fails with an `InvalidCursorError` if the `cursor` no longer belongs
+   * to the list.
+   * @param parent - `Nodes` parent.
+   * @param limit - Maximum number of `Nodes` of the page.
+   * @param cursor - `pk` of the `Node` after which the page starts.
+   */
+  async page(parent: string, limit: number, cursor?: string): Promise<NodeDynamoPage> {
+    const links = await this.links(parent)
+    const start = cursor === undefined ? "#" + parent : cursor
+    if (!links.has(start)) {
+      if (cursor === undefined) return { items: [] }
+      throw new InvalidCursorError()
+    }
+    const pks: string[] = []
+    for (let pk = links.get(start); pk !== "." && pks.length < limit; pk = links.get(pk)) {
+      // The list was modified while its pointers were being read.
+      if (pk === undefined) throw new ConflictError()
+      pks.push(pk)
+    }
+    const found = new Map((await this.batchGet(pks)).map(item => [item.pk, item]))
+    const items: NodeDynamoItem[] = []
+    for (let pk of pks) {
+      const item = found.get(pk)
+      // The list was modified after its pointers were read.
+      if (item === undefined || item._b !== parent || item._n !== links.get(pk)) throw new ConflictError()
+      items.push(item)
+    }
+    const last = pks[pks.length - 1]
+    return { items, offset: last !== undefined && links.get(last) !== "." ? last : undefined }
+  }
+  /**
+   * links returns the `_n` pointer of every item under a `pk`, by `pk`.
+   * Only the keys of the `byNext` index are read, following the query
+   * pagination until the whole branch is read.
+   * @param parent - `Nodes` parent.
+   */
+  private async links(parent: string): Promise<Map<string, string>> {
+    const links = new Map<string, string>()
+    let exclusiveStartKey: { [key: string]: any } | undefined = undefined
+    do {
+      const queryOutput: QueryCommandOutput = await this.db.send(new QueryCommand({
+        TableName: this.tableName,
+        IndexName: "byNext",
+        KeyConditionExpression: "#_b = :_b",
+        ProjectionExpression: "#pk, #_n",
+        ExpressionAttributeNames: { "#_b": "_b", "#pk": "pk", "#_n": "_n" },
+        ExpressionAttributeValues: { ":_b": parent },
+        ExclusiveStartKey: exclusiveStartKey,
+      }))
+      for (let item of (queryOutput.Items || []) as Pick<NodeDynamoItem, "pk" | "_n">[]) links.set(item.pk, item._n)
+      exclusiveStartKey = queryOutput.LastEvaluatedKey
+    } while (exclusiveStartKey)
+    return links
   }
   /**
    * follow is a function that takes a `HEAD` item and a list
@@ -280,7 +588,10 @@ export class NodesDynamoDriver extends DynamoDriver<NodeItem, NodeDynamoItem, No
   }
   /**
    * drag allows to move a `Node` from its current position to a
-   * new one.
+   * new one. All the pointers are updated on a single transaction,
+   * conditioned to the values read before building it. If the `Node`
+   * belongs to a different parent it gets moved, along with its
+   * sub-nodes, to the new parent.
    * @param fromKey - `Node` to be moved identified by its key.
    * @param parent - `Nodes` parent.
    * @param afterKey - New position of the `Nodes` identifie by the key
@@ -288,47 +599,592 @@ export class NodesDynamoDriver extends DynamoDriver<NodeItem, NodeDynamoItem, No
    */
   async after(fromPK: string, parent: string, afterPK?: string): Promise<boolean> {
     if (fromPK === afterPK) return true
-    const [from, after, $from] = await Promise.all([
-      this.get(fromPK),
+    const from = await this.get(fromPK)
+    if (!from) return false
+    if (from._b !== parent) return this.move(from, parent, afterPK)
+    const [after, $from] = await Promise.all([
       this.get(afterPK || "#" + parent),
       this.getPointingTo(fromPK, parent),
     ])
-    if (!from || !after || !$from) return false
+    if (!after || after._b !== parent || !$from) return false
     if (after._n === from.pk) return true
-    const [updateFromOutput, updateAfterOutput, update$FromOutput] = await Promise.all([
-      this.db.send(new UpdateCommand({
+    return this.transact([{
+      Update: {
         TableName: this.tableName,
         Key: { pk: from.pk },
-        ConditionExpression: "#_n <> :pk",
+        ConditionExpression: "#_n = :old_n",
         UpdateExpression: "SET #_n = :_n",
         ExpressionAttributeNames: { "#_n": "_n" },
-        ExpressionAttributeValues: { ":_n": after._n, ":pk": from.pk },
-      })),
-      this.db.send(new UpdateCommand({
+        ExpressionAttributeValues: { ":_n": after._n, ":old_n": from._n },
+      }
+    }, {
+      Update: {
         TableName: this.tableName,
         Key: { pk: after.pk },
-        ConditionExpression: "#_n <> :pk",
+        ConditionExpression: "#_n = :old_n",
         UpdateExpression: "SET #_n = :_n",
         ExpressionAttributeNames: { "#_n": "_n" },
-        ExpressionAttributeValues: { ":_n": from.pk, ":pk": after.pk },
-      })),
-      this.db.send(new UpdateCommand({
+        ExpressionAttributeValues: { ":_n": from.pk, ":old_n": after._n },
+      }
+    }, {
+      Update: {
         TableName: this.tableName,
         Key: { pk: $from.pk },
-        ConditionExpression: "#_n <> :pk",
+        ConditionExpression: "#_n = :old_n",
         UpdateExpression: "SET #_n = :_n",
         ExpressionAttributeNames: { "#_n": "_n" },
-        ExpressionAttributeValues: { ":_n": from._n, ":pk": $from.pk },
-      }))
+        ExpressionAttributeValues: { ":_n": from._n, ":old_n": from.pk },
+      }
+    }])
+  }
+  /**
+   * move detaches a `Node` from its current list and splices it into the
+   * list of another parent, after the `Node` identified by `afterPK`. Its
+   * sub-nodes move along with it since their branch is the `Node` `pk`.
+   * @param from - `Node` to be moved.
+   * @param parent - New `Nodes` parent.
+   * @param afterPK - `Node` after which the `Node` should be placed. If
+   *                  undefined, it will be placed at the beginning.
+   */
+  private async move(from: NodeDynamoItem, parent: string, afterPK?: string): Promise<boolean> {
+    if (parent === from.pk) throw new InvalidMoveError()
+    const [path, after, $from] = await Promise.all([
+      this.createPath(parent),
+      this.get(afterPK || "#" + parent),
+      this.getPointingTo(from.pk, from._b),
     ])
-    return (
-      updateFromOutput.$metadata.httpStatusCode === 200 &&
-      updateAfterOutput.$metadata.httpStatusCode === 200 &&
-      update$FromOutput.$metadata.httpStatusCode === 200
-    )
+    if (path.includes(from.pk)) throw new InvalidMoveError()
+    if (!$from || (after !== undefined && after._b !== parent)) return false
+    if (afterPK !== undefined && after === undefined) return false
+    const unlink = {
+      Update: {
+        TableName: this.tableName,
+        Key: { pk: $from.pk },
+        UpdateExpression: "SET #_n = :_n",
+        ConditionExpression: "#_n = :old_n",
+        ExpressionAttributeNames: { "#_n": "_n" },
+        ExpressionAttributeValues: { ":_n": from._n, ":old_n": from.pk },
+      }
+    }
+    const link = (_n: string) => ({
+      Update: {
+        TableName: this.tableName,
+        Key: { pk: from.pk },
+        UpdateExpression: "SET #_b = :_b, #_n = :_n, #_p = :_p",
+        ConditionExpression: "#_b = :old_b AND #_n = :old_n",
+        ExpressionAttributeNames: { "#_b": "_b", "#_n": "_n", "#_p": "_p" },
+        ExpressionAttributeValues: { ":_b": parent, ":_n": _n, ":_p": path, ":old_b": from._b, ":old_n": from._n },
+      }
+    })
+    // The new parent doesn't have a list yet, so we need to create its `head`.
+    if (after === undefined) {
+      return this.transact([unlink, link("."), {
+        Put: {
+          TableName: this.tableName,
+          Item: { pk: "#" + parent, _b: parent, _n: from.pk },
+          ConditionExpression: "attribute_not_exists(#pk)",
+          ExpressionAttributeNames: { "#pk": "pk" },
+        }
+      }])
+    }
+    return this.transact([unlink, link(after._n), {
+      Update: {
+        TableName: this.tableName,
+        Key: { pk: after.pk },
+        UpdateExpression: "SET #_n = :_n",
+        ConditionExpression: "#_n = :old_n",
+        ExpressionAttributeNames: { "#_n": "_n" },
+        ExpressionAttributeValues: { ":_n": from.pk, ":old_n": after._n },
+      }
+    }])
+  }
+  /**
+   * ancestors returns the list of ancestors of a `Node`, starting from
+   * its parent up to the root of the tree. The ancestors are read on a
+   * single request using the path stored on the `Node`. If an ancestor
+   * was moved since the path was stored, the path of the first ancestor
+   * that doesn't match is used to read the rest of them.
+   * @param pk - `Node` unique identifier.
+   */
+  async ancestors(pk: string): Promise<NodeDynamoItem[]> {
+    const result: NodeDynamoItem[] = []
+    const visited = new Set<string>([pk])
+    const items = new Map<string, NodeDynamoItem | undefined>()
+    let item = await this.get(pk)
+    while (item !== undefined && !visited.has(item._b)) {
+      visited.add(item._b)
+      if (!items.has(item._b)) {
+        const pks = [...new Set([item._b, ...(item._p || [])])].filter(pk => !items.has(pk))
+        const found = await this.batchGet(pks)
+        pks.forEach(pk => items.set(pk, found.find(item => item.pk === pk)))
+      }
+      item = items.get(item._b)
+      if (item !== undefined) result.push(item)
+    }
+    return result
+  }
+  /**
+   * createPath returns the `pk` of a parent along with the ones of its
+   * ancestors, starting from the root, to be stored as the path of its
+   * sub-nodes. It's empty for the root of the tree.
+   * @param parent - `Node` parent.
+   */
+  private async createPath(parent: string): Promise<string[]> {
+    const [item, ancestors] = await Promise.all([this.get(parent), this.ancestors(parent)])
+    if (item === undefined) return []
+    return [...ancestors.reverse().map(ancestor => ancestor.pk), item.pk]
+  }
+  /**
+   * trash moves a `Node` to the trash branch. The `Node` is unlinked
+   * from its list and its sub-nodes remain under its branch, so the
+   * whole sub-tree goes to the trash along with it.
+   * @param pk - `Node` unique identifier.
+   * @param trash - Trash branch.
+   * @param deletedAt - Time of deletion in milliseconds.
+   * @param version - Expected version of the `Node`.
+   */
+  async trash(pk: string, trash: string, deletedAt: number, version?: number): Promise<boolean> {
+    const node = await this.get(pk)
+    if (node === undefined || node._b === trash) return true
+    if (version !== undefined && (node._v || 0) !== version) throw new PreconditionFailedError()
+    const pointingToNode = await this.getPointingTo(node.pk, node._b)
+    if (!pointingToNode) return false
+    return this.transact([{
+      Update: {
+        TableName: this.tableName,
+        Key: { pk: pointingToNode.pk },
+        UpdateExpression: "SET #_n = :_new_n",
+        ConditionExpression: "#_n = :_n",
+        ExpressionAttributeNames: { "#_n": "_n" },
+        ExpressionAttributeValues: { ":_new_n": node._n, ":_n": node.pk },
+      }
+    }, {
+      Update: {
+        TableName: this.tableName,
+        Key: { pk: node.pk },
+        UpdateExpression: "SET #_b = :trash, #_n = :tail, #_o = :_b, #_a = :_a, #_d = :_d",
+        // The version is checked again, in case the `Node` is updated
+        // while the transaction is built.
+        ConditionExpression: node._v === undefined
+          ? "#_n = :_n AND #_b = :_b AND attribute_not_exists(#_v)"
+          : "#_n = :_n AND #_b = :_b AND #_v = :_v",
+        ExpressionAttributeNames: { "#_b": "_b", "#_n": "_n", "#_o": "_o", "#_a": "_a", "#_d": "_d", "#_v": "_v" },
+        ExpressionAttributeValues: {
+          ":trash": trash,
+          ":tail": ".",
+          ":_n": node._n,
+          ":_b": node._b,
+          ":_a": pointingToNode.pk,
+          ":_d": deletedAt,
+          ...(node._v === undefined ? {} : { ":_v": node._v }),
+        },
+      }
+    }])
+  }
+  /**
+   * restore moves a `Node` out of the trash, back to the position it had
+   * before it was deleted. If the `Node` that was before it is gone, it
+   * gets appended at the end of the list.
+   * @param pk - `Node` unique identifier.
+   * @param trash - Trash branch.
+   * @param parent - Branch where to restore the `Node`. Defaults to its
+   *                 original branch.
+   */
+  async restore(pk: string, trash: string, parent?: string): Promise<boolean> {
+    const node = await this.get(pk)
+    if (node === undefined || node._b !== trash || !node._o) return false
+    const branch = parent || node._o
+    const path = await this.createPath(branch)
+    let after = node._a && branch === node._o ? await this.get(node._a) : undefined
+    if (after === undefined || after._b !== branch) after = await this.getTail(branch)
+    const restoreUpdate = (_n: string) => ({
+      Update: {
+        TableName: this.tableName,
+        Key: { pk: node.pk },
+        UpdateExpression: "SET #_b = :_b, #_n = :_n, #_p = :_p REMOVE #_o, #_a, #_d",
+        ConditionExpression: "#_b = :trash",
+        ExpressionAttributeNames: { "#_b": "_b", "#_n": "_n", "#_p": "_p", "#_o": "_o", "#_a": "_a", "#_d": "_d" },
+        ExpressionAttributeValues: { ":_b": branch, ":_n": _n, ":_p": path, ":trash": trash },
+      }
+    })
+    if (after === undefined) {
+      return this.transact([{
+        Put: {
+          TableName: this.tableName,
+          Item: { pk: "#" + branch, _b: branch, _n: pk },
+          ConditionExpression: "attribute_not_exists(#pk)",
+          ExpressionAttributeNames: { "#pk": "pk" },
+        }
+      }, restoreUpdate(".")])
+    }
+    return this.transact([{
+      Update: {
+        TableName: this.tableName,
+        Key: { pk: after.pk },
+        UpdateExpression: "SET #_n = :new_n",
+        ConditionExpression: "#_n = :_n",
+        ExpressionAttributeNames: { "#_n": "_n" },
+        ExpressionAttributeValues: { ":_n": after._n, ":new_n": pk },
+      }
+    }, restoreUpdate(after._n)])
+  }
+  /**
+   * branch returns all the items stored under a branch, without sorting
+   * them. It follows the query pagination until all the items are read.
+   * @param _b - Branch to query.
+   */
+  async branch(_b: string): Promise<NodeDynamoItem[]> {
+    const items: NodeDynamoItem[] = []
+    let exclusiveStartKey: { [key: string]: any } | undefined = undefined
+    do {
+      const queryOutput: QueryCommandOutput = await this.db.send(new QueryCommand({
+        TableName: this.tableName,
+        IndexName: "byBranch",
+        KeyConditionExpression: "#_b = :_b",
+        ExpressionAttributeNames: { "#_b": "_b" },
+        ExpressionAttributeValues: { ":_b": _b },
+        ExclusiveStartKey: exclusiveStartKey,
+      }))
+      items.push(...(queryOutput.Items || []) as NodeDynamoItem[])
+      exclusiveStartKey = queryOutput.LastEvaluatedKey
+    } while (exclusiveStartKey)
+    return items
+  }
+  /**
+   * purge permanently deletes a `Node` along with all its sub-nodes, their
+   * history and their entries on the search index.
+   * @param pk - `Node` unique identifier.
+   */
+  async purge(pk: string): Promise<boolean> {
+    const node = await this.get(pk)
+    const history = await this.branch(createHistoryBranch(pk))
+    const descendants = await this.descendants(pk)
+    const pks = [pk, ...history.map(item => item.pk), ...(node ? createSearchPKs(node) : []), ...descendants.pks]
+    await this.batchWrite(pks.map(pk => ({ DeleteRequest: { Key: { pk } } })))
+    const nodes = descendants.nodes + (node ? 1 : 0)
+    if (nodes > 0) await this.count(pk, -nodes)
+    return true
+  }
+  /**
+   * search returns the entries of the search index for a term, on the tree
+   * of a user.
+   * @param root - Root branch of the tree of the user.
+   * @param term - Term to look for.
+   */
+  async search(root: string, term: string): Promise<NodeSearchItem[]> {
+    return await this.branch(createSearchBranch(root, term)) as unknown as NodeSearchItem[]
+  }
+  /**
+   * documents returns the number of `Nodes` on the search index of a user.
+   * @param root - Root branch of the tree of the user.
+   */
+  async documents(root: string): Promise<number> {
+    const item = await this.get(createSearchCountPK(root)) as unknown as NodeSearchCountItem | undefined
+    return item?._c || 0
+  }
+  /**
+   * revisions returns the revisions of a `Node`, oldest first.
+   * @param pk - `Node` unique identifier.
+   */
+  async revisions(pk: string): Promise<NodeRevisionItem[]> {
+    const items = await this.branch(createHistoryBranch(pk)) as unknown as NodeRevisionItem[]
+    return items.sort((a, b) => a.pk < b.pk ? -1 : 1)
+  }
+  /**
+   * putRevision stores a revision of a `Node`, replacing the revision
+   * with the same `id` if it already exists.
+   * @param pk - `Node` unique identifier.
+   * @param revision - Revision to store.
+   */
+  async putRevision(pk: string, revision: NodeRevision): Promise<boolean> {
+    const putOutput: PutCommandOutput = await this.db.send(new PutCommand({
+      TableName: this.tableName,
+      Item: createRevisionItem(pk, revision),
+    }))
+    return putOutput.$metadata.httpStatusCode === 200
+  }
+  /**
+   * deleteRevisions deletes a list of revisions of a `Node`.
+   * @param pk - `Node` unique identifier.
+   * @param ids - Unique identifiers of the revisions to delete.
+   */
+  async deleteRevisions(pk: string, ids: string[]): Promise<boolean> {
+    const branch = createHistoryBranch(pk)
+    await this.batchWrite(ids.map(id => ({ DeleteRequest: { Key: { pk: branch + "#" + id } } })))
+    return true
+  }
+  /**
+   * branches returns every branch that holds a `Nodes` linked list. It
+   * scans the `byNext` index, which only holds the items of the lists.
+   */
+  async branches(): Promise<string[]> {
+    const result = new Set<string>()
+    let exclusiveStartKey: { [key: string]: any } | undefined = undefined
+    do {
+      const scanOutput: ScanCommandOutput = await this.db.send(new ScanCommand({
+        TableName: this.tableName,
+        IndexName: "byNext",
+        ProjectionExpression: "#_b",
+        ExpressionAttributeNames: { "#_b": "_b" },
+        ExclusiveStartKey: exclusiveStartKey,
+      }))
+      for (let item of scanOutput.Items || []) result.add(item._b)
+      exclusiveStartKey = scanOutput.LastEvaluatedKey
+    } while (exclusiveStartKey)
+    return [...result].sort()
+  }
+  /**
+   * relink rewrites the `head` item and the `_n` pointers of a branch so
+   * its list follows the given order. Only the items whose pointer
+   * changes are written, each one conditioned to the value it was read
+   * with, so a concurrent change fails with a `ConflictError`.
+   * @param parent - `Nodes` parent.
+   * @param pks - `pk` of every `Node` of the branch, in order.
+   */
+  async relink(parent: string, pks: string[]): Promise<boolean> {
+    const items = new Map((await this.branch(parent)).map(item => [item.pk, item]))
+    const keys = ["#" + parent, ...pks]
+    for (let index = 0; index < keys.length; index++) {
+      const pk = keys[index]
+      const _n = index < pks.length ? pks[index] : "."
+      const item = items.get(pk)
+      if (item === undefined && index > 0) throw new ConflictError()
+      if (item !== undefined && item._n === _n) continue
+      try {
+        if (item === undefined) {
+          await this.db.send(new PutCommand({
+            TableName: this.tableName,
+            Item: { pk, _b: parent, _n },
+            ConditionExpression: "attribute_not_exists(#pk)",
+            ExpressionAttributeNames: { "#pk": "pk" },
+          }))
+        } else {
+          await this.db.send(new UpdateCommand({
+            TableName: this.tableName,
+            Key: { pk },
+            UpdateExpression: "SET #_n = :_n",
+            ConditionExpression: "#_b = :_b AND #_n = :old_n",
+            ExpressionAttributeNames: { "#_b": "_b", "#_n": "_n" },
+            ExpressionAttributeValues: { ":_b": parent, ":_n": _n, ":old_n": item._n },
+          }))
+        }
+      } catch (err) {
+        if (err.name === "ConditionalCheckFailedException") throw new ConflictError()
+        throw err
+      }
+    }
+    return true
+  }
+  /**
+   * putBranch stores a list of new `Nodes` under a parent that doesn't
+   * have a list yet. The `head` item and the `_n` pointers are created
+   * from the order of the list, and everything is stored using batched
+   * writes, so it should only be used for branches that are not yet
+   * reachable from the tree.
+   * @param parent - `Node` parent.
+   * @param items - Ordered list of `pk` and `Node` bodies to store.
+   * @param path - `pk` of the parent along with the ones of its ancestors,
+   *               starting from the root. It's read when it isn't given.
+   */
+  async putBranch(parent: string, items: { pk: string, body: NodeItem }[], path?: string[]): Promise<boolean> {
+    if (items.length === 0) return true
+    const _p = path || await this.createPath(parent)
+    const requests: WriteRequest[] = [{ PutRequest: { Item: { pk: "#" + parent, _b: parent, _n: items[0].pk } } }]
+    items.forEach(({ pk, body }, index) => {
+      const item = createNodeItem(pk, body, parent, index < items.length - 1 ? items[index + 1].pk : ".", _p)
+      requests.push({ PutRequest: { Item: item } })
+      requests.push(...createSearchItems(pk, body.id, body.content).map(Item => ({ PutRequest: { Item } })))
+    })
+    await this.batchWrite(requests)
+    await this.count(parent, items.length)
+    return true
+  }
+  /**
+   * batchGet returns the items identified by a list of `pk`, in batches of
+   * `BATCH_GET_LIMIT`, retrying the unprocessed keys of each batch. Missing
+   * items are left out.
+   * @param pks - Unique identifiers of the items.
+   */
+  async batchGet(pks: string[]): Promise<NodeDynamoItem[]> {
+    const result: NodeDynamoItem[] = []
+    for (let i = 0; i < pks.length; i += BATCH_GET_LIMIT) {
+      let requestItems: BatchGetCommandInput["RequestItems"] = {
+        [this.tableName]: { Keys: pks.slice(i, i + BATCH_GET_LIMIT).map(pk => ({ pk })) },
+      }
+      while (requestItems && Object.keys(requestItems).length > 0) {
+        const output: BatchGetCommandOutput = await this.db.send(new BatchGetCommand({ RequestItems: requestItems }))
+        result.push(...((output.Responses || {})[this.tableName] || []) as NodeDynamoItem[])
+        requestItems = output.UnprocessedKeys
+      }
+    }
+    return result
+  }
+  /**
+   * batchWrite sends a list of write requests in batches of
+   * `BATCH_WRITE_LIMIT`, retrying the unprocessed items of each batch.
+   * @param requests - Write requests to send.
+   */
+  private async batchWrite(requests: WriteRequest[]): Promise<void> {
+    for (let i = 0; i < requests.length; i += BATCH_WRITE_LIMIT) {
+      let requestItems: BatchWriteCommandInput["RequestItems"] = {
+        [this.tableName]: requests.slice(i, i + BATCH_WRITE_LIMIT),
+      }
+      while (requestItems && Object.keys(requestItems).length > 0) {
+        const output: BatchWriteCommandOutput = await this.db.send(new BatchWriteCommand({ RequestItems: requestItems }))
+        requestItems = output.UnprocessedItems
+      }
+    }
+  }
+  /**
+   * descendants returns the `pk` of every item that lives under the
+   * branch of a `Node`, including the `head` items, and the history and
+   * search index entries of each `Node`, along with the number of `Nodes`.
+   * @param pk - `Node` unique identifier.
+   */
+  private async descendants(pk: string): Promise<{ pks: string[], nodes: number }> {
+    const result = { pks: [] as string[], nodes: 0 }
+    for (let item of await this.branch(pk)) {
+      result.pks.push(item.pk)
+      if (item.pk === "#" + pk) continue
+      const history = await this.branch(createHistoryBranch(item.pk))
+      const descendants = await this.descendants(item.pk)
+      result.pks.push(...history.map(revision => revision.pk), ...createSearchPKs(item), ...descendants.pks)
+      result.nodes += 1 + descendants.nodes
+    }
+    return result
   }
 }
 /**
  * driver is a preconfigured instance of the `NodesDynamoDriver` class.
  */
-export const driver = new NodesDynamoDriver()
\ No newline at end of file
+export const driver = new NodesDynamoDriver()
+/**
+ * Functions
+ */
+/**
+ * isConflict checks if a transaction was cancelled because one of its
+ * conditions failed, or because another transaction was modifying the
+ * same items.
+ * @param reasons - Transaction cancellation reasons.
+ */
+function isConflict(reasons: CancellationReason[] = []): boolean {
+  return reasons.some(({ Code }) => Code === "ConditionalCheckFailed" || Code === "TransactionConflict")
+}
+/**
+ * createNodeItem creates the item of a new `Node`. Its `updatedBy`
+ * attribute is set to the owner of the `Node`.
+ * @param pk - `Node` unique identifier.
+ * @param body - `Node` body.
+ * @param parent - `Node` parent.
+ * @param _n - Next `Node` of the list.
+ * @param path - Ancestors of the `Node`, starting from the root.
+ */
+export function createNodeItem(pk: string, body: NodeItem, parent: string, _n: string, path: string[] = []): NodeDynamoItem {
+  const now = Date.now()
+  const item: NodeDynamoItem = { id: body.id, content: body.content, pk, _b: parent, _n, _v: 1, createdAt: now, updatedAt: now }
+  if (body.interpreter) item._t = body.interpreter
+  if (body.meta) item._m = body.meta
+  if (body.userId) item.updatedBy = body.userId
+  if (path.length > 0) item._p = path
+  const terms = Object.keys(createSearchTerms(body.content))
+  if (terms.length > 0) item._s = terms
+  return item
+}
+/**
+ * createHistoryBranch returns the branch that holds the revisions of a `Node`.
+ * @param pk - `Node` unique identifier.
+ */
+export function createHistoryBranch(pk: string): string {
+  return pk + "#History"
+}
+/**
+ * createRevisionItem creates the item of a `Node` revision.
+ * @param pk - `Node` unique identifier.
+ * @param revision - Revision to store.
+ */
+export function createRevisionItem(pk: string, revision: NodeRevision): NodeRevisionItem {
+  const branch = createHistoryBranch(pk)
+  const item: NodeRevisionItem = { pk: branch + "#" + revision.id, _b: branch, id: revision.id, content: revision.content, _c: revision.createdAt }
+  if (revision.interpreter) item._t = revision.interpreter
+  if (revision.userId) item._u = revision.userId
+  return item
+}
+/**
+ * createSearchTerms splits a `Node` content into the terms stored on the
+ * search index, along with the number of times each one of them appears.
+ * Contents wrapped as JSON objects, like the ones of code and task `Nodes`,
+ * are unwrapped first. Terms are lowercased and stripped from accents.
+ * @param content - `Node` content.
+ */
+export function createSearchTerms(content: string = ""): { [term: string]: number } {
+  const result: { [term: string]: number } = {}
+  const words = getSearchableContent(content)
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .match(/[\p{L}\p{N}]+/gu) || []
+  let count = 0
+  for (let word of words) {
+    if (word.length > MAX_SEARCH_TERM_LENGTH) continue
+    if (result[word] === undefined) {
+      if (count === MAX_SEARCH_TERMS) continue
+      count++
+      result[word] = 0
+    }
+    result[word]++
+  }
+  return result
+}
+/**
+ * getSearchableContent returns the text of a `Node` content, unwrapping the
+ * contents stored as JSON objects.
+ * @param content - `Node` content.
+ */
+export function getSearchableContent(content: string): string {
+  try {
+    const parsed = JSON.parse(content)
+    if (parsed !== null && typeof parsed === "object" && typeof parsed.content === "string") return parsed.content
+  } catch (err) {
+    // The content is plain text.
+  }
+  return content
+}
+/**
+ * createSearchBranch returns the branch of the search index that holds a
+ * term, for the user that owns the given `pk`.
+ * @param pk - `Node` unique identifier, or root branch of the user.
+ * @param term - Search term.
+ */
+export function createSearchBranch(pk: string, term: string): string {
+  const segments = pk.split("#")
+  const index = segments.indexOf("Nodes")
+  return [...(index === -1 ? segments : segments.slice(0, index)), "Search", term].join("#")
+}
+/**
+ * createSearchCountPK returns the `pk` of the item that holds the number of
+ * `Nodes` on the search index of the user that owns the given `pk`. Terms
+ * are lower case, so it never matches the branch of a term.
+ * @param pk - `Node` unique identifier, or root branch of the user.
+ */
+export function createSearchCountPK(pk: string): string {
+  return createSearchBranch(pk, "Count")
+}
+/**
+ * createSearchItems creates the search index entries of a `Node`.
+ * @param pk - `Node` unique identifier.
+ * @param id - `Node` id.
+ * @param content - `Node` content.
+ */
+export function createSearchItems(pk: string, id: string, content: string): NodeSearchItem[] {
+  return Object.entries(createSearchTerms(content)).map(([term, frequency]) => {
+    const branch = createSearchBranch(pk, term)
+    return { pk: branch + "#" + id, _b: branch, id, _f: frequency }
+  })
+}
+/**
+ * createSearchPKs returns the `pk` of the search index entries of a `Node`.
+ * @param item - `Node` item.
+ */
+export function createSearchPKs(item: NodeDynamoItem): string[] {
+  return (item._s || []).map(term => createSearchBranch(item.pk, term) + "#" + item.id)
+}
\ No newline at end of file
@@ -0,0 +1,296 @@
+import test from "tape"
+import { ulid } from "ulid"
+import type { Test } from "tape"
+
+import { NodesTableDriver } from "./nodesTableDriver.server"
+import { MemoryTable } from "./memoryTable.server"
+import { key, withoutTimestamps } from "../tests/nodes"
+
+const driver = new NodesTableDriver({ db: new MemoryTable() })
+
+test("nodesTableDriver linked list", async (assert: Test) => {
+  const userId = ulid()
+  const root = userId + "#Nodes"
+  const [pk1, pk2, pk3, pk4] = ["001", "002", "003", "004"].map(id => key({ userId, id }))
+  // Put three new `Nodes` and check they come back in order.
+  assert.equal(await driver.put(pk1, { id: "001", content: ulid() }, root), true)
+  assert.equal(await driver.put(pk2, { id: "002", content: ulid() }, root), true)
+  assert.equal(await driver.put(pk3, { id: "003", content: ulid() }, root), true)
+  assert.deepEqual((await driver.list(root)).map(item => item.pk), [pk1, pk2, pk3])
+  // Moving a `Node` to the beginning of the list.
+  assert.equal(await driver.after(pk3, root), true)
+  assert.deepEqual((await driver.list(root)).map(item => item.pk), [pk3, pk1, pk2])
+  // Putting a `Node` after another one.
+  assert.equal(await driver.put(pk4, { id: "004", content: ulid() }, root, pk1), true)
+  assert.deepEqual((await driver.list(root)).map(item => item.pk), [pk3, pk1, pk4, pk2])
+  // Swapping elements.
+  assert.equal(await driver.after(pk3, root, pk2), true)
+  assert.deepEqual((await driver.list(root)).map(item => item.pk), [pk1, pk4, pk2, pk3])
+  // Putting an existing `Node` should fail with a conflict and leave the list untouched.
+  assert.equal(await driver.put(pk1, { id: "001", content: ulid() }, root).catch(err => err.name), "ConflictError")
+  assert.deepEqual((await driver.list(root)).map(item => item.pk), [pk1, pk4, pk2, pk3])
+  // Deleting the head, a middle element and the tail shouldn't break the list.
+  assert.equal(await driver.delete(pk1), true)
+  assert.equal(await driver.delete(pk2), true)
+  assert.equal(await driver.delete(pk3), true)
+  assert.deepEqual((await driver.list(root)).map(item => item.pk), [pk4])
+  assert.equal(await driver.delete(pk4), true)
+  assert.deepEqual(await driver.list(root), [])
+  // Adding new `Nodes` after it gets empty should return a correctly sorted list.
+  assert.equal(await driver.put(pk1, { id: "001", content: ulid() }, root), true)
+  assert.equal(await driver.put(pk2, { id: "002", content: ulid() }, root), true)
+  assert.deepEqual((await driver.list(root)).map(item => item.pk), [pk1, pk2])
+  // End
+  assert.end()
+})
+
+test("nodesTableDriver.page()", async (assert: Test) => {
+  const userId = ulid()
+  const root = userId + "#Nodes"
+  const [pk1, pk2, pk3] = ["001", "002", "003"].map(id => key({ userId, id }))
+  assert.deepEqual(await driver.page(root, 2), { items: [] })
+  assert.equal(await driver.put(pk1, { id: "001", content: ulid() }, root), true)
+  assert.equal(await driver.put(pk2, { id: "002", content: ulid() }, root), true)
+  assert.equal(await driver.put(pk3, { id: "003", content: ulid() }, root), true)
+  // Pages should follow the linked list order, and point to the next page.
+  let page = await driver.page(root, 2)
+  assert.deepEqual(page.items.map(item => item.pk), [pk1, pk2])
+  assert.equal(page.offset, pk2)
+  page = await driver.page(root, 2, page.offset)
+  assert.deepEqual(page.items.map(item => item.pk), [pk3])
+  assert.equal(page.offset, undefined)
+  // A `Node` put after the cursor should show up on the next page.
+  assert.equal(await driver.after(pk1, root, pk2), true)
+  assert.deepEqual((await driver.page(root, 2, pk2)).items.map(item => item.pk), [pk1, pk3])
+  // The cursor should belong to the list.
+  assert.equal(await driver.page(pk1, 2, pk2).catch(err => err.name), "InvalidCursorError")
+  assert.equal(await driver.page(root, 2, key({ userId, id: "999" })).catch(err => err.name), "InvalidCursorError")
+  // End
+  assert.end()
+})
+
+test("nodesTableDriver.relink()", async (assert: Test) => {
+  const userId = ulid()
+  const root = userId + "#Nodes"
+  const [pk1, pk2, pk3] = ["001", "002", "003"].map(id => key({ userId, id }))
+  assert.equal(await driver.put(pk1, { id: "001", content: ulid() }, root), true)
+  assert.equal(await driver.put(pk2, { id: "002", content: ulid() }, root), true)
+  assert.equal(await driver.put(pk3, { id: "003", content: ulid() }, root), true)
+  assert.ok((await driver.branches()).includes(root))
+  // The list should follow the new order.
+  assert.equal(await driver.relink(root, [pk3, pk1, pk2]), true)
+  assert.deepEqual((await driver.list(root)).map(item => item.pk), [pk3, pk1, pk2])
+  assert.equal((await driver.get(pk2))?._n, ".")
+  // Leaving out a `Node` should leave it unreachable.
+  assert.equal(await driver.relink(root, [pk1]), true)
+  assert.deepEqual((await driver.list(root)).map(item => item.pk), [pk1])
+  // The `Nodes` should belong to the branch.
+  assert.equal(await driver.relink(pk1, [pk2]).catch(err => err.name), "ConflictError")
+  // End
+  assert.end()
+})
+
+test("nodesTableDriver timestamps", async (assert: Test) => {
+  const id = ulid()
+  const userId = ulid()
+  const editorId = ulid()
+  const root = userId + "#Nodes"
+  const pk = key({ userId, id })
+  assert.equal(await driver.put(pk, { id, content: ulid(), userId }, root), true)
+  const created = await driver.get(pk)
+  assert.equal(typeof created?.createdAt, "number")
+  assert.equal(created?.updatedAt, created?.createdAt)
+  assert.equal(created?.updatedBy, userId)
+  // Updating the content should change the time and the author of the change.
+  await new Promise<void>(resolve => setTimeout(resolve, 5))
+  assert.equal(await driver.update(pk, { content: "updated" }, undefined, editorId), true)
+  const updated = await driver.get(pk)
+  assert.equal(updated?.createdAt, created?.createdAt)
+  assert.ok((updated?.updatedAt || 0) > (created?.updatedAt || 0))
+  assert.equal(updated?.updatedBy, editorId)
+  // End
+  assert.end()
+})
+
+test("nodesTableDriver.update() and nodesTableDriver.meta()", async (assert: Test) => {
+  const id = ulid()
+  const userId = ulid()
+  const root = userId + "#Nodes"
+  const pk = key({ userId, id })
+  const content = ulid()
+  const interpreter = ulid()
+  assert.equal(await driver.put(pk, { id, content }, root), true)
+  assert.deepEqual(withoutTimestamps(await driver.get(pk)), { pk, _b: root, _n: ".", id, content, _v: 1, _s: [content.toLowerCase()] })
+  // Update the content and the interpreter, increasing the version.
+  assert.equal(await driver.update(pk, { content: "updated", interpreter }), true)
+  assert.deepEqual(withoutTimestamps(await driver.get(pk)), { pk, _b: root, _n: ".", id, content: "updated", _t: interpreter, _v: 2, _s: ["updated"] })
+  // Updates conditioned to another version should fail.
+  assert.equal(await driver.update(pk, { content: "stale" }, 1).catch(err => err.name), "PreconditionFailedError")
+  assert.equal(await driver.update(pk, { content: "latest" }, 2), true)
+  assert.deepEqual(withoutTimestamps(await driver.get(pk)), { pk, _b: root, _n: ".", id, content: "latest", _t: interpreter, _v: 3, _s: ["latest"] })
+  // Update the metadata.
+  assert.equal(await driver.meta(pk, { isOpened: true }), true)
+  assert.deepEqual((await driver.get(pk))?._m, { isOpened: true })
+  assert.equal(await driver.meta(pk, { isOpened: false }), true)
+  assert.deepEqual((await driver.get(pk))?._m, { isOpened: false })
+  // End
+  assert.end()
+})
+
+test("nodesTableDriver move", async (assert: Test) => {
+  const userId = ulid()
+  const root = userId + "#Nodes"
+  const [pk1, pk2, pk3, pk21] = ["001", "002", "003", "021"].map(id => key({ userId, id }))
+  assert.equal(await driver.put(pk1, { id: "001", content: ulid() }, root), true)
+  assert.equal(await driver.put(pk2, { id: "002", content: ulid() }, root), true)
+  assert.equal(await driver.put(pk3, { id: "003", content: ulid() }, root), true)
+  assert.equal(await driver.put(pk21, { id: "021", content: ulid() }, pk2), true)
+  // Moving a `Node` to another parent should splice it after the given `Node`.
+  assert.equal(await driver.after(pk3, pk2, pk21), true)
+  assert.deepEqual((await driver.list(root)).map(item => item.pk), [pk1, pk2])
+  assert.deepEqual((await driver.list(pk2)).map(item => item.pk), [pk21, pk3])
+  // Moving a `Node` to a parent without children should create the list.
+  assert.equal(await driver.after(pk21, pk1), true)
+  assert.deepEqual((await driver.list(pk1)).map(item => item.pk), [pk21])
+  assert.deepEqual((await driver.ancestors(pk21)).map(item => item.pk), [pk1])
+  // Moving a `Node` inside one of its descendants should fail.
+  assert.equal(await driver.after(pk1, pk21).catch(err => err.name), "InvalidMoveError")
+  assert.deepEqual((await driver.list(root)).map(item => item.pk), [pk1, pk2])
+  // End
+  assert.end()
+})
+
+test("nodesTableDriver ancestors", async (assert: Test) => {
+  const userId = ulid()
+  const root = userId + "#Nodes"
+  const [pk1, pk2, pk11, pk111] = ["001", "002", "011", "111"].map(id => key({ userId, id }))
+  assert.equal(await driver.put(pk1, { id: "001", content: ulid() }, root), true)
+  assert.equal(await driver.put(pk2, { id: "002", content: ulid() }, root), true)
+  assert.equal(await driver.put(pk11, { id: "011", content: ulid() }, pk1), true)
+  assert.equal(await driver.put(pk111, { id: "111", content: ulid() }, pk11), true)
+  // Every `Node` should store the path to its parent, starting from the root.
+  assert.equal((await driver.get(pk1))?._p, undefined)
+  assert.deepEqual((await driver.get(pk11))?._p, [pk1])
+  assert.deepEqual((await driver.get(pk111))?._p, [pk1, pk11])
+  assert.deepEqual((await driver.ancestors(pk111)).map(item => item.pk), [pk11, pk1])
+  // Moving a `Node` should update its path, but not the path of its sub-nodes.
+  assert.equal(await driver.after(pk11, pk2), true)
+  assert.deepEqual((await driver.get(pk11))?._p, [pk2])
+  assert.deepEqual((await driver.get(pk111))?._p, [pk1, pk11])
+  // A stale path should still resolve to the current ancestors.
+  assert.deepEqual((await driver.ancestors(pk111)).map(item => item.pk), [pk11, pk2])
+  assert.deepEqual(await driver.ancestors(pk1), [])
+  // End
+  assert.end()
+})
+
+test("nodesTableDriver trash", async (assert: Test) => {
+  const userId = ulid()
+  const root = userId + "#Nodes"
+  const trash = userId + "#Trash"
+  const [pk1, pk2, pk3, pk21] = ["001", "002", "003", "021"].map(id => key({ userId, id }))
+  assert.equal(await driver.put(pk1, { id: "001", content: ulid() }, root), true)
+  assert.equal(await driver.put(pk2, { id: "002", content: ulid() }, root), true)
+  assert.equal(await driver.put(pk3, { id: "003", content: ulid() }, root), true)
+  assert.equal(await driver.put(pk21, { id: "021", content: ulid() }, pk2), true)
+  // Trashing a `Node` should remove it from its list, and keep its sub-nodes.
+  assert.equal(await driver.trash(pk2, trash, 1), true)
+  assert.deepEqual((await driver.list(root)).map(item => item.pk), [pk1, pk3])
+  assert.deepEqual((await driver.branch(trash)).map(item => item.pk), [pk2])
+  assert.deepEqual((await driver.list(pk2)).map(item => item.pk), [pk21])
+  // Restoring a `Node` should put it back on its original position.
+  assert.equal(await driver.restore(pk2, trash), true)
+  assert.deepEqual((await driver.list(root)).map(item => item.pk), [pk1, pk2, pk3])
+  assert.equal((await driver.get(pk2))?._d, undefined)
+  // Purging a `Node` should delete it along with its sub-nodes.
+  assert.equal(await driver.trash(pk2, trash, 2), true)
+  assert.equal(await driver.purge(pk2), true)
+  assert.equal(await driver.get(pk2), undefined)
+  assert.equal(await driver.get(pk21), undefined)
+  assert.deepEqual(await driver.branch(pk2), [])
+  // End
+  assert.end()
+})
+
+test("nodesTableDriver.putBranch()", async (assert: Test) => {
+  const userId = ulid()
+  const parent = key({ userId, id: "001" })
+  const [pk11, pk12] = ["011", "012"].map(id => key({ userId, id }))
+  assert.equal(await driver.putBranch(parent, [
+    { pk: pk11, body: { id: "011", content: ulid(), meta: { isOpened: true } } },
+    { pk: pk12, body: { id: "012", content: ulid(), interpreter: "code" } },
+  ]), true)
+  const items = await driver.list(parent)
+  assert.deepEqual(items.map(item => item.pk), [pk11, pk12])
+  assert.deepEqual(items[0]._m, { isOpened: true })
+  assert.equal(items[1]._t, "code")
+  // A given path should be stored as is, instead of being read.
+  const pk111 = key({ userId, id: "111" })
+  assert.equal(await driver.putBranch(pk11, [{ pk: pk111, body: { id: "111", content: ulid() } }], [parent, pk11]), true)
+  assert.deepEqual((await driver.get(pk111))?._p, [parent, pk11])
+  // End
+  assert.end()
+})
+
+test("nodesTableDriver revisions", async (assert: Test) => {
+  const userId = ulid()
+  const root = userId + "#Nodes"
+  const trash = userId + "#Trash"
+  const [pk1, pk11] = ["001", "011"].map(id => key({ userId, id }))
+  assert.equal(await driver.put(pk1, { id: "001", content: ulid() }, root), true)
+  assert.equal(await driver.put(pk11, { id: "011", content: ulid() }, pk1), true)
+  // Revisions should come back oldest first, and putting an existing one should replace it.
+  assert.equal(await driver.putRevision(pk1, { id: "R1", content: "a", createdAt: 1 }), true)
+  assert.equal(await driver.putRevision(pk1, { id: "R2", content: "b", interpreter: "code", userId, createdAt: 2 }), true)
+  assert.equal(await driver.putRevision(pk1, { id: "R2", content: "c", interpreter: "code", userId, createdAt: 3 }), true)
+  assert.equal(await driver.putRevision(pk11, { id: "R1", content: "a", createdAt: 1 }), true)
+  assert.deepEqual((await driver.revisions(pk1)).map(item => [item.id, item.content, item._t, item._u, item._c]), [
+    ["R1", "a", undefined, undefined, 1],
+    ["R2", "c", "code", userId, 3],
+  ])
+  // Revisions shouldn't show up on the list of sub-nodes.
+  assert.deepEqual((await driver.list(pk1)).map(item => item.pk), [pk11])
+  assert.equal(await driver.deleteRevisions(pk1, ["R1"]), true)
+  assert.deepEqual((await driver.revisions(pk1)).map(item => item.id), ["R2"])
+  // Purging a `Node` should delete its history and the history of its sub-nodes.
+  assert.equal(await driver.trash(pk1, trash, 1), true)
+  assert.equal(await driver.purge(pk1), true)
+  assert.deepEqual(await driver.revisions(pk1), [])
+  assert.deepEqual(await driver.revisions(pk11), [])
+  // End
+  assert.end()
+})
+
+test("nodesTableDriver search index", async (assert: Test) => {
+  const userId = ulid()
+  const root = userId + "#Nodes"
+  const trash = userId + "#Trash"
+  const [pk1, pk11] = ["001", "011"].map(id => key({ userId, id }))
+  assert.equal(await driver.put(pk1, { id: "001", content: "Buy milk, and more MILK" }, root), true)
+  assert.equal(await driver.put(pk11, { id: "011", content: JSON.stringify({ content: "Café milk", meta: { done: false } }) }, pk1), true)
+  // Terms should be lowercased, stripped from accents, and unwrapped from JSON contents.
+  assert.deepEqual((await driver.search(root, "milk")).map(item => [item.id, item._f]), [["001", 2], ["011", 1]])
+  assert.deepEqual((await driver.search(root, "cafe")).map(item => item.id), ["011"])
+  assert.deepEqual(await driver.search(root, "done"), [])
+  // Every new `Node` should be counted, to weight the terms.
+  assert.equal(await driver.documents(root), 2)
+  // Other users shouldn't find the terms.
+  assert.deepEqual(await driver.search(ulid() + "#Nodes", "milk"), [])
+  // Updating the content should replace its terms.
+  assert.equal(await driver.update(pk1, { content: "Buy bread" }), true)
+  assert.deepEqual((await driver.search(root, "milk")).map(item => item.id), ["011"])
+  assert.deepEqual((await driver.search(root, "bread")).map(item => item.id), ["001"])
+  // Search entries shouldn't show up on the list of sub-nodes.
+  assert.deepEqual((await driver.list(pk1)).map(item => item.pk), [pk11])
+  // Purging a `Node` should delete its terms and the terms of its sub-nodes.
+  assert.equal(await driver.trash(pk1, trash, 1), true)
+  assert.equal(await driver.purge(pk1), true)
+  assert.deepEqual(await driver.search(root, "bread"), [])
+  assert.deepEqual(await driver.search(root, "milk"), [])
+  assert.equal(await driver.documents(root), 0)
+  // Copied branches should be counted as well.
+  assert.equal(await driver.putBranch(root, [{ pk: pk1, body: { id: "001", content: "a" } }, { pk: pk11, body: { id: "011", content: "b" } }]), true)
+  assert.equal(await driver.documents(root), 2)
+  // End
+  assert.end()
+})
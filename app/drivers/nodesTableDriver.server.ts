@@ -0,0 +1,470 @@
+import { TableDriver } from "./tableDriver.server"
+import { ConflictError, InvalidCursorError, InvalidMoveError, PreconditionFailedError } from "../server/errors.server"
+import { createHistoryBranch, createNodeItem, createRevisionItem, createSearchBranch, createSearchCountPK, createSearchItems, createSearchPKs, createSearchTerms } from "./nodesDynamoDriver.server"
+import type { NodeDynamoItem, NodeDynamoPage, NodeRevisionItem, NodeSearchCountItem, NodeSearchItem } from "./nodesDynamoDriver.server"
+import type { NodesDriver } from "./nodesDriver.server"
+import type { NodeItem, NodePatch, NodeMeta, NodeRevision } from "../models/node"
+
+/**
+ * NodesTableDriver handles the logic of `Node` items inside a `Table`. It
+ * stores the same items as the `NodesDynamoDriver`, and every mutation of
+ * a `Nodes` linked list is run as a single `Table` transaction.
+ */
+export class NodesTableDriver extends TableDriver<NodeItem, NodeDynamoItem, NodePatch> implements NodesDriver {
+  /**
+   * put inserts a new `Node` in the table. It fails with a `ConflictError`
+   * if an item with the same `pk` already exists.
+   * @param pk - `Node` unique identifier.
+   * @param body - `Node` body to be stored.
+   * @param parent - `Node` parent.
+   * @param afterPk - `Node` to set the new `Node` after.
+   */
+  async put(pk: string, body: NodeItem, parent?: string, afterPk?: string): Promise<boolean> {
+    if (!parent) return false
+    return this.db.transaction(() => {
+      if (this.db.get(pk) !== undefined) throw new ConflictError()
+      let after = afterPk === undefined
+        ? this.getTail(parent)
+        : this.db.get(afterPk) as NodeDynamoItem | undefined
+      // If the `Node` after which the new `Node` should be put is gone, we
+      // append the new `Node` to the end of the list.
+      if (afterPk !== undefined && (after === undefined || after._b !== parent)) after = this.getTail(parent)
+      const path = this.createPath(parent)
+      if (after === undefined) {
+        this.db.put({ pk: "#" + parent, _b: parent, _n: pk })
+        this.db.put(createNodeItem(pk, body, parent, ".", path))
+      } else {
+        this.db.put({ ...after, _n: pk })
+        this.db.put(createNodeItem(pk, body, parent, after._n, path))
+      }
+      this.index(pk, body.id, body.content)
+      this.count(pk, 1)
+      return true
+    })
+  }
+  /**
+   * update update only some specific attributes of a `Node`, increases its
+   * version and sets the time and author of the change. If a `version` is
+   * given, it fails with a `PreconditionFailedError` if it isn't the current
+   * version of the `Node`. When the content changes, the search index is
+   * updated with its new terms.
+   * @param pk - `Node` unique identifier.
+   * @param patch - `Node` patch to be applied to the `item`.
+   * @param version - Expected version of the `Node`.
+   * @param updatedBy - Unique identifier of the user making the change.
+   */
+  async update(pk: string, patch: NodePatch, version?: number, updatedBy?: string): Promise<boolean> {
+    if (typeof patch.content !== "string" && !patch.interpreter) return true
+    return this.db.transaction(() => {
+      const item = this.db.get(pk) || { pk }
+      if (version !== undefined && (item._v || 0) !== version) throw new PreconditionFailedError()
+      if (typeof patch.content === "string") {
+        for (let searchPk of createSearchPKs(item as NodeDynamoItem)) this.db.delete(searchPk)
+        item.content = patch.content
+        item._s = Object.keys(createSearchTerms(patch.content))
+        this.index(pk, item.id, item.content)
+      }
+      if (patch.interpreter) item._t = patch.interpreter
+      item._v = (item._v || 0) + 1
+      item.updatedAt = Date.now()
+      if (updatedBy) item.updatedBy = updatedBy
+      this.db.put(item)
+      return true
+    })
+  }
+  /**
+   * meta updates the meta attributes of a `Node`.
+   * @param pk - `Node` unique identifier.
+   * @param meta - Meta object to update.
+   */
+  async meta(pk: string, meta: NodeMeta): Promise<boolean> {
+    // Check if the object is empty
+    if (meta.isOpened === undefined) return true
+    return this.db.transaction(() => {
+      const item = this.db.get(pk) || { pk }
+      item._m = { ...item._m, isOpened: meta.isOpened }
+      this.db.put(item)
+      return true
+    })
+  }
+  /**
+   * delete deletes a single `Node` from the table identified by its key,
+   * and updates the `Node` pointing to it.
+   * @param key - `Node` unique identifier.
+   */
+  async delete(pk: string): Promise<boolean> {
+    return this.db.transaction(() => {
+      const node = this.db.get(pk) as NodeDynamoItem | undefined
+      if (node === undefined) return true
+      const pointingToNode = this.getPointingTo(node.pk, node._b)
+      if (!pointingToNode) return false
+      this.db.put({ ...pointingToNode, _n: node._n })
+      this.db.delete(node.pk)
+      return true
+    })
+  }
+  /**
+   * list returns the list of `Nodes` under a `pk`, following the `_n`
+   * pointers from the `head` item of the list.
+   * @param parent - `Nodes` parent.
+   */
+  async list(parent: string): Promise<NodeDynamoItem[]> {
+    const items = new Map<string, NodeDynamoItem>()
+    for (let item of this.db.query("byBranch", parent) as NodeDynamoItem[]) {
+      items.set(item.pk, item)
+    }
+    const result: NodeDynamoItem[] = []
+    let item = items.get("#" + parent)
+    while (item !== undefined && item._n !== ".") {
+      item = items.get(item._n)
+      if (item === undefined) break
+      items.delete(item.pk)
+      result.push(item)
+    }
+    return result
+  }
+  /**
+   * page returns up to `limit` `Nodes` under a `pk`, starting after the
+   * `Node` identified by `cursor`, or at the start of the list. It fails
+   * with an `InvalidCursorError` if the `cursor` no longer belongs to the
+   * list.
+   * @param parent - `Nodes` parent.
+   * @param limit - Maximum number of `Nodes` of the page.
+   * @param cursor - `pk` of the `Node` after which the page starts.
+   */
+  async page(parent: string, limit: number, cursor?: string): Promise<NodeDynamoPage> {
+    let item = this.db.get(cursor === undefined ? "#" + parent : cursor) as NodeDynamoItem | undefined
+    if (item === undefined || item._b !== parent) {
+      if (cursor === undefined) return { items: [] }
+      throw new InvalidCursorError()
+    }
+    const items: NodeDynamoItem[] = []
+    while (items.length < limit && item._n !== ".") {
+      const next = this.db.get(item._n) as NodeDynamoItem | undefined
+      if (next === undefined || next._b !== parent) throw new ConflictError()
+      items.push(item = next)
+    }
+    return { items, offset: items.length > 0 && item._n !== "." ? item.pk : undefined }
+  }
+  /**
+   * after allows to move a `Node` from its current position to a new
+   * one. If the `Node` belongs to a different parent it gets moved,
+   * along with its sub-nodes, to the new parent.
+   * @param fromPK - `Node` to be moved identified by its key.
+   * @param parent - `Nodes` parent.
+   * @param afterPK - New position of the `Nodes` identified by the key
+   *                  of the `Node` currently in that position.
+   */
+  async after(fromPK: string, parent: string, afterPK?: string): Promise<boolean> {
+    if (fromPK === afterPK) return true
+    return this.db.transaction(() => {
+      const from = this.db.get(fromPK) as NodeDynamoItem | undefined
+      if (!from) return false
+      if (from._b !== parent) return this.move(from, parent, afterPK)
+      const after = this.db.get(afterPK || "#" + parent) as NodeDynamoItem | undefined
+      const $from = this.getPointingTo(fromPK, parent)
+      if (!after || after._b !== parent || !$from) return false
+      if (after._n === from.pk) return true
+      this.db.put({ ...from, _n: after._n })
+      this.db.put({ ...after, _n: from.pk })
+      this.db.put({ ...$from, _n: from._n })
+      return true
+    })
+  }
+  /**
+   * move detaches a `Node` from its current list and splices it into the
+   * list of another parent, after the `Node` identified by `afterPK`. It
+   * must be called inside a transaction.
+   * @param from - `Node` to be moved.
+   * @param parent - New `Nodes` parent.
+   * @param afterPK - `Node` after which the `Node` should be placed. If
+   *                  undefined, it will be placed at the beginning.
+   */
+  private move(from: NodeDynamoItem, parent: string, afterPK?: string): boolean {
+    if (parent === from.pk) throw new InvalidMoveError()
+    const path = this.createPath(parent)
+    if (path.includes(from.pk)) throw new InvalidMoveError()
+    const after = this.db.get(afterPK || "#" + parent) as NodeDynamoItem | undefined
+    const $from = this.getPointingTo(from.pk, from._b)
+    if (!$from || (after !== undefined && after._b !== parent)) return false
+    if (afterPK !== undefined && after === undefined) return false
+    this.db.put({ ...$from, _n: from._n })
+    // The new parent doesn't have a list yet, so we need to create its `head`.
+    if (after === undefined) {
+      this.db.put({ pk: "#" + parent, _b: parent, _n: from.pk })
+      this.db.put({ ...from, _b: parent, _n: ".", _p: path })
+      return true
+    }
+    this.db.put({ ...from, _b: parent, _n: after._n, _p: path })
+    this.db.put({ ...after, _n: from.pk })
+    return true
+  }
+  /**
+   * ancestors returns the list of ancestors of a `Node`, starting from
+   * its parent up to the root of the tree.
+   * @param pk - `Node` unique identifier.
+   */
+  async ancestors(pk: string): Promise<NodeDynamoItem[]> {
+    return this.getAncestors(pk)
+  }
+  /**
+   * trash moves a `Node` to the trash branch. The `Node` is unlinked
+   * from its list and its sub-nodes remain under its branch.
+   * @param pk - `Node` unique identifier.
+   * @param trash - Trash branch.
+   * @param deletedAt - Time of deletion in milliseconds.
+   * @param version - Expected version of the `Node`.
+   */
+  async trash(pk: string, trash: string, deletedAt: number, version?: number): Promise<boolean> {
+    return this.db.transaction(() => {
+      const node = this.db.get(pk) as NodeDynamoItem | undefined
+      if (node === undefined || node._b === trash) return true
+      if (version !== undefined && (node._v || 0) !== version) throw new PreconditionFailedError()
+      const pointingToNode = this.getPointingTo(node.pk, node._b)
+      if (!pointingToNode) return false
+      this.db.put({ ...pointingToNode, _n: node._n })
+      this.db.put({ ...node, _b: trash, _n: ".", _o: node._b, _a: pointingToNode.pk, _d: deletedAt })
+      return true
+    })
+  }
+  /**
+   * restore moves a `Node` out of the trash, back to the position it had
+   * before it was deleted. If the `Node` that was before it is gone, it
+   * gets appended at the end of the list.
+   * @param pk - `Node` unique identifier.
+   * @param trash - Trash branch.
+   * @param parent - Branch where to restore the `Node`. Defaults to its
+   *                 original branch.
+   */
+  async restore(pk: string, trash: string, parent?: string): Promise<boolean> {
+    return this.db.transaction(() => {
+      const node = this.db.get(pk) as NodeDynamoItem | undefined
+      if (node === undefined || node._b !== trash || !node._o) return false
+      const branch = parent || node._o
+      let after = node._a && branch === node._o ? this.db.get(node._a) as NodeDynamoItem | undefined : undefined
+      if (after === undefined || after._b !== branch) after = this.getTail(branch)
+      const { _o, _a, _d, ...item } = node
+      const path = this.createPath(branch)
+      if (after === undefined) {
+        this.db.put({ pk: "#" + branch, _b: branch, _n: pk })
+        this.db.put({ ...item, _b: branch, _n: ".", _p: path })
+        return true
+      }
+      this.db.put({ ...after, _n: pk })
+      this.db.put({ ...item, _b: branch, _n: after._n, _p: path })
+      return true
+    })
+  }
+  /**
+   * branch returns all the items stored under a branch, without sorting them.
+   * @param _b - Branch to query.
+   */
+  async branch(_b: string): Promise<NodeDynamoItem[]> {
+    return this.db.query("byBranch", _b) as NodeDynamoItem[]
+  }
+  /**
+   * purge permanently deletes a `Node` along with all its sub-nodes, their
+   * history and their entries on the search index.
+   * @param pk - `Node` unique identifier.
+   */
+  async purge(pk: string): Promise<boolean> {
+    return this.db.transaction(() => {
+      const node = this.db.get(pk) as NodeDynamoItem | undefined
+      const history = this.db.query("byBranch", createHistoryBranch(pk)).map(item => item.pk)
+      const descendants = this.descendants(pk)
+      for (let _pk of [pk, ...history, ...(node ? createSearchPKs(node) : []), ...descendants.pks]) {
+        this.db.delete(_pk)
+      }
+      const nodes = descendants.nodes + (node ? 1 : 0)
+      if (nodes > 0) this.count(pk, -nodes)
+      return true
+    })
+  }
+  /**
+   * branches returns every branch that holds a `Nodes` linked list.
+   */
+  async branches(): Promise<string[]> {
+    return this.db.branchNames("byNext")
+  }
+  /**
+   * relink rewrites the `head` item and the `_n` pointers of a branch so
+   * its list follows the given order. Only the items whose pointer
+   * changes are written.
+   * @param parent - `Nodes` parent.
+   * @param pks - `pk` of every `Node` of the branch, in order.
+   */
+  async relink(parent: string, pks: string[]): Promise<boolean> {
+    return this.db.transaction(() => {
+      const keys = ["#" + parent, ...pks]
+      keys.forEach((pk, index) => {
+        const _n = index < pks.length ? pks[index] : "."
+        const item = this.db.get(pk) as NodeDynamoItem | undefined
+        if (index === 0 && item === undefined) return this.db.put({ pk, _b: parent, _n })
+        if (item === undefined || item._b !== parent) throw new ConflictError()
+        if (item._n !== _n) this.db.put({ ...item, _n })
+      })
+      return true
+    })
+  }
+  /**
+   * putBranch stores a list of new `Nodes` under a parent that doesn't
+   * have a list yet. The `head` item and the `_n` pointers are created
+   * from the order of the list.
+   * @param parent - `Node` parent.
+   * @param items - Ordered list of `pk` and `Node` bodies to store.
+   * @param path - `pk` of the parent along with the ones of its ancestors,
+   *               starting from the root. It's read when it isn't given.
+   */
+  async putBranch(parent: string, items: { pk: string, body: NodeItem }[], path?: string[]): Promise<boolean> {
+    if (items.length === 0) return true
+    return this.db.transaction(() => {
+      this.db.put({ pk: "#" + parent, _b: parent, _n: items[0].pk })
+      const _p = path || this.createPath(parent)
+      items.forEach(({ pk, body }, index) => {
+        this.db.put(createNodeItem(pk, body, parent, index < items.length - 1 ? items[index + 1].pk : ".", _p))
+        this.index(pk, body.id, body.content)
+      })
+      this.count(parent, items.length)
+      return true
+    })
+  }
+  /**
+   * search returns the entries of the search index for a term, on the tree
+   * of a user.
+   * @param root - Root branch of the tree of the user.
+   * @param term - Term to look for.
+   */
+  async search(root: string, term: string): Promise<NodeSearchItem[]> {
+    return this.db.query("byBranch", createSearchBranch(root, term)) as NodeSearchItem[]
+  }
+  /**
+   * documents returns the number of `Nodes` on the search index of a user.
+   * @param root - Root branch of the tree of the user.
+   */
+  async documents(root: string): Promise<number> {
+    const item = this.db.get(createSearchCountPK(root)) as NodeSearchCountItem | undefined
+    return item?._c || 0
+  }
+  /**
+   * batchGet returns the items identified by a list of `pk`. Missing items
+   * are left out.
+   * @param pks - Unique identifiers of the items.
+   */
+  async batchGet(pks: string[]): Promise<NodeDynamoItem[]> {
+    return pks.map(pk => this.db.get(pk) as NodeDynamoItem | undefined).filter((item): item is NodeDynamoItem => item !== undefined)
+  }
+  /**
+   * revisions returns the revisions of a `Node`, oldest first.
+   * @param pk - `Node` unique identifier.
+   */
+  async revisions(pk: string): Promise<NodeRevisionItem[]> {
+    return this.db.query("byBranch", createHistoryBranch(pk)) as NodeRevisionItem[]
+  }
+  /**
+   * putRevision stores a revision of a `Node`, replacing the revision
+   * with the same `id` if it already exists.
+   * @param pk - `Node` unique identifier.
+   * @param revision - Revision to store.
+   */
+  async putRevision(pk: string, revision: NodeRevision): Promise<boolean> {
+    this.db.put(createRevisionItem(pk, revision))
+    return true
+  }
+  /**
+   * deleteRevisions deletes a list of revisions of a `Node`.
+   * @param pk - `Node` unique identifier.
+   * @param ids - Unique identifiers of the revisions to delete.
+   */
+  async deleteRevisions(pk: string, ids: string[]): Promise<boolean> {
+    const branch = createHistoryBranch(pk)
+    return this.db.transaction(() => {
+      for (let id of ids) {
+        this.db.delete(branch + "#" + id)
+      }
+      return true
+    })
+  }
+  /**
+   * getTail returns the current tail of the linked list. It should always
+   * be the first element of the `byNext` index since its `_n` attribute
+   * should be set to a dot ("`.`").
+   * @param parent - `Nodes` parent on which to search for the `tail`.
+   */
+  private getTail(parent: string): NodeDynamoItem | undefined {
+    return this.db.query("byNext", parent)[0] as NodeDynamoItem | undefined
+  }
+  /**
+   * index stores the terms of the content of a `Node` on the search index.
+   * @param pk - `Node` unique identifier.
+   * @param id - `Node` id.
+   * @param content - `Node` content.
+   */
+  private index(pk: string, id: string, content: string): void {
+    for (let item of createSearchItems(pk, id, content)) {
+      this.db.put(item)
+    }
+  }
+  /**
+   * count adds to the number of `Nodes` on the search index of a user. It
+   * must be called inside a transaction.
+   * @param pk - `Node` unique identifier, or root branch of the user.
+   * @param delta - Number of `Nodes` added, or removed if negative.
+   */
+  private count(pk: string, delta: number): void {
+    const countPK = createSearchCountPK(pk)
+    const item = this.db.get(countPK) as NodeSearchCountItem | undefined
+    this.db.put({ pk: countPK, _c: (item?._c || 0) + delta })
+  }
+  /**
+   * getPointingTo returns the `Node` item pointing to another `Node`.
+   * @param pk - `Node` unique identifier.
+   * @param parent - `Node` parent.
+   */
+  private getPointingTo(pk: string, parent: string): NodeDynamoItem | undefined {
+    return this.db.query("byNext", parent, pk)[0] as NodeDynamoItem | undefined
+  }
+  /**
+   * getAncestors walks up the tree from a `Node` to the root, returning
+   * every ancestor found, nearest first.
+   * @param pk - `Node` unique identifier.
+   */
+  private getAncestors(pk: string): NodeDynamoItem[] {
+    const result: NodeDynamoItem[] = []
+    const visited = new Set<string>([pk])
+    let item = this.db.get(pk) as NodeDynamoItem | undefined
+    while (item !== undefined && !visited.has(item._b)) {
+      visited.add(item._b)
+      item = this.db.get(item._b) as NodeDynamoItem | undefined
+      if (item !== undefined) result.push(item)
+    }
+    return result
+  }
+  /**
+   * createPath returns the `pk` of a parent along with the ones of its
+   * ancestors, starting from the root, to be stored as the path of its
+   * sub-nodes. It's empty for the root of the tree.
+   * @param parent - `Node` parent.
+   */
+  private createPath(parent: string): string[] {
+    if (this.db.get(parent) === undefined) return []
+    return [...this.getAncestors(parent).reverse().map(item => item.pk), parent]
+  }
+  /**
+   * descendants returns the `pk` of every item that lives under the
+   * branch of a `Node`, including the `head` items, and the history and
+   * search index entries of each `Node`, along with the number of `Nodes`.
+   * @param pk - `Node` unique identifier.
+   */
+  private descendants(pk: string): { pks: string[], nodes: number } {
+    const result = { pks: [] as string[], nodes: 0 }
+    for (let item of this.db.query("byBranch", pk)) {
+      result.pks.push(item.pk)
+      if (item.pk === "#" + pk) continue
+      const history = this.db.query("byBranch", createHistoryBranch(item.pk))
+      const descendants = this.descendants(item.pk)
+      result.pks.push(...history.map(revision => revision.pk), ...createSearchPKs(item as NodeDynamoItem), ...descendants.pks)
+      result.nodes += 1 + descendants.nodes
+    }
+    return result
+  }
+}
\ No newline at end of file
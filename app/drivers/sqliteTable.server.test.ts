@@ -0,0 +1,81 @@
+import test from "tape"
+import Database from "better-sqlite3"
+import { ulid } from "ulid"
+import type { Test } from "tape"
+
+import { SQLiteTable } from "./sqliteTable.server"
+import { NodesTableDriver } from "./nodesTableDriver.server"
+
+test("sqliteTable.query()", (assert: Test) => {
+  const table = new SQLiteTable(new Database(":memory:"))
+  table.put({ pk: "b", _b: "branch", _n: "." })
+  table.put({ pk: "#branch", _b: "branch", _n: "a" })
+  table.put({ pk: "a", _b: "branch", _n: "b" })
+  table.put({ pk: "c", _b: "branch" })
+  table.put({ pk: "d", _b: "other", _n: "." })
+  // `byBranch` should return every item of the branch sorted by `pk`.
+  assert.deepEqual(table.query("byBranch", "branch").map(item => item.pk), ["#branch", "a", "b", "c"])
+  // `byNext` should skip the items without `_n`, and sort them by `_n`.
+  assert.deepEqual(table.query("byNext", "branch").map(item => item.pk), ["b", "#branch", "a"])
+  assert.deepEqual(table.query("byNext", "branch", "b").map(item => item.pk), ["a"])
+  // Changing the branch of an item should update the index.
+  table.put({ pk: "c", _b: "other" })
+  assert.deepEqual(table.query("byBranch", "other").map(item => item.pk), ["c", "d"])
+  table.delete("d")
+  assert.deepEqual(table.query("byBranch", "other").map(item => item.pk), ["c"])
+  // Branches without items on `byNext` should only be listed on `byBranch`.
+  assert.deepEqual(table.branchNames("byBranch"), ["branch", "other"])
+  assert.deepEqual(table.branchNames("byNext"), ["branch"])
+  assert.end()
+})
+
+test("sqliteTable.get()", (assert: Test) => {
+  const table = new SQLiteTable(new Database(":memory:"))
+  table.put({ pk: "a", _m: { isOpened: true }, _d: 1, content: undefined })
+  // Items should be stored without their `undefined` values.
+  assert.deepEqual(table.get("a"), { pk: "a", _m: { isOpened: true }, _d: 1 })
+  assert.equal(table.get("b"), undefined)
+  assert.end()
+})
+
+test("sqliteTable.transaction()", (assert: Test) => {
+  const table = new SQLiteTable(new Database(":memory:"))
+  table.put({ pk: "a", _b: "branch", content: "a" })
+  // A failed transaction should leave the table untouched.
+  assert.throws(() => table.transaction(() => {
+    table.put({ pk: "a", _b: "other", content: "updated" })
+    table.put({ pk: "b", _b: "branch" })
+    table.delete("a")
+    throw new Error("failed")
+  }), /failed/)
+  assert.deepEqual(table.get("a"), { pk: "a", _b: "branch", content: "a" })
+  assert.equal(table.get("b"), undefined)
+  // Nested transactions should be part of the outer one.
+  assert.equal(table.transaction(() => {
+    table.put({ pk: "b", _b: "branch" })
+    return table.transaction(() => table.get("b") !== undefined)
+  }), true)
+  assert.deepEqual(table.query("byBranch", "branch").map(item => item.pk), ["a", "b"])
+  assert.end()
+})
+
+test("nodesTableDriver on a SQLiteTable", async (assert: Test) => {
+  const driver = new NodesTableDriver({ db: new SQLiteTable(new Database(":memory:")) })
+  const root = ulid() + "#Nodes"
+  const [pk1, pk2, pk3] = ["001", "002", "003"].map(id => root + "#" + id)
+  assert.equal(await driver.put(pk1, { id: "001", content: ulid() }, root), true)
+  assert.equal(await driver.put(pk2, { id: "002", content: ulid() }, root), true)
+  assert.equal(await driver.put(pk3, { id: "003", content: ulid() }, root, pk1), true)
+  assert.deepEqual((await driver.list(root)).map(item => item.pk), [pk1, pk3, pk2])
+  // Putting an existing `Node` should fail with a conflict.
+  assert.equal(await driver.put(pk1, { id: "001", content: ulid() }, root).catch(err => err.name), "ConflictError")
+  // Moving and deleting `Nodes` shouldn't break the list.
+  assert.equal(await driver.after(pk1, root, pk2), true)
+  assert.deepEqual((await driver.list(root)).map(item => item.pk), [pk3, pk2, pk1])
+  assert.equal(await driver.after(pk2, pk3), true)
+  assert.deepEqual((await driver.list(root)).map(item => item.pk), [pk3, pk1])
+  assert.deepEqual((await driver.list(pk3)).map(item => item.pk), [pk2])
+  assert.equal(await driver.delete(pk3), true)
+  assert.deepEqual((await driver.list(root)).map(item => item.pk), [pk1])
+  assert.end()
+})
@@ -0,0 +1,144 @@
+import Database from "better-sqlite3"
+import type { Database as SQLiteDatabase, Statement } from "better-sqlite3"
+
+import type { Table, TableIndex, TableItem } from "./tableDriver.server"
+
+/**
+ * DB_FILE is the path of the SQLite database file.
+ */
+const DB_FILE = process.env.DB_FILE || "renodes.sqlite"
+/**
+ * TABLE_NAME is the name of the SQLite table where the items are stored.
+ */
+const TABLE_NAME = process.env.TABLE_NAME || "renodes"
+/**
+ * Row is the shape of the rows read from the SQLite table.
+ */
+type Row = { item: string }
+
+declare global {
+  /**
+   * __sqliteTable holds the process wide `SQLiteTable` instance.
+   */
+  var __sqliteTable: SQLiteTable | undefined
+}
+/**
+ * SQLiteTable is an implementation of the `Table` interface backed by a
+ * SQLite database. Every item is stored as a JSON document, next to the
+ * columns used by the `byBranch` and `byNext` indexes.
+ */
+export class SQLiteTable implements Table {
+  /**
+   * db is the SQLite database connection.
+   */
+  db: SQLiteDatabase
+  /**
+   * statements holds the prepared statements used by the table.
+   */
+  private statements: {
+    get: Statement;
+    put: Statement;
+    delete: Statement;
+    byBranch: Statement;
+    byNext: Statement;
+    byNextValue: Statement;
+    branches: Statement;
+    nextBranches: Statement;
+  }
+  /**
+   * constructor creates the table and its indexes if they don't exist.
+   * @param db - SQLite database connection.
+   * @param tableName - Name of the table.
+   */
+  constructor(db: SQLiteDatabase, tableName: string = TABLE_NAME) {
+    this.db = db
+    const name = tableName.replace(/"/g, "")
+    const table = `"${name}"`
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS ${table} (pk TEXT PRIMARY KEY, _b TEXT, _n TEXT, item TEXT NOT NULL);
+      CREATE INDEX IF NOT EXISTS "${name}_byBranch" ON ${table} (_b, pk);
+      CREATE INDEX IF NOT EXISTS "${name}_byNext" ON ${table} (_b, _n);
+    `)
+    this.statements = {
+      get: this.db.prepare(`SELECT item FROM ${table} WHERE pk = ?`),
+      put: this.db.prepare(`INSERT OR REPLACE INTO ${table} (pk, _b, _n, item) VALUES (@pk, @_b, @_n, @item)`),
+      delete: this.db.prepare(`DELETE FROM ${table} WHERE pk = ?`),
+      byBranch: this.db.prepare(`SELECT item FROM ${table} WHERE _b = ? ORDER BY pk`),
+      byNext: this.db.prepare(`SELECT item FROM ${table} WHERE _b = ? AND _n IS NOT NULL ORDER BY _n`),
+      byNextValue: this.db.prepare(`SELECT item FROM ${table} WHERE _b = ? AND _n = ? ORDER BY _n`),
+      branches: this.db.prepare(`SELECT DISTINCT _b FROM ${table} WHERE _b IS NOT NULL ORDER BY _b`),
+      nextBranches: this.db.prepare(`SELECT DISTINCT _b FROM ${table} WHERE _b IS NOT NULL AND _n IS NOT NULL ORDER BY _b`),
+    }
+  }
+  /**
+   * get returns a single item identified by its `pk`.
+   * @param pk - Item unique identifier.
+   */
+  get(pk: string): TableItem | undefined {
+    const row = this.statements.get.get(pk) as Row | undefined
+    return row === undefined ? undefined : JSON.parse(row.item)
+  }
+  /**
+   * put inserts or replaces an item.
+   * @param item - Item to store.
+   */
+  put(item: TableItem): void {
+    this.statements.put.run({
+      pk: item.pk,
+      _b: item._b === undefined ? null : item._b,
+      _n: item._n === undefined ? null : item._n,
+      item: JSON.stringify(item),
+    })
+  }
+  /**
+   * delete deletes the item identified by its `pk`.
+   * @param pk - Item unique identifier.
+   */
+  delete(pk: string): void {
+    this.statements.delete.run(pk)
+  }
+  /**
+   * query returns the items of a branch, sorted by the index sort key.
+   * @param index - Index to query.
+   * @param _b - Branch to query.
+   * @param value - Optional value the sort key must be equal to.
+   */
+  query(index: TableIndex, _b: string, value?: string): TableItem[] {
+    const rows = (index === "byBranch"
+      ? this.statements.byBranch.all(_b)
+      : value === undefined
+        ? this.statements.byNext.all(_b)
+        : this.statements.byNextValue.all(_b, value)) as Row[]
+    return rows.map(row => JSON.parse(row.item))
+  }
+  /**
+   * branchNames returns every branch that holds items on an index, sorted.
+   * @param index - Index to scan.
+   */
+  branchNames(index: TableIndex): string[] {
+    const rows = (index === "byBranch" ? this.statements.branches : this.statements.nextBranches).all() as { _b: string }[]
+    return rows.map(row => row._b)
+  }
+  /**
+   * transaction runs a function inside an `IMMEDIATE` transaction, so
+   * concurrent writers wait for it instead of failing half-way. Nested
+   * transactions are run as savepoints of the outer one.
+   * @param fn - Function to run.
+   */
+  transaction<T>(fn: () => T): T {
+    return this.db.transaction(fn).immediate()
+  }
+}
+/**
+ * getTable returns the process wide instance of the `SQLiteTable` class,
+ * connected to `DB_FILE`. It's stored globally so it survives the purge
+ * of the require cache done by the development server on every request.
+ */
+export function getTable(): SQLiteTable {
+  if (global.__sqliteTable === undefined) {
+    const db = new Database(DB_FILE)
+    db.pragma("journal_mode = WAL")
+    global.__sqliteTable = new SQLiteTable(db)
+  }
+  return global.__sqliteTable
+}
@@ -0,0 +1,140 @@
+import { ConflictError } from "../server/errors.server"
+import type { DBDriver } from "../types"
+
+/**
+ * TableItem represent the attributes every item stored on a `Table` can have.
+ * They mirror the key attributes of the DynamoDB table and its indexes.
+ */
+export interface TableItem {
+  /**
+   * pk represents the item primary key.
+   */
+  pk: string;
+  /**
+   * _b holds the branch of the item. It's the partition key of both indexes.
+   */
+  _b?: string;
+  /**
+   * _n holds the next value of the item. It's the sort key of the `byNext` index.
+   */
+  _n?: string;
+  /**
+   * Any other attribute of the item.
+   */
+  [key: string]: any;
+}
+/**
+ * TableIndex are the names of the indexes a `Table` must support.
+ *  - `byBranch`: Items with a given `_b`, sorted by their `pk`.
+ *  - `byNext`  : Items with a given `_b`, sorted by their `_n`.
+ */
+export type TableIndex = "byBranch" | "byNext"
+/**
+ * Table is the interface a storage must implement to be used by a
+ * `TableDriver`. Its methods are synchronous so a set of reads and
+ * writes can be run as a single all-or-nothing transaction.
+ */
+export interface Table {
+  /**
+   * get returns a single item identified by its `pk`.
+   * @param pk - Item unique identifier.
+   */
+  get(pk: string): TableItem | undefined;
+  /**
+   * put inserts or replaces an item.
+   * @param item - Item to store.
+   */
+  put(item: TableItem): void;
+  /**
+   * delete deletes the item identified by its `pk`.
+   * @param pk - Item unique identifier.
+   */
+  delete(pk: string): void;
+  /**
+   * query returns the items of a branch, sorted by the index sort key.
+   * Items without the index attributes are not included, like on a
+   * sparse DynamoDB index.
+   * @param index - Index to query.
+   * @param _b - Branch to query.
+   * @param value - Optional value the sort key must be equal to.
+   */
+  query(index: TableIndex, _b: string, value?: string): TableItem[];
+  /**
+   * branchNames returns every branch that holds items on an index, sorted.
+   * @param index - Index to scan.
+   */
+  branchNames(index: TableIndex): string[];
+  /**
+   * transaction runs a function as an all-or-nothing transaction. If the
+   * function throws, none of its writes get applied.
+   * @param fn - Function to run.
+   */
+  transaction<T>(fn: () => T): T;
+}
+/**
+ * TableDriverConfig is the configuration interface needed to create
+ * a `TableDriver` instance.
+ */
+export interface TableDriverConfig {
+  /**
+   * db is the `Table` where the items will be stored.
+   */
+  db: Table;
+}
+/**
+ * TableDriver is the counterpart of `DynamoDriver` for storages that
+ * implement the `Table` interface. It reproduces the access patterns of
+ * the DynamoDB table, so the same items can be stored on other backends.
+ */
+export abstract class TableDriver<Body, Item extends TableItem, Patch> implements DBDriver<Body, Item, Patch, Table> {
+  /**
+   * db is the `Table` used to store the items.
+   */
+  db: Table
+  /**
+   * constructor is run upon creating a new instace of the class.
+   * @param config - Configuration object
+   */
+  constructor(config: TableDriverConfig) {
+    this.db = config.db
+  }
+  /**
+   * list returns a list of items.
+   * @param params - Query parameters
+   */
+  abstract list(params?: string | any): Promise<Item[]>
+  /**
+   * get gets a single item from the table identified by its `pk`.
+   * @param pk - item unique identifier.
+   */
+  async get(pk: string): Promise<Item | undefined> {
+    return this.db.get(pk) as Item | undefined
+  }
+  /**
+   * put inserts a new item in the table. It fails with a `ConflictError`
+   * if an item with the same `pk` already exists.
+   * @param pk - item unique identifier.
+   * @param body - item body to be stored.
+   */
+  async put(pk: string, body: Body): Promise<boolean> {
+    return this.db.transaction(() => {
+      if (this.db.get(pk) !== undefined) throw new ConflictError()
+      this.db.put({ pk, ...body })
+      return true
+    })
+  }
+  /**
+   * update update only some specific attributes of a item.
+   * @param pk - item unique identifier.
+   * @param patch - item patch to be applied to the `item`.
+   */
+  abstract update(pk: string, patch: Patch): Promise<boolean>
+  /**
+   * delete deletes a single item from the table identified by its key.
+   * @param key - item unique identifier.
+   */
+  async delete(pk: string): Promise<boolean> {
+    this.db.delete(pk)
+    return true
+  }
+}
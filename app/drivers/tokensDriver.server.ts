@@ -0,0 +1,42 @@
+import { driver as dynamoDriver } from "./tokensDynamoDriver.server"
+import { TokensTableDriver } from "./tokensTableDriver.server"
+import { table as memoryTable } from "./memoryTable.server"
+import { getTable as getSQLiteTable } from "./sqliteTable.server"
+import type { TokenDynamoBody, TokenDynamoItem } from "./tokensDynamoDriver.server"
+import type { TokenPatch } from "../models/token"
+import type { DBDriver } from "../types"
+
+/**
+ * DB_DRIVER is the name of the storage used to store the tokens.
+ */
+const DB_DRIVER = process.env.DB_DRIVER || "dynamo"
+
+/**
+ * TokensDriver is the interface every personal API tokens driver must implement.
+ */
+export interface TokensDriver extends DBDriver<TokenDynamoBody, TokenDynamoItem, TokenPatch, unknown> {
+  /**
+   * list returns the tokens stored on a branch.
+   * @param branch - Tokens branch of a user.
+   */
+  list(branch: string): Promise<TokenDynamoItem[]>;
+}
+/**
+ * driver is the `TokensDriver` selected through the `DB_DRIVER`
+ * environment variable.
+ */
+export const driver: TokensDriver = createDriver()
+/**
+ * Functions
+ */
+/**
+ * createDriver returns the `TokensDriver` configured by `DB_DRIVER`.
+ */
+function createDriver(): TokensDriver {
+  switch (DB_DRIVER) {
+    case "dynamo": return dynamoDriver
+    case "memory": return new TokensTableDriver({ db: memoryTable })
+    case "sqlite": return new TokensTableDriver({ db: getSQLiteTable() })
+    default: throw new Error(`unknown DB_DRIVER = ${DB_DRIVER}`)
+  }
+}
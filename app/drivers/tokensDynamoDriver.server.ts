@@ -0,0 +1,97 @@
+import { QueryCommand, UpdateCommand } from "@aws-sdk/lib-dynamodb"
+import type { QueryCommandOutput, UpdateCommandOutput } from "@aws-sdk/lib-dynamodb"
+
+import { DynamoDriver } from "./dynamoDriver.server"
+import type { DynamoDriverItem } from "./dynamoDriver.server"
+import type { TokenPatch, TokenScope } from "../models/token"
+
+/**
+ * TokenDynamoItem is the interface that represent how the personal API
+ * tokens are stored in the table.
+ */
+export interface TokenDynamoItem extends DynamoDriverItem {
+  /**
+   * _b holds the tokens branch of the user, `userId#Tokens`, to be able to
+   * query by the `byBranch` index.
+   */
+  _b: string;
+  /**
+   * id is the unique identifier of the token.
+   */
+  id: string;
+  /**
+   * name is the label the user gave to the token.
+   */
+  name: string;
+  /**
+   * scope is the access the token grants.
+   */
+  scope: TokenScope;
+  /**
+   * root is the unique identifier of the `Node` the token is limited to.
+   */
+  root?: string;
+  /**
+   * hash is the SHA-256 hash of the secret of the token, hex encoded.
+   */
+  hash: string;
+  /**
+   * createdAt is the time, in milliseconds, at which the token was created.
+   */
+  createdAt: number;
+  /**
+   * lastUsedAt is the time, in milliseconds, at which the token was last used.
+   */
+  lastUsedAt?: number;
+}
+/**
+ * TokenDynamoBody is the body needed to store a new token.
+ */
+export type TokenDynamoBody = Omit<TokenDynamoItem, "pk">
+/**
+ * TokensDynamoDriver handles the logic of personal API token items inside
+ * a DynamoDB table.
+ */
+export class TokensDynamoDriver extends DynamoDriver<TokenDynamoBody, TokenDynamoItem, TokenPatch> {
+  /**
+   * list returns the tokens stored on a branch.
+   * @param branch - Tokens branch of a user.
+   */
+  async list(branch: string): Promise<TokenDynamoItem[]> {
+    const queryOutput: QueryCommandOutput = await this.db.send(new QueryCommand({
+      TableName: this.tableName,
+      IndexName: "byBranch",
+      KeyConditionExpression: "#_b = :_b",
+      ExpressionAttributeNames: { "#_b": "_b" },
+      ExpressionAttributeValues: { ":_b": branch },
+    }))
+    if (!queryOutput.Items) return []
+    return queryOutput.Items as TokenDynamoItem[]
+  }
+  /**
+   * update updates the last used time of a token. Tokens deleted in the
+   * meantime aren't created again.
+   * @param pk - Token unique identifier.
+   * @param patch - Patch to apply to the token.
+   */
+  async update(pk: string, patch: TokenPatch): Promise<boolean> {
+    try {
+      const updateOutput: UpdateCommandOutput = await this.db.send(new UpdateCommand({
+        TableName: this.tableName,
+        Key: { pk },
+        UpdateExpression: "SET #lastUsedAt = :lastUsedAt",
+        ConditionExpression: "attribute_exists(#pk)",
+        ExpressionAttributeNames: { "#pk": "pk", "#lastUsedAt": "lastUsedAt" },
+        ExpressionAttributeValues: { ":lastUsedAt": patch.lastUsedAt },
+      }))
+      return updateOutput.$metadata.httpStatusCode === 200
+    } catch (err) {
+      if (err.name === "ConditionalCheckFailedException") return false
+      throw err
+    }
+  }
+}
+/**
+ * driver is a preconfigured instance of the `TokensDynamoDriver` class.
+ */
+export const driver = new TokensDynamoDriver()
@@ -0,0 +1,31 @@
+import { TableDriver } from "./tableDriver.server"
+import type { TokenDynamoBody, TokenDynamoItem } from "./tokensDynamoDriver.server"
+import type { TokenPatch } from "../models/token"
+
+/**
+ * TokensTableDriver handles the logic of personal API token items inside
+ * a `Table`.
+ */
+export class TokensTableDriver extends TableDriver<TokenDynamoBody, TokenDynamoItem, TokenPatch> {
+  /**
+   * list returns the tokens stored on a branch.
+   * @param branch - Tokens branch of a user.
+   */
+  async list(branch: string): Promise<TokenDynamoItem[]> {
+    return this.db.query("byBranch", branch) as TokenDynamoItem[]
+  }
+  /**
+   * update updates the last used time of a token. Tokens deleted in the
+   * meantime aren't created again.
+   * @param pk - Token unique identifier.
+   * @param patch - Patch to apply to the token.
+   */
+  async update(pk: string, patch: TokenPatch): Promise<boolean> {
+    return this.db.transaction(() => {
+      const item = this.db.get(pk)
+      if (item === undefined) return false
+      this.db.put({ ...item, lastUsedAt: patch.lastUsedAt })
+      return true
+    })
+  }
+}
@@ -0,0 +1,41 @@
+import { driver as dynamoDriver } from "./usersDynamoDriver.server"
+import { UsersTableDriver } from "./usersTableDriver.server"
+import { table as memoryTable } from "./memoryTable.server"
+import { getTable as getSQLiteTable } from "./sqliteTable.server"
+import type { UserItem } from "./usersDynamoDriver.server"
+import type { UserBody, UserPatch } from "../models/user"
+import type { DBDriver } from "../types"
+
+/**
+ * DB_DRIVER is the name of the storage used to store the `Users`.
+ */
+const DB_DRIVER = process.env.DB_DRIVER || "dynamo"
+
+/**
+ * UsersDriver is the interface every `Users` driver must implement.
+ */
+export interface UsersDriver extends DBDriver<UserBody, UserItem, UserPatch, unknown> {
+  /**
+   * list returns a list of all the `Users`.
+   */
+  list(): Promise<UserItem[]>;
+}
+/**
+ * driver is the `UsersDriver` selected through the `DB_DRIVER`
+ * environment variable.
+ */
+export const driver: UsersDriver = createDriver()
+/**
+ * Functions
+ */
+/**
+ * createDriver returns the `UsersDriver` configured by `DB_DRIVER`.
+ */
+function createDriver(): UsersDriver {
+  switch (DB_DRIVER) {
+    case "dynamo": return dynamoDriver
+    case "memory": return new UsersTableDriver({ db: memoryTable })
+    case "sqlite": return new UsersTableDriver({ db: getSQLiteTable() })
+    default: throw new Error(`unknown DB_DRIVER = ${DB_DRIVER}`)
+  }
+}
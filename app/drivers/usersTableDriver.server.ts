@@ -0,0 +1,39 @@
+import omit from "lodash/omit"
+
+import { TableDriver } from "./tableDriver.server"
+import type { UserItem } from "./usersDynamoDriver.server"
+import type { UserBody, UserPatch } from "../models/user"
+
+/**
+ * UsersTableDriver handles the logic of `User` items inside a `Table`.
+ */
+export class UsersTableDriver extends TableDriver<UserBody, UserItem, UserPatch> {
+  /**
+   * list returns a list of all the `Users` in the table.
+   */
+  async list(): Promise<UserItem[]> {
+    return this.db.query("byBranch", "Profile") as UserItem[]
+  }
+  /**
+   * put inserts a new `User` in the table.
+   */
+  async put(pk: string, body: UserBody): Promise<boolean> {
+    this.db.put({
+      pk,
+      _b: "Profile",
+      _n: body.username,
+      _m: omit(body, "id", "username", "provider")
+    })
+    return true
+  }
+  /**
+   * update updates a `User` profile inside the table.
+   */
+  async update(pk: string, patch: UserPatch): Promise<boolean> {
+    return this.db.transaction(() => {
+      const item = this.db.get(pk) || { pk }
+      this.db.put({ ...item, _m: patch })
+      return true
+    })
+  }
+}
@@ -2,6 +2,8 @@ import ReactDOMServer from "react-dom/server";
 import type { EntryContext } from "remix";
 import { RemixServer } from "remix";
 
+export { handleUpgrade } from "./server/collab.server";
+
 export default function handleRequest(
   request: Request,
   responseStatusCode: number,
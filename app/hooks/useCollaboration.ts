@@ -0,0 +1,272 @@
+import { useState, useEffect, useRef, useCallback } from "react"
+
+import { TextOperation } from "../models/textOperation"
+import type { CollabMessage, CollabPeer } from "../models/collab"
+import type { TextSelection } from "../models/textOperation"
+
+/**
+ * CollaborationStatus is the state of the connection to a collaborative
+ * editing session.
+ *  - `connecting`  : Waiting for the content of the session.
+ *  - `connected`   : Changes are merged with the ones of the other clients.
+ *  - `disconnected`: The session is unavailable, or it was lost.
+ */
+export type CollaborationStatus = "connecting" | "connected" | "disconnected"
+/**
+ * Collaboration is the state of a collaborative editing session, and the
+ * functions used to take part in it.
+ */
+export interface Collaboration {
+  /**
+   * status is the state of the connection to the session.
+   */
+  status: CollaborationStatus;
+  /**
+   * text is the content, with the changes made by every client.
+   */
+  text: string;
+  /**
+   * selection is the selection of the client, moved by the changes made by
+   * the other clients. It's only set after one of them.
+   */
+  selection?: TextSelection;
+  /**
+   * peers are the other clients editing the content, with their selections
+   * on the content of this client.
+   */
+  peers: CollabPeer[];
+  /**
+   * change sends a change made on the content.
+   * @param text - New content.
+   * @param selection - Selection after the change.
+   */
+  change: (text: string, selection: TextSelection) => void;
+  /**
+   * select sends a new selection of the client.
+   * @param selection - New selection.
+   */
+  select: (selection: TextSelection) => void;
+  /**
+   * save asks for the content to be persisted. It resolves to the message
+   * sent once the changes of the client are persisted.
+   */
+  save: () => Promise<CollabMessage>;
+}
+/**
+ * CollaborationClient holds the state of the client of a session. Changes
+ * are sent one at a time: `outstanding` is the change waiting to be
+ * acknowledged, and `buffer` holds the changes made meanwhile.
+ */
+interface CollaborationClient {
+  socket?: WebSocket;
+  revision: number;
+  text: string;
+  selection?: TextSelection;
+  outstanding?: TextOperation;
+  buffer?: TextOperation;
+  peers: CollabPeer[];
+  isSaveRequested: boolean;
+  saves: { revision?: number, resolve: (message: CollabMessage) => void, reject: (err: Error) => void }[];
+}
+/**
+ * useCollaboration takes part in the collaborative editing session of the
+ * content of a Node. Changes made on the content are merged with the ones
+ * of the other clients, and the session persists them.
+ * @param id - Node unique identifier, or undefined to not collaborate.
+ * @param content - Current content of the Node.
+ * @param onSync - Function called every time the session persists the
+ *                 content, with the new version of the Node.
+ */
+export function useCollaboration(id: string | undefined, content: string, onSync?: (content: string, version: number) => void): Collaboration {
+  const [status, setStatus] = useState<CollaborationStatus>(id ? "connecting" : "disconnected")
+  const [text, setText] = useState(content)
+  const [selection, setSelection] = useState<TextSelection>()
+  const [peers, setPeers] = useState<CollabPeer[]>([])
+  const client = useRef<CollaborationClient>({ revision: 0, text: content, peers: [], isSaveRequested: false, saves: [] })
+  const onSyncRef = useRef(onSync)
+  onSyncRef.current = onSync
+  /**
+   * send sends a message to the session.
+   * @param message - Message to send.
+   */
+  const send = useCallback((message: CollabMessage) => {
+    client.current.socket?.send(JSON.stringify(message))
+  }, [])
+  /**
+   * requestSave asks the session to persist the content. The pending saves
+   * are done once the revision of the client is persisted.
+   */
+  const requestSave = useCallback(() => {
+    const state = client.current
+    state.saves.forEach(save => { save.revision = save.revision ?? state.revision })
+    send({ type: "save" })
+  }, [send])
+  /**
+   * flush sends the buffered changes once the outstanding one is
+   * acknowledged, or the pending save request if everything was sent.
+   */
+  const flush = useCallback(() => {
+    const state = client.current
+    if (state.buffer) {
+      state.outstanding = state.buffer
+      state.buffer = undefined
+      send({ type: "op", revision: state.revision, ops: state.outstanding.toJSON(), selection: state.selection })
+      return
+    }
+    state.outstanding = undefined
+    if (state.selection) send({ type: "selection", revision: state.revision, selection: state.selection })
+    if (state.isSaveRequested) {
+      state.isSaveRequested = false
+      requestSave()
+    }
+  }, [send, requestSave])
+  /**
+   * updatePeers shows the other clients with their selections moved by the
+   * changes of this client that the session hasn't applied yet.
+   */
+  const updatePeers = useCallback(() => {
+    const { outstanding, buffer } = client.current
+    const pending = outstanding && buffer ? outstanding.compose(buffer) : outstanding || buffer
+    setPeers(client.current.peers.map(peer => (
+      pending && peer.selection ? { ...peer, selection: pending.transformSelection(peer.selection) } : peer
+    )))
+  }, [setPeers])
+  /**
+   * receive handles a message sent by the session.
+   * @param message - Message sent by the session.
+   */
+  const receive = useCallback((message: CollabMessage) => {
+    const state = client.current
+    switch (message.type) {
+      case "init": {
+        state.revision = message.revision
+        state.text = message.content
+        state.peers = message.peers
+        state.outstanding = state.buffer = undefined
+        setText(state.text)
+        setStatus("connected")
+        updatePeers()
+        return
+      }
+      case "ack": {
+        state.revision = message.revision
+        flush()
+        updatePeers()
+        return
+      }
+      case "op": {
+        state.revision = message.revision
+        let operation = TextOperation.fromJSON(message.ops)
+        // The change was made without the changes of this client that the
+        // session hasn't applied yet.
+        if (state.outstanding) [state.outstanding, operation] = TextOperation.transform(state.outstanding, operation)
+        if (state.buffer) [state.buffer, operation] = TextOperation.transform(state.buffer, operation)
+        state.text = operation.apply(state.text)
+        if (state.selection) {
+          state.selection = operation.transformSelection(state.selection)
+          setSelection(state.selection)
+        }
+        const serverOperation = TextOperation.fromJSON(message.ops)
+        state.peers = state.peers.map(peer => peer.clientId === message.clientId
+          ? { ...peer, selection: message.selection }
+          : { ...peer, selection: peer.selection && serverOperation.transformSelection(peer.selection) }
+        )
+        setText(state.text)
+        updatePeers()
+        return
+      }
+      case "selection": {
+        state.peers = state.peers.map(peer => peer.clientId === message.clientId ? { ...peer, selection: message.selection } : peer)
+        updatePeers()
+        return
+      }
+      case "join": {
+        state.peers = [...state.peers, message.peer]
+        updatePeers()
+        return
+      }
+      case "leave": {
+        state.peers = state.peers.filter(peer => peer.clientId !== message.clientId)
+        updatePeers()
+        return
+      }
+      case "saved": {
+        onSyncRef.current?.(message.content, message.version)
+        const isDone = (revision?: number) => revision !== undefined && message.revision >= revision
+        state.saves.filter(save => isDone(save.revision)).forEach(({ resolve }) => resolve(message))
+        state.saves = state.saves.filter(save => !isDone(save.revision))
+        return
+      }
+      case "error": {
+        const saves = state.saves
+        state.saves = []
+        saves.forEach(({ reject }) => reject(new Error(message.message)))
+        return
+      }
+    }
+  }, [flush, updatePeers, setText, setStatus, setSelection])
+
+  useEffect(() => {
+    if (!id) return
+    const protocol = window.location.protocol === "https:" ? "wss:" : "ws:"
+    const socket = new WebSocket(`${protocol}//${window.location.host}/${id}/collab`)
+    client.current.socket = socket
+    socket.onmessage = (e: MessageEvent) => receive(JSON.parse(e.data))
+    socket.onclose = () => {
+      const state = client.current
+      state.socket = undefined
+      state.peers = []
+      const saves = state.saves
+      state.saves = []
+      saves.forEach(({ reject }) => reject(new Error("the collaborative editing session was closed")))
+      setPeers([])
+      setStatus("disconnected")
+    }
+    return () => socket.close()
+  }, [id, receive, setPeers, setStatus])
+  /**
+   * change sends a change made on the content. Changes are sent one at a
+   * time, so they're buffered until the previous one is acknowledged.
+   */
+  const change = useCallback((text: string, selection: TextSelection) => {
+    const state = client.current
+    const operation = TextOperation.fromDiff(state.text, text)
+    state.text = text
+    state.selection = selection
+    setText(text)
+    if (operation.isNoop() || !state.socket) return
+    if (state.outstanding) {
+      state.buffer = state.buffer ? state.buffer.compose(operation) : operation
+    } else {
+      state.outstanding = operation
+      send({ type: "op", revision: state.revision, ops: operation.toJSON(), selection })
+    }
+    updatePeers()
+  }, [send, updatePeers, setText])
+  /**
+   * select sends a new selection of the client. Selections are only sent
+   * while every change is acknowledged, since they're made on top of them.
+   */
+  const select = useCallback((selection: TextSelection) => {
+    const state = client.current
+    if (state.selection && state.selection.anchor === selection.anchor && state.selection.head === selection.head) return
+    state.selection = selection
+    if (!state.outstanding) send({ type: "selection", revision: state.revision, selection })
+  }, [send])
+  /**
+   * save asks for the content to be persisted once every change of the
+   * client is acknowledged.
+   */
+  const save = useCallback(() => new Promise<CollabMessage>((resolve, reject) => {
+    const state = client.current
+    if (!state.socket) return reject(new Error("the collaborative editing session is closed"))
+    state.saves.push({ resolve, reject })
+    if (state.outstanding) {
+      state.isSaveRequested = true
+    } else {
+      requestSave()
+    }
+  }), [requestSave])
+
+  return { status, text, selection, peers, change, select, save }
+}
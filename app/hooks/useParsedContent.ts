@@ -36,7 +36,7 @@ export function useParsedContent<ExtendedParsedContent extends ParsedContent>(co
  * @param content - Content string to parse.
  * @param defaultValue - Default value to return in case the content string parse errors.
  */
-function parse<ExtendedParsedContent extends ParsedContent>(content: string, defaultValue: ExtendedParsedContent): ExtendedParsedContent {
+export function parse<ExtendedParsedContent extends ParsedContent>(content: string, defaultValue: ExtendedParsedContent): ExtendedParsedContent {
   let parsed: ExtendedParsedContent
   try {
     parsed = JSON.parse(content)
@@ -46,4 +46,12 @@ function parse<ExtendedParsedContent extends ParsedContent>(content: string, def
     parsed = { ...defaultValue, content }
   }
   return parsed
+}
+/**
+ * toTitle returns the first line of the content of a Node, to be used as
+ * its title on a path.
+ * @param content - Node content.
+ */
+export function toTitle(content: string): string {
+  return parse(content, { content: "" }).content.split("\n")[0] || "Empty Node"
 }
\ No newline at end of file
@@ -0,0 +1,85 @@
+import type { TextOperationComponent, TextSelection } from "./textOperation"
+
+/**
+ * CollabMessageType is the kind of message sent on a collaborative editing
+ * session of the content of a Node.
+ *  - `init`     : Sent to a client that joins, with the current content.
+ *  - `op`       : A change of the content, sent by a client, and relayed
+ *                 to the others once applied.
+ *  - `ack`      : Sent to a client once its change was applied.
+ *  - `selection`: A client moved its caret, or its selection.
+ *  - `join`     : Another client started editing the content.
+ *  - `leave`    : Another client stopped editing the content.
+ *  - `save`     : A client asks for the content to be persisted.
+ *  - `saved`    : The content was persisted.
+ *  - `error`    : A message of the client was rejected.
+ */
+export type CollabMessageType = "init" | "op" | "ack" | "selection" | "join" | "leave" | "save" | "saved" | "error"
+/**
+ * CollabPeer is a client editing the content of a Node.
+ */
+export interface CollabPeer {
+  /**
+   * clientId is the unique identifier of the connection of the client.
+   */
+  clientId: string;
+  /**
+   * name is the username of the user editing the content.
+   */
+  name: string;
+  /**
+   * color is the CSS color used to show the caret of the client.
+   */
+  color: string;
+  /**
+   * selection is the caret, or the selection, of the client.
+   */
+  selection?: TextSelection;
+}
+/**
+ * CollabMessage is a message sent on a collaborative editing session, from
+ * the client to the server, or the other way around.
+ */
+export interface CollabMessage {
+  /**
+   * type is the kind of message.
+   */
+  type: CollabMessageType;
+  /**
+   * clientId is the unique identifier of the client the message is about.
+   */
+  clientId?: string;
+  /**
+   * revision is the number of changes applied on the content. Changes, and
+   * selections, sent by a client are made on top of this revision.
+   */
+  revision?: number;
+  /**
+   * ops are the steps of a change of the content.
+   */
+  ops?: TextOperationComponent[];
+  /**
+   * selection is the caret, or the selection, of the client.
+   */
+  selection?: TextSelection;
+  /**
+   * content is the content of the Node.
+   */
+  content?: string;
+  /**
+   * version is the version of the Node the content was persisted as.
+   */
+  version?: number;
+  /**
+   * peers are the other clients editing the content.
+   */
+  peers?: CollabPeer[];
+  /**
+   * peer is the client that joined the session.
+   */
+  peer?: CollabPeer;
+  /**
+   * message describes why a message of the client was rejected.
+   */
+  message?: string;
+}
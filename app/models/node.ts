@@ -26,10 +26,39 @@ export interface NodeItem {
    * collection are the Nodes that were created with this Node as their parent.
    */
   collection?: NodeItem[];
+  /**
+   * cursor is the id of the last Node of the collection, when only a page
+   * of it was loaded. The next page starts after it.
+   */
+  cursor?: string;
   /**
    * meta is an object that can hold aditional information of the Node.
    */
   meta?: NodeMeta;
+  /**
+   * version is increased every time the content or the interpreter of the
+   * Node changes. It's used to detect concurrent modifications.
+   */
+  version?: number;
+  /**
+   * createdAt is the time, in milliseconds, at which the Node was created.
+   */
+  createdAt?: number;
+  /**
+   * updatedAt is the time, in milliseconds, of the latest change of the
+   * content or the interpreter of the Node.
+   */
+  updatedAt?: number;
+  /**
+   * updatedBy is the unique identifier of the user that made the latest
+   * change of the Node.
+   */
+  updatedBy?: string;
+  /**
+   * deletedAt is the time, in milliseconds, at which the Node was moved
+   * to the trash. It's only defined for trashed Nodes.
+   */
+  deletedAt?: number;
 }
 /**
  * Node is the interface that represents a Node on the frontend.
@@ -38,6 +67,45 @@ export interface Node extends Omit<NodeItem, "collection"> {
   collection?: string[];
   meta?: NodeMeta;
 };
+/**
+ * NodesFormat is the name of a format a tree of Nodes can be exported to,
+ * or imported from.
+ */
+export type NodesFormat = "markdown" | "opml" | "json";
+/**
+ * NodesImportResult is the result of importing a list of Nodes.
+ */
+export interface NodesImportResult {
+  /**
+   * imported is the number of Nodes imported, including sub-nodes.
+   */
+  imported: number;
+  /**
+   * ids are the unique identifiers of the imported top level Nodes.
+   */
+  ids: string[];
+  /**
+   * errors are the top level Nodes that couldn't be imported.
+   */
+  errors: NodesImportError[];
+}
+/**
+ * NodesImportError describes a Node that couldn't be imported.
+ */
+export interface NodesImportError {
+  /**
+   * index is the position of the Node on the imported list.
+   */
+  index: number;
+  /**
+   * content is the content of the Node.
+   */
+  content: string;
+  /**
+   * error is the reason why the Node couldn't be imported.
+   */
+  error: string;
+}
 /**
  * NodeMeta is a plain JavaScript object that contains
  * metadata of the current Node.
@@ -56,4 +124,95 @@ export interface NodeMeta {
  * NodePatch is a partial interface of the Node which include
  * only the attributes that can be patched on a Node.
  */
-export type NodePatch = Pick<Partial<Node>, "content" | "interpreter" | "meta">
\ No newline at end of file
+export type NodePatch = Pick<Partial<Node>, "content" | "interpreter" | "meta">
+/**
+ * NodeRevision is a snapshot of the content of a Node at a given time.
+ */
+export interface NodeRevision {
+  /**
+   * id is the unique identifier of the revision.
+   */
+  id: string;
+  /**
+   * content is the content of the Node at the time of the revision.
+   */
+  content: string;
+  /**
+   * interpreter is the interpreter of the Node at the time of the revision.
+   */
+  interpreter?: string;
+  /**
+   * userId is the unique identifier of the user that made the change. It's
+   * undefined for the revision that holds the content the Node had before
+   * its history started being recorded.
+   */
+  userId?: string;
+  /**
+   * createdAt is the time, in milliseconds, of the latest change recorded
+   * on the revision.
+   */
+  createdAt: number;
+}
+/**
+ * NodeSearchHit is a Node found by a search, along with its position on
+ * the tree.
+ */
+export interface NodeSearchHit {
+  /**
+   * node is the Node that matched the search.
+   */
+  node: NodeItem;
+  /**
+   * path is the list of ancestors of the Node, starting from the root.
+   */
+  path: NodeItem[];
+  /**
+   * score tells how well the Node matches the search. Hits are sorted by
+   * their score, highest first.
+   */
+  score: number;
+}/**
+ * NodesEventType is the kind of change a `NodesEvent` represents.
+ *  - `add`   : A Node was created, duplicated, imported or restored.
+ *  - `update`: The content, or the interpreter, of a Node changed.
+ *  - `move`  : A Node was moved to another position, or parent.
+ *  - `delete`: A Node was moved to the trash.
+ *  - `meta`  : The metadata of a Node changed.
+ */
+export type NodesEventType = "add" | "update" | "move" | "delete" | "meta"
+/**
+ * NodesEvent is a change made on the Nodes of a user, pushed to the pages
+ * that show them so they can be kept up to date.
+ */
+export interface NodesEvent {
+  /**
+   * type is the kind of change.
+   */
+  type: NodesEventType;
+  /**
+   * id is the unique identifier of the changed Node.
+   */
+  id: string;
+  /**
+   * parent is the unique identifier of the parent of the Node, or `home`.
+   */
+  parent: string;
+  /**
+   * from is the unique identifier of the previous parent of a moved Node.
+   */
+  from?: string;
+  /**
+   * afterId is the unique identifier of the Node after which an added, or
+   * moved, Node is positioned. It's `null` when the Node is the first one
+   * of the collection, and undefined when it's the last one.
+   */
+  afterId?: string | null;
+  /**
+   * node is the changed Node. It's undefined for `delete` and `meta` events.
+   */
+  node?: NodeItem;
+  /**
+   * meta is the metadata patch of a `meta` event.
+   */
+  meta?: NodeMeta;
+}
@@ -0,0 +1,82 @@
+import test from "tape"
+import type { Test } from "tape"
+
+import { TextOperation } from "./textOperation"
+
+test("TextOperation.apply()", (assert: Test) => {
+  const operation = new TextOperation().retain(5).insert(", world").delete(1)
+  assert.deepEqual(operation.ops, [5, ", world", -1], "should store the steps")
+  assert.equal(operation.baseLength, 6)
+  assert.equal(operation.targetLength, 12)
+  assert.equal(operation.apply("hello!"), "hello, world")
+  assert.throws(() => operation.apply("hello"), "should reject texts of a different length")
+  // Equal operations should share the same steps.
+  assert.deepEqual(new TextOperation().delete(1).insert("a").ops, ["a", -1], "should put inserts before deletes")
+  assert.ok(new TextOperation().retain(3).isNoop(), "should detect operations that change nothing")
+  assert.end()
+})
+
+test("TextOperation.fromDiff()", (assert: Test) => {
+  const cases: [string, string][] = [
+    ["", "abc"],
+    ["abc", ""],
+    ["abc", "abc"],
+    ["hello world", "hello, world"],
+    ["aaa", "aa"],
+    ["one two three", "one 2 three"],
+  ]
+  for (let [before, after] of cases) {
+    assert.equal(TextOperation.fromDiff(before, after).apply(before), after, `should turn "${before}" into "${after}"`)
+  }
+  assert.deepEqual(TextOperation.fromDiff("abc", "aXc").ops, [1, "X", -1, 1], "should only change the edited range")
+  assert.end()
+})
+
+test("TextOperation.compose()", (assert: Test) => {
+  const text = "the quick fox"
+  const a = TextOperation.fromDiff(text, "the quick brown fox")
+  const b = TextOperation.fromDiff(a.apply(text), "a quick brown fox!")
+  assert.equal(a.compose(b).apply(text), "a quick brown fox!", "should apply both operations")
+  assert.throws(() => b.compose(a), "should reject operations that don't follow each other")
+  assert.end()
+})
+
+test("TextOperation.transform()", (assert: Test) => {
+  const text = "the quick fox"
+  const cases: [string, string][] = [
+    ["the quick brown fox", "the slow fox"],
+    ["the fox", "the quick fox jumps"],
+    ["quick", "fox"],
+    ["the quick fox", ""],
+    ["Xthe quick fox", "Ythe quick fox"],
+  ]
+  for (let [left, right] of cases) {
+    const a = TextOperation.fromDiff(text, left)
+    const b = TextOperation.fromDiff(text, right)
+    const [aPrime, bPrime] = TextOperation.transform(a, b)
+    assert.equal(b.compose(aPrime).apply(text), a.compose(bPrime).apply(text), `should converge on "${left}" and "${right}"`)
+  }
+  // Concurrent inserts on the same position keep the first operation first.
+  const [aPrime] = TextOperation.transform(new TextOperation().insert("X").retain(3), new TextOperation().insert("Y").retain(3))
+  assert.equal(aPrime.apply("Yfox"), "XYfox")
+  assert.end()
+})
+
+test("TextOperation.transformIndex()", (assert: Test) => {
+  const operation = new TextOperation().retain(2).insert("abc").delete(2).retain(3)
+  assert.equal(operation.transformIndex(1), 1, "shouldn't move indexes before the change")
+  assert.equal(operation.transformIndex(2), 5, "should push indexes on the insert position")
+  assert.equal(operation.transformIndex(3), 5, "should move deleted indexes to the change")
+  assert.equal(operation.transformIndex(6), 7, "should move indexes after the change")
+  assert.deepEqual(operation.transformSelection({ anchor: 0, head: 7 }), { anchor: 0, head: 8 })
+  assert.end()
+})
+
+test("TextOperation.fromJSON()", (assert: Test) => {
+  const operation = new TextOperation().retain(2).insert("abc").delete(2)
+  assert.deepEqual(TextOperation.fromJSON(JSON.parse(JSON.stringify(operation))), operation, "should parse its own JSON")
+  for (let ops of [null, [0], [1.5], [""], [{}]]) {
+    assert.throws(() => TextOperation.fromJSON(ops), `should reject ${JSON.stringify(ops)}`)
+  }
+  assert.end()
+})
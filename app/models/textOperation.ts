@@ -0,0 +1,348 @@
+/**
+ * TextOperationComponent is a step of a `TextOperation`. Positive numbers
+ * keep that many characters, negative numbers remove them, and strings
+ * are inserted as they are.
+ */
+export type TextOperationComponent = number | string
+/**
+ * TextSelection is a range of the text, from `anchor` to `head`. Both are
+ * equal when nothing is selected.
+ */
+export interface TextSelection {
+  /**
+   * anchor is the index where the selection starts.
+   */
+  anchor: number;
+  /**
+   * head is the index where the selection ends, where the caret is.
+   */
+  head: number;
+}
+/**
+ * TextOperation is a change made on a text, as the list of steps needed to
+ * turn the original text into the new one. Two operations made at the same
+ * time on the same text can be transformed, so both of them can be applied
+ * one after the other, whatever their order is.
+ */
+export class TextOperation {
+  /**
+   * ops are the steps of the operation.
+   */
+  ops: TextOperationComponent[] = []
+  /**
+   * baseLength is the length of the text the operation can be applied to.
+   */
+  baseLength = 0
+  /**
+   * targetLength is the length of the text after applying the operation.
+   */
+  targetLength = 0
+  /**
+   * retain keeps the next `n` characters of the text.
+   * @param n - Number of characters to keep.
+   */
+  retain(n: number): TextOperation {
+    if (n === 0) return this
+    this.baseLength += n
+    this.targetLength += n
+    const last = this.ops.length - 1
+    if (isRetain(this.ops[last])) {
+      (this.ops[last] as number) += n
+    } else {
+      this.ops.push(n)
+    }
+    return this
+  }
+  /**
+   * insert adds a string at the current position of the text.
+   * @param str - String to insert.
+   */
+  insert(str: string): TextOperation {
+    if (str === "") return this
+    this.targetLength += str.length
+    const last = this.ops.length - 1
+    if (isInsert(this.ops[last])) {
+      (this.ops[last] as string) += str
+    } else if (isDelete(this.ops[last])) {
+      // Inserts always go before deletes, so equal operations share the
+      // same steps.
+      if (isInsert(this.ops[last - 1])) {
+        (this.ops[last - 1] as string) += str
+      } else {
+        this.ops.splice(last, 0, str)
+      }
+    } else {
+      this.ops.push(str)
+    }
+    return this
+  }
+  /**
+   * delete removes the next `n` characters of the text.
+   * @param n - Number of characters to remove.
+   */
+  delete(n: number): TextOperation {
+    if (n === 0) return this
+    this.baseLength += n
+    const last = this.ops.length - 1
+    if (isDelete(this.ops[last])) {
+      (this.ops[last] as number) -= n
+    } else {
+      this.ops.push(-n)
+    }
+    return this
+  }
+  /**
+   * isNoop checks if the operation leaves the text as it is.
+   */
+  isNoop(): boolean {
+    return this.ops.length === 0 || (this.ops.length === 1 && isRetain(this.ops[0]))
+  }
+  /**
+   * apply returns the text that results from applying the operation.
+   * @param text - Text to change.
+   */
+  apply(text: string): string {
+    if (text.length !== this.baseLength) throw new Error("the operation's base length must be equal to the text's length")
+    const parts: string[] = []
+    let index = 0
+    for (let op of this.ops) {
+      if (isRetain(op)) {
+        parts.push(text.slice(index, index + op))
+        index += op
+      } else if (isInsert(op)) {
+        parts.push(op)
+      } else {
+        index -= op
+      }
+    }
+    return parts.join("")
+  }
+  /**
+   * compose returns a single operation with the effect of applying this
+   * operation, and then the `other` one.
+   * @param other - Operation to apply after this one.
+   */
+  compose(other: TextOperation): TextOperation {
+    if (this.targetLength !== other.baseLength) throw new Error("the base length of the second operation must be the target length of the first one")
+    const operation = new TextOperation()
+    const ops1 = this.ops.slice()
+    const ops2 = other.ops.slice()
+    let op1 = ops1.shift()
+    let op2 = ops2.shift()
+    while (op1 !== undefined || op2 !== undefined) {
+      if (isDelete(op1)) {
+        operation.delete(-op1)
+        op1 = ops1.shift()
+        continue
+      }
+      if (isInsert(op2)) {
+        operation.insert(op2)
+        op2 = ops2.shift()
+        continue
+      }
+      if (op1 === undefined || op2 === undefined) throw new Error("the operations can't be composed")
+      if (isRetain(op1) && isRetain(op2)) {
+        const n = Math.min(op1, op2)
+        operation.retain(n)
+        ;[op1, op2] = shorten(op1, op2, n, ops1, ops2)
+      } else if (isInsert(op1) && isDelete(op2)) {
+        const n = Math.min(op1.length, -op2)
+        ;[op1, op2] = shorten(op1, op2, n, ops1, ops2)
+      } else if (isInsert(op1) && isRetain(op2)) {
+        const n = Math.min(op1.length, op2)
+        operation.insert((op1 as string).slice(0, n))
+        ;[op1, op2] = shorten(op1, op2, n, ops1, ops2)
+      } else if (isRetain(op1) && isDelete(op2)) {
+        const n = Math.min(op1, -op2)
+        operation.delete(n)
+        ;[op1, op2] = shorten(op1, op2, n, ops1, ops2)
+      }
+    }
+    return operation
+  }
+  /**
+   * transformIndex returns the position an index of the text moves to once
+   * the operation is applied, so carets stay next to the same characters.
+   * Strings inserted right at the index push it forward.
+   * @param index - Index to transform.
+   */
+  transformIndex(index: number): number {
+    let newIndex = index
+    for (let op of this.ops) {
+      if (isRetain(op)) {
+        index -= op
+      } else if (isInsert(op)) {
+        newIndex += op.length
+      } else {
+        newIndex -= Math.min(index, -op)
+        index += op
+      }
+      if (index < 0) break
+    }
+    return newIndex
+  }
+  /**
+   * transformSelection returns the range a selection moves to once the
+   * operation is applied.
+   * @param selection - Selection to transform.
+   */
+  transformSelection(selection: TextSelection): TextSelection {
+    return {
+      anchor: this.transformIndex(selection.anchor),
+      head: this.transformIndex(selection.head),
+    }
+  }
+  /**
+   * toJSON returns the steps of the operation, to send it as JSON.
+   */
+  toJSON(): TextOperationComponent[] {
+    return this.ops
+  }
+  /**
+   * fromJSON returns the operation made of a list of steps. It throws an
+   * error if any of the steps is invalid.
+   * @param ops - Steps of the operation.
+   */
+  static fromJSON(ops: unknown): TextOperation {
+    if (!Array.isArray(ops)) throw new Error("the operation must be a list of steps")
+    const operation = new TextOperation()
+    for (let op of ops) {
+      if (isRetain(op)) {
+        operation.retain(op)
+      } else if (isInsert(op)) {
+        operation.insert(op)
+      } else if (isDelete(op)) {
+        operation.delete(-op)
+      } else {
+        throw new Error(`invalid operation step: ${JSON.stringify(op)}`)
+      }
+    }
+    return operation
+  }
+  /**
+   * fromDiff returns the operation that turns a text into another one. The
+   * change is expected to be a single range, like the ones made while
+   * typing on a textarea.
+   * @param before - Original text.
+   * @param after - New text.
+   */
+  static fromDiff(before: string, after: string): TextOperation {
+    let prefix = 0
+    const length = Math.min(before.length, after.length)
+    while (prefix < length && before[prefix] === after[prefix]) prefix++
+    let suffix = 0
+    while (
+      suffix < length - prefix &&
+      before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+    ) suffix++
+    return new TextOperation()
+      .retain(prefix)
+      .delete(before.length - prefix - suffix)
+      .insert(after.slice(prefix, after.length - suffix))
+      .retain(suffix)
+  }
+  /**
+   * transform takes two operations made on the same text, and returns the
+   * pair of operations that apply each one of them after the other, so
+   * `a.compose(b')` and `b.compose(a')` lead to the same text. Inserts
+   * made at the same position by `a` go first.
+   * @param a - Operation made on the text.
+   * @param b - Operation made concurrently on the same text.
+   */
+  static transform(a: TextOperation, b: TextOperation): [TextOperation, TextOperation] {
+    if (a.baseLength !== b.baseLength) throw new Error("both operations must have the same base length")
+    const aPrime = new TextOperation()
+    const bPrime = new TextOperation()
+    const ops1 = a.ops.slice()
+    const ops2 = b.ops.slice()
+    let op1 = ops1.shift()
+    let op2 = ops2.shift()
+    while (op1 !== undefined || op2 !== undefined) {
+      if (isInsert(op1)) {
+        aPrime.insert(op1)
+        bPrime.retain(op1.length)
+        op1 = ops1.shift()
+        continue
+      }
+      if (isInsert(op2)) {
+        aPrime.retain(op2.length)
+        bPrime.insert(op2)
+        op2 = ops2.shift()
+        continue
+      }
+      if (op1 === undefined || op2 === undefined) throw new Error("the operations can't be transformed")
+      if (isRetain(op1) && isRetain(op2)) {
+        const n = Math.min(op1, op2)
+        aPrime.retain(n)
+        bPrime.retain(n)
+        ;[op1, op2] = shorten(op1, op2, n, ops1, ops2)
+      } else if (isDelete(op1) && isDelete(op2)) {
+        // Both operations removed the same characters.
+        const n = Math.min(-op1, -op2)
+        ;[op1, op2] = shorten(op1, op2, n, ops1, ops2)
+      } else if (isDelete(op1) && isRetain(op2)) {
+        const n = Math.min(-op1, op2)
+        aPrime.delete(n)
+        ;[op1, op2] = shorten(op1, op2, n, ops1, ops2)
+      } else if (isRetain(op1) && isDelete(op2)) {
+        const n = Math.min(op1, -op2)
+        bPrime.delete(n)
+        ;[op1, op2] = shorten(op1, op2, n, ops1, ops2)
+      }
+    }
+    return [aPrime, bPrime]
+  }
+}
+/**
+ * Functions
+ */
+/**
+ * isRetain checks if a step keeps characters.
+ * @param op - Step to check.
+ */
+function isRetain(op: unknown): op is number {
+  return typeof op === "number" && Number.isInteger(op) && op > 0
+}
+/**
+ * isInsert checks if a step inserts a string.
+ * @param op - Step to check.
+ */
+function isInsert(op: unknown): op is string {
+  return typeof op === "string" && op !== ""
+}
+/**
+ * isDelete checks if a step removes characters.
+ * @param op - Step to check.
+ */
+function isDelete(op: unknown): op is number {
+  return typeof op === "number" && Number.isInteger(op) && op < 0
+}
+/**
+ * shorten consumes `n` characters from the current steps of two operations,
+ * moving on to their next steps once a step is fully consumed.
+ * @param op1 - Current step of the first operation.
+ * @param op2 - Current step of the second operation.
+ * @param n - Number of characters consumed.
+ * @param ops1 - Remaining steps of the first operation.
+ * @param ops2 - Remaining steps of the second operation.
+ */
+function shorten(
+  op1: TextOperationComponent,
+  op2: TextOperationComponent,
+  n: number,
+  ops1: TextOperationComponent[],
+  ops2: TextOperationComponent[],
+): [TextOperationComponent | undefined, TextOperationComponent | undefined] {
+  return [consume(op1, n) ?? ops1.shift(), consume(op2, n) ?? ops2.shift()]
+}
+/**
+ * consume returns what's left of a step after using `n` of its characters,
+ * or undefined if nothing is left.
+ * @param op - Step to consume.
+ * @param n - Number of characters to use.
+ */
+function consume(op: TextOperationComponent, n: number): TextOperationComponent | undefined {
+  if (isInsert(op)) return op.length > n ? op.slice(n) : undefined
+  if (isDelete(op)) return -op > n ? op + n : undefined
+  return op > n ? op - n : undefined
+}
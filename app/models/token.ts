@@ -0,0 +1,62 @@
+/**
+ * TokenScope is the access a personal API token grants.
+ *  - `read` : The token can only read `Nodes`.
+ *  - `write`: The token can read and change `Nodes`.
+ */
+export type TokenScope = "read" | "write"
+/**
+ * TokenItem is the interface that represents a personal API token. The
+ * secret of the token is never stored, only its hash.
+ */
+export interface TokenItem {
+  /**
+   * id is the unique identifier of the token.
+   */
+  id: string;
+  /**
+   * userId is the unique identifier of the user that owns the token.
+   */
+  userId?: string;
+  /**
+   * name is the label the user gave to the token.
+   */
+  name: string;
+  /**
+   * scope is the access the token grants.
+   */
+  scope: TokenScope;
+  /**
+   * root is the unique identifier of the `Node` the token is limited to,
+   * along with its sub-nodes. Tokens without a root can access every
+   * `Node` of the user.
+   */
+  root?: string;
+  /**
+   * createdAt is the time, in milliseconds, at which the token was created.
+   */
+  createdAt?: number;
+  /**
+   * lastUsedAt is the time, in milliseconds, at which the token was last
+   * used to authenticate a request.
+   */
+  lastUsedAt?: number;
+}
+/**
+ * TokenPatch is a partial interface of the token which include only the
+ * attributes that can be patched on a token.
+ */
+export type TokenPatch = Pick<Partial<TokenItem>, "lastUsedAt">
+/**
+ * CreatedToken is a new personal API token, along with its secret. The
+ * secret is only available at the time the token is created.
+ */
+export interface CreatedToken {
+  /**
+   * token is the stored token.
+   */
+  token: TokenItem;
+  /**
+   * secret is the value that must be sent on the `Authorization` header.
+   */
+  secret: string;
+}
@@ -1,7 +1,27 @@
 import { client } from "../clients/nodesClient.server"
 import { Repository } from "./repository.server"
-import type { NodeItem, NodeMeta, NodePatch } from "../models/node"
+import { countNodes } from "../server/import.server"
+import { events } from "../server/events.server"
+import type { NodeItem, NodeMeta, NodePatch, NodeRevision, NodeSearchHit, NodesEvent, NodesImportResult } from "../models/node"
 import type { NodesClient, NodesQueryParams } from "../clients/nodesClient.server"
+import type { NodesBranchReport } from "../server/integrity.server"
+import type { NodesEventListener } from "../server/events.server"
+import type { DBClientResponse } from "../types"
+
+/**
+ * CONFLICT_RETRIES is the number of times a mutation over a `Nodes` linked
+ * list is retried after failing due to a concurrent modification.
+ */
+const CONFLICT_RETRIES = 3
+/**
+ * TRASH_RETENTION_DAYS is the number of days a `Node` is kept in the trash
+ * before being permanently deleted.
+ */
+export const TRASH_RETENTION_DAYS = Number(process.env.TRASH_RETENTION_DAYS || 30)
+/**
+ * ONE_DAY_IN_MILLISECONDS is the representation of a day counted in milliseconds.
+ */
+const ONE_DAY_IN_MILLISECONDS = 1000 * 60 * 60 * 24
 
 /**
  * NodesRepository manages Nodes through a standard interface.
@@ -18,43 +38,79 @@ class NodesRepository extends Repository<NodeItem, NodePatch, NodesQueryParams>
    * @param id - Node unique identifier.
    * @param userId - User unique identifier.
    * @param recursive - Gets the node plus its sub-nodes.
+   * @param limit - Maximum number of sub-nodes of each list.
+   * @param cursor - Id of the sub-node after which the sub-nodes start.
    */
-  async get(id: string, userId?: string, recursive: boolean = false): Promise<NodeItem> {
-    if (id === "home") return this.getHome(userId, recursive)
-    const { error, data } = await this.client.get(id, userId, recursive)
+  async get(id: string, userId?: string, recursive: boolean = false, limit?: number, cursor?: string): Promise<NodeItem> {
+    if (id === "home") return this.getHome(userId, recursive, limit, cursor)
+    const { error, data } = await this.client.get(id, userId, recursive, limit, cursor)
     if (error) throw error
     return data
   }
+  /**
+   * tree returns a Node along with all of its sub-nodes, whether they are
+   * opened or not.
+   * @param id - Node unique identifier.
+   * @param userId - User unique identifier.
+   */
+  async tree(id: string, userId?: string): Promise<NodeItem> {
+    const node = id === "home" ? { id: "home", content: "Home Node", parent: "home" } : await this.get(id, userId)
+    const { error, data } = await this.client.query({ parent: id === "home" ? undefined : id, userId, recursive: true, deep: true, depth: Infinity })
+    if (error) throw error
+    return { ...node, collection: data }
+  }
   /**
    * getHome returns the pseudo-node "home"
    * @param userId - User unique identifier.
    * @param recursive - Gets the node plus its sub-nodes.
+   * @param limit - Maximum number of sub-nodes of each list.
+   * @param cursor - Id of the sub-node after which the sub-nodes start.
    */
-  async getHome(userId?: string, recursive: boolean = false): Promise<NodeItem> {
-    const { error, data } = await this.client.query({ userId, recursive })
+  async getHome(userId?: string, recursive: boolean = false, limit?: number, cursor?: string): Promise<NodeItem> {
+    const { error, data, offset } = await this.client.query({ userId, recursive, limit, cursor })
     if (error) throw error
-    const node = { id: "home", content: "Home Node", parent: "home", collection: data }
+    const node: NodeItem = { id: "home", content: "Home Node", parent: "home", collection: data }
+    if (offset !== undefined) node.cursor = offset
     return node
   }
   /**
    * put stores a Node in the Repository.
    * @param node - Node to store in the Repository.
+   * @param afterId - Id of the Node after which the new Node should be put.
    */
   async put(node: NodeItem, afterId?: string): Promise<NodeItem> {
-    if (node.parent === "home") node = { id: node.id, content: node.content }
-    const { error, data } = await this.client.put(node, afterId)
-    if (error) throw error
+    if (node.parent === "home") node = { ...node, parent: undefined }
+    const data = await this.retry(() => this.client.put(node, afterId))
+    await this.publish(node.userId, async () => ({ type: "add", id: node.id, parent: node.parent || "home", afterId, node: data }))
     return data
   }
+  /**
+   * update updates the content or the interpreter of a `Node`.
+   * @param id - Node unique identifier.
+   * @param patch - Patch to apply to the Node.
+   * @param userId - User unique identifier.
+   * @param version - Expected version of the Node.
+   */
+  async update(id: string, patch: NodePatch, userId?: string, version?: number): Promise<undefined> {
+    const { error } = await this.client.update(id, patch, userId, version)
+    if (error) throw error
+    await this.publish(userId, () => this.toEvent("update", id, userId))
+    return undefined
+  }
   /**
    * meta updates the metadata information of a `Node`
    * @param id - Node unique identifier.
    * @param meta - Metadata object to apply.
    * @param userId - User unique identifier.
+   * @param version - Expected version of the Node.
    */
-  async meta(id: string, meta: NodeMeta, userId?: string): Promise<undefined> {
-    const { error } = await this.client.meta(id, userId, meta)
+  async meta(id: string, meta: NodeMeta, userId?: string, version?: number): Promise<undefined> {
+    const { error } = await this.client.meta(id, userId, meta, version)
     if (error) throw error
+    await this.publish(userId, async () => {
+      const node = await this.get(id, userId)
+      return { type: "meta", id, parent: node.parent || "home", meta }
+    })
     return undefined
   }
   /**
@@ -69,10 +125,286 @@ class NodesRepository extends Repository<NodeItem, NodePatch, NodesQueryParams>
    */
   async after(id: string, parent?: string, afterId?: string, userId?: string): Promise<any> {
     if (parent === "home") parent = undefined
-    const response = await this.client.after(id, parent, afterId, userId)
-    if (response && response.error) throw response.error
+    const before = await this.peek(id, userId)
+    await this.retry(() => this.client.after(id, parent, afterId, userId))
+    await this.publish(userId, async () => ({
+      ...await this.toEvent("move", id, userId),
+      from: before === undefined ? undefined : before.parent || "home",
+      afterId: afterId || null,
+    }))
     return undefined
   }
+  /**
+   * append moves a `Node` to the end of a parent collection.
+   * @param id - Node unique identifier.
+   * @param parent - Node parent.
+   * @param userId - User unique identifier.
+   */
+  async append(id: string, parent?: string, userId?: string): Promise<any> {
+    if (parent === "home") parent = undefined
+    const { error, data } = await this.client.query({ parent, userId })
+    if (error) throw error
+    const siblings = data.filter(node => node.id !== id)
+    const afterId = siblings.length > 0 ? siblings[siblings.length - 1].id : undefined
+    return this.after(id, parent, afterId, userId)
+  }
+  /**
+   * duplicate copies a `Node` right after the original one, and returns
+   * the copy.
+   * @param id - Node unique identifier.
+   * @param userId - User unique identifier.
+   * @param deep - Flag that also copies the sub-nodes of the `Node`.
+   */
+  async duplicate(id: string, userId?: string, deep: boolean = false): Promise<NodeItem> {
+    const { error, data } = await this.client.duplicate(id, userId, deep)
+    if (error) throw error
+    await this.publish(userId, async () => ({ type: "add", id: data.id, parent: data.parent || "home", afterId: id, node: data }))
+    return data
+  }
+  /**
+   * import stores a list of new Nodes, along with their sub-nodes, at the
+   * end of the collection of a parent Node, in order. The sub-nodes of each
+   * Node are stored with a batched write per branch before the Node is put
+   * after the previous one. A Node that can't be stored is reported on the
+   * result and skipped, and the sub-nodes stored for it are deleted.
+   * @param parent - Unique identifier of the parent Node.
+   * @param nodes - New Nodes to store.
+   * @param userId - User unique identifier.
+   */
+  async import(parent: string, nodes: NodeItem[], userId?: string): Promise<NodesImportResult> {
+    const result: NodesImportResult = { imported: 0, ids: [], errors: [] }
+    let afterId: string | undefined = undefined
+    for (let [index, node] of nodes.entries()) {
+      try {
+        const { error } = await this.client.putCollections([{ ...node, parent }], userId)
+        if (error) throw error
+        await this.put({ ...node, parent, userId }, afterId)
+        afterId = node.id
+        result.imported += countNodes([node])
+        result.ids.push(node.id)
+      } catch (err) {
+        const { error } = await this.client.deleteCollections([node], userId)
+        if (error) console.error(error)
+        result.errors.push({ index, content: node.content, error: err.message })
+      }
+    }
+    return result
+  }
+  /**
+   * history returns the revisions of a `Node`, starting from the most
+   * recent one.
+   * @param id - Node unique identifier.
+   * @param userId - User unique identifier.
+   */
+  async history(id: string, userId?: string): Promise<NodeRevision[]> {
+    const { error, data } = await this.client.history(id, userId)
+    if (error) throw error
+    return data
+  }
+  /**
+   * revert restores the content of a `Node` from one of its revisions.
+   * @param id - Node unique identifier.
+   * @param revisionId - Unique identifier of the revision to restore.
+   * @param userId - User unique identifier.
+   */
+  async revert(id: string, revisionId: string, userId?: string): Promise<undefined> {
+    const { error } = await this.client.revert(id, revisionId, userId)
+    if (error) throw error
+    await this.publish(userId, () => this.toEvent("update", id, userId))
+    return undefined
+  }
+  /**
+   * delete removes a Node from the repository.
+   * @param id - Node unique identifier.
+   * @param userId - User unique identifier.
+   * @param version - Expected version of the Node.
+   */
+  async delete(id: string, userId?: string, version?: number): Promise<undefined> {
+    const before = await this.peek(id, userId)
+    await this.retry(() => this.client.delete(id, userId, version))
+    await this.publish(userId, async () => ({ type: "delete", id, parent: before?.parent || "home" }))
+    return undefined
+  }
+  /**
+   * search returns the `Nodes` that match a query, best matches first.
+   * @param query - Search query.
+   * @param userId - User unique identifier.
+   */
+  async search(query: string, userId?: string): Promise<NodeSearchHit[]> {
+    const { error, data } = await this.client.search(query, userId)
+    if (error) throw error
+    return data
+  }
+  /**
+   * ancestors returns the ancestors of a `Node`, starting from the root.
+   * The "home" pseudo-node doesn't have any.
+   * @param id - Node unique identifier.
+   * @param userId - User unique identifier.
+   */
+  async ancestors(id: string, userId?: string): Promise<NodeItem[]> {
+    if (id === "home") return []
+    const { error, data } = await this.client.ancestors(id, userId)
+    if (error) throw error
+    return data
+  }
+  /**
+   * reveal opens every ancestor of a `Node`, so it's shown when the tree is
+   * loaded. It returns the ancestors, starting from the root.
+   * @param id - Node unique identifier.
+   * @param userId - User unique identifier.
+   */
+  async reveal(id: string, userId?: string): Promise<NodeItem[]> {
+    const { error, data } = await this.client.ancestors(id, userId)
+    if (error) throw error
+    await Promise.all(data
+      .filter(node => !node.meta?.isOpened)
+      .map(node => this.meta(node.id, { isOpened: true }, userId))
+    )
+    return data
+  }
+  /**
+   * trash returns the `Nodes` currently in the trash.
+   * @param userId - User unique identifier.
+   */
+  async trash(userId?: string): Promise<NodeItem[]> {
+    const { error, data } = await this.client.trash(userId)
+    if (error) throw error
+    return data
+  }
+  /**
+   * restore moves a `Node` out of the trash, back to its original position.
+   * @param id - Node unique identifier.
+   * @param userId - User unique identifier.
+   */
+  async restore(id: string, userId?: string): Promise<undefined> {
+    await this.retry(() => this.client.restore(id, userId))
+    await this.publish(userId, async () => {
+      const event = await this.toEvent("add", id, userId)
+      // The Node goes back to the position it had, if it's still available.
+      const { error, data } = await this.client.query({ parent: event.parent === "home" ? undefined : event.parent, userId })
+      if (error) throw error
+      const index = data.findIndex(node => node.id === id)
+      return { ...event, afterId: index < 0 || index === data.length - 1 ? undefined : index > 0 ? data[index - 1].id : null }
+    })
+    return undefined
+  }
+  /**
+   * purge permanently deletes the `Nodes` that have been in the trash for
+   * more than `TRASH_RETENTION_DAYS`. It returns the number of purged `Nodes`.
+   * @param userId - User unique identifier.
+   */
+  async purge(userId?: string): Promise<number> {
+    const before = Date.now() - TRASH_RETENTION_DAYS * ONE_DAY_IN_MILLISECONDS
+    const { error, data } = await this.client.purge(before, userId)
+    if (error) throw error
+    return data
+  }
+  /**
+   * branches returns every branch that holds a `Nodes` linked list.
+   */
+  async branches(): Promise<string[]> {
+    const { error, data } = await this.client.branches()
+    if (error) throw error
+    return data
+  }
+  /**
+   * check looks for inconsistencies on the linked list of a branch, and
+   * repairs them if `fix` is set.
+   * @param branch - Branch to check.
+   * @param fix - Flag that repairs the branch.
+   */
+  async check(branch: string, fix: boolean = false): Promise<NodesBranchReport> {
+    return this.retry(() => this.client.check(branch, fix))
+  }
+  /**
+   * watch calls a listener with every change made on a `Node`, or on any
+   * of its sub-nodes. Changes reach the listener in the order they were
+   * made. It returns a function that stops watching.
+   * @param id - Node unique identifier, or `home` to watch every `Node`.
+   * @param userId - User unique identifier.
+   * @param listener - Function to call with each change.
+   */
+  watch(id: string, userId: string, listener: NodesEventListener): () => void {
+    let queue = Promise.resolve()
+    return events.subscribe(userId, (event) => {
+      queue = queue
+        .then(async () => {
+          if (id === "home" || await this.contains(id, event, userId)) listener(event)
+        })
+        .catch(err => console.error(err))
+    })
+  }
+  /**
+   * contains checks if a change was made on a `Node`, or on any of its
+   * sub-nodes. Moves are included if either the previous, or the new,
+   * parent of the `Node` is.
+   * @param id - Node unique identifier.
+   * @param event - Change to check.
+   * @param userId - User unique identifier.
+   */
+  private async contains(id: string, event: NodesEvent, userId: string): Promise<boolean> {
+    for (let related of [event.id, event.parent, event.from]) {
+      if (related === id) return true
+      if (related === undefined || related === "home") continue
+      // Trashed Nodes don't have ancestors.
+      const ancestors = await this.ancestors(related, userId).catch(() => [] as NodeItem[])
+      if (ancestors.some(node => node.id === id)) return true
+    }
+    return false
+  }
+  /**
+   * publish sends a change made on the `Nodes` of a user to the pages that
+   * are watching them. The event is only built when someone is watching, and
+   * failing to build it doesn't fail the change.
+   * @param userId - User unique identifier.
+   * @param build - Function that returns the event.
+   */
+  private async publish(userId: string | undefined, build: () => Promise<NodesEvent>): Promise<void> {
+    if (userId === undefined || !events.isWatched(userId)) return
+    try {
+      events.publish(userId, await build())
+    } catch (err) {
+      console.error(err)
+    }
+  }
+  /**
+   * toEvent returns an event of a given type for the current state of a
+   * `Node`.
+   * @param type - Type of the event.
+   * @param id - Node unique identifier.
+   * @param userId - User unique identifier.
+   */
+  private async toEvent(type: NodesEvent["type"], id: string, userId?: string): Promise<NodesEvent> {
+    const node = await this.get(id, userId)
+    return { type, id, parent: node.parent || "home", node }
+  }
+  /**
+   * peek returns a `Node` before it's changed, when someone is watching the
+   * `Nodes` of its user, so the change can be described afterwards.
+   * @param id - Node unique identifier.
+   * @param userId - User unique identifier.
+   */
+  private async peek(id: string, userId?: string): Promise<NodeItem | undefined> {
+    if (userId === undefined || !events.isWatched(userId)) return undefined
+    const { data } = await this.client.get(id, userId)
+    return data
+  }
+  /**
+   * retry calls a client function, retrying it up to `CONFLICT_RETRIES`
+   * times while it fails with a `ConflictError`. Since linked list
+   * mutations are transactional, a failed attempt leaves no changes
+   * behind and can safely be run again.
+   * @param fn - Client function to call.
+   */
+  private async retry<T>(fn: () => Promise<DBClientResponse<T>>): Promise<T> {
+    let response: DBClientResponse<T> = {}
+    for (let attempt = 0; attempt <= CONFLICT_RETRIES; attempt++) {
+      response = await fn()
+      if (!response.error || response.error.name !== "ConflictError") break
+    }
+    if (response.error) throw response.error
+    return response.data
+  }
 }
 /**
  * repository is a pre-configured instance of the class NodesRepository.
@@ -0,0 +1,50 @@
+import { client } from "../clients/tokensClient.server"
+import { Repository } from "./repository.server"
+import type { TokensClient } from "../clients/tokensClient.server"
+import type { CreatedToken, TokenItem, TokenPatch, TokenScope } from "../models/token"
+
+/**
+ * TokensRepository manages the personal API tokens of the users.
+ */
+class TokensRepository extends Repository<TokenItem, TokenPatch, string> {
+  /**
+   * client is an instance of the TokensClient class used to interact
+   * with the database.
+   */
+  client: TokensClient = client
+  /**
+   * create stores a new token for a user, and returns it along with its
+   * secret, which can't be recovered afterwards.
+   * @param userId - User unique identifier.
+   * @param name - Label of the token.
+   * @param scope - Access the token grants.
+   * @param root - Unique identifier of the `Node` the token is limited to.
+   */
+  async create(userId: string, name: string, scope: TokenScope, root?: string): Promise<CreatedToken> {
+    const { error, data } = await this.client.create(userId, name, scope, root)
+    if (error) throw error
+    return data
+  }
+  /**
+   * verify returns the token a secret belongs to.
+   * @param secret - Secret sent on the `Authorization` header.
+   */
+  async verify(secret: string): Promise<TokenItem> {
+    const { error, data } = await this.client.verify(secret)
+    if (error) throw error
+    return data
+  }
+  /**
+   * revoke deletes a token of a user, so it can't be used anymore.
+   * @param id - Token unique identifier.
+   * @param userId - User unique identifier.
+   */
+  async revoke(id: string, userId: string): Promise<undefined> {
+    await this.get(id, userId)
+    return this.delete(id, userId)
+  }
+}
+/**
+ * repository is a pre-configured instance of the class TokensRepository.
+ */
+export const repository = new TokensRepository()
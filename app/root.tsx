@@ -11,6 +11,10 @@ import {
   faTrash,
   faPencil,
   faExternalLink,
+  faCopy,
+  faHistory,
+  faDownload,
+  faUpload,
 } from '@fortawesome/pro-solid-svg-icons'
 
 import { LiveReload } from "./components/Utils/LiveReload"
@@ -25,6 +29,10 @@ library.add(
   faTrash,
   faPencil,
   faExternalLink,
+  faCopy,
+  faHistory,
+  faDownload,
+  faUpload,
 )
 
 function Document({ children }: { children: React.ReactNode }) {
@@ -0,0 +1,26 @@
+import { json, Response } from "remix"
+import type { LoaderFunction } from "remix"
+
+import { getUserIdFromRequest } from "../server/auth.server"
+import { repository } from "../repositories/nodes.server"
+import { createEventStream, EVENT_STREAM_HEADERS } from "../server/events.server"
+import { statusCodeFor } from "../server/errors.server"
+
+export const loader: LoaderFunction = async ({ request, params }) => {
+  try {
+    const userId = await getUserIdFromRequest(request, "read", [params.id])
+    // Make sure that the Node exists and belongs to the user.
+    if (params.id !== "home") await repository.get(params.id, userId)
+    const stream = createEventStream((listener) => repository.watch(params.id, userId, listener), request.signal)
+    // The stream is piped to the response as is.
+    return new Response(stream, { headers: EVENT_STREAM_HEADERS })
+  } catch (err) {
+    if (err.name !== "UnauthorizedError" && err.name !== "ForbiddenError") console.error(err)
+    return json({ error: err.message }, {
+      status: statusCodeFor(err),
+      headers: {
+        "Cache-Control": "no-cache, no-store, must-revalidate"
+      }
+    })
+  }
+}
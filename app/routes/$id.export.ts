@@ -0,0 +1,31 @@
+import { json } from "remix"
+import type { LoaderFunction } from "remix"
+
+import { getUserIdFromRequest } from "../server/auth.server"
+import { repository } from "../repositories/nodes.server"
+import { exportNodes } from "../server/export.server"
+import { statusCodeFor } from "../server/errors.server"
+
+export const loader: LoaderFunction = async ({ request, params }) => {
+  try {
+    const userId = await getUserIdFromRequest(request, "read", [params.id])
+    const format = new URL(request.url).searchParams.get("format") || "markdown"
+    const node = await repository.tree(params.id, userId)
+    const { body, contentType, filename } = exportNodes(node, format)
+    return new Response(body, {
+      headers: {
+        "Content-Type": contentType,
+        "Content-Disposition": `attachment; filename="${filename}"`,
+        "Cache-Control": "no-cache, no-store, must-revalidate"
+      }
+    })
+  } catch (err) {
+    if (err.name !== "UnauthorizedError" && err.name !== "ForbiddenError") console.error(err)
+    return json({ error: err.message }, {
+      status: statusCodeFor(err),
+      headers: {
+        "Cache-Control": "no-cache, no-store, must-revalidate"
+      }
+    })
+  }
+}
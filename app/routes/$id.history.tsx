@@ -0,0 +1,84 @@
+import { useRouteData, json, redirect } from "remix"
+import type { MetaFunction, LoaderFunction, ActionFunction, LinksFunction } from "remix"
+
+import { getUserIdFromRequest } from "../server/auth.server"
+import { NavBar } from "../components/Layout/NavBar"
+import { History } from "../components/History"
+import { repository } from "../repositories/nodes.server"
+import { repository as usersRepository } from "../repositories/users.server"
+import { statusCodeFor } from "../server/errors.server"
+import BaseStyles from "../styles/base.css"
+import LayoutStyles from "../components/Layout/styles.css"
+import HistoryStyles from "../components/History/styles.css"
+import type { NodeItem, NodeRevision } from "../models/node"
+import type { UserBody } from "../models/user"
+
+export const meta: MetaFunction = ({ params }) => {
+  return {
+    title: "ReNodes History",
+    description: `Revisions of Node #${params.id}`,
+  }
+}
+
+export const links: LinksFunction = () => {
+  return [
+    { rel: "stylesheet", href: BaseStyles },
+    { rel: "stylesheet", href: LayoutStyles },
+    { rel: "stylesheet", href: HistoryStyles },
+  ]
+}
+
+export const loader: LoaderFunction = async ({ request, params }) => {
+  try {
+    const userId = await getUserIdFromRequest(request, "read", [params.id])
+    const user = await usersRepository.get(userId)
+    const [node, revisions] = await Promise.all([
+      repository.get(params.id, userId),
+      repository.history(params.id, userId),
+    ])
+    return json({ data: revisions, node, user: user.toObject() }, {
+      headers: {
+        "Cache-Control": "no-cache, no-store, must-revalidate"
+      }
+    })
+  } catch (err) {
+    if (err.name !== "UnauthorizedError") console.error(err)
+    return json({ error: err.message }, {
+      status: statusCodeFor(err),
+      headers: {
+        "Cache-Control": "no-cache, no-store, must-revalidate"
+      }
+    })
+  }
+}
+
+export const action: ActionFunction = async ({ request, params }) => {
+  try {
+    const userId = await getUserIdFromRequest(request, "write", [params.id])
+    const data = new URLSearchParams(await request.text())
+    const revisionId = data.get("revisionId")
+    if (!revisionId) throw new Error("revisionId can't be undefined")
+    await repository.revert(params.id, revisionId, userId)
+    return `/${params.id}/history`
+  } catch (err) {
+    console.error(err)
+    return redirect("/404", {
+      status: statusCodeFor(err, 400),
+      statusText: err.message
+    })
+  }
+}
+
+export default function HistoryPage() {
+  const { data, node, user, error } = useRouteData<{ data?: NodeRevision[], node?: NodeItem, user?: UserBody, error?: string }>()
+
+  return (
+    <main>
+      <NavBar user={user} />
+      {error
+        ? <p className="NodesTree__SignIn">{error}</p>
+        : <History node={node} revisions={data} userId={user?.id} />
+      }
+    </main>
+  )
+}
@@ -0,0 +1,86 @@
+import { useRouteData, json } from "remix"
+import type { MetaFunction, LoaderFunction, ActionFunction, LinksFunction } from "remix"
+
+import { getUserIdFromRequest } from "../server/auth.server"
+import { NavBar } from "../components/Layout/NavBar"
+import { Import } from "../components/Import"
+import { repository } from "../repositories/nodes.server"
+import { repository as usersRepository } from "../repositories/users.server"
+import { importNodes } from "../server/import.server"
+import { InvalidFormatError, statusCodeFor } from "../server/errors.server"
+import BaseStyles from "../styles/base.css"
+import LayoutStyles from "../components/Layout/styles.css"
+import ImportStyles from "../components/Import/styles.css"
+import type { NodeItem } from "../models/node"
+import type { UserBody } from "../models/user"
+
+export const meta: MetaFunction = ({ params }) => {
+  return {
+    title: "ReNodes Import",
+    description: `Import Nodes into Node #${params.id}`,
+  }
+}
+
+export const links: LinksFunction = () => {
+  return [
+    { rel: "stylesheet", href: BaseStyles },
+    { rel: "stylesheet", href: LayoutStyles },
+    { rel: "stylesheet", href: ImportStyles },
+  ]
+}
+
+export const loader: LoaderFunction = async ({ request, params }) => {
+  try {
+    const userId = await getUserIdFromRequest(request, "read", [params.id])
+    const user = await usersRepository.get(userId)
+    const node = await repository.get(params.id, userId)
+    return json({ data: node, user: user.toObject() }, {
+      headers: {
+        "Cache-Control": "no-cache, no-store, must-revalidate"
+      }
+    })
+  } catch (err) {
+    if (err.name !== "UnauthorizedError") console.error(err)
+    return json({ error: err.message }, {
+      status: statusCodeFor(err),
+      headers: {
+        "Cache-Control": "no-cache, no-store, must-revalidate"
+      }
+    })
+  }
+}
+
+export const action: ActionFunction = async ({ request, params }) => {
+  try {
+    const userId = await getUserIdFromRequest(request, "write", [params.id])
+    // Make sure that the Node exists and belongs to the user.
+    if (params.id !== "home") await repository.get(params.id, userId)
+    const data = new URLSearchParams(await request.text())
+    const document = data.get("document")
+    if (!document || document.trim() === "") throw new InvalidFormatError("document can't be empty")
+    const nodes = importNodes(document, data.get("format") || undefined)
+    // The result is returned instead of redirecting, so the Nodes that
+    // couldn't be imported can be reported.
+    const result = await repository.import(params.id, nodes, userId)
+    return json(result)
+  } catch (err) {
+    console.error(err)
+    return json({ error: err.message }, {
+      status: statusCodeFor(err, 400),
+    })
+  }
+}
+
+export default function ImportPage() {
+  const { data, user, error } = useRouteData<{ data?: NodeItem, user?: UserBody, error?: string }>()
+
+  return (
+    <main>
+      <NavBar user={user} />
+      {error
+        ? <p className="NodesTree__SignIn">{error}</p>
+        : <Import node={data} />
+      }
+    </main>
+  )
+}
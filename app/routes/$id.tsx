@@ -8,14 +8,20 @@ import { QueryClient, QueryClientProvider } from 'react-query'
 import type { HeadersFunction, MetaFunction, LoaderFunction, ActionFunction, LinksFunction } from "remix"
 
 import { getUserFromSession, signIn, signOut } from "../server/session.server"
+import { getUserIdFromRequest } from "../server/auth.server"
 import { NavBar } from "../components/Layout/NavBar"
 import { repository } from "../repositories/nodes.server"
+import { repository as usersRepository } from "../repositories/users.server"
 import { NodesTree } from "../components/Nodes/NodesTree"
-import etag from "../server/etag.server"
+import { Breadcrumbs } from "../components/Breadcrumbs"
+import etag, { parseVersion, versionTag } from "../server/etag.server"
+import { parsePage } from "../server/api.server"
+import { UnauthorizedError, statusCodeFor } from "../server/errors.server"
 import BaseStyles from "../styles/base.css"
 import LayoutStyles from "../components/Layout/styles.css"
 import LoaderStyles from "../components/Utils/Loader.css"
 import ScrollAreaStyles from "../components/ScrollArea/styles.css"
+import BreadcrumbsStyles from "../components/Breadcrumbs/styles.css"
 import type { NodeItem } from "../models/node"
 import type { UserBody } from "../models/user"
 
@@ -27,7 +33,7 @@ export const meta: MetaFunction = ({ params }) => {
 }
 
 export const headers: HeadersFunction = ({ loaderHeaders }) => {
-  return { Etag: `W\\${loaderHeaders.get("Etag")}` }
+  return { Etag: loaderHeaders.get("Etag") }
 }
 
 export const links: LinksFunction = () => {
@@ -36,38 +42,55 @@ export const links: LinksFunction = () => {
     { rel: "stylesheet", href: LayoutStyles },
     { rel: "stylesheet", href: LoaderStyles },
     { rel: "stylesheet", href: ScrollAreaStyles },
+    { rel: "stylesheet", href: BreadcrumbsStyles },
   ]
 }
 
 export const loader: LoaderFunction = async ({ request, params }) => {
   try {
+    const isJSON = request.headers.get("Accept") === "application/json"
     let user: UserBody | undefined = undefined
-    if (request.headers.get("Accept") !== "application/json") {
+    // Requests without a token are authenticated by the session cookie,
+    // which is refreshed, or cleared, once it expires.
+    if (request.headers.get("Authorization") === null) {
       try {
         const sessionUser = await getUserFromSession(request)
         user = sessionUser.toObject()
       } catch (err) {
-        if (err.name === "TokenExpiredError" && Date.now() - (new Date(err.expiredAt)).getTime() <= 1000 * 60 * 60 * 24 * 30) {
-          return signIn(request, `/${params.id}`)
-        }
-        if (err.name !== "ModelNotFoundError" && err.name !== "UndefinedTokenError") {
-          return signOut(request)
+        if (!isJSON) {
+          if (err.name === "TokenExpiredError" && Date.now() - (new Date(err.expiredAt)).getTime() <= 1000 * 60 * 60 * 24 * 30) {
+            return signIn(request, `/${params.id}`)
+          }
+          if (err.name !== "ModelNotFoundError" && err.name !== "UndefinedTokenError") {
+            return signOut(request)
+          }
         }
       }
+      if (!user) throw new UnauthorizedError()
     }
-    const node = await repository.get(params.id, undefined, true)
-    const body = { data: node, user }
+    const userId = await getUserIdFromRequest(request, "read", [params.id])
+    if (!user && !isJSON) user = (await usersRepository.get(userId)).toObject()
+    const { limit, cursor } = parsePage(request.url)
+    const [node, path] = await Promise.all([
+      repository.get(params.id, userId, true, limit, cursor),
+      repository.ancestors(params.id, userId),
+    ])
+    const body = { data: node, path, user: isJSON ? undefined : user }
     return json(body, {
       headers: {
-        "Etag": etag(JSON.stringify(body)),
+        // The `Etag` of a Node is its version, so it can be sent back on
+        // the `If-Match` header of a write.
+        "Etag": node.version === undefined ? etag(JSON.stringify(body)) : versionTag(node.version),
         "Cache-Control": "no-cache, no-store, must-revalidate"
       }
     })
   } catch (err) {
-    console.log("loader error:")
-    console.error(err)
+    if (err.name !== "UnauthorizedError") {
+      console.log("loader error:")
+      console.error(err)
+    }
     return json({ error: err.message }, {
-      status: err.name === "ModelNotFound" ? 404 : 500,
+      status: statusCodeFor(err),
       headers: {
         "Cache-Control": "no-cache, no-store, must-revalidate"
       }
@@ -82,33 +105,48 @@ export const action: ActionFunction = async ({ request, params }) => {
     const content = data.get("content")
     const interpreter = data.get("interpreter")
     const dragId = data.get("dragId")
+    const duplicateId = data.get("duplicateId")
+    const deep = data.get("deep") === "true"
     const meta = data.get("meta")
     const afterId = data.get("afterId") || undefined
+    const last = data.get("last") === "true"
+    const version = parseVersion(request.headers.get("If-Match") || data.get("version"))
+    const userId = await getUserIdFromRequest(request, "write", [params.id, dragId, duplicateId].filter(id => id !== null))
+    if (params.id === "home") {
+      if (request.method !== "POST") throw new Error("the home node can't be modified")
+    } else {
+      // Make sure that the Node exists and belongs to the user.
+      await repository.get(params.id, userId)
+    }
     switch (request.method) {
       case "POST":
-        if (dragId) {
-          await repository.after(dragId, params.id, afterId)
+        if (duplicateId) {
+          await repository.duplicate(duplicateId, userId, deep)
+        } else if (dragId && last) {
+          await repository.append(dragId, params.id, userId)
+        } else if (dragId) {
+          await repository.after(dragId, params.id, afterId, userId)
         } else {
-          await repository.put({ id, content, interpreter, parent: params.id }, afterId)
+          await repository.put({ id, content, interpreter, parent: params.id, userId }, afterId)
         }
         break
       case "PUT":
-        await repository.update(params.id, { content, interpreter })
+        await repository.update(params.id, { content, interpreter }, userId, version)
         break
       case "PATCH":
         if (meta === null) break
         const metadata = new URLSearchParams(meta)
-        await repository.meta(params.id, { isOpened: metadata.get("isOpened") === "true" })
+        await repository.meta(params.id, { isOpened: metadata.get("isOpened") === "true" }, userId, version)
         break
       case "DELETE":
-        await repository.delete(params.id)
+        await repository.delete(params.id, userId, version)
         break
     }
     return `/${params.id}`
   } catch (err) {
     console.error(err)
     return redirect("/404", {
-      status: 400,
+      status: statusCodeFor(err, 400),
       statusText: err.message
     })
   }
@@ -117,11 +155,18 @@ export const action: ActionFunction = async ({ request, params }) => {
 const queryClient = new QueryClient()
 
 export default function () {
-  const { data, user } = useRouteData<{ data: NodeItem, user: UserBody | undefined, error?: string }>()
+  const { data, path, user } = useRouteData<{ data: NodeItem, path: NodeItem[], user: UserBody | undefined, error?: string }>()
   const { search } = useLocation()
 
   const query = new URLSearchParams(search)
 
+  if (!user) return (
+    <main>
+      {query.get("navbar") !== "none" && <NavBar user={user} />}
+      <p className="NodesTree__SignIn">Sign in to start managing your Nodes.</p>
+    </main>
+  )
+
   if (!data) return <div>Error</div>
 
   return (
@@ -130,6 +175,7 @@ export default function () {
         <ScrollArea.Viewport className="ScrollArea__Viewport">
           <main>
             {query.get("navbar") !== "none" && <NavBar user={user} />}
+            <Breadcrumbs node={data} path={path} />
             <QueryClientProvider client={queryClient}>
               <DndProvider options={HTML5toTouch}>
                 <NodesTree root={data} />
@@ -0,0 +1,51 @@
+import { json } from "remix"
+import type { ActionFunction, LoaderFunction } from "remix"
+
+import { getAdminIdFromSession } from "../server/session.server"
+import { repository } from "../repositories/nodes.server"
+import { statusCodeFor } from "../server/errors.server"
+
+export const loader: LoaderFunction = async ({ request }) => {
+  try {
+    await getAdminIdFromSession(request)
+    const branch = new URL(request.url).searchParams.get("branch")
+    if (!branch) throw new Error("branch can't be undefined")
+    const report = await repository.check(branch)
+    return json({ data: report }, {
+      headers: {
+        "Cache-Control": "no-cache, no-store, must-revalidate"
+      }
+    })
+  } catch (err) {
+    if (err.name !== "UnauthorizedError" && err.name !== "ForbiddenError") console.error(err)
+    return json({ error: err.message }, {
+      status: statusCodeFor(err, 400),
+      headers: {
+        "Cache-Control": "no-cache, no-store, must-revalidate"
+      }
+    })
+  }
+}
+
+export const action: ActionFunction = async ({ request }) => {
+  try {
+    await getAdminIdFromSession(request)
+    const data = new URLSearchParams(await request.text())
+    const branch = data.get("branch")
+    if (!branch) throw new Error("branch can't be undefined")
+    const report = await repository.check(branch, data.get("fix") === "true")
+    return json({ data: report }, {
+      headers: {
+        "Cache-Control": "no-cache, no-store, must-revalidate"
+      }
+    })
+  } catch (err) {
+    if (err.name !== "UnauthorizedError" && err.name !== "ForbiddenError") console.error(err)
+    return json({ error: err.message }, {
+      status: statusCodeFor(err, 400),
+      headers: {
+        "Cache-Control": "no-cache, no-store, must-revalidate"
+      }
+    })
+  }
+}
@@ -0,0 +1,42 @@
+import { json, useRouteData } from "remix"
+import type { MetaFunction, LoaderFunction, LinksFunction } from "remix"
+
+import APIDocsStyles from "../components/APIDocs/styles.css"
+import ScrollAreaStyles from "../components/ScrollArea/styles.css"
+import { APIExplorer } from "../components/APIDocs"
+import { getUserIdFromSession } from "../server/session.server"
+import { createOpenAPIDocument } from "../server/openapi.server"
+import type { OpenAPIDocument } from "../server/openapi.server"
+
+export const meta: MetaFunction = () => {
+  return {
+    title: "ReNodes API Docs",
+    description: "Explore the ReNodes API",
+  }
+}
+
+export const links: LinksFunction = () => {
+  return [
+    { rel: "stylesheet", href: APIDocsStyles },
+    { rel: "stylesheet", href: ScrollAreaStyles },
+  ]
+}
+
+export const loader: LoaderFunction = async ({ request }) => {
+  const isSignedIn = await getUserIdFromSession(request).then(() => true, () => false)
+  return json({ document: createOpenAPIDocument(), isSignedIn }, {
+    headers: {
+      "Cache-Control": "no-cache, no-store, must-revalidate"
+    }
+  })
+}
+
+export default function APIDocsPage() {
+  const { document, isSignedIn } = useRouteData<{ document: OpenAPIDocument, isSignedIn: boolean }>()
+
+  return (
+    <main>
+      <APIExplorer document={document} isSignedIn={isSignedIn} />
+    </main>
+  )
+}
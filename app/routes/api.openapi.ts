@@ -0,0 +1,12 @@
+import { json } from "remix"
+import type { LoaderFunction } from "remix"
+
+import { createOpenAPIDocument } from "../server/openapi.server"
+
+export const loader: LoaderFunction = async () => {
+  return json(createOpenAPIDocument(), {
+    headers: {
+      "Cache-Control": "public, max-age=3600"
+    }
+  })
+}
@@ -0,0 +1,24 @@
+import type { ActionFunction } from "remix"
+
+import { authenticate, checkAccess } from "../server/auth.server"
+import { repository } from "../repositories/nodes.server"
+import { errorResponse, nodeResponse, readJSON } from "../server/api.server"
+import { InvalidRequestError } from "../server/errors.server"
+
+export const action: ActionFunction = async ({ request, params }) => {
+  try {
+    const auth = await authenticate(request)
+    const { userId } = auth
+    if (request.method !== "POST") throw new InvalidRequestError(`invalid method = ${request.method}`)
+    // The copy is put next to the original, so it's added to its parent.
+    const original = await repository.get(params.id, userId)
+    await checkAccess(auth, "write", [original.parent || "home"])
+    const body = await readJSON(request)
+    if (body.deep !== undefined && typeof body.deep !== "boolean") throw new InvalidRequestError("deep must be a boolean")
+    const copy = await repository.duplicate(params.id, userId, body.deep === true)
+    const node = await repository.get(copy.id, userId)
+    return nodeResponse(node, { status: 201, headers: { "Location": `/api/v1/nodes/${node.id}` } })
+  } catch (err) {
+    return errorResponse(err)
+  }
+}
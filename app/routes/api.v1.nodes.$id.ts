@@ -0,0 +1,73 @@
+import type { ActionFunction, LoaderFunction } from "remix"
+
+import { authenticate, checkAccess, getUserIdFromRequest } from "../server/auth.server"
+import { repository } from "../repositories/nodes.server"
+import { parseVersion } from "../server/etag.server"
+import { errorResponse, nodeResponse, optionalString, parsePage, readJSON, NO_CACHE_HEADERS } from "../server/api.server"
+import { InvalidRequestError } from "../server/errors.server"
+import type { NodeMeta } from "../models/node"
+
+export const loader: LoaderFunction = async ({ request, params }) => {
+  try {
+    const userId = await getUserIdFromRequest(request, "read", [params.id])
+    const { limit, cursor } = parsePage(request.url)
+    const [node, path] = await Promise.all([
+      repository.get(params.id, userId, true, limit, cursor),
+      repository.ancestors(params.id, userId),
+    ])
+    return nodeResponse(node, {}, path)
+  } catch (err) {
+    return errorResponse(err)
+  }
+}
+
+export const action: ActionFunction = async ({ request, params }) => {
+  try {
+    const auth = await authenticate(request)
+    const { userId } = auth
+    if (params.id === "home") throw new InvalidRequestError("the home node can't be modified")
+    // Make sure that the Node exists and belongs to the user.
+    await repository.get(params.id, userId)
+    await checkAccess(auth, "write", [params.id])
+    const body = await readJSON(request)
+    const version = parseVersion(request.headers.get("If-Match"))
+    switch (request.method) {
+      case "PUT": {
+        const content = optionalString(body, "content")
+        if (content === undefined) throw new InvalidRequestError("content can't be undefined")
+        await repository.update(params.id, { content, interpreter: optionalString(body, "interpreter") }, userId, version)
+        break
+      }
+      case "PATCH": {
+        // The metadata and the position of a Node can be changed at once,
+        // but only the metadata change is checked against its version.
+        if (body.meta !== undefined) {
+          if (body.meta === null || typeof body.meta !== "object" || Array.isArray(body.meta)) throw new InvalidRequestError("meta must be an object")
+          await repository.meta(params.id, body.meta as NodeMeta, userId, version)
+        }
+        if (body.parent !== undefined || body.afterId !== undefined) {
+          const node = await repository.get(params.id, userId)
+          const parent = optionalString(body, "parent") || node.parent || "home"
+          if (parent !== "home") await repository.get(parent, userId)
+          await checkAccess(auth, "write", [parent])
+          // A `null` afterId moves the Node to the start of the list, while
+          // leaving it out moves the Node to the end of it.
+          if (body.afterId === undefined) {
+            await repository.append(params.id, parent, userId)
+          } else {
+            await repository.after(params.id, parent, optionalString(body, "afterId"), userId)
+          }
+        }
+        break
+      }
+      case "DELETE":
+        await repository.delete(params.id, userId, version)
+        return new Response(null, { status: 204, headers: NO_CACHE_HEADERS })
+      default:
+        throw new InvalidRequestError(`invalid method = ${request.method}`)
+    }
+    return nodeResponse(await repository.get(params.id, userId))
+  } catch (err) {
+    return errorResponse(err)
+  }
+}
@@ -0,0 +1,46 @@
+import { json } from "remix"
+import { ulid } from "ulid"
+import type { ActionFunction, LoaderFunction } from "remix"
+
+import { authenticate, checkAccess, getUserIdFromRequest } from "../server/auth.server"
+import { repository } from "../repositories/nodes.server"
+import { errorResponse, nodeResponse, optionalString, parsePage, readJSON, NO_CACHE_HEADERS } from "../server/api.server"
+import { InvalidRequestError } from "../server/errors.server"
+
+export const loader: LoaderFunction = async ({ request }) => {
+  try {
+    const parent = new URL(request.url).searchParams.get("parent") || "home"
+    const userId = await getUserIdFromRequest(request, "read", [parent])
+    const { limit, cursor } = parsePage(request.url)
+    const node = await repository.get(parent, userId, true, limit, cursor)
+    return json({ data: node.collection || [], cursor: node.cursor }, { headers: NO_CACHE_HEADERS })
+  } catch (err) {
+    return errorResponse(err)
+  }
+}
+
+export const action: ActionFunction = async ({ request }) => {
+  try {
+    const auth = await authenticate(request)
+    const { userId } = auth
+    if (request.method !== "POST") throw new InvalidRequestError(`invalid method = ${request.method}`)
+    const body = await readJSON(request)
+    const content = optionalString(body, "content")
+    if (content === undefined) throw new InvalidRequestError("content can't be undefined")
+    const parent = optionalString(body, "parent") || "home"
+    // Make sure that the parent exists and belongs to the user.
+    if (parent !== "home") await repository.get(parent, userId)
+    await checkAccess(auth, "write", [parent])
+    const { id } = await repository.put({
+      id: optionalString(body, "id") || ulid(),
+      content,
+      interpreter: optionalString(body, "interpreter"),
+      parent,
+      userId,
+    }, optionalString(body, "afterId"))
+    const node = await repository.get(id, userId)
+    return nodeResponse(node, { status: 201, headers: { "Location": `/api/v1/nodes/${node.id}` } })
+  } catch (err) {
+    return errorResponse(err)
+  }
+}
@@ -0,0 +1,84 @@
+import { useRouteData, json, redirect } from "remix"
+import type { MetaFunction, LoaderFunction, ActionFunction, LinksFunction } from "remix"
+
+import { getUserFromSession } from "../server/session.server"
+import { getUserIdFromRequest } from "../server/auth.server"
+import { NavBar } from "../components/Layout/NavBar"
+import { Search } from "../components/Search"
+import { repository } from "../repositories/nodes.server"
+import { UnauthorizedError, statusCodeFor } from "../server/errors.server"
+import BaseStyles from "../styles/base.css"
+import LayoutStyles from "../components/Layout/styles.css"
+import SearchStyles from "../components/Search/styles.css"
+import type { NodeSearchHit } from "../models/node"
+import type { UserBody } from "../models/user"
+
+export const meta: MetaFunction = () => {
+  return {
+    title: "ReNodes Search",
+    description: "Search results",
+  }
+}
+
+export const links: LinksFunction = () => {
+  return [
+    { rel: "stylesheet", href: BaseStyles },
+    { rel: "stylesheet", href: LayoutStyles },
+    { rel: "stylesheet", href: SearchStyles },
+  ]
+}
+
+export const loader: LoaderFunction = async ({ request }) => {
+  try {
+    const user = await getUserFromSession(request).catch((err) => {
+      throw new UnauthorizedError(err.message)
+    })
+    const query = new URL(request.url).searchParams.get("q") || ""
+    const hits = await repository.search(query, user.id)
+    return json({ data: hits, query, user: user.toObject() }, {
+      headers: {
+        "Cache-Control": "no-cache, no-store, must-revalidate"
+      }
+    })
+  } catch (err) {
+    if (err.name !== "UnauthorizedError") console.error(err)
+    return json({ error: err.message }, {
+      status: statusCodeFor(err),
+      headers: {
+        "Cache-Control": "no-cache, no-store, must-revalidate"
+      }
+    })
+  }
+}
+
+export const action: ActionFunction = async ({ request }) => {
+  try {
+    const data = new URLSearchParams(await request.text())
+    const id = data.get("id")
+    if (!id) throw new Error("id can't be undefined")
+    const userId = await getUserIdFromRequest(request, "write", [id])
+    // Open the ancestors of the Node so the home tree shows it.
+    await repository.reveal(id, userId)
+    return `/home#${id}`
+  } catch (err) {
+    console.error(err)
+    return redirect("/404", {
+      status: statusCodeFor(err, 400),
+      statusText: err.message
+    })
+  }
+}
+
+export default function SearchPage() {
+  const { data, query, user, error } = useRouteData<{ data?: NodeSearchHit[], query?: string, user?: UserBody, error?: string }>()
+
+  return (
+    <main>
+      <NavBar user={user} query={query} />
+      {error
+        ? <p className="NodesTree__SignIn">{error}</p>
+        : <Search hits={data} query={query} />
+      }
+    </main>
+  )
+}
@@ -0,0 +1,101 @@
+import { useRouteData, json, redirect } from "remix"
+import type { MetaFunction, LoaderFunction, ActionFunction, LinksFunction } from "remix"
+
+import { getUserFromSession, getUserIdFromSession } from "../server/session.server"
+import { NavBar } from "../components/Layout/NavBar"
+import { Tokens } from "../components/Tokens"
+import { repository } from "../repositories/tokens.server"
+import { repository as nodesRepository } from "../repositories/nodes.server"
+import { InvalidRequestError, UnauthorizedError, statusCodeFor } from "../server/errors.server"
+import BaseStyles from "../styles/base.css"
+import LayoutStyles from "../components/Layout/styles.css"
+import TokensStyles from "../components/Tokens/styles.css"
+import type { TokenItem, TokenScope } from "../models/token"
+import type { UserBody } from "../models/user"
+
+export const meta: MetaFunction = () => {
+  return {
+    title: "ReNodes API Tokens",
+    description: "Personal API tokens",
+  }
+}
+
+export const links: LinksFunction = () => {
+  return [
+    { rel: "stylesheet", href: BaseStyles },
+    { rel: "stylesheet", href: LayoutStyles },
+    { rel: "stylesheet", href: TokensStyles },
+  ]
+}
+
+export const loader: LoaderFunction = async ({ request }) => {
+  try {
+    const user = await getUserFromSession(request).catch((err) => {
+      throw new UnauthorizedError(err.message)
+    })
+    const tokens = await repository.query(user.id)
+    return json({ data: tokens, user: user.toObject() }, {
+      headers: {
+        "Cache-Control": "no-cache, no-store, must-revalidate"
+      }
+    })
+  } catch (err) {
+    if (err.name !== "UnauthorizedError") console.error(err)
+    return json({ error: err.message }, {
+      status: statusCodeFor(err),
+      headers: {
+        "Cache-Control": "no-cache, no-store, must-revalidate"
+      }
+    })
+  }
+}
+
+export const action: ActionFunction = async ({ request }) => {
+  const data = new URLSearchParams(await request.text())
+  const intent = data.get("intent")
+  // New tokens are returned instead of redirecting, since their secret
+  // can only be shown once.
+  if (intent === "create") {
+    try {
+      const userId = await getUserIdFromSession(request)
+      const root = data.get("root") || undefined
+      // Make sure that the Node exists and belongs to the user.
+      if (root && root !== "home") await nodesRepository.get(root, userId)
+      const created = await repository.create(userId, data.get("name") || "", data.get("scope") as TokenScope, root)
+      return json({ data: created }, { status: 201 })
+    } catch (err) {
+      console.error(err)
+      return json({ error: err.message }, {
+        status: statusCodeFor(err, 400),
+      })
+    }
+  }
+  try {
+    const userId = await getUserIdFromSession(request)
+    if (intent !== "revoke") throw new InvalidRequestError(`invalid intent = ${intent}`)
+    const id = data.get("id")
+    if (!id) throw new Error("id can't be undefined")
+    await repository.revoke(id, userId)
+    return "/settings/tokens"
+  } catch (err) {
+    console.error(err)
+    return redirect("/404", {
+      status: statusCodeFor(err, 400),
+      statusText: err.message
+    })
+  }
+}
+
+export default function TokensPage() {
+  const { data, user, error } = useRouteData<{ data?: TokenItem[], user?: UserBody, error?: string }>()
+
+  return (
+    <main>
+      <NavBar user={user} />
+      {error
+        ? <p className="NodesTree__SignIn">{error}</p>
+        : <Tokens tokens={data} />
+      }
+    </main>
+  )
+}
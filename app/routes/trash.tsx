@@ -0,0 +1,82 @@
+import { useRouteData, json, redirect } from "remix"
+import type { MetaFunction, LoaderFunction, ActionFunction, LinksFunction } from "remix"
+
+import { getUserFromSession } from "../server/session.server"
+import { getUserIdFromRequest } from "../server/auth.server"
+import { NavBar } from "../components/Layout/NavBar"
+import { Trash } from "../components/Trash"
+import { repository, TRASH_RETENTION_DAYS } from "../repositories/nodes.server"
+import { UnauthorizedError, statusCodeFor } from "../server/errors.server"
+import BaseStyles from "../styles/base.css"
+import LayoutStyles from "../components/Layout/styles.css"
+import TrashStyles from "../components/Trash/styles.css"
+import type { NodeItem } from "../models/node"
+import type { UserBody } from "../models/user"
+
+export const meta: MetaFunction = () => {
+  return {
+    title: "ReNodes Trash",
+    description: "Deleted Nodes",
+  }
+}
+
+export const links: LinksFunction = () => {
+  return [
+    { rel: "stylesheet", href: BaseStyles },
+    { rel: "stylesheet", href: LayoutStyles },
+    { rel: "stylesheet", href: TrashStyles },
+  ]
+}
+
+export const loader: LoaderFunction = async ({ request }) => {
+  try {
+    const user = await getUserFromSession(request).catch((err) => {
+      throw new UnauthorizedError(err.message)
+    })
+    const nodes = await repository.trash(user.id)
+    return json({ data: nodes, retention: TRASH_RETENTION_DAYS, user: user.toObject() }, {
+      headers: {
+        "Cache-Control": "no-cache, no-store, must-revalidate"
+      }
+    })
+  } catch (err) {
+    if (err.name !== "UnauthorizedError") console.error(err)
+    return json({ error: err.message }, {
+      status: statusCodeFor(err),
+      headers: {
+        "Cache-Control": "no-cache, no-store, must-revalidate"
+      }
+    })
+  }
+}
+
+export const action: ActionFunction = async ({ request }) => {
+  try {
+    const data = new URLSearchParams(await request.text())
+    const id = data.get("id")
+    if (!id) throw new Error("id can't be undefined")
+    const userId = await getUserIdFromRequest(request, "write", [id])
+    await repository.restore(id, userId)
+    return "/trash"
+  } catch (err) {
+    console.error(err)
+    return redirect("/404", {
+      status: statusCodeFor(err, 400),
+      statusText: err.message
+    })
+  }
+}
+
+export default function TrashPage() {
+  const { data, retention, user, error } = useRouteData<{ data?: NodeItem[], retention?: number, user?: UserBody, error?: string }>()
+
+  return (
+    <main>
+      <NavBar user={user} />
+      {error
+        ? <p className="NodesTree__SignIn">{error}</p>
+        : <Trash nodes={data} retention={retention} />
+      }
+    </main>
+  )
+}
@@ -0,0 +1,130 @@
+import { json, Request } from "remix"
+
+import { versionTag } from "./etag.server"
+import { InvalidRequestError, statusCodeFor } from "./errors.server"
+import type { NodeItem } from "../models/node"
+
+/**
+ * PAGE_SIZE is the number of sub-nodes of each list loaded at once.
+ */
+export const PAGE_SIZE = 100
+/**
+ * MAX_PAGE_SIZE is the maximum number of sub-nodes of each list that can
+ * be requested at once through the `limit` search parameter.
+ */
+export const MAX_PAGE_SIZE = 500
+/**
+ * NO_CACHE_HEADERS are the headers that keep the responses of the API from
+ * being cached.
+ */
+export const NO_CACHE_HEADERS = {
+  "Cache-Control": "no-cache, no-store, must-revalidate"
+}
+/**
+ * APIErrorBody is the body of a failed API response.
+ */
+export interface APIErrorBody {
+  error: {
+    /**
+     * status is the HTTP status code of the response.
+     */
+    status: number;
+    /**
+     * code is the name of the error, which can be used to handle it.
+     */
+    code: string;
+    /**
+     * message is a description of the error.
+     */
+    message: string;
+  };
+}
+/**
+ * APIPage is the page of a list requested through the `limit` and
+ * `cursor` search parameters.
+ */
+export interface APIPage {
+  /**
+   * limit is the maximum number of sub-nodes of each list.
+   */
+  limit: number;
+  /**
+   * cursor is the id of the sub-node after which the page starts.
+   */
+  cursor?: string;
+}
+/**
+ * Functions
+ */
+/**
+ * parsePage returns the page requested through the `limit` and `cursor`
+ * search parameters of a URL. The `limit` is clamped between 1 and
+ * `MAX_PAGE_SIZE`, and defaults to `PAGE_SIZE`.
+ * @param url - Requested URL.
+ */
+export function parsePage(url: string): APIPage {
+  const searchParams = new URL(url).searchParams
+  const limit = Math.min(Math.max(Math.floor(Number(searchParams.get("limit"))) || PAGE_SIZE, 1), MAX_PAGE_SIZE)
+  return { limit, cursor: searchParams.get("cursor") || undefined }
+}
+/**
+ * readJSON returns the JSON object sent on the body of a request. An empty
+ * body is read as an empty object.
+ * @param request - API request.
+ */
+export async function readJSON(request: Request): Promise<{ [key: string]: any }> {
+  const text = await request.text()
+  if (text.trim() === "") return {}
+  let body: any
+  try {
+    body = JSON.parse(text)
+  } catch (err) {
+    throw new InvalidRequestError(`invalid JSON body: ${err.message}`)
+  }
+  if (body === null || typeof body !== "object" || Array.isArray(body)) throw new InvalidRequestError("the body must be a JSON object")
+  return body
+}
+/**
+ * optionalString returns a field of a JSON body that must be a string, if
+ * it was sent.
+ * @param body - JSON body of a request.
+ * @param key - Name of the field.
+ */
+export function optionalString(body: { [key: string]: any }, key: string): string | undefined {
+  const value = body[key]
+  if (value === undefined || value === null) return undefined
+  if (typeof value !== "string") throw new InvalidRequestError(`${key} must be a string`)
+  return value
+}
+/**
+ * nodeResponse returns the API response of a Node, with its version as the
+ * `Etag`, so it can be sent back on the `If-Match` header of a write.
+ * @param node - Node to return.
+ * @param init - Status code and extra headers of the response.
+ * @param path - Ancestors of the Node.
+ */
+export function nodeResponse(node: NodeItem, init: { status?: number, headers?: { [key: string]: string } } = {}, path?: NodeItem[]): Response {
+  return json({ data: node, path }, {
+    status: init.status || 200,
+    headers: {
+      ...NO_CACHE_HEADERS,
+      ...(node.version === undefined ? {} : { "Etag": versionTag(node.version) }),
+      ...init.headers,
+    }
+  })
+}
+/**
+ * errorResponse returns the API response of an error, with a status code
+ * that better represents it. The message of unknown errors isn't exposed.
+ * @param err - Error to translate.
+ */
+export function errorResponse(err: Error): Response {
+  const status = statusCodeFor(err)
+  if (status >= 500) console.error(err)
+  const body: APIErrorBody = {
+    error: status >= 500
+      ? { status, code: "InternalServerError", message: "internal server error" }
+      : { status, code: err.name, message: err.message },
+  }
+  return json(body, { status, headers: NO_CACHE_HEADERS })
+}
@@ -0,0 +1,52 @@
+import test from "tape"
+import { ulid } from "ulid"
+import { Request } from "remix"
+import type { Test } from "tape"
+
+import { authenticate, checkAccess } from "./auth.server"
+import { repository as nodesRepository } from "../repositories/nodes.server"
+import { repository as tokensRepository } from "../repositories/tokens.server"
+import type { TokenItem } from "../models/token"
+
+test("authenticate()", async (assert: Test) => {
+  const userId = ulid()
+  const { token, secret } = await tokensRepository.create(userId, "script", "read")
+  // Should authenticate requests with a valid bearer token.
+  const auth = await authenticate(new Request("http://localhost/api/v1/nodes", { headers: { "Authorization": `Bearer ${secret}` } }))
+  assert.equal(auth.userId, userId, "should return the owner of the token")
+  assert.equal(auth.token?.id, token.id, "should return the token")
+  // Should reject malformed headers and invalid tokens.
+  for (let authorization of ["Basic abc", `Bearer ${secret}x`, "Bearer"]) {
+    try {
+      await authenticate(new Request("http://localhost/api/v1/nodes", { headers: { "Authorization": authorization } }))
+      assert.fail(`should reject ${authorization}`)
+    } catch (err) {
+      assert.equal(err.name, "UnauthorizedError", "should throw an UnauthorizedError")
+    }
+  }
+  assert.end()
+})
+
+test("checkAccess()", async (assert: Test) => {
+  const userId = ulid()
+  const root = await nodesRepository.put({ id: ulid(), content: ulid(), userId })
+  const child = await nodesRepository.put({ id: ulid(), content: ulid(), userId, parent: root.id })
+  const grandchild = await nodesRepository.put({ id: ulid(), content: ulid(), userId, parent: child.id })
+  const sibling = await nodesRepository.put({ id: ulid(), content: ulid(), userId })
+  const token = (scope: TokenItem["scope"], root?: string): TokenItem => ({ id: ulid(), userId, name: "script", scope, root })
+  const isAllowed = (...args: Parameters<typeof checkAccess>) => checkAccess(...args).then(() => true, (err) => {
+    assert.equal(err.name, "ForbiddenError", "should throw a ForbiddenError")
+    return false
+  })
+  // The session grants access to every Node.
+  assert.ok(await isAllowed({ userId }, "write", ["home", sibling.id]), "should allow the session")
+  // Read-only tokens can't change Nodes.
+  assert.ok(await isAllowed({ userId, token: token("read") }, "read", ["home"]), "should allow reads")
+  assert.notOk(await isAllowed({ userId, token: token("read") }, "write", ["home"]), "should forbid writes")
+  // Tokens with a root can only access its sub-tree.
+  const rooted = { userId, token: token("write", root.id) }
+  assert.ok(await isAllowed(rooted, "write", [root.id, child.id, grandchild.id]), "should allow the sub-tree")
+  assert.notOk(await isAllowed(rooted, "read", [sibling.id]), "should forbid other Nodes")
+  assert.notOk(await isAllowed(rooted, "read", ["home"]), "should forbid the home Node")
+  assert.end()
+})
@@ -0,0 +1,76 @@
+import { Request } from "remix"
+import { getUserIdFromSession } from "./session.server"
+import { ForbiddenError, UnauthorizedError } from "./errors.server"
+import { repository as nodesRepository } from "../repositories/nodes.server"
+import { repository as tokensRepository } from "../repositories/tokens.server"
+import type { TokenItem } from "../models/token"
+
+/**
+ * NodesAccess is the kind of access a request needs over the `Nodes`.
+ */
+export type NodesAccess = "read" | "write"
+/**
+ * RequestAuth holds who made a request, and how.
+ */
+export interface RequestAuth {
+  /**
+   * userId is the unique identifier of the user that made the request.
+   */
+  userId: string;
+  /**
+   * token is the personal API token used to authenticate the request. It's
+   * undefined for requests authenticated by the session cookie.
+   */
+  token?: TokenItem;
+}
+/**
+ * Functions
+ */
+/**
+ * authenticate returns who made a request. Requests with an `Authorization`
+ * header are authenticated by the personal API token it holds, and the rest
+ * by the session cookie. It throws an `UnauthorizedError` if the request is
+ * anonymous, or if its credentials are invalid.
+ * @param request - Fetch API Request object.
+ */
+export async function authenticate(request: Request): Promise<RequestAuth> {
+  const authorization = request.headers.get("Authorization")
+  if (authorization === null) return { userId: await getUserIdFromSession(request) }
+  const match = authorization.match(/^Bearer\s+(\S+)$/i)
+  if (!match) throw new UnauthorizedError("invalid authorization header")
+  const token = await tokensRepository.verify(match[1])
+  return { userId: token.userId, token }
+}
+/**
+ * checkAccess makes sure that a request can access a list of `Nodes`. The
+ * session cookie grants access to every `Node` of the user, while a token
+ * needs the `write` scope to change them, and can only access the `Nodes`
+ * under its root, if it has one. It throws a `ForbiddenError` otherwise.
+ * @param auth - Who made the request.
+ * @param access - Kind of access the request needs.
+ * @param ids - Unique identifiers of the accessed `Nodes`.
+ */
+export async function checkAccess(auth: RequestAuth, access: NodesAccess, ids: string[]): Promise<void> {
+  const { token } = auth
+  if (token === undefined) return
+  if (access === "write" && token.scope !== "write") throw new ForbiddenError("the token is read-only")
+  if (token.root === undefined) return
+  for (let id of ids) {
+    if (id === token.root) continue
+    const path = await nodesRepository.ancestors(id, auth.userId)
+    if (!path.some(node => node.id === token.root)) throw new ForbiddenError(`the token can't access the node = ${id}`)
+  }
+}
+/**
+ * getUserIdFromRequest authenticates a request and makes sure that it can
+ * access a list of `Nodes`. It returns the unique identifier of the user
+ * that made the request.
+ * @param request - Fetch API Request object.
+ * @param access - Kind of access the request needs.
+ * @param ids - Unique identifiers of the accessed `Nodes`.
+ */
+export async function getUserIdFromRequest(request: Request, access: NodesAccess, ids: string[]): Promise<string> {
+  const auth = await authenticate(request)
+  await checkAccess(auth, access, ids)
+  return auth.userId
+}
@@ -0,0 +1,160 @@
+import test from "tape"
+import { ulid } from "ulid"
+import type { IncomingMessage } from "http"
+import type { Socket } from "net"
+import type { Test } from "tape"
+
+import { CollabSession, CollabSessions, COLLAB_PATH, PEER_COLORS } from "./collab.server"
+import { TextOperation } from "../models/textOperation"
+import { repository } from "../repositories/nodes.server"
+import type { CollabMessage } from "../models/collab"
+
+/**
+ * createSocket returns a socket that records the messages sent to it.
+ */
+function createSocket() {
+  const socket = {
+    messages: [] as CollabMessage[],
+    closed: undefined as number | undefined,
+    send: (data: string) => { socket.messages.push(JSON.parse(data)) },
+    close: (code?: number) => { socket.closed = code },
+  }
+  return socket
+}
+
+test("COLLAB_PATH", (assert: Test) => {
+  assert.equal(COLLAB_PATH.exec("/abc/collab")?.[1], "abc", "should capture the id of the Node")
+  assert.equal(COLLAB_PATH.exec("/abc/events"), null)
+  assert.equal(COLLAB_PATH.exec("/abc/def/collab"), null)
+  assert.end()
+})
+
+test("CollabSessions.handleUpgrade()", async (assert: Test) => {
+  const sessions = new CollabSessions()
+  const cases: [IncomingMessage["headers"], number][] = [
+    [{ host: "localhost", origin: "null" }, 403],
+    [{ host: "localhost", origin: "http://example.com" }, 403],
+    [{ host: "local host" }, 400],
+  ]
+  for (let [headers, status] of cases) {
+    let response = ""
+    const socket = { on: () => socket, off: () => socket, destroy: () => {}, end: (data: string) => { response = data } }
+    await sessions.handleUpgrade({ url: "/abc/collab", headers } as IncomingMessage, socket as unknown as Socket, Buffer.alloc(0))
+    assert.ok(response.startsWith(`HTTP/1.1 ${status} `), `should answer ${JSON.stringify(headers)} with ${status}`)
+  }
+  assert.end()
+})
+
+test("CollabSession.join()", (assert: Test) => {
+  const session = new CollabSession(ulid(), ulid(), "hello", 3)
+  const alice = createSocket()
+  const bob = createSocket()
+  const aliceId = session.join(alice, "alice")
+  const bobId = session.join(bob, "bob")
+  assert.equal(session.size, 2)
+  assert.deepEqual(alice.messages[0], { type: "init", clientId: aliceId, revision: 0, content: "hello", version: 3, peers: [] }, "should send the content")
+  assert.deepEqual(bob.messages[0].peers, [{ clientId: aliceId, name: "alice", color: PEER_COLORS[0] }], "should send the other clients")
+  assert.deepEqual(alice.messages[1], { type: "join", peer: { clientId: bobId, name: "bob", color: PEER_COLORS[1] } }, "should tell the other clients")
+  assert.end()
+})
+
+test("CollabSession.receive()", async (assert: Test) => {
+  const userId = ulid()
+  const node = await repository.put({ id: ulid(), content: "the fox", userId })
+  const session = new CollabSession(node.id, userId, node.content)
+  const alice = createSocket()
+  const bob = createSocket()
+  const aliceId = session.join(alice, "alice")
+  const bobId = session.join(bob, "bob")
+  await session.receive(bobId, { type: "selection", selection: { anchor: 7, head: 7 } })
+  // Both clients change the first revision at the same time.
+  const a = TextOperation.fromDiff("the fox", "the quick fox")
+  const b = TextOperation.fromDiff("the fox", "the fox jumps")
+  await session.receive(aliceId, { type: "op", revision: 0, ops: a.toJSON(), selection: { anchor: 9, head: 9 } })
+  await session.receive(bobId, { type: "op", revision: 0, ops: b.toJSON(), selection: { anchor: 13, head: 13 } })
+  assert.equal(session.content, "the quick fox jumps", "should merge both changes")
+  assert.equal(session.revision, 2)
+  assert.deepEqual(alice.messages.slice(-2).map(message => message.type), ["ack", "op"], "should acknowledge the change, and relay the other one")
+  // The relayed change should be made on top of the previous one.
+  const relayed = alice.messages[alice.messages.length - 1]
+  assert.equal(TextOperation.fromJSON(relayed.ops).apply("the quick fox"), "the quick fox jumps")
+  assert.deepEqual(relayed.selection, { anchor: 19, head: 19 }, "should send the selection of the client")
+  assert.deepEqual(bob.messages.find(message => message.type === "op").selection, { anchor: 9, head: 9 })
+  // Invalid changes should disconnect the client.
+  await session.receive(aliceId, { type: "op", revision: 5, ops: [1] })
+  assert.equal(alice.messages[alice.messages.length - 1].type, "error", "should send an error")
+  assert.equal(alice.closed, 1008, "should close the connection")
+  assert.equal(session.size, 1)
+  assert.deepEqual(bob.messages[bob.messages.length - 1], { type: "leave", clientId: aliceId }, "should tell the other clients")
+  await session.leave(bobId)
+  assert.end()
+})
+
+test("CollabSession history", async (assert: Test) => {
+  const userId = ulid()
+  const node = await repository.put({ id: ulid(), content: "abc", userId })
+  const session = new CollabSession(node.id, userId, node.content)
+  const alice = createSocket()
+  const bob = createSocket()
+  const aliceId = session.join(alice, "alice")
+  const bobId = session.join(bob, "bob")
+  session.receive(aliceId, { type: "op", revision: 0, ops: TextOperation.fromDiff("abc", "abcd").toJSON() })
+  session.receive(aliceId, { type: "op", revision: 1, ops: TextOperation.fromDiff("abcd", "abcde").toJSON() })
+  // Bob hasn't made anything on the latest revision, so it can still send
+  // changes made on the first one.
+  session.receive(bobId, { type: "op", revision: 0, ops: TextOperation.fromDiff("abc", "Xabc").toJSON() })
+  assert.equal(session.content, "Xabcde")
+  session.receive(bobId, { type: "selection", revision: 3, selection: { anchor: 1, head: 1 } })
+  session.receive(aliceId, { type: "selection", revision: 3, selection: { anchor: 6, head: 6 } })
+  // Every client knows about the latest revision, so the older ones are gone.
+  session.receive(bobId, { type: "op", revision: 2, ops: TextOperation.fromDiff("abcde", "abcdeY").toJSON() })
+  assert.equal(bob.messages[bob.messages.length - 1].message, "invalid revision", "should reject changes made before the revision of the client")
+  assert.equal(bob.closed, 1008)
+  await session.leave(aliceId)
+  assert.end()
+})
+
+test("CollabSession.save()", async (assert: Test) => {
+  const userId = ulid()
+  const node = await repository.put({ id: ulid(), content: "draft", userId })
+  const session = new CollabSession(node.id, userId, "draft", 1)
+  const alice = createSocket()
+  const bob = createSocket()
+  const aliceId = session.join(alice, "alice")
+  const bobId = session.join(bob, "bob")
+  // Nothing changed, so only the client that asked should be told.
+  await session.receive(aliceId, { type: "save" })
+  assert.deepEqual(alice.messages[alice.messages.length - 1], { type: "saved", revision: 0, content: "draft", version: 1 })
+  assert.notEqual(bob.messages[bob.messages.length - 1].type, "saved")
+  await session.receive(aliceId, { type: "op", revision: 0, ops: TextOperation.fromDiff("draft", "final").toJSON() })
+  await session.receive(aliceId, { type: "save" })
+  const saved = await repository.get(node.id, userId)
+  assert.equal(saved.content, "final", "should persist the content")
+  assert.deepEqual(bob.messages[bob.messages.length - 1], { type: "saved", revision: 1, content: "final", version: saved.version }, "should tell every client")
+  // The last client to leave should persist the latest changes.
+  await session.receive(aliceId, { type: "op", revision: 1, ops: TextOperation.fromDiff("final", "final!").toJSON() })
+  await session.leave(aliceId)
+  assert.equal((await repository.get(node.id, userId)).content, "final", "shouldn't save while other clients remain")
+  await session.leave(bobId)
+  assert.equal((await repository.get(node.id, userId)).content, "final!", "should save once the last client leaves")
+  assert.end()
+})
+
+test("CollabSession.save() on a modified Node", async (assert: Test) => {
+  const userId = ulid()
+  const node = await repository.put({ id: ulid(), content: "draft", userId })
+  const session = new CollabSession(node.id, userId, "draft", (await repository.get(node.id, userId)).version)
+  const alice = createSocket()
+  const aliceId = session.join(alice, "alice")
+  await repository.update(node.id, { content: "changed" }, userId)
+  await session.receive(aliceId, { type: "op", revision: 0, ops: TextOperation.fromDiff("draft", "draft!").toJSON() })
+  await session.receive(aliceId, { type: "save" })
+  const saved = await repository.get(node.id, userId)
+  assert.equal(saved.content, "changed", "shouldn't overwrite the changes made outside of the session")
+  assert.equal(session.content, "changed", "should reload the content")
+  assert.deepEqual(alice.messages.slice(-3).map(message => message.type), ["error", "op", "saved"], "should tell the clients")
+  assert.equal(TextOperation.fromJSON(alice.messages[alice.messages.length - 2].ops).apply("draft!"), "changed")
+  assert.deepEqual(alice.messages[alice.messages.length - 1], { type: "saved", revision: 2, content: "changed", version: saved.version })
+  await session.leave(aliceId)
+  assert.end()
+})
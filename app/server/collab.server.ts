@@ -0,0 +1,514 @@
+import { STATUS_CODES } from "http"
+import { ulid } from "ulid"
+import { Request } from "remix"
+import { WebSocketServer } from "ws"
+import type { IncomingMessage } from "http"
+import type { Socket } from "net"
+import type { WebSocket } from "ws"
+
+import { TextOperation } from "../models/textOperation"
+import { getUserIdFromRequest } from "./auth.server"
+import { statusCodeFor } from "./errors.server"
+import { HEARTBEAT_INTERVAL } from "./events.server"
+import { repository } from "../repositories/nodes.server"
+import { repository as usersRepository } from "../repositories/users.server"
+import type { CollabMessage, CollabPeer } from "../models/collab"
+import type { NodeItem } from "../models/node"
+import type { TextSelection } from "../models/textOperation"
+
+declare global {
+  /**
+   * __collabSessions holds the process wide `CollabSessions` instance.
+   */
+  var __collabSessions: CollabSessions | undefined
+}
+/**
+ * COLLAB_PATH matches the path of the WebSocket endpoint used to edit the
+ * content of a Node collaboratively, capturing the id of the Node.
+ */
+export const COLLAB_PATH = /^\/([^/]+)\/collab$/
+/**
+ * SAVE_INTERVAL is the time, in milliseconds, the changes made on a
+ * collaborative editing session wait before being persisted.
+ */
+export const SAVE_INTERVAL = 1000 * 5
+/**
+ * PEER_COLORS are the colors given to the carets of the clients of a
+ * collaborative editing session.
+ */
+export const PEER_COLORS = ["#e6194b", "#3cb44b", "#4363d8", "#f58231", "#911eb4", "#42d4f4", "#f032e6", "#9a6324"]
+/**
+ * CollabSocket is the connection of a client to a collaborative editing
+ * session.
+ */
+export interface CollabSocket {
+  /**
+   * send sends a message to the client.
+   * @param data - Serialized message.
+   */
+  send(data: string): void;
+  /**
+   * close closes the connection.
+   * @param code - WebSocket close code.
+   * @param reason - Reason why the connection is closed.
+   */
+  close(code?: number, reason?: string): void;
+}
+/**
+ * CollabClient is a client connected to a collaborative editing session.
+ */
+interface CollabClient {
+  /**
+   * socket is the connection of the client.
+   */
+  socket: CollabSocket;
+  /**
+   * peer is how the client is shown to the others.
+   */
+  peer: CollabPeer;
+  /**
+   * revision is the latest revision the client made a change, or a
+   * selection, on. Its next changes are never made on an older one.
+   */
+  revision: number;
+}
+/**
+ * CollabSession holds the content of a Node edited by many clients at the
+ * same time. Every change is made on top of a revision of the content, and
+ * it's transformed against the changes applied after that revision before
+ * being applied and relayed to the other clients. The content is persisted
+ * a while after it changes, when a client asks for it, and once the last
+ * client leaves.
+ */
+export class CollabSession {
+  /**
+   * revision is the number of changes applied on the content.
+   */
+  revision = 0
+  /**
+   * history holds the changes applied on the content since `base`, by
+   * revision. Older changes are dropped, since no client can send a change
+   * made before them anymore.
+   */
+  private history: TextOperation[] = []
+  /**
+   * base is the revision the first change of the history was made on.
+   */
+  private base = 0
+  /**
+   * clients are the clients connected to the session, by id.
+   */
+  private clients = new Map<string, CollabClient>()
+  /**
+   * saved is the latest persisted state of the content.
+   */
+  private saved: { revision: number, content: string, version?: number }
+  /**
+   * saving resolves once the latest save is done, so saves never overlap.
+   */
+  private saving: Promise<void> = Promise.resolve()
+  /**
+   * timer is the timeout of the next save.
+   */
+  private timer?: NodeJS.Timeout
+  /**
+   * constructor creates a new session over the content of a Node.
+   * @param id - Node unique identifier.
+   * @param userId - User unique identifier.
+   * @param content - Current content of the Node.
+   * @param version - Current version of the Node.
+   */
+  constructor(readonly id: string, readonly userId: string, public content: string, version?: number) {
+    this.saved = { revision: 0, content, version }
+  }
+  /**
+   * size is the number of clients connected to the session.
+   */
+  get size(): number {
+    return this.clients.size
+  }
+  /**
+   * join adds a client to the session. The client receives the current
+   * content, and the other clients are told about it.
+   * @param socket - Connection of the client.
+   * @param name - Username of the user editing the content.
+   */
+  join(socket: CollabSocket, name: string): string {
+    const used = Array.from(this.clients.values()).map(client => client.peer.color)
+    const color = PEER_COLORS.find(color => !used.includes(color)) || PEER_COLORS[this.clients.size % PEER_COLORS.length]
+    const client: CollabClient = { socket, peer: { clientId: ulid(), name, color }, revision: this.revision }
+    this.send(client, {
+      type: "init",
+      clientId: client.peer.clientId,
+      revision: this.revision,
+      content: this.content,
+      version: this.saved.version,
+      peers: Array.from(this.clients.values()).map(client => client.peer),
+    })
+    this.broadcast({ type: "join", peer: client.peer })
+    this.clients.set(client.peer.clientId, client)
+    return client.peer.clientId
+  }
+  /**
+   * leave removes a client from the session, and persists the content if
+   * it was the last one.
+   * @param clientId - Client unique identifier.
+   */
+  async leave(clientId: string): Promise<void> {
+    if (!this.clients.delete(clientId)) return
+    this.broadcast({ type: "leave", clientId })
+    this.trim()
+    if (this.clients.size === 0) await this.save()
+  }
+  /**
+   * receive handles a message sent by a client. Invalid messages are
+   * answered with an error, and the client is disconnected since its
+   * content can't be trusted anymore.
+   * @param clientId - Client unique identifier.
+   * @param message - Message sent by the client.
+   */
+  async receive(clientId: string, message: CollabMessage): Promise<void> {
+    const client = this.clients.get(clientId)
+    if (!client) return
+    try {
+      switch (message.type) {
+        case "op": return this.apply(client, message)
+        case "selection": return this.select(client, message)
+        case "save": return await this.save(clientId)
+        default: throw new Error(`unknown message type: ${message.type}`)
+      }
+    } catch (err) {
+      this.send(client, { type: "error", message: err.message })
+      client.socket.close(1008, "invalid message")
+      await this.leave(clientId)
+    }
+  }
+  /**
+   * save persists the content, if it changed since the last save, and
+   * tells every client about it. If a client is given, it's told even if
+   * nothing changed, since it's waiting for it. If the Node was modified
+   * outside of the session, the content is reloaded instead.
+   * @param clientId - Unique identifier of the client that asked for it.
+   */
+  save(clientId?: string): Promise<void> {
+    this.saving = this.saving.then(async () => {
+      const client = clientId && this.clients.get(clientId)
+      clearTimeout(this.timer)
+      this.timer = undefined
+      if (this.revision === this.saved.revision) {
+        if (client) this.send(client, this.toSavedMessage())
+        return
+      }
+      const { revision, content } = this
+      try {
+        await repository.update(this.id, { content }, this.userId, this.saved.version)
+        const node = await repository.get(this.id, this.userId)
+        this.saved = { revision, content, version: node.version }
+      } catch (err) {
+        if (err.name !== "PreconditionFailedError") console.error(err)
+        if (client) this.send(client, { type: "error", message: "couldn't save the content" })
+        if (err.name === "PreconditionFailedError") await this.reload()
+        return
+      }
+      this.broadcast(this.toSavedMessage())
+    })
+    return this.saving
+  }
+  /**
+   * reload replaces the content with the persisted one, once the Node was
+   * modified outside of the session. The replacement is applied as any
+   * other change, so the changes the clients are sending are kept on top
+   * of it.
+   */
+  private async reload(): Promise<void> {
+    let node: NodeItem
+    try {
+      node = await repository.get(this.id, this.userId)
+    } catch (err) {
+      console.error(err)
+      return
+    }
+    const operation = TextOperation.fromDiff(this.content, node.content)
+    if (!operation.isNoop()) {
+      this.content = operation.apply(this.content)
+      this.history.push(operation)
+      this.revision++
+      for (let client of this.clients.values()) {
+        if (client.peer.selection) client.peer.selection = operation.transformSelection(client.peer.selection)
+      }
+      this.broadcast({ type: "op", revision: this.revision, ops: operation.toJSON() })
+    }
+    this.saved = { revision: this.revision, content: this.content, version: node.version }
+    this.broadcast(this.toSavedMessage())
+  }
+  /**
+   * apply transforms a change sent by a client against the changes applied
+   * after the revision it was made on, applies it, and relays it to the
+   * other clients.
+   * @param client - Client that sent the change.
+   * @param message - Message with the change.
+   */
+  private apply(client: CollabClient, { revision, ops, selection }: CollabMessage): void {
+    if (!Number.isInteger(revision) || revision < client.revision || revision > this.revision) throw new Error("invalid revision")
+    let operation = TextOperation.fromJSON(ops)
+    // The selection is made on the content of the client, so it's moved by
+    // the same changes.
+    let clientSelection = toSelection(selection, operation.targetLength)
+    for (let concurrent of this.history.slice(revision - this.base)) {
+      const [operationPrime, concurrentPrime] = TextOperation.transform(operation, concurrent)
+      operation = operationPrime
+      if (clientSelection) clientSelection = concurrentPrime.transformSelection(clientSelection)
+    }
+    this.content = operation.apply(this.content)
+    this.history.push(operation)
+    this.revision++
+    for (let other of this.clients.values()) {
+      if (other !== client && other.peer.selection) other.peer.selection = operation.transformSelection(other.peer.selection)
+    }
+    client.peer.selection = clientSelection
+    client.revision = revision
+    this.trim()
+    this.send(client, { type: "ack", revision: this.revision })
+    this.broadcast({ type: "op", clientId: client.peer.clientId, revision: this.revision, ops: operation.toJSON(), selection: client.peer.selection }, client)
+    if (!this.timer) this.timer = setTimeout(() => this.save(), SAVE_INTERVAL)
+  }
+  /**
+   * select updates the selection of a client, and relays it to the others.
+   * The selection is made once every change of the client is applied, so
+   * its revision is the latest one the client knows about.
+   * @param client - Client that moved its selection.
+   * @param message - Message with the selection.
+   */
+  private select(client: CollabClient, { revision, selection }: CollabMessage): void {
+    if (Number.isInteger(revision) && revision >= client.revision && revision <= this.revision) {
+      client.revision = revision
+      this.trim()
+    }
+    client.peer.selection = toSelection(selection, this.content.length)
+    this.broadcast({ type: "selection", clientId: client.peer.clientId, selection: client.peer.selection }, client)
+  }
+  /**
+   * trim drops the changes made before the oldest revision the clients
+   * know about.
+   */
+  private trim(): void {
+    const revisions = Array.from(this.clients.values()).map(client => client.revision)
+    const oldest = Math.min(this.revision, ...revisions)
+    this.history.splice(0, oldest - this.base)
+    this.base = oldest
+  }
+  /**
+   * toSavedMessage returns the message that tells about the latest save.
+   */
+  private toSavedMessage(): CollabMessage {
+    return { type: "saved", ...this.saved }
+  }
+  /**
+   * send sends a message to a client.
+   * @param client - Client that receives the message.
+   * @param message - Message to send.
+   */
+  private send(client: CollabClient, message: CollabMessage): void {
+    client.socket.send(JSON.stringify(message))
+  }
+  /**
+   * broadcast sends a message to every client, except the given one.
+   * @param message - Message to send.
+   * @param except - Client that shouldn't receive the message.
+   */
+  private broadcast(message: CollabMessage, except?: CollabClient): void {
+    for (let client of this.clients.values()) {
+      if (client !== except) this.send(client, message)
+    }
+  }
+}
+/**
+ * CollabSessions holds the collaborative editing sessions open on the
+ * process, one for each edited Node, and connects the clients to them.
+ */
+export class CollabSessions {
+  /**
+   * server handles the WebSocket handshakes of the clients.
+   */
+  private server = new WebSocketServer({ noServer: true })
+  /**
+   * sessions are the open sessions, by user and Node.
+   */
+  private sessions = new Map<string, Promise<CollabSession>>()
+  /**
+   * alive holds the connections that answered the latest ping.
+   */
+  private alive = new WeakSet<WebSocket>()
+  /**
+   * heartbeat is the interval that pings the clients, and drops the ones
+   * that stopped answering.
+   */
+  private heartbeat?: NodeJS.Timeout
+  /**
+   * open returns the session of a Node, creating it if it isn't open.
+   * @param id - Node unique identifier.
+   * @param userId - User unique identifier.
+   */
+  open(id: string, userId: string): Promise<CollabSession> {
+    const key = `${userId}#${id}`
+    let session = this.sessions.get(key)
+    if (!session) {
+      session = repository.get(id, userId).then(node => new CollabSession(id, userId, node.content, node.version))
+      session.catch(() => this.sessions.delete(key))
+      this.sessions.set(key, session)
+    }
+    return session
+  }
+  /**
+   * connect adds a WebSocket connection to the session of a Node.
+   * @param socket - Connection of the client.
+   * @param session - Session of the Node.
+   * @param name - Username of the user editing the content.
+   */
+  connect(socket: WebSocket, session: CollabSession, name: string): void {
+    const clientId = session.join(socket, name)
+    this.alive.add(socket)
+    socket.on("pong", () => this.alive.add(socket))
+    socket.on("message", (data) => {
+      let message: CollabMessage
+      try {
+        message = JSON.parse(String(data))
+      } catch (err) {
+        socket.close(1007, "invalid JSON")
+        return
+      }
+      session.receive(clientId, message)
+    })
+    // Errors, like invalid frames, leave the connection unusable.
+    socket.on("error", async (err) => {
+      console.error(err)
+      socket.terminate()
+      await session.leave(clientId)
+    })
+    socket.on("close", async () => {
+      await session.leave(clientId)
+      const key = `${session.userId}#${session.id}`
+      if (session.size === 0 && await this.sessions.get(key) === session) this.sessions.delete(key)
+    })
+    this.startHeartbeat()
+  }
+  /**
+   * handleUpgrade authenticates a request to edit the content of a Node
+   * collaboratively, and turns it into a WebSocket connection. Requests
+   * made from other sites are rejected, since the browser sends the
+   * session cookie along with them.
+   * @param req - Upgrade request.
+   * @param socket - Network socket of the request.
+   * @param head - First packet of the upgraded stream.
+   */
+  async handleUpgrade(req: IncomingMessage, socket: Socket, head: Buffer): Promise<void> {
+    // The client may drop the connection while the request is authenticated.
+    const onError = () => socket.destroy()
+    socket.on("error", onError)
+    try {
+      const url = parseURL(req.url, `http://${req.headers.host}`)
+      if (!url) return reject(socket, 400)
+      const match = COLLAB_PATH.exec(url.pathname)
+      if (!match) return reject(socket, 404)
+      // Sandboxed pages send a `null` origin, which isn't a URL.
+      if (req.headers.origin && parseURL(req.headers.origin)?.host !== url.host) return reject(socket, 403)
+      const request = new Request(url.toString(), { headers: toHeaders(req.headers) })
+      const userId = await getUserIdFromRequest(request, "write", [match[1]])
+      const user = await usersRepository.get(userId)
+      const session = await this.open(match[1], userId)
+      socket.off("error", onError)
+      this.server.handleUpgrade(req, socket, head, (ws) => this.connect(ws, session, user.username))
+    } catch (err) {
+      const status = statusCodeFor(err)
+      if (status === 500) console.error(err)
+      reject(socket, status)
+    }
+  }
+  /**
+   * startHeartbeat starts pinging the clients, if it isn't already doing it.
+   * It stops once every client is gone.
+   */
+  private startHeartbeat(): void {
+    if (this.heartbeat) return
+    this.heartbeat = setInterval(() => {
+      if (this.server.clients.size === 0) {
+        clearInterval(this.heartbeat)
+        this.heartbeat = undefined
+        return
+      }
+      for (let socket of this.server.clients) {
+        if (!this.alive.has(socket)) {
+          socket.terminate()
+          continue
+        }
+        this.alive.delete(socket)
+        socket.ping()
+      }
+    }, HEARTBEAT_INTERVAL)
+    this.heartbeat.unref()
+  }
+}
+/**
+ * sessions is the process wide instance of the `CollabSessions` class. It's
+ * stored globally so it survives the purge of the require cache done by
+ * the development server on every request.
+ */
+export const sessions: CollabSessions = global.__collabSessions || (global.__collabSessions = new CollabSessions())
+/**
+ * Functions
+ */
+/**
+ * handleUpgrade handles the requests to upgrade a connection to the
+ * WebSocket protocol made to the Express server.
+ * @param req - Upgrade request.
+ * @param socket - Network socket of the request.
+ * @param head - First packet of the upgraded stream.
+ */
+export function handleUpgrade(req: IncomingMessage, socket: Socket, head: Buffer): Promise<void> {
+  return sessions.handleUpgrade(req, socket, head)
+}
+/**
+ * reject answers an upgrade request with an HTTP error, and closes its
+ * socket.
+ * @param socket - Network socket of the request.
+ * @param status - HTTP status code.
+ */
+function reject(socket: Socket, status: number): void {
+  socket.end(`HTTP/1.1 ${status} ${STATUS_CODES[status]}\r\nConnection: close\r\n\r\n`)
+}
+/**
+ * parseURL returns the URL represented by a string, or undefined if it
+ * isn't a valid URL.
+ * @param input - URL, or path relative to `base`.
+ * @param base - Base URL.
+ */
+function parseURL(input: string, base?: string): URL | undefined {
+  try {
+    return new URL(input, base)
+  } catch (err) {
+    return undefined
+  }
+}
+/**
+ * toSelection returns a selection sent by a client, as long as it's within
+ * the content. Invalid selections are ignored.
+ * @param selection - Selection sent by the client.
+ * @param length - Length of the content of the client.
+ */
+function toSelection(selection: unknown, length: number): TextSelection | undefined {
+  if (typeof selection !== "object" || selection === null) return undefined
+  const { anchor, head } = selection as TextSelection
+  const isIndex = (index: number) => Number.isInteger(index) && index >= 0 && index <= length
+  return isIndex(anchor) && isIndex(head) ? { anchor, head } : undefined
+}
+/**
+ * toHeaders returns the headers of a Node.js request as Fetch API headers.
+ * @param headers - Headers of the request.
+ */
+function toHeaders(headers: IncomingMessage["headers"]): Record<string, string> {
+  const result: Record<string, string> = {}
+  for (let [name, value] of Object.entries(headers)) {
+    if (value !== undefined) result[name] = Array.isArray(value) ? value.join(", ") : value
+  }
+  return result
+}
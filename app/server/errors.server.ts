@@ -52,4 +52,162 @@ export class ModelNotFoundError extends Error {
   constructor(message: string = "model not found") {
     super(message)
   }
+}
+/**
+ * UnauthorizedError is the error that should be thrown when a request that
+ * requires a signed in user is made anonymously.
+ */
+export class UnauthorizedError extends Error {
+  /**
+   * name represents the error name
+   */
+  name: string = "UnauthorizedError"
+  /**
+   * constructor creates a new class instance.
+   * @param message - Message that overrides default message.
+   */
+  constructor(message: string = "unauthorized") {
+    super(message)
+  }
+}
+/**
+ * ForbiddenError is the error that should be thrown when the signed in
+ * user isn't allowed to make a request.
+ */
+export class ForbiddenError extends Error {
+  /**
+   * name represents the error name
+   */
+  name: string = "ForbiddenError"
+  /**
+   * constructor creates a new class instance.
+   * @param message - Message that overrides default message.
+   */
+  constructor(message: string = "forbidden") {
+    super(message)
+  }
+}
+/**
+ * ConflictError is the error that should be thrown when a write can't be
+ * applied because the items it depends on were modified concurrently.
+ */
+export class ConflictError extends Error {
+  /**
+   * name represents the error name
+   */
+  name: string = "ConflictError"
+  /**
+   * constructor creates a new class instance.
+   * @param message - Message that overrides default message.
+   */
+  constructor(message: string = "conflicting concurrent modification") {
+    super(message)
+  }
+}
+/**
+ * InvalidMoveError is the error that should be thrown when trying to move
+ * a Node inside itself or inside one of its descendants.
+ */
+export class InvalidMoveError extends Error {
+  /**
+   * name represents the error name
+   */
+  name: string = "InvalidMoveError"
+  /**
+   * constructor creates a new class instance.
+   * @param message - Message that overrides default message.
+   */
+  constructor(message: string = "a node can't be moved inside one of its descendants") {
+    super(message)
+  }
+}
+/**
+ * PreconditionFailedError is the error that should be thrown when a write
+ * is conditioned to a version of a Node that is no longer the current one.
+ */
+export class PreconditionFailedError extends Error {
+  /**
+   * name represents the error name
+   */
+  name: string = "PreconditionFailedError"
+  /**
+   * constructor creates a new class instance.
+   * @param message - Message that overrides default message.
+   */
+  constructor(message: string = "the node was modified by another request") {
+    super(message)
+  }
+}
+/**
+ * InvalidFormatError is the error that should be thrown when a tree of
+ * Nodes is requested, or sent, on a format that isn't supported.
+ */
+export class InvalidFormatError extends Error {
+  /**
+   * name represents the error name
+   */
+  name: string = "InvalidFormatError"
+  /**
+   * constructor creates a new class instance.
+   * @param message - Message that overrides default message.
+   */
+  constructor(message: string = "invalid format") {
+    super(message)
+  }
+}
+/**
+ * InvalidCursorError is the error that should be thrown when a page of a
+ * list is requested after a `Node` that no longer belongs to the list.
+ */
+export class InvalidCursorError extends Error {
+  /**
+   * name represents the error name
+   */
+  name: string = "InvalidCursorError"
+  /**
+   * constructor creates a new class instance.
+   * @param message - Message that overrides default message.
+   */
+  constructor(message: string = "invalid cursor") {
+    super(message)
+  }
+}
+/**
+ * InvalidRequestError is the error that should be thrown when the body, or
+ * the parameters, of an API request are not valid.
+ */
+export class InvalidRequestError extends Error {
+  /**
+   * name represents the error name
+   */
+  name: string = "InvalidRequestError"
+  /**
+   * constructor creates a new class instance.
+   * @param message - Message that overrides default message.
+   */
+  constructor(message: string = "invalid request") {
+    super(message)
+  }
+}
+/**
+ * Functions
+ */
+/**
+ * statusCodeFor returns the HTTP status code that better represents an error.
+ * @param err - Error to translate.
+ * @param defaultStatusCode - Status code used for unknown errors.
+ */
+export function statusCodeFor(err: Error, defaultStatusCode: number = 500): number {
+  switch (err.name) {
+    case "ModelNotFound": return 404
+    case "UnauthorizedError": return 401
+    case "ForbiddenError": return 403
+    case "ConflictError": return 409
+    case "InvalidMoveError": return 400
+    case "PreconditionFailedError": return 412
+    case "InvalidFormatError": return 400
+    case "InvalidCursorError": return 400
+    case "InvalidRequestError": return 400
+    default: return defaultStatusCode
+  }
 }
\ No newline at end of file
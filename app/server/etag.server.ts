@@ -1,2 +1,28 @@
 import etag from "etag"
-export default etag
\ No newline at end of file
+
+import { PreconditionFailedError } from "./errors.server"
+
+export default etag
+/**
+ * Functions
+ */
+/**
+ * versionTag returns the entity tag that identifies a version of a Node.
+ * @param version - Node version.
+ */
+export function versionTag(version: number): string {
+  return `"${version}"`
+}
+/**
+ * parseVersion returns the Node version expected by a request, taken from
+ * its `If-Match` header or its `version` field. It returns `undefined` if
+ * the request accepts any version, and it throws a `PreconditionFailedError`
+ * if the value is not a valid version.
+ * @param value - Value of the `If-Match` header or the `version` field.
+ */
+export function parseVersion(value: string | null): number | undefined {
+  if (value === null || value === "" || value.trim() === "*") return undefined
+  const version = value.trim().replace(/^W\//, "").replace(/^"(.*)"$/, "$1")
+  if (!/^\d+$/.test(version)) throw new PreconditionFailedError(`invalid version = ${value}`)
+  return Number(version)
+}
@@ -0,0 +1,86 @@
+import test from "tape"
+import { ulid } from "ulid"
+import type { Test } from "tape"
+
+import { createEventStream, events, formatEvent, NodesEvents, RECONNECT_DELAY } from "./events.server"
+import { repository } from "../repositories/nodes.server"
+import type { NodesEvent } from "../models/node"
+
+test("NodesEvents", (assert: Test) => {
+  const bus = new NodesEvents()
+  const userId = ulid()
+  const received: NodesEvent[] = []
+  assert.notOk(bus.isWatched(userId), "shouldn't be watched without listeners")
+  const unsubscribe = bus.subscribe(userId, event => received.push(event))
+  assert.ok(bus.isWatched(userId), "should be watched by its listeners")
+  const event: NodesEvent = { type: "delete", id: ulid(), parent: "home" }
+  bus.publish(userId, event)
+  bus.publish(ulid(), { ...event, id: ulid() })
+  assert.deepEqual(received, [event], "should only deliver the events of the user")
+  unsubscribe()
+  assert.notOk(bus.isWatched(userId), "should remove the listener")
+  bus.publish(userId, event)
+  assert.equal(received.length, 1, "shouldn't deliver events after unsubscribing")
+  assert.end()
+})
+
+test("formatEvent()", (assert: Test) => {
+  const event: NodesEvent = { type: "meta", id: "a", parent: "home", meta: { isOpened: true } }
+  assert.equal(formatEvent(event), `data: ${JSON.stringify(event)}\n\n`)
+  assert.equal(formatEvent(event, 3), `id: 3\ndata: ${JSON.stringify(event)}\n\n`)
+  assert.end()
+})
+
+test("createEventStream()", async (assert: Test) => {
+  const event: NodesEvent = { type: "delete", id: ulid(), parent: "home" }
+  let isSubscribed = false
+  const stream = createEventStream((listener) => {
+    isSubscribed = true
+    listener(event)
+    return () => { isSubscribed = false }
+  })
+  assert.ok(isSubscribed, "should subscribe right away")
+  // The messages should start with the reconnection delay.
+  const chunks: string[] = []
+  stream.on("data", chunk => chunks.push(String(chunk)))
+  await new Promise<void>(resolve => setImmediate(resolve))
+  assert.equal(chunks.join(""), `retry: ${RECONNECT_DELAY}\n\n${formatEvent(event, 1)}`)
+  // Closing the stream should stop listening.
+  stream.destroy()
+  await new Promise<void>(resolve => setImmediate(resolve))
+  assert.notOk(isSubscribed, "should unsubscribe once closed")
+  assert.end()
+})
+
+test("NodesRepository.watch()", async (assert: Test) => {
+  const userId = ulid()
+  const root = await repository.put({ id: ulid(), content: ulid(), userId })
+  const sibling = await repository.put({ id: ulid(), content: ulid(), userId })
+  const received: NodesEvent[] = []
+  const everything: NodesEvent[] = []
+  const unwatch = repository.watch(root.id, userId, event => received.push(event))
+  const unwatchHome = repository.watch("home", userId, event => everything.push(event))
+  // Changes under the watched Node should be delivered.
+  const child = await repository.put({ id: ulid(), content: ulid(), userId, parent: root.id })
+  await repository.update(child.id, { content: "updated" }, userId)
+  await repository.meta(child.id, { isOpened: true }, userId)
+  await repository.after(child.id, sibling.id, undefined, userId)
+  await repository.after(child.id, root.id, undefined, userId)
+  await repository.delete(child.id, userId)
+  // Changes outside of it shouldn't.
+  await repository.update(sibling.id, { content: "updated" }, userId)
+  await new Promise<void>(resolve => setTimeout(resolve, 10))
+  unwatch()
+  unwatchHome()
+  assert.deepEqual(received.map(event => event.type), ["add", "update", "meta", "move", "move", "delete"], "should deliver the changes in order")
+  assert.deepEqual(received.map(event => event.parent), [root.id, root.id, root.id, sibling.id, root.id, root.id])
+  assert.equal(received[1].node?.content, "updated", "should send the updated Node")
+  assert.equal(received[1].node?.version, 2, "should send the new version")
+  assert.deepEqual(received[2].meta, { isOpened: true }, "should send the metadata patch")
+  assert.equal(received[3].from, root.id, "should send the previous parent")
+  assert.equal(received[3].afterId, null, "should send the new position")
+  assert.equal(everything.length, 7, "should deliver every change when watching the home Node")
+  assert.equal(everything[6].id, sibling.id)
+  assert.notOk(events.isWatched(userId), "should stop watching")
+  assert.end()
+})
@@ -0,0 +1,143 @@
+import { EventEmitter } from "events"
+import { PassThrough } from "stream"
+import type { Readable } from "stream"
+
+import type { NodesEvent } from "../models/node"
+
+declare global {
+  /**
+   * __nodesEvents holds the process wide `NodesEvents` instance.
+   */
+  var __nodesEvents: NodesEvents | undefined
+}
+/**
+ * HEARTBEAT_INTERVAL is the time, in milliseconds, between the comments
+ * sent on an idle event stream to keep proxies from closing it.
+ */
+export const HEARTBEAT_INTERVAL = 1000 * 30
+/**
+ * RECONNECT_DELAY is the time, in milliseconds, the browser waits before
+ * opening an event stream again after losing it.
+ */
+export const RECONNECT_DELAY = 1000 * 5
+/**
+ * EVENT_STREAM_HEADERS are the headers of an event stream response. The
+ * `no-transform` directive keeps the compression middleware from buffering
+ * the events.
+ */
+export const EVENT_STREAM_HEADERS = {
+  "Content-Type": "text/event-stream; charset=utf-8",
+  "Cache-Control": "no-cache, no-transform",
+  "Connection": "keep-alive",
+  "X-Accel-Buffering": "no",
+}
+/**
+ * NodesEventListener is a function called with every change made on the
+ * `Nodes` of a user.
+ */
+export type NodesEventListener = (event: NodesEvent) => void
+/**
+ * NodesEvents delivers the changes made on the `Nodes` of each user to the
+ * listeners of that user. Events only reach the listeners of the process
+ * where the change was made.
+ */
+export class NodesEvents {
+  /**
+   * emitter holds the listeners, using the `userId` as the event name.
+   */
+  private emitter = new EventEmitter()
+
+  constructor() {
+    // Every open page adds a listener, so there's no sensible limit.
+    this.emitter.setMaxListeners(0)
+  }
+  /**
+   * subscribe adds a listener for the changes made on the `Nodes` of a
+   * user. It returns a function that removes it.
+   * @param userId - User unique identifier.
+   * @param listener - Function to call with each change.
+   */
+  subscribe(userId: string, listener: NodesEventListener): () => void {
+    this.emitter.on(userId, listener)
+    return () => {
+      this.emitter.off(userId, listener)
+    }
+  }
+  /**
+   * publish sends a change made on the `Nodes` of a user to its listeners.
+   * @param userId - User unique identifier.
+   * @param event - Change to send.
+   */
+  publish(userId: string, event: NodesEvent): void {
+    this.emitter.emit(userId, event)
+  }
+  /**
+   * isWatched checks if a user has listeners, so changes are only turned
+   * into events when someone is going to receive them.
+   * @param userId - User unique identifier.
+   */
+  isWatched(userId: string): boolean {
+    return this.emitter.listenerCount(userId) > 0
+  }
+}
+/**
+ * EventStream is a stream of Server-Sent Events that is destroyed once the
+ * response it's piped to is closed, since it never ends by itself.
+ */
+class EventStream extends PassThrough {
+  /**
+   * pipe sends the events to a response, and destroys the stream once the
+   * response is closed.
+   * @param destination - Response that receives the events.
+   * @param options - Pipe options.
+   */
+  pipe<T extends NodeJS.WritableStream>(destination: T, options?: { end?: boolean }): T {
+    destination.once("close", () => this.destroy())
+    return super.pipe(destination, options)
+  }
+}
+/**
+ * events is the process wide instance of the `NodesEvents` class. It's
+ * stored globally so it survives the purge of the require cache done by
+ * the development server on every request.
+ */
+export const events: NodesEvents = global.__nodesEvents || (global.__nodesEvents = new NodesEvents())
+/**
+ * Functions
+ */
+/**
+ * formatEvent returns a change as a Server-Sent Event message.
+ * @param event - Change to format.
+ * @param id - Identifier of the message on the stream.
+ */
+export function formatEvent(event: NodesEvent, id?: number): string {
+  return `${id === undefined ? "" : `id: ${id}\n`}data: ${JSON.stringify(event)}\n\n`
+}
+/**
+ * createEventStream returns a stream of Server-Sent Events. It starts
+ * listening for changes through the `subscribe` function, and stops once
+ * the response it's piped to is closed, or the `signal` is aborted.
+ * @param subscribe - Function that adds a listener, and returns a function
+ *                    that removes it.
+ * @param signal - Signal aborted when the request is closed.
+ */
+export function createEventStream(subscribe: (listener: NodesEventListener) => () => void, signal?: AbortSignal): Readable {
+  const stream = new EventStream()
+  let count = 0
+  stream.write(`retry: ${RECONNECT_DELAY}\n\n`)
+  const unsubscribe = subscribe((event) => {
+    stream.write(formatEvent(event, ++count))
+  })
+  const heartbeat = setInterval(() => stream.write(": heartbeat\n\n"), HEARTBEAT_INTERVAL)
+  let isClosed = false
+  const close = () => {
+    if (isClosed) return
+    isClosed = true
+    clearInterval(heartbeat)
+    unsubscribe()
+    stream.end()
+  }
+  stream.on("close", close)
+  signal?.addEventListener("abort", close)
+  return stream
+}
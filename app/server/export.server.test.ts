@@ -0,0 +1,94 @@
+import test from "tape"
+import type { Test } from "tape"
+
+import { exportNodes, toJSON, toMarkdown, toOPML } from "./export.server"
+import type { NodeItem } from "../models/node"
+
+const tree: NodeItem = {
+  id: "001",
+  content: "Groceries\nFor the week",
+  collection: [
+    { id: "011", content: JSON.stringify({ content: "Milk", meta: { done: true } }), interpreter: "task" },
+    { id: "012", content: JSON.stringify({ content: "Bread & \"butter\"", meta: { done: false } }), interpreter: "task" },
+    {
+      id: "013",
+      content: "Recipes",
+      meta: { isOpened: false },
+      collection: [
+        { id: "131", content: JSON.stringify({ content: "const a = `b`\nconsole.log(a)", meta: { language: "js", filename: "index.js" } }), interpreter: "code" },
+      ],
+    },
+  ],
+}
+
+test("exportNodes()", async (assert: Test) => {
+  assert.deepEqual(
+    (({ contentType, filename }) => ({ contentType, filename }))(exportNodes(tree, "markdown")),
+    { contentType: "text/markdown; charset=utf-8", filename: "groceries.md" }
+  )
+  assert.equal(exportNodes(tree, "opml").filename, "groceries.opml")
+  assert.equal(exportNodes({ id: "home", content: "Home Node", collection: [] }, "json").filename, "home.json")
+  assert.throws(() => exportNodes(tree, "docx"), /invalid format/)
+  // End
+  assert.end()
+})
+
+test("toMarkdown()", async (assert: Test) => {
+  assert.equal(toMarkdown(tree), [
+    "- Groceries",
+    "  For the week",
+    "  - [x] Milk",
+    "  - [ ] Bread & \"butter\"",
+    "  - Recipes",
+    "    - ```js index.js",
+    "      const a = `b`",
+    "      console.log(a)",
+    "      ```",
+    "",
+  ].join("\n"))
+  // The "home" pseudo-node should only export its sub-nodes.
+  assert.equal(toMarkdown({ id: "home", content: "Home Node", collection: [{ id: "001", content: "" }] }), "-\n")
+  // End
+  assert.end()
+})
+
+test("toOPML()", async (assert: Test) => {
+  const now = Date.UTC(2021, 0, 1)
+  assert.equal(toOPML(tree, now), [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<opml version="2.0">`,
+    `  <head>`,
+    `    <title>Groceries</title>`,
+    `    <dateCreated>Fri, 01 Jan 2021 00:00:00 GMT</dateCreated>`,
+    `  </head>`,
+    `  <body>`,
+    `    <outline text="Groceries" _note="For the week">`,
+    `      <outline text="Milk" _interpreter="task" _complete="true"/>`,
+    `      <outline text="Bread &amp; &quot;butter&quot;" _interpreter="task"/>`,
+    `      <outline text="Recipes">`,
+    `        <outline text="index.js" _note="const a = \`b\`&#10;console.log(a)" _interpreter="code" _language="js" _filename="index.js"/>`,
+    `      </outline>`,
+    `    </outline>`,
+    `  </body>`,
+    `</opml>`,
+    ``,
+  ].join("\n"))
+  // End
+  assert.end()
+})
+
+test("toJSON()", async (assert: Test) => {
+  const document = JSON.parse(toJSON(tree, 1))
+  assert.equal(document.format, "renodes")
+  assert.equal(document.version, 1)
+  assert.equal(document.exportedAt, 1)
+  // The document should keep the raw content, interpreter and meta of every Node.
+  assert.deepEqual(document.node.collection[2], {
+    id: "013",
+    content: "Recipes",
+    meta: { isOpened: false },
+    collection: [{ id: "131", content: tree.collection[2].collection[0].content, interpreter: "code", collection: [] }],
+  })
+  // End
+  assert.end()
+})
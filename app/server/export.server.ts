@@ -0,0 +1,250 @@
+import { parse, toTitle } from "../hooks/useParsedContent"
+import { InvalidFormatError } from "./errors.server"
+import type { ParsedContent } from "../hooks/useParsedContent"
+import type { NodeItem, NodeMeta } from "../models/node"
+
+/**
+ * DOCUMENT_VERSION is the version of the JSON documents created by `toJSON`.
+ */
+export const DOCUMENT_VERSION = 1
+/**
+ * NodesExport is the result of exporting a tree of Nodes.
+ */
+export interface NodesExport {
+  /**
+   * body is the exported document.
+   */
+  body: string;
+  /**
+   * contentType is the media type of the document.
+   */
+  contentType: string;
+  /**
+   * filename is the suggested name of the downloaded file.
+   */
+  filename: string;
+}
+/**
+ * NodesDocument is the lossless JSON representation of a tree of Nodes.
+ */
+export interface NodesDocument {
+  /**
+   * format identifies the document as a ReNodes export.
+   */
+  format: "renodes";
+  /**
+   * version is the version of the structure of the document.
+   */
+  version: number;
+  /**
+   * exportedAt is the time, in milliseconds, at which the document was created.
+   */
+  exportedAt: number;
+  /**
+   * node is the root of the exported tree.
+   */
+  node: NodesDocumentItem;
+}
+/**
+ * NodesDocumentItem is a Node as stored on a `NodesDocument`.
+ */
+export interface NodesDocumentItem {
+  /**
+   * id is the unique identifier of the Node.
+   */
+  id: string;
+  /**
+   * content is the raw content of the Node.
+   */
+  content: string;
+  /**
+   * interpreter is the name of the interpreter of the Node.
+   */
+  interpreter?: string;
+  /**
+   * meta is the metadata of the Node.
+   */
+  meta?: NodeMeta;
+  /**
+   * createdAt is the time, in milliseconds, at which the Node was created.
+   */
+  createdAt?: number;
+  /**
+   * updatedAt is the time, in milliseconds, of the latest change of the Node.
+   */
+  updatedAt?: number;
+  /**
+   * collection are the sub-nodes of the Node, in order.
+   */
+  collection: NodesDocumentItem[];
+}
+/**
+ * Functions
+ */
+/**
+ * exportNodes converts a Node, along with its sub-nodes, to a document on
+ * the given format.
+ * @param node - Root of the tree to export.
+ * @param format - Format of the document.
+ */
+export function exportNodes(node: NodeItem, format: string): NodesExport {
+  const name = toFilename(node)
+  switch (format) {
+    case "markdown": return { body: toMarkdown(node), contentType: "text/markdown; charset=utf-8", filename: name + ".md" }
+    case "opml": return { body: toOPML(node), contentType: "text/x-opml; charset=utf-8", filename: name + ".opml" }
+    case "json": return { body: toJSON(node), contentType: "application/json; charset=utf-8", filename: name + ".json" }
+    default: throw new InvalidFormatError(`invalid format = ${format}`)
+  }
+}
+/**
+ * toMarkdown converts a tree of Nodes to a nested Markdown list. The Node
+ * itself is the top item of the list, unless it's the "home" pseudo-node,
+ * in which case its sub-nodes are. Code Nodes become fenced blocks and
+ * task Nodes become task list items.
+ * @param node - Root of the tree to export.
+ */
+export function toMarkdown(node: NodeItem): string {
+  const nodes = node.id === "home" ? node.collection || [] : [node]
+  return nodes.map(node => toMarkdownItem(node, 0)).join("\n") + "\n"
+}
+/**
+ * toOPML converts a tree of Nodes to an OPML 2.0 document. The first line
+ * of the content of each Node is its `text`, and the rest of it its
+ * `_note`. The interpreter and the attributes of code and task Nodes are
+ * kept as extra attributes.
+ * @param node - Root of the tree to export.
+ * @param now - Time of the export, in milliseconds.
+ */
+export function toOPML(node: NodeItem, now: number = Date.now()): string {
+  const nodes = node.id === "home" ? node.collection || [] : [node]
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<opml version="2.0">`,
+    `  <head>`,
+    `    <title>${escapeXML(node.id === "home" ? "Home" : toTitle(node.content))}</title>`,
+    `    <dateCreated>${new Date(now).toUTCString()}</dateCreated>`,
+    `  </head>`,
+    `  <body>`,
+    ...nodes.map(node => toOPMLOutline(node, 2)),
+    `  </body>`,
+    `</opml>`,
+  ].join("\n") + "\n"
+}
+/**
+ * toJSON converts a tree of Nodes to a `NodesDocument`, keeping the raw
+ * content, the interpreter and the metadata of every Node.
+ * @param node - Root of the tree to export.
+ * @param now - Time of the export, in milliseconds.
+ */
+export function toJSON(node: NodeItem, now: number = Date.now()): string {
+  const document: NodesDocument = { format: "renodes", version: DOCUMENT_VERSION, exportedAt: now, node: toDocumentItem(node) }
+  return JSON.stringify(document, null, 2) + "\n"
+}
+/**
+ * toMarkdownItem converts a Node, and its sub-nodes, to a Markdown list
+ * item indented to the given depth.
+ * @param node - Node to convert.
+ * @param depth - Depth of the item on the list.
+ */
+function toMarkdownItem(node: NodeItem, depth: number): string {
+  const indent = "  ".repeat(depth)
+  let lines: string[]
+  switch (node.interpreter) {
+    case "code": {
+      const parsed = parse(node.content, { content: "", meta: { language: "", filename: "" } })
+      const fence = "`".repeat(Math.max(3, ...(parsed.content.match(/`+/g) || []).map(ticks => ticks.length + 1)))
+      const info = [parsed.meta?.language, parsed.meta?.filename].filter(Boolean).join(" ")
+      lines = [fence + info, ...parsed.content.split("\n"), fence]
+      break
+    }
+    case "task": {
+      const parsed = parse(node.content, { content: "", meta: { done: false } })
+      lines = parsed.content.split("\n")
+      lines[0] = (parsed.meta?.done ? "[x] " : "[ ] ") + lines[0]
+      break
+    }
+    default:
+      lines = parse(node.content, { content: "" }).content.split("\n")
+  }
+  return [
+    `${indent}- ${lines[0]}`.trimEnd(),
+    ...lines.slice(1).map(line => line === "" ? "" : `${indent}  ${line}`),
+    ...(node.collection || []).map(child => toMarkdownItem(child, depth + 1)),
+  ].join("\n")
+}
+/**
+ * toOPMLOutline converts a Node, and its sub-nodes, to an OPML outline
+ * element indented to the given depth.
+ * @param node - Node to convert.
+ * @param depth - Depth of the element on the document.
+ */
+function toOPMLOutline(node: NodeItem, depth: number): string {
+  const indent = "  ".repeat(depth)
+  const parsed = parse<ParsedContent>(node.content, { content: "", meta: {} })
+  const attributes: [string, string][] = []
+  if (node.interpreter === "code") {
+    attributes.push(["text", parsed.meta?.filename || parsed.meta?.language || "Code"], ["_note", parsed.content])
+  } else {
+    const [text, ...note] = parsed.content.split("\n")
+    attributes.push(["text", text])
+    if (note.length > 0) attributes.push(["_note", note.join("\n")])
+  }
+  if (node.interpreter) attributes.push(["_interpreter", node.interpreter])
+  if (node.interpreter === "code" && parsed.meta?.language) attributes.push(["_language", parsed.meta.language])
+  if (node.interpreter === "code" && parsed.meta?.filename) attributes.push(["_filename", parsed.meta.filename])
+  if (node.interpreter === "task" && parsed.meta?.done) attributes.push(["_complete", "true"])
+  const element = `${indent}<outline ${attributes.map(([name, value]) => `${name}="${escapeXML(value)}"`).join(" ")}`
+  const collection = node.collection || []
+  if (collection.length === 0) return element + "/>"
+  return [
+    element + ">",
+    ...collection.map(child => toOPMLOutline(child, depth + 1)),
+    `${indent}</outline>`,
+  ].join("\n")
+}
+/**
+ * toDocumentItem converts a Node, and its sub-nodes, to a `NodesDocumentItem`.
+ * @param node - Node to convert.
+ */
+function toDocumentItem(node: NodeItem): NodesDocumentItem {
+  return {
+    id: node.id,
+    content: node.content,
+    interpreter: node.interpreter,
+    meta: node.meta,
+    createdAt: node.createdAt,
+    updatedAt: node.updatedAt,
+    collection: (node.collection || []).map(toDocumentItem),
+  }
+}
+/**
+ * toFilename returns the name, without extension, of the file of an
+ * exported Node, taken from its title.
+ * @param node - Root of the exported tree.
+ */
+function toFilename(node: NodeItem): string {
+  if (node.id === "home") return "home"
+  const name = toTitle(node.content)
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 64)
+  return name || node.id
+}
+/**
+ * escapeXML escapes a value to be used as the text or an attribute of an
+ * XML element. Line breaks are kept as character references.
+ * @param value - Value to escape.
+ */
+function escapeXML(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/\r/g, "")
+    .replace(/\n/g, "&#10;")
+    .replace(/\t/g, "&#9;")
+}
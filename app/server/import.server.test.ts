@@ -0,0 +1,108 @@
+import test from "tape"
+import type { Test } from "tape"
+
+import { fromJSON, fromMarkdown, fromOPML, importNodes, MAX_IMPORT_NODES } from "./import.server"
+import { toJSON, toMarkdown, toOPML } from "./export.server"
+import { InvalidFormatError } from "./errors.server"
+import type { NodeItem } from "../models/node"
+
+const tree: NodeItem = {
+  id: "001",
+  content: "Groceries\nFor the week",
+  collection: [
+    { id: "011", content: JSON.stringify({ content: "Milk", meta: { done: true } }), interpreter: "task" },
+    { id: "012", content: JSON.stringify({ content: "Bread & \"butter\"", meta: { done: false } }), interpreter: "task" },
+    {
+      id: "013",
+      content: "Recipes",
+      collection: [
+        { id: "131", content: JSON.stringify({ content: "const a = `b`\n\n- not a node", meta: { language: "js", filename: "index.js" } }), interpreter: "code" },
+      ],
+    },
+  ],
+}
+
+test("importNodes()", async (assert: Test) => {
+  // The format should be guessed from the document.
+  assert.equal(importNodes("- a")[0].content, "a")
+  assert.equal(importNodes(toOPML(tree))[0].content, "Groceries\nFor the week")
+  assert.equal(importNodes(toJSON(tree))[0].content, "Groceries\nFor the week")
+  assert.throws(() => importNodes("- a", "docx"), /invalid format/)
+  assert.throws(() => importNodes("- a\n".repeat(MAX_IMPORT_NODES + 1)), /can't import more than/)
+  // End
+  assert.end()
+})
+
+test("fromMarkdown()", async (assert: Test) => {
+  const nodes = fromMarkdown([
+    "# Title",
+    "",
+    "- First",
+    "  continues here",
+    "  * Nested",
+    "    1. Deeper",
+    "- [x] Done",
+    "- ```py script.py",
+    "  print(1)",
+    "",
+    "  - still code",
+    "  ```",
+    "-",
+  ].join("\n"))
+  assert.deepEqual(withoutIds(nodes), [
+    { content: "# Title", collection: [] },
+    {
+      content: "First\ncontinues here",
+      collection: [{ content: "Nested", collection: [{ content: "Deeper", collection: [] }] }],
+    },
+    { content: JSON.stringify({ content: "Done", meta: { done: true } }), interpreter: "task", collection: [] },
+    { content: JSON.stringify({ content: "print(1)\n\n- still code", meta: { language: "py", filename: "script.py" } }), interpreter: "code", collection: [] },
+    { content: "", collection: [] },
+  ])
+  // Sub-nodes should point to their parent.
+  assert.equal(nodes[1].parent, undefined)
+  assert.equal(nodes[1].collection[0].parent, nodes[1].id)
+  // The Markdown export should be imported back.
+  assert.deepEqual(withoutIds(fromMarkdown(toMarkdown(tree))), withoutIds([tree]))
+  // End
+  assert.end()
+})
+
+test("fromOPML()", async (assert: Test) => {
+  assert.deepEqual(withoutIds(fromOPML(toOPML(tree))), withoutIds([tree]))
+  // Completed outlines of other outliners should become tasks.
+  const nodes = fromOPML(`<?xml version="1.0"?><opml version="2.0"><head/><body><outline text='Done' _complete="true"/></body></opml>`)
+  assert.deepEqual(withoutIds(nodes), [
+    { content: JSON.stringify({ content: "Done", meta: { done: true } }), interpreter: "task", collection: [] },
+  ])
+  assert.throws(() => fromOPML("<html></html>"), /invalid OPML document/)
+  assert.throws(() => fromOPML(`<opml><body></outline></body></opml>`), /invalid OPML document/)
+  assert.throws(() => fromOPML(`<opml><body><outline text="&#99999999;"/></body></opml>`), /invalid OPML document/)
+  assert.throws(() => fromOPML(`<opml><body><outline text="&#x110000;"/></body></opml>`), InvalidFormatError)
+  // End
+  assert.end()
+})
+
+test("fromJSON()", async (assert: Test) => {
+  const nodes = fromJSON(toJSON(tree))
+  assert.deepEqual(withoutIds(nodes), withoutIds([tree]))
+  // Every Node should get a new unique identifier.
+  assert.notEqual(nodes[0].id, tree.id)
+  // The "home" pseudo-node should only import its sub-nodes.
+  assert.deepEqual(withoutIds(fromJSON(toJSON({ id: "home", content: "Home Node", collection: [tree] }))), withoutIds([tree]))
+  assert.throws(() => fromJSON("{"), /invalid JSON document/)
+  assert.throws(() => fromJSON(`[{ "content": 1 }]`), /content must be a string/)
+  // End
+  assert.end()
+})
+/**
+ * Functions
+ */
+/**
+ * withoutIds removes the unique identifiers, which are created on import,
+ * from a list of Nodes and their sub-nodes.
+ * @param nodes - Nodes to clean.
+ */
+function withoutIds(nodes: NodeItem[]): any[] {
+  return nodes.map(({ id, parent, collection, ...node }) => ({ ...node, collection: withoutIds(collection || []) }))
+}
@@ -0,0 +1,288 @@
+import { ulid } from "ulid"
+
+import { InvalidFormatError } from "./errors.server"
+import type { NodeItem, NodeMeta } from "../models/node"
+
+/**
+ * MAX_IMPORT_NODES is the maximum number of Nodes that can be imported at once.
+ */
+export const MAX_IMPORT_NODES = 5000
+/**
+ * LIST_ITEM matches a Markdown list item, capturing its indentation, its
+ * marker and its content.
+ */
+const LIST_ITEM = /^( *)([-*+]|\d+[.)])(?: (.*)|)$/
+/**
+ * FENCE matches the opening, or closing, line of a fenced code block.
+ */
+const FENCE = /^(`{3,}|~{3,})\s*(.*)$/
+/**
+ * TASK matches the checkbox at the start of a task list item.
+ */
+const TASK = /^\[([ xX])\](?: (.*)|)$/
+/**
+ * MarkdownItem is a list item being parsed from a Markdown outline.
+ */
+interface MarkdownItem {
+  /**
+   * indent is the column of the list marker of the item.
+   */
+  indent: number;
+  /**
+   * contentIndent is the column at which the content of the item starts.
+   */
+  contentIndent: number;
+  /**
+   * lines are the lines of the content of the item.
+   */
+  lines: string[];
+  /**
+   * fence is the fence of the code block the item is currently in, if any.
+   */
+  fence?: string;
+  /**
+   * children are the sub-items of the item.
+   */
+  children: MarkdownItem[];
+}
+/**
+ * Functions
+ */
+/**
+ * importNodes parses a document on the given format and returns the Nodes
+ * it describes, with new unique identifiers. The `parent` of the returned
+ * Nodes is left undefined, while the one of their sub-nodes is set. If no
+ * format is given, it's guessed from the document.
+ * @param document - Document to parse.
+ * @param format - Format of the document.
+ */
+export function importNodes(document: string, format?: string): NodeItem[] {
+  const trimmed = document.trim()
+  format = format || (trimmed.startsWith("{") ? "json" : trimmed.startsWith("<") ? "opml" : "markdown")
+  let nodes: NodeItem[]
+  switch (format) {
+    case "markdown": nodes = fromMarkdown(document); break
+    case "opml": nodes = fromOPML(document); break
+    case "json": nodes = fromJSON(document); break
+    default: throw new InvalidFormatError(`invalid format = ${format}`)
+  }
+  if (countNodes(nodes) > MAX_IMPORT_NODES) throw new InvalidFormatError(`can't import more than ${MAX_IMPORT_NODES} nodes at once`)
+  return nodes
+}
+/**
+ * fromMarkdown parses a nested Markdown list. Every list item becomes a
+ * Node, and the items nested under it its sub-nodes. Items that only
+ * hold a fenced code block become code Nodes, and task list items become
+ * task Nodes. Lines found outside of a list become Nodes as well.
+ * @param document - Markdown document.
+ */
+export function fromMarkdown(document: string): NodeItem[] {
+  const root: MarkdownItem = { indent: -1, contentIndent: 0, lines: [], children: [] }
+  const stack: MarkdownItem[] = [root]
+  for (let line of document.replace(/\r\n?/g, "\n").replace(/\t/g, "    ").split("\n")) {
+    const top = stack[stack.length - 1]
+    const indent = line.length - line.trimStart().length
+    // Lines inside a code block belong to it, no matter what they look like.
+    if (top.fence !== undefined && (line.trim() === "" || indent >= top.contentIndent)) {
+      const content = line.slice(Math.min(indent, top.contentIndent))
+      top.lines.push(content)
+      if (content.trim().startsWith(top.fence) && content.trim().replace(/[`~]/g, "") === "") top.fence = undefined
+      continue
+    }
+    if (line.trim() === "") {
+      if (top !== root) top.lines.push("")
+      continue
+    }
+    const match = line.match(LIST_ITEM)
+    let item: MarkdownItem
+    if (match) {
+      const content = match[3] || ""
+      item = { indent, contentIndent: indent + match[2].length + 1, lines: [content], children: [] }
+    } else {
+      while (stack.length > 1 && stack[stack.length - 1].contentIndent > indent) stack.pop()
+      const current = stack[stack.length - 1]
+      if (current !== root) {
+        current.lines.push(line.slice(current.contentIndent))
+        current.fence = openFence(line.slice(current.contentIndent), current.fence)
+        continue
+      }
+      // Text outside of a list is kept as a top level Node.
+      item = { indent, contentIndent: indent, lines: [line.trim()], children: [] }
+    }
+    while (stack.length > 1 && stack[stack.length - 1].indent >= item.indent) stack.pop()
+    stack[stack.length - 1].children.push(item)
+    stack.push(item)
+    item.fence = openFence(item.lines[0])
+  }
+  return toNodes(root.children)
+}
+/**
+ * fromOPML parses an OPML document. Every `outline` element becomes a
+ * Node, with its `text` as the first line of the content and its `_note`
+ * as the rest of it. The attributes added by the OPML export restore the
+ * interpreter of code and task Nodes, and completed outlines become task
+ * Nodes.
+ * @param document - OPML document.
+ */
+export function fromOPML(document: string): NodeItem[] {
+  const start = document.search(/<body[\s>]/)
+  const end = document.lastIndexOf("</body>")
+  if (!/<opml[\s>]/.test(document) || start === -1) throw new InvalidFormatError("invalid OPML document")
+  const body = document.slice(start, end === -1 ? undefined : end).replace(/<!--[\s\S]*?-->/g, "")
+  const root: NodeItem = { id: "", content: "", collection: [] }
+  const stack: NodeItem[] = [root]
+  for (let tag of body.match(/<\/?outline\b(?:"[^"]*"|'[^']*'|[^>"'])*>/g) || []) {
+    if (tag.startsWith("</")) {
+      if (stack.length === 1) throw new InvalidFormatError("invalid OPML document")
+      stack.pop()
+      continue
+    }
+    const parent = stack[stack.length - 1]
+    const node = fromOutline(parseAttributes(tag), parent === root ? undefined : parent.id)
+    parent.collection.push(node)
+    if (!tag.endsWith("/>")) stack.push(node)
+  }
+  return root.collection
+}
+/**
+ * fromJSON parses a document created by the JSON export. The Node of the
+ * document is imported along with its sub-nodes, unless it's the "home"
+ * pseudo-node, in which case only its sub-nodes are. A plain list of
+ * Nodes is accepted as well.
+ * @param document - JSON document.
+ */
+export function fromJSON(document: string): NodeItem[] {
+  let value: any
+  try {
+    value = JSON.parse(document)
+  } catch (err) {
+    throw new InvalidFormatError(`invalid JSON document: ${err.message}`)
+  }
+  let items: any[]
+  if (Array.isArray(value)) {
+    items = value
+  } else if (value && value.format === "renodes" && value.node && typeof value.node === "object") {
+    items = value.node.id === "home" ? value.node.collection || [] : [value.node]
+  } else {
+    throw new InvalidFormatError("invalid JSON document")
+  }
+  return fromDocumentItems(items)
+}
+/**
+ * toNodes converts a list of parsed Markdown items to Nodes.
+ * @param items - Parsed Markdown items.
+ * @param parent - Unique identifier of the parent of the Nodes.
+ */
+function toNodes(items: MarkdownItem[], parent?: string): NodeItem[] {
+  return items.map(item => {
+    const lines = [...item.lines]
+    while (lines.length > 1 && lines[lines.length - 1].trim() === "") lines.pop()
+    const node: NodeItem = { id: ulid(), content: lines.join("\n") }
+    if (parent !== undefined) node.parent = parent
+    const fence = lines[0].match(FENCE)
+    const task = lines[0].match(TASK)
+    if (fence && lines.length > 1 && lines[lines.length - 1].trim().startsWith(fence[1]) && lines[lines.length - 1].trim().replace(/[`~]/g, "") === "") {
+      const [language = "", ...filename] = fence[2].trim().split(/\s+/)
+      node.interpreter = "code"
+      node.content = JSON.stringify({ content: lines.slice(1, -1).join("\n"), meta: { language, filename: filename.join(" ") } })
+    } else if (task) {
+      node.interpreter = "task"
+      node.content = JSON.stringify({ content: [task[2] || "", ...lines.slice(1)].join("\n"), meta: { done: task[1] !== " " } })
+    }
+    node.collection = toNodes(item.children, node.id)
+    return node
+  })
+}
+/**
+ * fromOutline creates a Node from the attributes of an OPML `outline` element.
+ * @param attributes - Attributes of the element.
+ * @param parent - Unique identifier of the parent of the Node.
+ */
+function fromOutline(attributes: Record<string, string>, parent?: string): NodeItem {
+  const text = attributes.text || ""
+  const note = attributes._note
+  const interpreter = attributes._interpreter || (attributes._complete !== undefined ? "task" : undefined)
+  const node: NodeItem = { id: ulid(), content: note === undefined ? text : `${text}\n${note}`, collection: [] }
+  if (parent !== undefined) node.parent = parent
+  if (interpreter === "code") {
+    node.interpreter = "code"
+    node.content = JSON.stringify({ content: note || "", meta: { language: attributes._language || "", filename: attributes._filename || "" } })
+  } else if (interpreter === "task") {
+    node.interpreter = "task"
+    node.content = JSON.stringify({ content: node.content, meta: { done: attributes._complete === "true" } })
+  } else if (interpreter) {
+    node.interpreter = interpreter
+  }
+  return node
+}
+/**
+ * fromDocumentItems converts the items of a JSON document to Nodes with
+ * new unique identifiers.
+ * @param items - Items of the document.
+ * @param parent - Unique identifier of the parent of the Nodes.
+ */
+function fromDocumentItems(items: any[], parent?: string): NodeItem[] {
+  if (!Array.isArray(items)) throw new InvalidFormatError("invalid JSON document: collection must be a list")
+  return items.map(item => {
+    if (!item || typeof item.content !== "string") throw new InvalidFormatError("invalid JSON document: content must be a string")
+    const node: NodeItem = { id: ulid(), content: item.content }
+    if (parent !== undefined) node.parent = parent
+    if (typeof item.interpreter === "string") node.interpreter = item.interpreter
+    if (item.meta && typeof item.meta === "object") node.meta = item.meta as NodeMeta
+    node.collection = fromDocumentItems(item.collection || [], node.id)
+    return node
+  })
+}
+/**
+ * parseAttributes returns the attributes of an XML tag, unescaped.
+ * @param tag - XML tag.
+ */
+function parseAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {}
+  const pattern = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(tag)) !== null) {
+    attributes[match[1]] = unescapeXML(match[2] !== undefined ? match[2] : match[3])
+  }
+  return attributes
+}
+/**
+ * unescapeXML replaces the entities and character references of an XML
+ * value. It throws an `InvalidFormatError` on references to code points
+ * that don't exist.
+ * @param value - Value to unescape.
+ */
+function unescapeXML(value: string): string {
+  return value.replace(/&(#x[0-9a-fA-F]+|#\d+|amp|lt|gt|quot|apos);/g, (_, entity: string) => {
+    switch (entity) {
+      case "amp": return "&"
+      case "lt": return "<"
+      case "gt": return ">"
+      case "quot": return "\""
+      case "apos": return "'"
+    }
+    const codePoint = entity[1] === "x" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10)
+    if (codePoint > 0x10FFFF) throw new InvalidFormatError("invalid OPML document")
+    return String.fromCodePoint(codePoint)
+  })
+}
+/**
+ * openFence returns the fence of the code block a line opens, or the
+ * current fence if the line doesn't open one.
+ * @param line - Line of the content of a list item.
+ * @param fence - Fence of the code block the item is currently in.
+ */
+function openFence(line: string, fence?: string): string | undefined {
+  if (fence !== undefined) {
+    return line.trim().startsWith(fence) && line.trim().replace(/[`~]/g, "") === "" ? undefined : fence
+  }
+  const match = line.trim().match(FENCE)
+  return match ? match[1] : undefined
+}
+/**
+ * countNodes returns the number of Nodes of a tree.
+ * @param nodes - Nodes to count, along with their sub-nodes.
+ */
+export function countNodes(nodes: NodeItem[]): number {
+  return nodes.reduce((count, node) => count + 1 + countNodes(node.collection || []), 0)
+}
@@ -0,0 +1,84 @@
+import test from "tape"
+import type { Test } from "tape"
+
+import { checkBranch } from "./integrity.server"
+import type { NodeDynamoItem } from "../drivers/nodesDynamoDriver.server"
+
+test("checkBranch()", async (assert: Test) => {
+  // A healthy list shouldn't report anything.
+  assert.deepEqual(checkBranch("b", [head("a"), item("a", "b"), item("b", "c"), item("c", ".")]), {
+    branch: "b",
+    size: 3,
+    anomalies: [],
+    order: ["a", "b", "c"],
+  })
+  assert.deepEqual(checkBranch("b", []), { branch: "b", size: 0, anomalies: [], order: [] })
+  // Trashed items, and items outside of the list, should be ignored.
+  assert.deepEqual(checkBranch("b", [head("a"), item("a", "."), { ...item("t", "."), _d: 1 }, { pk: "r", _b: "b" } as NodeDynamoItem]).anomalies, [])
+  // The unreachable items should be appended after the tail, keeping the
+  // order of the fragments they form.
+  assert.deepEqual(checkBranch("b", [head("a"), item("a", "."), item("d", "."), item("c", "d", 1), item("e", ".", 2)]), {
+    branch: "b",
+    size: 4,
+    anomalies: [
+      { type: "multiple-tails", pk: "d", next: "." },
+      { type: "multiple-tails", pk: "e", next: "." },
+      { type: "unreachable", pk: "d" },
+      { type: "unreachable", pk: "c" },
+      { type: "unreachable", pk: "e" },
+    ],
+    order: ["a", "c", "d", "e"],
+  })
+  // A list without a head should be rebuilt from its fragments.
+  assert.deepEqual(checkBranch("b", [item("a", "b"), item("b", ".")]), {
+    branch: "b",
+    size: 2,
+    anomalies: [
+      { type: "missing-head", pk: "#b" },
+      { type: "unreachable", pk: "a" },
+      { type: "unreachable", pk: "b" },
+    ],
+    order: ["a", "b"],
+  })
+  assert.deepEqual(checkBranch("b", [head("x"), item("a", ".")]).anomalies, [
+    { type: "dangling-head", pk: "#b", next: "x" },
+    { type: "unreachable", pk: "a" },
+  ])
+  // Dangling pointers and cycles should cut the list.
+  assert.deepEqual(checkBranch("b", [head("a"), item("a", "x"), item("b", ".")]), {
+    branch: "b",
+    size: 2,
+    anomalies: [
+      { type: "dangling-pointer", pk: "a", next: "x" },
+      { type: "unreachable", pk: "b" },
+    ],
+    order: ["a", "b"],
+  })
+  assert.deepEqual(checkBranch("b", [head("a"), item("a", "b"), item("b", "a")]), {
+    branch: "b",
+    size: 2,
+    anomalies: [{ type: "cycle", pk: "b", next: "a" }],
+    order: ["a", "b"],
+  })
+  // End
+  assert.end()
+})
+/**
+ * Functions
+ */
+/**
+ * head creates the head item of the branch "b".
+ * @param _n - `pk` of the first `Node` of the list.
+ */
+function head(_n: string): NodeDynamoItem {
+  return { pk: "#b", _b: "b", _n } as NodeDynamoItem
+}
+/**
+ * item creates a `Node` item of the branch "b".
+ * @param pk - `Node` unique identifier.
+ * @param _n - `pk` of the next `Node`.
+ * @param createdAt - Creation time of the `Node`.
+ */
+function item(pk: string, _n: string, createdAt: number = 0): NodeDynamoItem {
+  return { pk, _b: "b", _n, id: pk, content: "", createdAt }
+}
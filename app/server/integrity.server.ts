@@ -0,0 +1,134 @@
+import type { NodeDynamoItem } from "../drivers/nodesDynamoDriver.server"
+
+/**
+ * NodesAnomalyType is the kind of inconsistency found on a `Nodes` linked list.
+ *  - `missing-head`    : The branch has `Nodes` but no head item.
+ *  - `dangling-head`   : The head points to an item that isn't on the branch.
+ *  - `dangling-pointer`: A `Node` points to an item that isn't on the branch.
+ *  - `cycle`           : Following the pointers leads back to a visited `Node`.
+ *  - `multiple-tails`  : More than one `Node` is marked as the end of the list.
+ *  - `unreachable`     : A `Node` can't be reached by following the pointers.
+ */
+export type NodesAnomalyType = "missing-head" | "dangling-head" | "dangling-pointer" | "cycle" | "multiple-tails" | "unreachable"
+/**
+ * NodesAnomaly is an inconsistency found on a `Nodes` linked list.
+ */
+export interface NodesAnomaly {
+  /**
+   * type is the kind of inconsistency.
+   */
+  type: NodesAnomalyType;
+  /**
+   * pk is the key of the item where the inconsistency was found.
+   */
+  pk: string;
+  /**
+   * next is the value of the `_n` pointer of the item, if relevant.
+   */
+  next?: string;
+}
+/**
+ * NodesBranchReport is the result of checking the integrity of a branch.
+ */
+export interface NodesBranchReport {
+  /**
+   * branch is the `_b` value of the checked branch.
+   */
+  branch: string;
+  /**
+   * size is the number of `Nodes` stored on the branch.
+   */
+  size: number;
+  /**
+   * anomalies are the inconsistencies found on the branch.
+   */
+  anomalies: NodesAnomaly[];
+  /**
+   * order is the `pk` of every `Node` of the branch in the order the list
+   * should have once repaired: first the reachable ones, then the rest.
+   */
+  order: string[];
+  /**
+   * fixed is a flag that tells if the branch was repaired.
+   */
+  fixed?: boolean;
+}
+/**
+ * Functions
+ */
+/**
+ * checkBranch looks for inconsistencies on the items of a branch, and
+ * computes the order its list should have once repaired. The `Nodes`
+ * reachable from the head keep their order, and the unreachable ones are
+ * appended after them, keeping the order of the fragments they form.
+ * Trashed items, and items that aren't part of a list, are ignored.
+ * @param branch - `_b` value of the branch.
+ * @param items - Every item stored on the branch.
+ */
+export function checkBranch(branch: string, items: NodeDynamoItem[]): NodesBranchReport {
+  const head = items.find(item => item.pk === "#" + branch)
+  const nodes = items.filter(item => item !== head && item._n !== undefined && item._d === undefined)
+  const map = new Map(nodes.map(item => [item.pk, item]))
+  const anomalies: NodesAnomaly[] = []
+  const visited = new Set<string>()
+  const order: string[] = []
+  if (head === undefined) {
+    if (nodes.length > 0) anomalies.push({ type: "missing-head", pk: "#" + branch })
+  } else if (head._n !== "." && !map.has(head._n)) {
+    anomalies.push({ type: "dangling-head", pk: head.pk, next: head._n })
+  } else {
+    walk(head._n, map, visited, order, anomalies)
+  }
+  for (let item of nodes) {
+    if (item._n !== "." && !map.has(item._n)) anomalies.push({ type: "dangling-pointer", pk: item.pk, next: item._n })
+  }
+  const tails = nodes.filter(item => item._n === ".")
+  if (tails.length > 1) {
+    anomalies.push(...tails.slice(1).map(item => ({ type: "multiple-tails" as NodesAnomalyType, pk: item.pk, next: item._n })))
+  }
+  const unreachable = nodes.filter(item => !visited.has(item.pk))
+  anomalies.push(...unreachable.map(item => ({ type: "unreachable" as NodesAnomalyType, pk: item.pk })))
+  // The unreachable `Nodes` are appended fragment by fragment, starting
+  // from the ones no other unreachable `Node` points to.
+  const pointed = new Set(unreachable.map(item => item._n))
+  const starts = unreachable.filter(item => !pointed.has(item.pk)).sort(byCreation)
+  const rest = unreachable.filter(item => pointed.has(item.pk)).sort(byCreation)
+  for (let item of [...starts, ...rest]) {
+    if (!visited.has(item.pk)) walk(item.pk, map, visited, order, [])
+  }
+  return { branch, size: nodes.length, anomalies, order }
+}
+/**
+ * walk follows the `_n` pointers from a `Node` until the end of the list,
+ * a dangling pointer, or an already visited `Node`, which is reported as
+ * a cycle.
+ * @param pk - `pk` of the first `Node`.
+ * @param map - `Nodes` of the branch by their `pk`.
+ * @param visited - `pk` of the visited `Nodes`.
+ * @param order - List the visited `Nodes` are appended to.
+ * @param anomalies - List the cycles found are appended to.
+ */
+function walk(pk: string, map: Map<string, NodeDynamoItem>, visited: Set<string>, order: string[], anomalies: NodesAnomaly[]): void {
+  let item = map.get(pk)
+  let previous: NodeDynamoItem | undefined
+  while (item !== undefined) {
+    if (visited.has(item.pk)) {
+      if (previous !== undefined) anomalies.push({ type: "cycle", pk: previous.pk, next: item.pk })
+      return
+    }
+    visited.add(item.pk)
+    order.push(item.pk)
+    previous = item
+    item = item._n === "." ? undefined : map.get(item._n)
+  }
+}
+/**
+ * byCreation sorts items by their creation time, and then by their `pk`.
+ * @param a - First item.
+ * @param b - Second item.
+ */
+function byCreation(a: NodeDynamoItem, b: NodeDynamoItem): number {
+  const diff = (a.createdAt || 0) - (b.createdAt || 0)
+  if (diff !== 0) return diff
+  return a.pk < b.pk ? -1 : a.pk > b.pk ? 1 : 0
+}
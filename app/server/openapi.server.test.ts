@@ -0,0 +1,50 @@
+import test from "tape"
+import type { Test } from "tape"
+
+import { createOpenAPIDocument, OPENAPI_VERSION } from "./openapi.server"
+
+test("createOpenAPIDocument()", async (assert: Test) => {
+  const document = createOpenAPIDocument()
+  assert.equal(document.openapi, OPENAPI_VERSION)
+  // Every node and user endpoint should be described.
+  assert.deepEqual(Object.keys(document.paths).sort(), [
+    "/api/v1/nodes",
+    "/api/v1/nodes/{id}",
+    "/api/v1/nodes/{id}/duplicate",
+    "/search",
+    "/trash",
+    "/users/me",
+    "/{id}/events",
+    "/{id}/export",
+    "/{id}/history",
+  ])
+  assert.deepEqual(Object.keys(document.paths["/api/v1/nodes/{id}"]), ["get", "put", "patch", "delete"])
+  // The models should be available as schemas.
+  for (let name of ["NodeItem", "NodePatch", "NodeMeta", "UserBody", "Error"]) {
+    assert.ok(document.components.schemas[name], `should include the ${name} schema`)
+  }
+  // End
+  assert.end()
+})
+
+test("createOpenAPIDocument() - should be consistent", async (assert: Test) => {
+  const document = createOpenAPIDocument()
+  const tags = document.tags.map(tag => tag.name)
+  const operationIds = new Set<string>()
+  for (let [path, methods] of Object.entries(document.paths)) {
+    for (let [method, operation] of Object.entries(methods)) {
+      assert.notOk(operationIds.has(operation.operationId), `${method} ${path} should have a unique operationId`)
+      operationIds.add(operation.operationId)
+      assert.ok(operation.tags.every(tag => tags.includes(tag)), `${method} ${path} should only use declared tags`)
+      const pathParameters = (operation.parameters || []).filter(parameter => parameter.in === "path").map(parameter => parameter.name)
+      assert.deepEqual(pathParameters, (path.match(/{\w+}/g) || []).map(name => name.slice(1, -1)), `${method} ${path} should declare its path parameters`)
+    }
+  }
+  // Every reference should point to an existing schema.
+  const refs = JSON.stringify(document).match(/"#\/components\/schemas\/\w+"/g) || []
+  for (let ref of new Set(refs)) {
+    assert.ok(document.components.schemas[ref.slice(22, -1)], `${ref} should exist`)
+  }
+  // End
+  assert.end()
+})
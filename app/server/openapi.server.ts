@@ -0,0 +1,523 @@
+/**
+ * OPENAPI_VERSION is the version of the OpenAPI specification the document
+ * follows.
+ */
+export const OPENAPI_VERSION = "3.0.3"
+/**
+ * OpenAPISchema is a JSON schema, as described by the OpenAPI specification.
+ */
+export type OpenAPISchema = { [key: string]: any }
+/**
+ * OpenAPIParameter is a path, query or header parameter of an operation.
+ */
+export interface OpenAPIParameter {
+  /**
+   * name is the name of the parameter.
+   */
+  name: string;
+  /**
+   * in is the location of the parameter.
+   */
+  in: "path" | "query" | "header";
+  /**
+   * description is a short summary of the parameter.
+   */
+  description: string;
+  /**
+   * required is a flag that tells if the parameter must be sent.
+   */
+  required?: boolean;
+  /**
+   * schema is the schema of the value of the parameter.
+   */
+  schema: OpenAPISchema;
+  /**
+   * example is an example value of the parameter.
+   */
+  example?: any;
+}
+/**
+ * OpenAPIOperation is an HTTP method of an endpoint.
+ */
+export interface OpenAPIOperation {
+  /**
+   * operationId is the unique name of the operation.
+   */
+  operationId: string;
+  /**
+   * summary is a short summary of what the operation does.
+   */
+  summary: string;
+  /**
+   * description is a longer description of the operation.
+   */
+  description?: string;
+  /**
+   * tags group the operations of the document.
+   */
+  tags: string[];
+  /**
+   * parameters are the path, query and header parameters of the operation.
+   */
+  parameters?: OpenAPIParameter[];
+  /**
+   * security overrides the ways the operation can be authenticated.
+   */
+  security?: { [scheme: string]: string[] }[];
+  /**
+   * requestBody is the body the operation accepts.
+   */
+  requestBody?: {
+    required?: boolean;
+    content: { [mediaType: string]: { schema: OpenAPISchema, example?: any } };
+  };
+  /**
+   * responses are the responses of the operation, by status code.
+   */
+  responses: { [status: string]: { description: string, headers?: { [name: string]: { description: string, schema: OpenAPISchema } }, content?: { [mediaType: string]: { schema: OpenAPISchema } } } };
+}
+/**
+ * OpenAPIDocument is an OpenAPI 3 document that describes the API.
+ */
+export interface OpenAPIDocument {
+  /**
+   * openapi is the version of the OpenAPI specification.
+   */
+  openapi: string;
+  /**
+   * info holds the metadata of the API.
+   */
+  info: { title: string, version: string, description: string };
+  /**
+   * servers are the URLs the API is served from.
+   */
+  servers: { url: string }[];
+  /**
+   * tags are the groups of operations of the document.
+   */
+  tags: { name: string, description: string }[];
+  /**
+   * paths are the operations of every endpoint, by path and HTTP method.
+   */
+  paths: { [path: string]: { [method: string]: OpenAPIOperation } };
+  /**
+   * components hold the schemas, and the security schemes, referenced by
+   * the operations.
+   */
+  components: {
+    schemas: { [name: string]: OpenAPISchema };
+    securitySchemes: { [name: string]: OpenAPISchema };
+  };
+  /**
+   * security are the security schemes required by every operation.
+   */
+  security: { [name: string]: string[] }[];
+}
+/**
+ * SCHEMAS are the schemas of the models returned, and accepted, by the API.
+ */
+const SCHEMAS: { [name: string]: OpenAPISchema } = {
+  NodeMeta: {
+    type: "object",
+    description: "Metadata of a Node.",
+    properties: {
+      isOpened: { type: "boolean", description: "Flag that tells if the sub-nodes of the Node are shown." },
+      isInEditMode: { type: "boolean", description: "Flag that tells if the Node is being edited." },
+    },
+  },
+  NodeItem: {
+    type: "object",
+    description: "A Node, along with the loaded page of its sub-nodes.",
+    required: ["id", "content"],
+    properties: {
+      id: { type: "string", description: "Unique identifier of the Node." },
+      content: { type: "string", description: "Content of the Node. Code and task Nodes store a JSON document." },
+      userId: { type: "string", description: "Unique identifier of the user that owns the Node." },
+      parent: { type: "string", description: "Unique identifier of the parent of the Node." },
+      interpreter: { type: "string", description: "Name of the interpreter that renders the Node.", example: "markdown" },
+      collection: { type: "array", description: "Loaded sub-nodes of the Node, in order.", items: ref("NodeItem") },
+      cursor: { type: "string", description: "Id of the last loaded sub-node, when more sub-nodes follow it." },
+      meta: ref("NodeMeta"),
+      version: { type: "integer", description: "Version of the Node, increased on every change of its content." },
+      createdAt: { type: "integer", description: "Time, in milliseconds, at which the Node was created." },
+      updatedAt: { type: "integer", description: "Time, in milliseconds, of the latest change of the Node." },
+      updatedBy: { type: "string", description: "Unique identifier of the user that made the latest change." },
+      deletedAt: { type: "integer", description: "Time, in milliseconds, at which the Node was moved to the trash." },
+    },
+  },
+  NodePatch: {
+    type: "object",
+    description: "Attributes of a Node that can be changed.",
+    properties: {
+      content: { type: "string", description: "New content of the Node." },
+      interpreter: { type: "string", description: "New interpreter of the Node." },
+      meta: ref("NodeMeta"),
+    },
+  },
+  NodeRevision: {
+    type: "object",
+    description: "Snapshot of the content of a Node at a given time.",
+    required: ["id", "content", "createdAt"],
+    properties: {
+      id: { type: "string", description: "Unique identifier of the revision." },
+      content: { type: "string", description: "Content of the Node at the time of the revision." },
+      interpreter: { type: "string", description: "Interpreter of the Node at the time of the revision." },
+      userId: { type: "string", description: "Unique identifier of the user that made the change." },
+      createdAt: { type: "integer", description: "Time, in milliseconds, of the change." },
+    },
+  },
+  NodeSearchHit: {
+    type: "object",
+    description: "A Node found by a search, along with its ancestors.",
+    required: ["node", "path", "score"],
+    properties: {
+      node: ref("NodeItem"),
+      path: { type: "array", items: ref("NodeItem") },
+      score: { type: "number", description: "How well the Node matches the search." },
+    },
+  },
+  NodesEvent: {
+    type: "object",
+    description: "A change made on a Node, sent as the data of a Server-Sent Event.",
+    required: ["type", "id", "parent"],
+    properties: {
+      type: { type: "string", enum: ["add", "update", "move", "delete", "meta"], description: "Kind of change." },
+      id: { type: "string", description: "Unique identifier of the changed Node." },
+      parent: { type: "string", description: "Unique identifier of the parent of the Node, or `home`." },
+      from: { type: "string", description: "Unique identifier of the previous parent of a moved Node." },
+      afterId: { type: "string", nullable: true, description: "Unique identifier of the Node after which the Node is positioned. `null` when it's the first one, and missing when it's the last one." },
+      node: ref("NodeItem"),
+      meta: ref("NodeMeta"),
+    },
+  },
+  UserBody: {
+    type: "object",
+    description: "A user of ReNodes.",
+    required: ["id", "username", "provider", "email"],
+    properties: {
+      id: { type: "string", description: "Unique identifier of the user." },
+      username: { type: "string", description: "Username of the user." },
+      provider: { type: "string", description: "Authentication provider of the user.", example: "github" },
+      email: { type: "string", description: "Email of the user." },
+      avatarURL: { type: "string", description: "URL of the avatar of the user." },
+      name: { type: "string", description: "Name of the user." },
+      location: { type: "string", description: "Location of the user." },
+    },
+  },
+  Error: {
+    type: "object",
+    description: "Error returned by the API.",
+    required: ["error"],
+    properties: {
+      error: {
+        type: "object",
+        required: ["status", "code", "message"],
+        properties: {
+          status: { type: "integer", description: "HTTP status code of the response." },
+          code: { type: "string", description: "Name of the error.", example: "ModelNotFound" },
+          message: { type: "string", description: "Description of the error." },
+        },
+      },
+    },
+  },
+}
+/**
+ * PARAMETERS are the parameters shared by several operations.
+ */
+const PARAMETERS: { [name: string]: OpenAPIParameter } = {
+  id: { name: "id", in: "path", required: true, description: "Unique identifier of the Node, or `home`.", schema: { type: "string" }, example: "home" },
+  limit: { name: "limit", in: "query", description: "Maximum number of sub-nodes of each list.", schema: { type: "integer", minimum: 1, maximum: 500, default: 100 } },
+  cursor: { name: "cursor", in: "query", description: "Id of the sub-node after which the page starts.", schema: { type: "string" } },
+  ifMatch: { name: "If-Match", in: "header", description: "Version the Node is expected to be on, as returned on its `Etag`.", schema: { type: "string" }, example: "\"1\"" },
+  accept: { name: "Accept", in: "header", required: true, description: "Must be `application/json` to get the data instead of the page.", schema: { type: "string", enum: ["application/json"] }, example: "application/json" },
+}
+/**
+ * SESSION_ONLY is the security of the pages, which can't be requested with
+ * a personal API token.
+ */
+const SESSION_ONLY = [{ session: [] }]
+/**
+ * Functions
+ */
+/**
+ * createOpenAPIDocument returns the OpenAPI document that describes every
+ * `Node` and user endpoint. The server is relative, so the document is
+ * valid for every origin the app is served from.
+ */
+export function createOpenAPIDocument(): OpenAPIDocument {
+  return {
+    openapi: OPENAPI_VERSION,
+    info: {
+      title: "ReNodes",
+      version: "1.0.0",
+      description: "Manage the Nodes of the signed in user. Requests are authenticated by the session cookie set when signing in, or by a personal API token sent as `Authorization: Bearer <token>`.",
+    },
+    servers: [{ url: "/" }],
+    tags: [
+      { name: "Nodes", description: "JSON API over the Nodes of the user." },
+      { name: "Pages", description: "Routes of the app that return their data when requested with `Accept: application/json`." },
+      { name: "Users", description: "Details of the signed in user." },
+    ],
+    paths: {
+      "/api/v1/nodes": {
+        get: {
+          operationId: "listNodes",
+          summary: "List the sub-nodes of a Node",
+          tags: ["Nodes"],
+          parameters: [
+            { name: "parent", in: "query", description: "Unique identifier of the parent Node. Defaults to the home Node.", schema: { type: "string" } },
+            PARAMETERS.limit,
+            PARAMETERS.cursor,
+          ],
+          responses: {
+            "200": jsonResponse("A page of the sub-nodes, and the cursor of the next one.", {
+              type: "object",
+              properties: { data: { type: "array", items: ref("NodeItem") }, cursor: { type: "string" } },
+            }),
+            ...errorResponses("400", "401", "403", "404"),
+          },
+        },
+        post: {
+          operationId: "createNode",
+          summary: "Create a Node",
+          description: "The Node is added at the end of the collection of its `parent`, or after the Node identified by `afterId`.",
+          tags: ["Nodes"],
+          requestBody: jsonBody({
+            type: "object",
+            required: ["content"],
+            properties: {
+              id: { type: "string", description: "Unique identifier of the Node. A new one is created if it isn't sent." },
+              content: { type: "string" },
+              interpreter: { type: "string" },
+              parent: { type: "string", description: "Unique identifier of the parent Node. Defaults to the home Node." },
+              afterId: { type: "string", description: "Unique identifier of the sibling the Node is added after." },
+            },
+          }, { content: "A new Node" }),
+          responses: {
+            "201": nodeResponse("The created Node.", true),
+            ...errorResponses("400", "401", "403", "404", "409"),
+          },
+        },
+      },
+      "/api/v1/nodes/{id}": {
+        get: {
+          operationId: "getNode",
+          summary: "Get a Node along with its opened sub-nodes",
+          tags: ["Nodes"],
+          parameters: [PARAMETERS.id, PARAMETERS.limit, PARAMETERS.cursor],
+          responses: {
+            "200": jsonResponse("The Node, and its ancestors.", {
+              type: "object",
+              properties: { data: ref("NodeItem"), path: { type: "array", items: ref("NodeItem") } },
+            }, true),
+            ...errorResponses("400", "401", "403", "404"),
+          },
+        },
+        put: {
+          operationId: "updateNode",
+          summary: "Update the content of a Node",
+          tags: ["Nodes"],
+          parameters: [PARAMETERS.id, PARAMETERS.ifMatch],
+          requestBody: jsonBody(ref("NodePatch"), { content: "Updated content" }),
+          responses: {
+            "200": nodeResponse("The updated Node."),
+            ...errorResponses("400", "401", "403", "404", "409", "412"),
+          },
+        },
+        patch: {
+          operationId: "patchNode",
+          summary: "Update the metadata, or the position, of a Node",
+          description: "A `null` `afterId` moves the Node to the start of the collection of `parent`, while leaving it out moves the Node to the end of it.",
+          tags: ["Nodes"],
+          parameters: [PARAMETERS.id, PARAMETERS.ifMatch],
+          requestBody: jsonBody({
+            type: "object",
+            properties: {
+              meta: ref("NodeMeta"),
+              parent: { type: "string", description: "Unique identifier of the new parent. Defaults to the current one." },
+              afterId: { type: "string", nullable: true, description: "Unique identifier of the sibling the Node is moved after." },
+            },
+          }, { meta: { isOpened: true } }),
+          responses: {
+            "200": nodeResponse("The updated Node."),
+            ...errorResponses("400", "401", "403", "404", "409", "412"),
+          },
+        },
+        delete: {
+          operationId: "deleteNode",
+          summary: "Move a Node, along with its sub-nodes, to the trash",
+          tags: ["Nodes"],
+          parameters: [PARAMETERS.id, PARAMETERS.ifMatch],
+          responses: {
+            "204": { description: "The Node was moved to the trash." },
+            ...errorResponses("400", "401", "403", "404", "409", "412"),
+          },
+        },
+      },
+      "/api/v1/nodes/{id}/duplicate": {
+        post: {
+          operationId: "duplicateNode",
+          summary: "Copy a Node right after it",
+          tags: ["Nodes"],
+          parameters: [PARAMETERS.id],
+          requestBody: jsonBody({
+            type: "object",
+            properties: { deep: { type: "boolean", description: "Flag that also copies the sub-nodes of the Node." } },
+          }, { deep: true }),
+          responses: {
+            "201": nodeResponse("The copy of the Node.", true),
+            ...errorResponses("400", "401", "403", "404", "409"),
+          },
+        },
+      },
+      "/{id}/history": {
+        get: {
+          operationId: "getNodeHistory",
+          summary: "List the revisions of a Node",
+          tags: ["Pages"],
+          parameters: [PARAMETERS.id, PARAMETERS.accept],
+          responses: {
+            "200": jsonResponse("The revisions of the Node, newest first.", {
+              type: "object",
+              properties: { data: { type: "array", items: ref("NodeRevision") }, node: ref("NodeItem") },
+            }),
+            ...errorResponses("401", "403", "404"),
+          },
+        },
+      },
+      "/{id}/events": {
+        get: {
+          operationId: "streamNodeEvents",
+          summary: "Stream the changes made on a Node and its sub-nodes",
+          tags: ["Pages"],
+          parameters: [PARAMETERS.id],
+          responses: {
+            "200": { description: "A stream of Server-Sent Events, one per change.", content: { "text/event-stream": { schema: ref("NodesEvent") } } },
+            ...errorResponses("401", "403", "404"),
+          },
+        },
+      },
+      "/{id}/export": {
+        get: {
+          operationId: "exportNode",
+          summary: "Export a Node along with its sub-nodes",
+          tags: ["Pages"],
+          parameters: [
+            PARAMETERS.id,
+            { name: "format", in: "query", description: "Format of the document.", schema: { type: "string", enum: ["markdown", "opml", "json"], default: "markdown" } },
+          ],
+          responses: {
+            "200": { description: "The exported document, as an attachment." },
+            ...errorResponses("400", "401", "403", "404"),
+          },
+        },
+      },
+      "/search": {
+        get: {
+          operationId: "searchNodes",
+          security: SESSION_ONLY,
+          summary: "Search the Nodes of the user",
+          tags: ["Pages"],
+          parameters: [
+            { name: "q", in: "query", required: true, description: "Search query.", schema: { type: "string" }, example: "groceries" },
+            PARAMETERS.accept,
+          ],
+          responses: {
+            "200": jsonResponse("The Nodes that match the query, best matches first.", {
+              type: "object",
+              properties: { data: { type: "array", items: ref("NodeSearchHit") }, query: { type: "string" } },
+            }),
+            ...errorResponses("401"),
+          },
+        },
+      },
+      "/trash": {
+        get: {
+          operationId: "listTrash",
+          security: SESSION_ONLY,
+          summary: "List the Nodes in the trash",
+          tags: ["Pages"],
+          parameters: [PARAMETERS.accept],
+          responses: {
+            "200": jsonResponse("The trashed Nodes, and the number of days they are kept.", {
+              type: "object",
+              properties: { data: { type: "array", items: ref("NodeItem") }, retention: { type: "integer" } },
+            }),
+            ...errorResponses("401"),
+          },
+        },
+      },
+      "/users/me": {
+        get: {
+          operationId: "getCurrentUser",
+          security: SESSION_ONLY,
+          summary: "Get the details of the signed in user",
+          tags: ["Users"],
+          parameters: [PARAMETERS.accept],
+          responses: {
+            "200": jsonResponse("The signed in user.", { type: "object", properties: { data: ref("UserBody") } }),
+          },
+        },
+      },
+    },
+    components: {
+      schemas: SCHEMAS,
+      securitySchemes: {
+        session: { type: "apiKey", in: "cookie", name: "ReNodes_root_session" },
+        token: { type: "http", scheme: "bearer", description: "Personal API token, created at `/settings/tokens`." },
+      },
+    },
+    security: [{ session: [] }, { token: [] }],
+  }
+}
+/**
+ * ref returns a reference to one of the schemas of the document.
+ * @param name - Name of the schema.
+ */
+function ref(name: string): OpenAPISchema {
+  return { $ref: `#/components/schemas/${name}` }
+}
+/**
+ * jsonBody returns a JSON request body.
+ * @param schema - Schema of the body.
+ * @param example - Example of the body.
+ */
+function jsonBody(schema: OpenAPISchema, example: any): OpenAPIOperation["requestBody"] {
+  return { required: true, content: { "application/json": { schema, example } } }
+}
+/**
+ * jsonResponse returns a JSON response.
+ * @param description - Description of the response.
+ * @param schema - Schema of the body.
+ * @param versioned - Flag that adds the `Etag` header to the response.
+ */
+function jsonResponse(description: string, schema: OpenAPISchema, versioned: boolean = false): OpenAPIOperation["responses"][string] {
+  const response: OpenAPIOperation["responses"][string] = { description, content: { "application/json": { schema } } }
+  if (versioned) response.headers = { Etag: { description: "Version of the Node.", schema: { type: "string" } } }
+  return response
+}
+/**
+ * nodeResponse returns the JSON response of a single Node.
+ * @param description - Description of the response.
+ * @param created - Flag that adds the `Location` header of a new Node.
+ */
+function nodeResponse(description: string, created: boolean = false): OpenAPIOperation["responses"][string] {
+  const response = jsonResponse(description, { type: "object", properties: { data: ref("NodeItem") } }, true)
+  if (created) response.headers = { ...response.headers, Location: { description: "URL of the new Node.", schema: { type: "string" } } }
+  return response
+}
+/**
+ * errorResponses returns the error responses of an operation.
+ * @param statuses - Status codes of the errors.
+ */
+function errorResponses(...statuses: string[]): OpenAPIOperation["responses"] {
+  const descriptions: { [status: string]: string } = {
+    "400": "The request isn't valid.",
+    "401": "The request isn't signed in, or its token isn't valid.",
+    "403": "The token is read-only, or can't access the Node.",
+    "404": "The Node doesn't exist, or belongs to another user.",
+    "409": "The Node was changed concurrently.",
+    "412": "The Node is on another version than the one on `If-Match`.",
+  }
+  return Object.fromEntries(statuses.map(status => [status, jsonResponse(descriptions[status], ref("Error"))]))
+}
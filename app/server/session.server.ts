@@ -4,7 +4,7 @@ import jwt from "jsonwebtoken"
 
 import { User } from "../models/user"
 import { repository } from "../repositories/users.server"
-import { InvalidSubClaimError, UndefinedTokenError } from "./errors.server"
+import { ForbiddenError, InvalidSubClaimError, UndefinedTokenError, UnauthorizedError } from "./errors.server"
 
 export interface JWTToken extends jwt.JwtPayload {
   sub: string;
@@ -49,6 +49,11 @@ const JWT_AUDIENCE = process.env.JWT_AUDIENCE || "urn:renodes:audience"
  * id inside a Cookie.
  */
 const SESSION_ID_KEY = process.env.SESSION_ID_KEY || "__session_id__"
+/**
+ * ADMIN_USER_IDS are the unique identifiers of the users that can access
+ * the administration routes, as a comma separated list.
+ */
+const ADMIN_USER_IDS = (process.env.ADMIN_USER_IDS || "").split(",").map(id => id.trim()).filter(Boolean)
 /**
  * SESSION_EXPIRATION_TIME represent the expiration time of both the
  * cookies and JWT tokens.
@@ -145,22 +150,33 @@ async function callback(request: Request) {
       location: json.location,
       name: json.name,
     }))
-    const token = jwt.sign({
-      sub: `${json.id}.github`,
-      exp: Math.floor(Date.now() / 1000) + ONE_HOUR_IN_SECONDS,
-      iss: JWT_ISSUER,
-      aud: JWT_AUDIENCE,
-    }, SESSION_SECRET)
-    const session = await getSession(request)
-    session.set(SESSION_ID_KEY, token)
     return redirect(originURL, {
-      headers: { "Set-Cookie": await sessionStorage.commitSession(session) }
+      headers: { "Set-Cookie": await createSessionCookie(`${json.id}.github`, request) }
     })
   } catch (err) {
     console.error(err)
     return redirect(originURL)
   }
 }
+/**
+ * createSessionCookie signs a new JWT token for a user and returns the
+ * `Set-Cookie` header value that stores it on the user session.
+ * @param sub - Value of the JWT `sub` claim, formated as `id.provider`.
+ * @param request - Fetch API Request object.
+ */
+async function createSessionCookie(sub: string, request?: Request): Promise<string> {
+  const token = jwt.sign({
+    sub,
+    exp: Math.floor(Date.now() / 1000) + ONE_HOUR_IN_SECONDS,
+    iss: JWT_ISSUER,
+    aud: JWT_AUDIENCE,
+  }, SESSION_SECRET)
+  const session = request
+    ? await getSession(request)
+    : await sessionStorage.getSession()
+  session.set(SESSION_ID_KEY, token)
+  return sessionStorage.commitSession(session)
+}
 /**
  * signOut deletes the session of a user.
  * @param request - Fetch API Request object.
@@ -216,6 +232,34 @@ async function getUserFromSession(request: Request): Promise<User> {
     throw err
   }
 }
+/**
+ * getUserIdFromSession returns the unique identifier of the user signed in
+ * on the request session. It throws an `UnauthorizedError` if the request
+ * is anonymous or if its token is invalid.
+ * @param request - Fetch API Request object.
+ */
+async function getUserIdFromSession(request: Request): Promise<string> {
+  try {
+    const token = await getDecodedToken(request)
+    const [id, provider] = token.sub.split(".")
+    if (!id || !provider) throw new InvalidSubClaimError()
+    return id
+  } catch (err) {
+    throw new UnauthorizedError(err.message)
+  }
+}
+/**
+ * getAdminIdFromSession returns the unique identifier of the user signed in
+ * on the request session, as long as it's one of the `ADMIN_USER_IDS`. It
+ * throws an `UnauthorizedError` if the request is anonymous, and a
+ * `ForbiddenError` if the user isn't an administrator.
+ * @param request - Fetch API Request object.
+ */
+async function getAdminIdFromSession(request: Request): Promise<string> {
+  const id = await getUserIdFromSession(request)
+  if (!ADMIN_USER_IDS.includes(id)) throw new ForbiddenError()
+  return id
+}
 /**
  * getDecodedToken returns a decoded JWT token stored as a Cookie inside
  * a request.
@@ -249,8 +293,11 @@ async function hasValidSession(request: Request): Promise<boolean> {
 export {
   authorize,
   callback,
+  createSessionCookie,
+  getAdminIdFromSession,
   getSession,
   getUserFromSession,
+  getUserIdFromSession,
   hasValidSession,
   signIn,
   signOut,
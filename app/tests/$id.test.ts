@@ -4,19 +4,50 @@ import type { Test } from "tape"
 import request from "supertest"
 
 import { app } from "../../server/index.js"
+import { createUser, signIn } from "./helpers"
+import { withoutTimestamps } from "./nodes"
 import { ModelNotFoundError } from "../server/errors.server"
+import { repository as tokensRepository } from "../repositories/tokens.server"
+
+const user = createUser()
+let cookie: string
 
 test.onFinish(() => process.exit(0))
 
+test("setup - should sign in a new user", async (assert: Test) => {
+  cookie = await signIn(user)
+  assert.ok(cookie, "cookie should be defined")
+  assert.end()
+})
+
+test("/home - should reject anonymous requests", async (assert: Test) => {
+  try {
+    await request(app)
+      .get("/home")
+      .set({ "Accept": "application/json" })
+      .expect("Content-Type", /json/)
+      .expect(401)
+    await request(app)
+      .post("/home")
+      .set({ "Accept": "application/json" })
+      .set({ "Content-Type": "application/x-www-form-urlencoded;charset=UTF-8" })
+      .send({ id: ulid(), content: ulid() })
+      .expect(401)
+  } catch (err) {
+    assert.error(err, "error should be undefined")
+  }
+  assert.end()
+})
+
 test("/home - should be empty by default", (assert: Test) => {
   request(app)
     .get("/home")
-    .set({ "Accept": "application/json" })
+    .set({ "Accept": "application/json", "Cookie": cookie })
     .expect("Content-Type", /json/)
     .expect(200)
     .end((err, response) => {
       assert.error(err, "error should be undefined")
-      assert.deepEqual(response.body, { data: { id: "home", content: "Home Node", parent: "home", collection: [] } })
+      assert.deepEqual(withoutTimestamps(response.body), { data: { id: "home", content: "Home Node", parent: "home", collection: [] }, path: [] })
       assert.end()
     })
 })
@@ -27,12 +58,12 @@ test("/home - should be able to create a new node", async (assert: Test) => {
   try {
     const response = await request(app)
       .post("/home")
-      .set({ "Accept": "application/json" })
+      .set({ "Accept": "application/json", "Cookie": cookie })
       .set({ "Content-Type": "application/x-www-form-urlencoded;charset=UTF-8" })
       .send(body)
       .expect("x-remix-redirect", "/home")
       .expect(204)
-    assert.deepEqual(response.body, {}, "should return an empty object")
+    assert.deepEqual(withoutTimestamps(response.body), {}, "should return an empty object")
   } catch (err) {
     assert.error(err, "error should be undefined")
   }
@@ -40,12 +71,12 @@ test("/home - should be able to create a new node", async (assert: Test) => {
   try {
     const response = await request(app)
       .get("/home")
-      .set({ "Accept": "application/json" })
+      .set({ "Accept": "application/json", "Cookie": cookie })
       .expect("Content-Type", /json/)
       .expect(200)
     assert.deepEqual(
-      response.body,
-      { data: { id: "home", content: "Home Node", parent: "home", collection: [{ ...body }] } },
+      withoutTimestamps(response.body),
+      { data: { id: "home", content: "Home Node", parent: "home", collection: [{ ...body, userId: user.id, version: 1 }] }, path: [] },
       "should have been correctly stored"
     )
   } catch (err) {
@@ -55,10 +86,10 @@ test("/home - should be able to create a new node", async (assert: Test) => {
   try {
     const response = await request(app)
       .get(`/${body.id}`)
-      .set({ "Accept": "application/json" })
+      .set({ "Accept": "application/json", "Cookie": cookie })
       .expect("Content-Type", /json/)
       .expect(200)
-    assert.deepEqual(response.body, { data: { ...body, collection: [] } }, "should've been correctly stored")
+    assert.deepEqual(withoutTimestamps(response.body), { data: { ...body, userId: user.id, version: 1, collection: [] }, path: [] }, "should've been correctly stored")
   } catch (err) {
     assert.error(err, "error should be undefined")
   }
@@ -72,12 +103,12 @@ test("/home - should be able to update a node", async (assert: Test) => {
   try {
     const response = await request(app)
       .post("/home")
-      .set({ "Accept": "application/json" })
+      .set({ "Accept": "application/json", "Cookie": cookie })
       .set({ "Content-Type": "application/x-www-form-urlencoded;charset=UTF-8" })
       .send(body)
       .expect("x-remix-redirect", "/home")
       .expect(204)
-    assert.deepEqual(response.body, {}, "should be empty by default")
+    assert.deepEqual(withoutTimestamps(response.body), {}, "should be empty by default")
   } catch (err) {
     assert.error(err, "error should be undefined")
   }
@@ -85,10 +116,10 @@ test("/home - should be able to update a node", async (assert: Test) => {
   try {
     const response = await request(app)
       .get(`/${body.id}`)
-      .set({ "Accept": "application/json" })
+      .set({ "Accept": "application/json", "Cookie": cookie })
       .expect("Content-Type", /json/)
       .expect(200)
-    assert.deepEqual(response.body, { data: { ...body, collection: [] } }, "should've been stored correctly")
+    assert.deepEqual(withoutTimestamps(response.body), { data: { ...body, userId: user.id, version: 1, collection: [] }, path: [] }, "should've been stored correctly")
   } catch (err) {
     assert.error(err, "error should be undefined")
   }
@@ -98,12 +129,12 @@ test("/home - should be able to update a node", async (assert: Test) => {
   try {
     const response = await request(app)
       .put(`/${body.id}`)
-      .set({ "Accept": "application/json" })
+      .set({ "Accept": "application/json", "Cookie": cookie })
       .set({ "Content-Type": "application/x-www-form-urlencoded;charset=UTF-8" })
       .send({ content, interpreter })
       .expect("x-remix-redirect", `/${body.id}`)
       .expect(204)
-    assert.deepEqual(response.body, {}, "should return an empty object")
+    assert.deepEqual(withoutTimestamps(response.body), {}, "should return an empty object")
   } catch (err) {
     assert.error(err, "error should be undefined")
   }
@@ -111,14 +142,49 @@ test("/home - should be able to update a node", async (assert: Test) => {
   try {
     const response = await request(app)
       .get(`/${body.id}`)
-      .set({ "Accept": "application/json" })
+      .set({ "Accept": "application/json", "Cookie": cookie })
       .expect("Content-Type", /json/)
       .expect(200)
     assert.deepEqual(
-      response.body,
-      { data: { ...body, content, interpreter, collection: [] } },
+      withoutTimestamps(response.body),
+      { data: { ...body, userId: user.id, version: 2, content, interpreter, collection: [] }, path: [] },
       "should've been updated correctly"
     )
+    assert.equal(typeof response.body.data.createdAt, "number", "should expose the creation time")
+    assert.ok(response.body.data.updatedAt >= response.body.data.createdAt, "should expose the update time")
+    assert.equal(response.body.data.updatedBy, user.id, "should expose the author of the update")
+  } catch (err) {
+    assert.error(err, "error should be undefined")
+  }
+  // Updates made on top of a previous version should fail.
+  try {
+    await request(app)
+      .put(`/${body.id}`)
+      .set({ "Accept": "application/json", "Cookie": cookie, "If-Match": `"1"` })
+      .set({ "Content-Type": "application/x-www-form-urlencoded;charset=UTF-8" })
+      .send({ content: ulid() })
+      .expect(412)
+    await request(app)
+      .delete(`/${body.id}`)
+      .set({ "Accept": "application/json", "Cookie": cookie, "If-Match": `"1"` })
+      .expect(412)
+  } catch (err) {
+    assert.error(err, "error should be undefined")
+  }
+  // Updates made on top of the current version should succeed.
+  try {
+    await request(app)
+      .put(`/${body.id}`)
+      .set({ "Accept": "application/json", "Cookie": cookie, "If-Match": `"2"` })
+      .set({ "Content-Type": "application/x-www-form-urlencoded;charset=UTF-8" })
+      .send({ content: ulid() })
+      .expect("x-remix-redirect", `/${body.id}`)
+      .expect(204)
+    await request(app)
+      .get(`/${body.id}`)
+      .set({ "Accept": "application/json", "Cookie": cookie })
+      .expect("Etag", `"3"`)
+      .expect(200)
   } catch (err) {
     assert.error(err, "error should be undefined")
   }
@@ -132,12 +198,12 @@ test("/home - should be able to delete a node", async (assert: Test) => {
   try {
     const response = await request(app)
       .post("/home")
-      .set({ "Accept": "application/json" })
+      .set({ "Accept": "application/json", "Cookie": cookie })
       .set({ "Content-Type": "application/x-www-form-urlencoded;charset=UTF-8" })
       .send(body)
       .expect("x-remix-redirect", "/home")
       .expect(204)
-    assert.deepEqual(response.body, {})
+    assert.deepEqual(withoutTimestamps(response.body), {})
   } catch (err) {
     assert.error(err, "error should be undefined")
   }
@@ -145,10 +211,10 @@ test("/home - should be able to delete a node", async (assert: Test) => {
   try {
     const response = await request(app)
       .get(`/${body.id}`)
-      .set({ "Accept": "application/json" })
+      .set({ "Accept": "application/json", "Cookie": cookie })
       .expect("Content-Type", /json/)
       .expect(200)
-    assert.deepEqual(response.body, { data: { ...body } })
+    assert.deepEqual(withoutTimestamps(response.body), { data: { ...body, userId: user.id, version: 1 }, path: [] })
   } catch (err) {
     assert.error(err, "error should be undefined")
   }
@@ -156,11 +222,11 @@ test("/home - should be able to delete a node", async (assert: Test) => {
   try {
     const response = await request(app)
       .delete(`/${body.id}`)
-      .set({ "Accept": "application/json" })
+      .set({ "Accept": "application/json", "Cookie": cookie })
       .set({ "Content-Type": "application/x-www-form-urlencoded;charset=UTF-8" })
       .expect("x-remix-redirect", `/${body.id}`)
       .expect(204)
-    assert.deepEqual(response.body, {})
+    assert.deepEqual(withoutTimestamps(response.body), {})
   } catch (err) {
     assert.error(err, "error should be undefined")
   }
@@ -168,7 +234,7 @@ test("/home - should be able to delete a node", async (assert: Test) => {
   try {
     await request(app)
       .get(`/${body.id}`)
-      .set({ "Accept": "application/json" })
+      .set({ "Accept": "application/json", "Cookie": cookie })
       .expect("Content-Type", /json/)
       .expect(404)
   } catch (err) {
@@ -184,12 +250,12 @@ test("/home - should be able to create sub nodes", async (assert: Test) => {
   try {
     const response = await request(app)
       .post("/home")
-      .set({ "Accept": "application/json" })
+      .set({ "Accept": "application/json", "Cookie": cookie })
       .set({ "Content-Type": "application/x-www-form-urlencoded;charset=UTF-8" })
       .send(body)
       .expect("x-remix-redirect", "/home")
       .expect(204)
-    assert.deepEqual(response.body, {}, "should be empty by default")
+    assert.deepEqual(withoutTimestamps(response.body), {}, "should be empty by default")
   } catch (err) {
     assert.error(err, "error should be undefined")
   }
@@ -197,10 +263,10 @@ test("/home - should be able to create sub nodes", async (assert: Test) => {
   try {
     const response = await request(app)
       .get(`/${body.id}`)
-      .set({ "Accept": "application/json" })
+      .set({ "Accept": "application/json", "Cookie": cookie })
       .expect("Content-Type", /json/)
       .expect(200)
-    assert.deepEqual(response.body, { data: { ...body, collection: [] } }, "should've been stored correctly")
+    assert.deepEqual(withoutTimestamps(response.body), { data: { ...body, userId: user.id, version: 1, collection: [] }, path: [] }, "should've been stored correctly")
   } catch (err) {
     assert.error(err, "error should be undefined")
   }
@@ -212,12 +278,12 @@ test("/home - should be able to create sub nodes", async (assert: Test) => {
     try {
       const response = await request(app)
         .post(`/${body.id}`)
-        .set({ "Accept": "application/json" })
+        .set({ "Accept": "application/json", "Cookie": cookie })
         .set({ "Content-Type": "application/x-www-form-urlencoded;charset=UTF-8" })
         .send(subBody)
         .expect("x-remix-redirect", `/${body.id}`)
         .expect(204)
-      assert.deepEqual(response.body, {}, "should return an empty object")
+      assert.deepEqual(withoutTimestamps(response.body), {}, "should return an empty object")
     } catch (err) {
       assert.error(err, "error should be undefined")
     }
@@ -225,10 +291,10 @@ test("/home - should be able to create sub nodes", async (assert: Test) => {
     try {
       const response = await request(app)
         .get(`/${subBody.id}`)
-        .set({ "Accept": "application/json" })
+        .set({ "Accept": "application/json", "Cookie": cookie })
         .expect("Content-Type", /json/)
         .expect(200)
-      assert.deepEqual(response.body, { data: { ...subBody, parent: body.id, collection: [] } }, "should've been correctly stored")
+      assert.deepEqual(withoutTimestamps(response.body), { data: { ...subBody, userId: user.id, version: 1, parent: body.id, collection: [] }, path: [{ ...body, userId: user.id, version: 1 }] }, "should've been correctly stored")
     } catch (err) {
       assert.error(err, "error should be undefined")
     }
@@ -237,17 +303,40 @@ test("/home - should be able to create sub nodes", async (assert: Test) => {
   try {
     const response = await request(app)
       .get(`/${body.id}`)
-      .set({ "Accept": "application/json" })
+      .set({ "Accept": "application/json", "Cookie": cookie })
       .expect("Content-Type", /json/)
       .expect(200)
     assert.deepEqual(
-      response.body,
-      { data: { ...body, collection: [{ ...subBody1, parent: body.id }, { ...subBody2, parent: body.id }, { ...subBody3, parent: body.id }] } },
+      withoutTimestamps(response.body),
+      { data: { ...body, userId: user.id, version: 1, collection: [{ ...subBody1, userId: user.id, version: 1, parent: body.id }, { ...subBody2, userId: user.id, version: 1, parent: body.id }, { ...subBody3, userId: user.id, version: 1, parent: body.id }] }, path: [] },
       "should've been correctly stored"
     )
   } catch (err) {
     assert.error(err, "error should be undefined")
   }
+  // Check that the sub-nodes can be loaded a page at a time.
+  try {
+    const response = await request(app)
+      .get(`/${body.id}?limit=2`)
+      .set({ "Accept": "application/json", "Cookie": cookie })
+      .expect("Content-Type", /json/)
+      .expect(200)
+    assert.deepEqual(withoutTimestamps(response.body.data.collection).map(node => node.id), [subBody1.id, subBody2.id], "should return the first page")
+    assert.equal(response.body.data.cursor, subBody2.id, "should return the cursor of the next page")
+    const nextResponse = await request(app)
+      .get(`/${body.id}?limit=2&cursor=${response.body.data.cursor}`)
+      .set({ "Accept": "application/json", "Cookie": cookie })
+      .expect("Content-Type", /json/)
+      .expect(200)
+    assert.deepEqual(withoutTimestamps(nextResponse.body.data.collection).map(node => node.id), [subBody3.id], "should return the last page")
+    assert.equal(nextResponse.body.data.cursor, undefined, "shouldn't return a cursor on the last page")
+    await request(app)
+      .get(`/${body.id}?limit=2&cursor=${body.id}`)
+      .set({ "Accept": "application/json", "Cookie": cookie })
+      .expect(400)
+  } catch (err) {
+    assert.error(err, "error should be undefined")
+  }
   // End tests
   assert.end()
 })
@@ -258,12 +347,12 @@ test("/home - should be able to drag a sub-node", async (assert: Test) => {
   try {
     const response = await request(app)
       .post("/home")
-      .set({ "Accept": "application/json" })
+      .set({ "Accept": "application/json", "Cookie": cookie })
       .set({ "Content-Type": "application/x-www-form-urlencoded;charset=UTF-8" })
       .send(body)
       .expect("x-remix-redirect", "/home")
       .expect(204)
-    assert.deepEqual(response.body, {})
+    assert.deepEqual(withoutTimestamps(response.body), {})
   } catch (err) {
     assert.error(err, "error should be undefined")
   }
@@ -271,10 +360,10 @@ test("/home - should be able to drag a sub-node", async (assert: Test) => {
   try {
     const response = await request(app)
       .get(`/${body.id}`)
-      .set({ "Accept": "application/json" })
+      .set({ "Accept": "application/json", "Cookie": cookie })
       .expect("Content-Type", /json/)
       .expect(200)
-    assert.deepEqual(response.body, { data: { ...body, collection: [] } })
+    assert.deepEqual(withoutTimestamps(response.body), { data: { ...body, userId: user.id, version: 1, collection: [] }, path: [] })
   } catch (err) {
     assert.error(err, "error should be undefined")
   }
@@ -286,12 +375,12 @@ test("/home - should be able to drag a sub-node", async (assert: Test) => {
     try {
       const response = await request(app)
         .post(`/${body.id}`)
-        .set({ "Accept": "application/json" })
+        .set({ "Accept": "application/json", "Cookie": cookie })
         .set({ "Content-Type": "application/x-www-form-urlencoded;charset=UTF-8" })
         .send(subBody)
         .expect("x-remix-redirect", `/${body.id}`)
         .expect(204)
-      assert.deepEqual(response.body, {})
+      assert.deepEqual(withoutTimestamps(response.body), {})
     } catch (err) {
       assert.error(err, "error should be undefined")
     }
@@ -299,10 +388,10 @@ test("/home - should be able to drag a sub-node", async (assert: Test) => {
     try {
       const response = await request(app)
         .get(`/${subBody.id}`)
-        .set({ "Accept": "application/json" })
+        .set({ "Accept": "application/json", "Cookie": cookie })
         .expect("Content-Type", /json/)
         .expect(200)
-      assert.deepEqual(response.body, { data: { ...subBody, parent: body.id, collection: [] } })
+      assert.deepEqual(withoutTimestamps(response.body), { data: { ...subBody, userId: user.id, version: 1, parent: body.id, collection: [] }, path: [{ ...body, userId: user.id, version: 1 }] })
     } catch (err) {
       assert.error(err, "error should be undefined")
     }
@@ -311,10 +400,10 @@ test("/home - should be able to drag a sub-node", async (assert: Test) => {
   try {
     const response = await request(app)
       .get(`/${body.id}`)
-      .set({ "Accept": "application/json" })
+      .set({ "Accept": "application/json", "Cookie": cookie })
       .expect("Content-Type", /json/)
       .expect(200)
-    assert.deepEqual(response.body, { data: { ...body, collection: [{ ...subBody1, parent: body.id }, { ...subBody2, parent: body.id }, { ...subBody3, parent: body.id }] } })
+    assert.deepEqual(withoutTimestamps(response.body), { data: { ...body, userId: user.id, version: 1, collection: [{ ...subBody1, userId: user.id, version: 1, parent: body.id }, { ...subBody2, userId: user.id, version: 1, parent: body.id }, { ...subBody3, userId: user.id, version: 1, parent: body.id }] }, path: [] })
   } catch (err) {
     assert.error(err, "error should be undefined")
   }
@@ -322,12 +411,12 @@ test("/home - should be able to drag a sub-node", async (assert: Test) => {
   try {
     const response = await request(app)
       .post(`/${body.id}`)
-      .set({ "Accept": "application/json" })
+      .set({ "Accept": "application/json", "Cookie": cookie })
       .set({ "Content-Type": "application/x-www-form-urlencoded;charset=UTF-8" })
       .send({ dragId: subBody1.id, afterId: subBody2.id })
       .expect("x-remix-redirect", `/${body.id}`)
       .expect(204)
-    assert.deepEqual(response.body, {})
+    assert.deepEqual(withoutTimestamps(response.body), {})
   } catch (err) {
     assert.error(err, "error should be undefined")
   }
@@ -335,10 +424,10 @@ test("/home - should be able to drag a sub-node", async (assert: Test) => {
   try {
     const response = await request(app)
       .get(`/${body.id}`)
-      .set({ "Accept": "application/json" })
+      .set({ "Accept": "application/json", "Cookie": cookie })
       .expect("Content-Type", /json/)
       .expect(200)
-    assert.deepEqual(response.body, { data: { ...body, collection: [{ ...subBody2, parent: body.id }, { ...subBody1, parent: body.id }, { ...subBody3, parent: body.id }] } })
+    assert.deepEqual(withoutTimestamps(response.body), { data: { ...body, userId: user.id, version: 1, collection: [{ ...subBody2, userId: user.id, version: 1, parent: body.id }, { ...subBody1, userId: user.id, version: 1, parent: body.id }, { ...subBody3, userId: user.id, version: 1, parent: body.id }] }, path: [] })
   } catch (err) {
     assert.error(err, "error should be undefined")
   }
@@ -346,12 +435,12 @@ test("/home - should be able to drag a sub-node", async (assert: Test) => {
   try {
     const response = await request(app)
       .post(`/${body.id}`)
-      .set({ "Accept": "application/json" })
+      .set({ "Accept": "application/json", "Cookie": cookie })
       .set({ "Content-Type": "application/x-www-form-urlencoded;charset=UTF-8" })
       .send({ dragId: subBody3.id })
       .expect("x-remix-redirect", `/${body.id}`)
       .expect(204)
-    assert.deepEqual(response.body, {})
+    assert.deepEqual(withoutTimestamps(response.body), {})
   } catch (err) {
     assert.error(err, "error should be undefined")
   }
@@ -359,13 +448,245 @@ test("/home - should be able to drag a sub-node", async (assert: Test) => {
   try {
     const response = await request(app)
       .get(`/${body.id}`)
-      .set({ "Accept": "application/json" })
+      .set({ "Accept": "application/json", "Cookie": cookie })
       .expect("Content-Type", /json/)
       .expect(200)
-    assert.deepEqual(response.body, { data: { ...body, collection: [{ ...subBody3, parent: body.id }, { ...subBody2, parent: body.id }, { ...subBody1, parent: body.id }] } })
+    assert.deepEqual(withoutTimestamps(response.body), { data: { ...body, userId: user.id, version: 1, collection: [{ ...subBody3, userId: user.id, version: 1, parent: body.id }, { ...subBody2, userId: user.id, version: 1, parent: body.id }, { ...subBody1, userId: user.id, version: 1, parent: body.id }] }, path: [] })
   } catch (err) {
     assert.error(err, "error should be undefined")
   }
   // End tests
   assert.end()
-})
\ No newline at end of file
+})
+
+test("/:id/events - should reject anonymous requests, and missing nodes", async (assert: Test) => {
+  try {
+    await request(app)
+      .get("/home/events")
+      .expect("Content-Type", /json/)
+      .expect(401)
+    await request(app)
+      .get(`/${ulid()}/events`)
+      .set({ "Cookie": cookie })
+      .expect("Content-Type", /json/)
+      .expect(404)
+  } catch (err) {
+    assert.error(err, "error should be undefined")
+  }
+  assert.end()
+})
+
+test("/:id/export - should export a node along with its closed sub-nodes", async (assert: Test) => {
+  const body = { id: ulid(), content: "Export" }
+  const subBody = { id: ulid(), content: "Closed" }
+  // Create a node with a sub-node
+  try {
+    for (let [parent, node] of [["home", body], [body.id, subBody]]) {
+      await request(app)
+        .post(`/${parent}`)
+        .set({ "Accept": "application/json", "Cookie": cookie })
+        .set({ "Content-Type": "application/x-www-form-urlencoded;charset=UTF-8" })
+        .send(node)
+        .expect(204)
+    }
+  } catch (err) {
+    assert.error(err, "error should be undefined")
+  }
+  // Export it as Markdown
+  try {
+    const response = await request(app)
+      .get(`/${body.id}/export?format=markdown`)
+      .set({ "Cookie": cookie })
+      .expect("Content-Type", /text\/markdown/)
+      .expect("Content-Disposition", 'attachment; filename="export.md"')
+      .expect(200)
+    assert.equal(response.text, "- Export\n  - Closed\n", "should include the closed sub-node")
+  } catch (err) {
+    assert.error(err, "error should be undefined")
+  }
+  // Unknown formats should be rejected
+  try {
+    await request(app)
+      .get(`/${body.id}/export?format=docx`)
+      .set({ "Cookie": cookie })
+      .expect(400)
+  } catch (err) {
+    assert.error(err, "error should be undefined")
+  }
+  // End tests
+  assert.end()
+})
+
+test("/:id/import - should import a Markdown outline into a node", async (assert: Test) => {
+  const body = { id: ulid(), content: "Import" }
+  // Create the target node
+  try {
+    await request(app)
+      .post("/home")
+      .set({ "Accept": "application/json", "Cookie": cookie })
+      .set({ "Content-Type": "application/x-www-form-urlencoded;charset=UTF-8" })
+      .send(body)
+      .expect(204)
+  } catch (err) {
+    assert.error(err, "error should be undefined")
+  }
+  // Import a nested list along with a code block
+  try {
+    const response = await request(app)
+      .post(`/${body.id}/import`)
+      .set({ "Accept": "application/json", "Cookie": cookie })
+      .set({ "Content-Type": "application/x-www-form-urlencoded;charset=UTF-8" })
+      .send({ format: "markdown", document: "- First\n  - Nested\n- ```js\n  let a = 1\n  ```" })
+      .expect("Content-Type", /json/)
+      .expect(200)
+    assert.equal(response.body.imported, 3, "should import every node")
+    assert.deepEqual(response.body.errors, [], "should not report errors")
+  } catch (err) {
+    assert.error(err, "error should be undefined")
+  }
+  // The imported nodes should be added to the node in order
+  try {
+    const response = await request(app)
+      .get(`/${body.id}`)
+      .set({ "Accept": "application/json", "Cookie": cookie })
+      .expect(200)
+    const collection = response.body.data.collection
+    assert.deepEqual(collection.map(node => node.content), ["First", JSON.stringify({ content: "let a = 1", meta: { language: "js", filename: "" } })])
+    assert.deepEqual(collection.map(node => node.interpreter), [undefined, "code"])
+  } catch (err) {
+    assert.error(err, "error should be undefined")
+  }
+  // Invalid documents should be rejected
+  try {
+    await request(app)
+      .post(`/${body.id}/import`)
+      .set({ "Accept": "application/json", "Cookie": cookie })
+      .set({ "Content-Type": "application/x-www-form-urlencoded;charset=UTF-8" })
+      .send({ format: "json", document: "{" })
+      .expect(400)
+  } catch (err) {
+    assert.error(err, "error should be undefined")
+  }
+  // End tests
+  assert.end()
+})
+
+test("/home - should not be able to access the nodes of another user", async (assert: Test) => {
+  const body = { id: ulid(), content: ulid() }
+  const otherCookie = await signIn(createUser())
+  // Create a new node
+  try {
+    await request(app)
+      .post("/home")
+      .set({ "Accept": "application/json", "Cookie": cookie })
+      .set({ "Content-Type": "application/x-www-form-urlencoded;charset=UTF-8" })
+      .send(body)
+      .expect("x-remix-redirect", "/home")
+      .expect(204)
+  } catch (err) {
+    assert.error(err, "error should be undefined")
+  }
+  // The other user home should not include the node
+  try {
+    const response = await request(app)
+      .get("/home")
+      .set({ "Accept": "application/json", "Cookie": otherCookie })
+      .expect("Content-Type", /json/)
+      .expect(200)
+    assert.deepEqual(withoutTimestamps(response.body), { data: { id: "home", content: "Home Node", parent: "home", collection: [] }, path: [] })
+  } catch (err) {
+    assert.error(err, "error should be undefined")
+  }
+  // The other user shouldn't be able to get the node
+  try {
+    await request(app)
+      .get(`/${body.id}`)
+      .set({ "Accept": "application/json", "Cookie": otherCookie })
+      .expect("Content-Type", /json/)
+      .expect(404)
+  } catch (err) {
+    assert.error(err, "error should be undefined")
+  }
+  // The other user shouldn't be able to update the node
+  try {
+    await request(app)
+      .put(`/${body.id}`)
+      .set({ "Accept": "application/json", "Cookie": otherCookie })
+      .set({ "Content-Type": "application/x-www-form-urlencoded;charset=UTF-8" })
+      .send({ content: ulid() })
+      .expect(404)
+  } catch (err) {
+    assert.error(err, "error should be undefined")
+  }
+  // The node should remain unchanged for its owner
+  try {
+    const response = await request(app)
+      .get(`/${body.id}`)
+      .set({ "Accept": "application/json", "Cookie": cookie })
+      .expect("Content-Type", /json/)
+      .expect(200)
+    assert.deepEqual(withoutTimestamps(response.body), { data: { ...body, userId: user.id, version: 1, collection: [] }, path: [] })
+  } catch (err) {
+    assert.error(err, "error should be undefined")
+  }
+  // End tests
+  assert.end()
+})
+
+test("/:id - should accept personal API tokens", async (assert: Test) => {
+  const [node, other] = [{ id: ulid(), content: ulid() }, { id: ulid(), content: ulid() }]
+  try {
+    for (let body of [node, other]) {
+      await request(app)
+        .post("/home")
+        .set({ "Accept": "application/json", "Cookie": cookie })
+        .set({ "Content-Type": "application/x-www-form-urlencoded;charset=UTF-8" })
+        .send(body)
+        .expect(204)
+    }
+    const { secret } = await tokensRepository.create(user.id, ulid(), "read", node.id)
+    const response = await request(app)
+      .get(`/${node.id}`)
+      .set({ "Accept": "application/json", "Authorization": `Bearer ${secret}` })
+      .expect("Content-Type", /json/)
+      .expect(200)
+    assert.deepEqual(withoutTimestamps(response.body), { data: { ...node, userId: user.id, version: 1, collection: [] }, path: [] })
+    await request(app)
+      .get(`/${node.id}/history`)
+      .set({ "Accept": "application/json", "Authorization": `Bearer ${secret}` })
+      .expect(200)
+    // Tokens can only read the nodes under their root.
+    await request(app)
+      .get(`/${other.id}`)
+      .set({ "Accept": "application/json", "Authorization": `Bearer ${secret}` })
+      .expect(403)
+  } catch (err) {
+    assert.error(err, "error should be undefined")
+  }
+  // End tests
+  assert.end()
+})
+
+test("/admin/integrity - should only be available to administrators", async (assert: Test) => {
+  try {
+    await request(app)
+      .get(`/admin/integrity?branch=${user.id}%23Nodes`)
+      .set({ "Accept": "application/json" })
+      .expect("Content-Type", /json/)
+      .expect(401)
+    await request(app)
+      .get(`/admin/integrity?branch=${user.id}%23Nodes`)
+      .set({ "Accept": "application/json", "Cookie": cookie })
+      .expect("Content-Type", /json/)
+      .expect(403)
+    await request(app)
+      .post("/admin/integrity")
+      .set({ "Accept": "application/json", "Cookie": cookie })
+      .set({ "Content-Type": "application/x-www-form-urlencoded;charset=UTF-8" })
+      .send({ branch: `${user.id}#Nodes`, fix: "true" })
+      .expect(403)
+  } catch (err) {
+    assert.error(err, "error should be undefined")
+  }
+  assert.end()
+})
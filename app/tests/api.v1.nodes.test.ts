@@ -0,0 +1,333 @@
+import test from "tape"
+import { ulid } from "ulid"
+import type { Test } from "tape"
+import request from "supertest"
+
+import { app } from "../../server/index.js"
+import { createUser, signIn } from "./helpers"
+import { withoutTimestamps } from "./nodes"
+import { repository as tokensRepository } from "../repositories/tokens.server"
+
+const user = createUser()
+let cookie: string
+
+test.onFinish(() => process.exit(0))
+
+test("setup - should sign in a new user", async (assert: Test) => {
+  cookie = await signIn(user)
+  assert.ok(cookie, "cookie should be defined")
+  assert.end()
+})
+
+test("/api/v1/nodes - should reject anonymous requests", async (assert: Test) => {
+  try {
+    const response = await request(app)
+      .get("/api/v1/nodes")
+      .expect("Content-Type", /json/)
+      .expect(401)
+    assert.equal(response.body.error.status, 401, "should return the status code")
+    assert.equal(response.body.error.code, "UnauthorizedError", "should return the name of the error")
+    await request(app)
+      .post("/api/v1/nodes")
+      .set({ "Content-Type": "application/json" })
+      .send({ content: ulid() })
+      .expect("Content-Type", /json/)
+      .expect(401)
+  } catch (err) {
+    assert.error(err, "error should be undefined")
+  }
+  assert.end()
+})
+
+test("/api/v1/nodes - should be able to create a new node", async (assert: Test) => {
+  const body = { id: ulid(), content: ulid() }
+  // Create a new node
+  try {
+    const response = await request(app)
+      .post("/api/v1/nodes")
+      .set({ "Cookie": cookie, "Content-Type": "application/json" })
+      .send(body)
+      .expect("Content-Type", /json/)
+      .expect("Location", `/api/v1/nodes/${body.id}`)
+      .expect("Etag", `"1"`)
+      .expect(201)
+    assert.equal(response.body.data.id, body.id, "should return the new node")
+    assert.equal(response.body.data.content, body.content, "should return the new node")
+    assert.equal(response.body.data.version, 1, "should return the version of the new node")
+  } catch (err) {
+    assert.error(err, "error should be undefined")
+  }
+  // The node should be listed on the home collection
+  try {
+    const response = await request(app)
+      .get("/api/v1/nodes")
+      .set({ "Cookie": cookie })
+      .expect("Content-Type", /json/)
+      .expect(200)
+    assert.ok(response.body.data.some((node: any) => node.id === body.id), "should list the new node")
+  } catch (err) {
+    assert.error(err, "error should be undefined")
+  }
+  // The node should be available on its own endpoint
+  try {
+    const response = await request(app)
+      .get(`/api/v1/nodes/${body.id}`)
+      .set({ "Cookie": cookie })
+      .expect("Content-Type", /json/)
+      .expect("Etag", `"1"`)
+      .expect(200)
+    assert.deepEqual(withoutTimestamps(response.body.data), { ...body, userId: user.id, version: 1, collection: [] })
+  } catch (err) {
+    assert.error(err, "error should be undefined")
+  }
+  // The same id can't be used twice
+  try {
+    const response = await request(app)
+      .post("/api/v1/nodes")
+      .set({ "Cookie": cookie, "Content-Type": "application/json" })
+      .send(body)
+      .expect("Content-Type", /json/)
+      .expect(409)
+    assert.equal(response.body.error.code, "ConflictError", "should return the name of the error")
+  } catch (err) {
+    assert.error(err, "error should be undefined")
+  }
+  // End tests
+  assert.end()
+})
+
+test("/api/v1/nodes - should reject invalid bodies", async (assert: Test) => {
+  try {
+    const response = await request(app)
+      .post("/api/v1/nodes")
+      .set({ "Cookie": cookie, "Content-Type": "application/json" })
+      .send("{")
+      .expect("Content-Type", /json/)
+      .expect(400)
+    assert.equal(response.body.error.code, "InvalidRequestError", "should return the name of the error")
+    await request(app)
+      .post("/api/v1/nodes")
+      .set({ "Cookie": cookie, "Content-Type": "application/json" })
+      .send({ content: 1 })
+      .expect(400)
+    await request(app)
+      .post("/api/v1/nodes")
+      .set({ "Cookie": cookie, "Content-Type": "application/json" })
+      .send({ content: ulid(), parent: ulid() })
+      .expect(404)
+  } catch (err) {
+    assert.error(err, "error should be undefined")
+  }
+  assert.end()
+})
+
+test("/api/v1/nodes/:id - should be able to update a node", async (assert: Test) => {
+  const body = { id: ulid(), content: ulid() }
+  const content = ulid()
+  try {
+    await request(app)
+      .post("/api/v1/nodes")
+      .set({ "Cookie": cookie, "Content-Type": "application/json" })
+      .send(body)
+      .expect(201)
+    // Updates on an outdated version should fail
+    const failed = await request(app)
+      .put(`/api/v1/nodes/${body.id}`)
+      .set({ "Cookie": cookie, "Content-Type": "application/json", "If-Match": `"2"` })
+      .send({ content })
+      .expect("Content-Type", /json/)
+      .expect(412)
+    assert.equal(failed.body.error.code, "PreconditionFailedError", "should return the name of the error")
+    const response = await request(app)
+      .put(`/api/v1/nodes/${body.id}`)
+      .set({ "Cookie": cookie, "Content-Type": "application/json", "If-Match": `"1"` })
+      .send({ content })
+      .expect("Content-Type", /json/)
+      .expect("Etag", `"2"`)
+      .expect(200)
+    assert.equal(response.body.data.content, content, "should return the updated node")
+    assert.equal(response.body.data.version, 2, "should return the new version")
+  } catch (err) {
+    assert.error(err, "error should be undefined")
+  }
+  assert.end()
+})
+
+test("/api/v1/nodes/:id - should be able to move a node", async (assert: Test) => {
+  const parent = { id: ulid(), content: ulid() }
+  const first = { id: ulid(), content: ulid(), parent: parent.id }
+  const second = { id: ulid(), content: ulid(), parent: parent.id }
+  try {
+    for (let body of [parent, first, second]) {
+      await request(app)
+        .post("/api/v1/nodes")
+        .set({ "Cookie": cookie, "Content-Type": "application/json" })
+        .send(body)
+        .expect(201)
+    }
+    // Move the second node to the start of the list
+    await request(app)
+      .patch(`/api/v1/nodes/${second.id}`)
+      .set({ "Cookie": cookie, "Content-Type": "application/json" })
+      .send({ afterId: null, meta: { isOpened: true } })
+      .expect("Content-Type", /json/)
+      .expect(200)
+    const response = await request(app)
+      .get(`/api/v1/nodes?parent=${parent.id}`)
+      .set({ "Cookie": cookie })
+      .expect("Content-Type", /json/)
+      .expect(200)
+    assert.deepEqual(response.body.data.map((node: any) => node.id), [second.id, first.id], "should have moved the node")
+    assert.deepEqual(response.body.data[0].meta, { isOpened: true }, "should have updated the metadata")
+    // A node can't be moved after a node of another list
+    await request(app)
+      .patch(`/api/v1/nodes/${first.id}`)
+      .set({ "Cookie": cookie, "Content-Type": "application/json" })
+      .send({ afterId: parent.id })
+      .expect("Content-Type", /json/)
+      .expect(400)
+    // A page of the list can be requested
+    const page = await request(app)
+      .get(`/api/v1/nodes?parent=${parent.id}&limit=1`)
+      .set({ "Cookie": cookie })
+      .expect(200)
+    assert.deepEqual(page.body.data.map((node: any) => node.id), [second.id], "should return the first page")
+    assert.equal(page.body.cursor, second.id, "should return the cursor of the next page")
+  } catch (err) {
+    assert.error(err, "error should be undefined")
+  }
+  assert.end()
+})
+
+test("/api/v1/nodes/:id - should be able to duplicate and delete a node", async (assert: Test) => {
+  const body = { id: ulid(), content: ulid() }
+  try {
+    await request(app)
+      .post("/api/v1/nodes")
+      .set({ "Cookie": cookie, "Content-Type": "application/json" })
+      .send(body)
+      .expect(201)
+    const copy = await request(app)
+      .post(`/api/v1/nodes/${body.id}/duplicate`)
+      .set({ "Cookie": cookie, "Content-Type": "application/json" })
+      .send({ deep: true })
+      .expect("Content-Type", /json/)
+      .expect(201)
+    assert.notEqual(copy.body.data.id, body.id, "should return a new node")
+    assert.equal(copy.body.data.content, body.content, "should copy the content")
+    await request(app)
+      .delete(`/api/v1/nodes/${body.id}`)
+      .set({ "Cookie": cookie, "If-Match": `"2"` })
+      .expect(412)
+    await request(app)
+      .delete(`/api/v1/nodes/${body.id}`)
+      .set({ "Cookie": cookie, "If-Match": `"1"` })
+      .expect(204)
+    const response = await request(app)
+      .get(`/api/v1/nodes/${body.id}`)
+      .set({ "Cookie": cookie })
+      .expect("Content-Type", /json/)
+      .expect(404)
+    assert.equal(response.body.error.code, "ModelNotFound", "should return the name of the error")
+  } catch (err) {
+    assert.error(err, "error should be undefined")
+  }
+  assert.end()
+})
+
+test("/api/v1/nodes/:id - should not be able to access the nodes of another user", async (assert: Test) => {
+  const body = { id: ulid(), content: ulid() }
+  const otherCookie = await signIn(createUser())
+  try {
+    await request(app)
+      .post("/api/v1/nodes")
+      .set({ "Cookie": cookie, "Content-Type": "application/json" })
+      .send(body)
+      .expect(201)
+    await request(app)
+      .get(`/api/v1/nodes/${body.id}`)
+      .set({ "Cookie": otherCookie })
+      .expect(404)
+    await request(app)
+      .put(`/api/v1/nodes/${body.id}`)
+      .set({ "Cookie": otherCookie, "Content-Type": "application/json" })
+      .send({ content: ulid() })
+      .expect(404)
+    await request(app)
+      .delete(`/api/v1/nodes/${body.id}`)
+      .set({ "Cookie": otherCookie })
+      .expect(404)
+  } catch (err) {
+    assert.error(err, "error should be undefined")
+  }
+  assert.end()
+})
+test("/api/v1/nodes - should accept personal API tokens", async (assert: Test) => {
+  const root = { id: ulid(), content: ulid() }
+  const other = { id: ulid(), content: ulid() }
+  try {
+    for (let body of [root, other]) {
+      await request(app)
+        .post("/api/v1/nodes")
+        .set({ "Cookie": cookie, "Content-Type": "application/json" })
+        .send(body)
+        .expect(201)
+    }
+    // Read-only tokens can read, but not change, the nodes.
+    const reader = await tokensRepository.create(user.id, ulid(), "read")
+    await request(app)
+      .get(`/api/v1/nodes/${root.id}`)
+      .set({ "Authorization": `Bearer ${reader.secret}` })
+      .expect("Content-Type", /json/)
+      .expect(200)
+    const forbidden = await request(app)
+      .post("/api/v1/nodes")
+      .set({ "Authorization": `Bearer ${reader.secret}`, "Content-Type": "application/json" })
+      .send({ content: ulid() })
+      .expect("Content-Type", /json/)
+      .expect(403)
+    assert.equal(forbidden.body.error.code, "ForbiddenError", "should return the name of the error")
+    // Tokens with a root can only access its sub-tree.
+    const writer = await tokensRepository.create(user.id, ulid(), "write", root.id)
+    await request(app)
+      .post("/api/v1/nodes")
+      .set({ "Authorization": `Bearer ${writer.secret}`, "Content-Type": "application/json" })
+      .send({ content: ulid(), parent: root.id })
+      .expect(201)
+    await request(app)
+      .get(`/api/v1/nodes/${other.id}`)
+      .set({ "Authorization": `Bearer ${writer.secret}` })
+      .expect(403)
+    await request(app)
+      .get("/api/v1/nodes")
+      .set({ "Authorization": `Bearer ${writer.secret}` })
+      .expect(403)
+    // Revoked, or invalid, tokens are rejected.
+    await tokensRepository.revoke(reader.token.id, user.id)
+    for (let secret of [reader.secret, ulid()]) {
+      const response = await request(app)
+        .get(`/api/v1/nodes/${root.id}`)
+        .set({ "Authorization": `Bearer ${secret}` })
+        .expect("Content-Type", /json/)
+        .expect(401)
+      assert.equal(response.body.error.code, "UnauthorizedError", "should return the name of the error")
+    }
+  } catch (err) {
+    assert.error(err, "error should be undefined")
+  }
+  assert.end()
+})
+
+test("/api/openapi.json - should describe the API", async (assert: Test) => {
+  try {
+    const response = await request(app)
+      .get("/api/openapi.json")
+      .expect("Content-Type", /json/)
+      .expect(200)
+    assert.ok(response.body.openapi.startsWith("3."), "should be an OpenAPI 3 document")
+    assert.ok(response.body.paths["/api/v1/nodes/{id}"], "should describe the nodes endpoints")
+  } catch (err) {
+    assert.error(err, "error should be undefined")
+  }
+  assert.end()
+})
@@ -0,0 +1,29 @@
+import { ulid } from "ulid"
+
+import { User } from "../models/user"
+import { createSessionCookie } from "../server/session.server"
+import { repository as usersRepository } from "../repositories/users.server"
+
+/**
+ * Functions
+ */
+/**
+ * createUser returns a new random User.
+ */
+export function createUser(): User {
+  return new User({
+    id: ulid(),
+    username: ulid(),
+    provider: "github",
+    email: ulid() + "@example.test",
+  })
+}
+/**
+ * signIn stores the user on the table and returns a valid session cookie.
+ * @param user - User to sign in.
+ */
+export async function signIn(user: User): Promise<string> {
+  await usersRepository.put(user)
+  const setCookie = await createSessionCookie(`${user.id}.${user.provider}`)
+  return setCookie.split(";")[0]
+}
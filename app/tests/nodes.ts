@@ -0,0 +1,38 @@
+import type { NodeItem } from "../models/node"
+import type { NodeDynamoItem } from "../drivers/nodesDynamoDriver.server"
+
+/**
+ * KeyConfig holds the parts of a key built by `key`.
+ */
+export type KeyConfig = { id?: string, userId?: string, type?: string }
+/**
+ * NodeTimestamps are the attributes of a `Node`, or of its item, that can't
+ * be known in advance.
+ */
+type NodeTimestamps = Pick<NodeItem & NodeDynamoItem, "createdAt" | "updatedAt" | "updatedBy">
+/**
+ * Functions
+ */
+/**
+ * key is a helper function to construct keys to be used as
+ * `pk` or `sk` inside the table.
+ * @param config - Key configuration object.
+ */
+export function key({ id = "", userId = "U1", type = "Nodes" }: KeyConfig = {}): string {
+  return [userId, type, id].filter(x => x !== "").join("#")
+}
+/**
+ * withoutTimestamps removes the creation and update attributes, which can't
+ * be known in advance, from a `Node` or an item, along with the ones nested
+ * on its sub-nodes, ancestors, or on the `data` of a response.
+ * @param value - Response, `Node`, item, or list of them.
+ */
+export function withoutTimestamps<T>(value: T): T {
+  if (Array.isArray(value)) return value.map(withoutTimestamps) as unknown as T
+  if (value === null || typeof value !== "object" || value instanceof Error) return value
+  const { createdAt, updatedAt, updatedBy, ...rest } = value as unknown as NodeTimestamps & Record<string, unknown>
+  for (let name of ["data", "collection", "path"]) {
+    if (rest[name] !== undefined) rest[name] = withoutTimestamps(rest[name])
+  }
+  return rest as unknown as T
+}
@@ -0,0 +1,50 @@
+import { repository as nodesRepository } from "../app/repositories/nodes.server"
+/**
+ * Main
+ */
+main()
+  .then(console.log)
+  .catch(console.error)
+/**
+ * Functions
+ */
+/**
+ * main is the function that will be called when running the script.
+ */
+async function main(): Promise<string> {
+  const args = process.argv.slice(2)
+  switch (args[0]) {
+    case "check":
+      return check(args.includes("--fix"), args.slice(1).filter(arg => arg !== "--fix"))
+    default:
+      return "Invalid Command"
+  }
+}
+/**
+ * check looks for inconsistencies on the `Nodes` linked lists, printing
+ * every anomaly found. If `fix` is set, the broken lists are repaired.
+ * @param fix - Flag that repairs the broken lists.
+ * @param branches - Branches to check. Defaults to every branch.
+ */
+async function check(fix: boolean, branches: string[]): Promise<string> {
+  try {
+    if (branches.length === 0) branches = await nodesRepository.branches()
+    let broken = 0
+    let fixed = 0
+    for (let branch of branches) {
+      const report = await nodesRepository.check(branch, fix)
+      if (report.anomalies.length === 0) continue
+      broken++
+      if (report.fixed) fixed++
+      for (let anomaly of report.anomalies) {
+        console.log([branch, anomaly.type, anomaly.pk, anomaly.next].filter(x => x !== undefined).join("\t"))
+      }
+    }
+    return fix
+      ? `Checked ${branches.length} branches, fixed ${fixed} of ${broken} broken branches`
+      : `Checked ${branches.length} branches, found ${broken} broken branches`
+  } catch (err) {
+    console.error(err)
+    return "Couldn't check the branches"
+  }
+}
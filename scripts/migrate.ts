@@ -0,0 +1,218 @@
+import { DynamoDBClient, DynamoDBClientConfig } from "@aws-sdk/client-dynamodb"
+import { DynamoDBDocumentClient, GetCommand, PutCommand, ScanCommand, UpdateCommand } from "@aws-sdk/lib-dynamodb"
+import type { ScanCommandOutput } from "@aws-sdk/lib-dynamodb"
+
+import { migrations } from "./migrations"
+import type { Migration, MigrationItem } from "./migrations/migration"
+/**
+ * DynamoDB configuration
+ */
+const DB_ENDPOINT = process.env.DB_ENDPOINT || "http://dynamodb:8000"
+const TABLE_NAME = process.env.TABLE_NAME || "renodes-test"
+const AWS_REGION = process.env.AWS_REGION || "us-east-1"
+
+/**
+ * STATE_PK is the `pk` of the item that records the applied migrations.
+ */
+const STATE_PK = "Migrations"
+/**
+ * MigrationsState is the item that records the applied migrations, and
+ * the progress of the one being applied.
+ */
+interface MigrationsState {
+  /**
+   * pk is always `STATE_PK`.
+   */
+  pk: string;
+  /**
+   * versions are the versions of the applied migrations.
+   */
+  versions: number[];
+  /**
+   * progress is the progress of the migration being applied, if any.
+   */
+  progress?: MigrationProgress;
+}
+/**
+ * MigrationProgress is the progress of a migration being applied, saved
+ * after every page of the scan so an interrupted run can be resumed.
+ */
+interface MigrationProgress {
+  /**
+   * version is the version of the migration.
+   */
+  version: number;
+  /**
+   * exclusiveStartKey is the key the scan should continue from.
+   */
+  exclusiveStartKey?: { [key: string]: any };
+  /**
+   * scanned is the number of items scanned so far.
+   */
+  scanned: number;
+  /**
+   * migrated is the number of items updated so far.
+   */
+  migrated: number;
+}
+
+if (!TABLE_NAME) throw new Error("environment variable TABLE_NAME can't be undefined")
+
+let config: DynamoDBClientConfig = {
+  region: AWS_REGION,
+}
+
+if (DB_ENDPOINT) {
+  config.endpoint = DB_ENDPOINT
+}
+
+const db = DynamoDBDocumentClient.from(new DynamoDBClient(config), {
+  marshallOptions: {
+    removeUndefinedValues: true,
+  }
+})
+/**
+ * Main
+ */
+main()
+  .then(console.log)
+  .catch(console.error)
+/**
+ * Functions
+ */
+/**
+ * main is the function that will be called when running the script.
+ */
+async function main(): Promise<string> {
+  const args = process.argv.slice(2)
+  switch (args[0]) {
+    case "status":
+      return status()
+    case "up":
+      return up()
+    default:
+      return "Invalid Command"
+  }
+}
+/**
+ * status lists every migration, telling if it was applied, and the
+ * progress of the one being applied.
+ */
+async function status(): Promise<string> {
+  try {
+    const state = await getState()
+    return migrations.map(migration => {
+      const applied = state.versions.includes(migration.version)
+      const progress = state.progress && state.progress.version === migration.version
+        ? ` (in progress: ${state.progress.migrated} of ${state.progress.scanned} scanned items migrated)`
+        : ""
+      return `${pad(migration.version)} ${applied ? "applied" : "pending"} ${migration.description}${progress}`
+    }).join("\n")
+  } catch (err) {
+    console.error(err)
+    return "Couldn't get the status of the migrations"
+  }
+}
+/**
+ * up applies every pending migration, in version order. A migration that
+ * was interrupted is resumed from the last saved page.
+ */
+async function up(): Promise<string> {
+  try {
+    const state = await getState()
+    const pending = migrations.filter(migration => !state.versions.includes(migration.version))
+    if (pending.length === 0) return "Every migration is applied"
+    const lines: string[] = []
+    for (let migration of pending) {
+      const progress = await apply(migration, state)
+      state.versions.push(migration.version)
+      state.progress = undefined
+      await putState(state)
+      lines.push(`${pad(migration.version)} applied: migrated ${progress.migrated} of ${progress.scanned} items`)
+    }
+    return lines.join("\n")
+  } catch (err) {
+    console.error(err)
+    return "Couldn't apply the migrations"
+  }
+}
+/**
+ * apply scans the table, adding the missing attributes of every item the
+ * migration backfills. The progress is saved after every page.
+ * @param migration - Migration to apply.
+ * @param state - Current state of the migrations.
+ */
+async function apply(migration: Migration, state: MigrationsState): Promise<MigrationProgress> {
+  const progress: MigrationProgress = state.progress && state.progress.version === migration.version
+    ? state.progress
+    : { version: migration.version, scanned: 0, migrated: 0 }
+  do {
+    const scanOutput: ScanCommandOutput = await db.send(new ScanCommand({
+      TableName: TABLE_NAME,
+      ExclusiveStartKey: progress.exclusiveStartKey,
+    }))
+    for (let item of scanOutput.Items || []) {
+      progress.scanned++
+      if (item.pk === STATE_PK) continue
+      const attributes = migration.backfill(item)
+      if (attributes === undefined || Object.keys(attributes).length === 0) continue
+      if (await backfill(item.pk, attributes)) progress.migrated++
+    }
+    progress.exclusiveStartKey = scanOutput.LastEvaluatedKey
+    state.progress = progress
+    await putState(state)
+  } while (progress.exclusiveStartKey)
+  return progress
+}
+/**
+ * backfill sets the given attributes of an item, unless they were set
+ * since the item was scanned. Items deleted since then are ignored.
+ * Returns `true` if the item still exists.
+ * @param pk - `pk` of the item.
+ * @param attributes - Attributes to set.
+ */
+async function backfill(pk: string, attributes: MigrationItem): Promise<boolean> {
+  const names: { [key: string]: string } = {}
+  const values: { [key: string]: any } = {}
+  const expressions = Object.keys(attributes).map((key, index) => {
+    names[`#a${index}`] = key
+    values[`:a${index}`] = attributes[key]
+    return `#a${index} = if_not_exists(#a${index}, :a${index})`
+  })
+  try {
+    await db.send(new UpdateCommand({
+      TableName: TABLE_NAME,
+      Key: { pk },
+      UpdateExpression: `SET ${expressions.join(", ")}`,
+      ConditionExpression: "attribute_exists(pk)",
+      ExpressionAttributeNames: names,
+      ExpressionAttributeValues: values,
+    }))
+    return true
+  } catch (err) {
+    if (err.name === "ConditionalCheckFailedException") return false
+    throw err
+  }
+}
+/**
+ * getState returns the state of the migrations stored on the table.
+ */
+async function getState(): Promise<MigrationsState> {
+  const output = await db.send(new GetCommand({ TableName: TABLE_NAME, Key: { pk: STATE_PK } }))
+  const item = output.Item as MigrationsState | undefined
+  return item ? { ...item, versions: item.versions || [] } : { pk: STATE_PK, versions: [] }
+}
+/**
+ * putState stores the state of the migrations on the table.
+ * @param state - State to store.
+ */
+async function putState(state: MigrationsState): Promise<void> {
+  await db.send(new PutCommand({ TableName: TABLE_NAME, Item: state }))
+}
+/**
+ * pad formats the version of a migration as it's shown on its filename.
+ * @param version - Version of the migration.
+ */
+function pad(version: number): string {
+  return String(version).padStart(3, "0")
+}
@@ -0,0 +1,17 @@
+import { isNodeItem } from "./migration"
+import type { Migration } from "./migration"
+
+/**
+ * meta backfills the `_m` map of the `Nodes` stored before it existed,
+ * so their metadata can be updated without replacing the whole map.
+ */
+const meta: Migration = {
+  version: 1,
+  description: "Backfill the `_m` meta map of the Nodes",
+  backfill(item) {
+    if (!isNodeItem(item) || item._m !== undefined) return undefined
+    return { _m: {} }
+  },
+}
+
+export default meta
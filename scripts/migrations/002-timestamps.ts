@@ -0,0 +1,26 @@
+import { decodeTime } from "ulid"
+
+import { isNodeItem } from "./migration"
+import type { Migration } from "./migration"
+
+/**
+ * timestamps backfills the `createdAt` and `updatedAt` attributes of the
+ * `Nodes` stored before they existed. Their ids are ULIDs, so the time
+ * they were created at can be taken from them.
+ */
+const timestamps: Migration = {
+  version: 2,
+  description: "Backfill the createdAt and updatedAt timestamps of the Nodes",
+  backfill(item) {
+    if (!isNodeItem(item) || (item.createdAt !== undefined && item.updatedAt !== undefined)) return undefined
+    try {
+      const createdAt = item.createdAt === undefined ? decodeTime(item.id) : item.createdAt
+      return { createdAt, updatedAt: createdAt }
+    } catch (err) {
+      // Nodes whose id isn't a ULID can't be dated.
+      return undefined
+    }
+  },
+}
+
+export default timestamps
@@ -0,0 +1,12 @@
+import meta from "./001-meta"
+import timestamps from "./002-timestamps"
+import type { Migration } from "./migration"
+
+/**
+ * migrations is the list of every migration, sorted by version. New
+ * migrations must be added at the end, with a greater version.
+ */
+export const migrations: Migration[] = [
+  meta,
+  timestamps,
+]
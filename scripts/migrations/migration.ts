@@ -0,0 +1,42 @@
+/**
+ * MigrationItem is an item of the table, as read by a scan.
+ */
+export type MigrationItem = { [key: string]: any }
+/**
+ * Migration is a change of the shape of the items of the table. Migrations
+ * only add the attributes an item is missing, so running one twice, or
+ * while the app is running, is safe.
+ */
+export interface Migration {
+  /**
+   * version is the unique number of the migration. Migrations are applied
+   * in version order.
+   */
+  version: number;
+  /**
+   * description is a short summary of the change.
+   */
+  description: string;
+  /**
+   * backfill returns the attributes an item is missing, or `undefined` if
+   * the item is already up to date. Existing attributes are never replaced.
+   * @param item - Item to migrate.
+   */
+  backfill(item: MigrationItem): MigrationItem | undefined;
+}
+/**
+ * Functions
+ */
+/**
+ * isNodeItem checks if an item is a `Node`, including the trashed ones.
+ * The `head` items of the lists, the profiles of the users, the revisions
+ * and the search index entries aren't.
+ * @param item - Item to check.
+ */
+export function isNodeItem(item: MigrationItem): boolean {
+  return typeof item.pk === "string"
+    && !item.pk.startsWith("#")
+    && item._b !== "Profile"
+    && typeof item.id === "string"
+    && item._n !== undefined
+}
@@ -1,5 +1,11 @@
+import { createReadStream, createWriteStream } from "fs"
+import { once } from "events"
+import { createInterface } from "readline"
+import { pipeline } from "stream/promises"
+import { createGunzip, createGzip } from "zlib"
 import { CreateTableCommand, DeleteTableCommand, DynamoDBClient, DynamoDBClientConfig } from "@aws-sdk/client-dynamodb"
-import { DynamoDBDocumentClient } from "@aws-sdk/lib-dynamodb"
+import { BatchWriteCommand, DynamoDBDocumentClient, ScanCommand } from "@aws-sdk/lib-dynamodb"
+import type { BatchWriteCommandInput, BatchWriteCommandOutput, ScanCommandOutput } from "@aws-sdk/lib-dynamodb"
 
 import schema from "../schema.json"
 /**
@@ -9,6 +15,20 @@ const DB_ENDPOINT = process.env.DB_ENDPOINT || "http://dynamodb:8000"
 const TABLE_NAME = process.env.TABLE_NAME || "renodes-test"
 const AWS_REGION = process.env.AWS_REGION || "us-east-1"
 
+/**
+ * BATCH_WRITE_LIMIT is the maximum number of operations DynamoDB
+ * accepts on a single `BatchWriteItem` request.
+ */
+const BATCH_WRITE_LIMIT = 25
+/**
+ * ItemKind is the kind of an item stored on the table.
+ */
+type ItemKind = "user" | "head" | "node" | "trash" | "revision" | "search" | "token" | "migration" | "other"
+/**
+ * Counts holds the number of items of each kind, for every user.
+ */
+type Counts = Map<string, Map<ItemKind, number>>
+
 if (!TABLE_NAME) throw new Error("environment variable TABLE_NAME can't be undefined")
 
 let config: DynamoDBClientConfig = {
@@ -47,6 +67,11 @@ async function main(): Promise<string> {
       const deleteResult = await deleteTable()
       const createResult = await createTable()
       return [deleteResult, createResult].join("\n")
+    case "backup":
+      return backup(args[1] || `${TABLE_NAME}-${new Date().toISOString().replace(/[:.]/g, "-")}.ndjson.gz`, args.includes("--dry-run"))
+    case "restore":
+      if (!args[1]) return "Missing the file to restore"
+      return restore(args[1], parseMappings(args), args.includes("--dry-run"))
     default:
       return "Invalid Command"
   }
@@ -79,4 +104,185 @@ async function deleteTable(): Promise<string> {
     console.error(err)
     return "Couldn't delete the table"
   }
+}
+/**
+ * backup writes every item of the table to a gzipped file, one JSON
+ * document per line. The table is read through a paginated scan, and every
+ * page is written before reading the next one, so the table never needs
+ * to fit in memory. With `dryRun` the items are counted without writing
+ * the file.
+ * @param file - Path of the backup file.
+ * @param dryRun - Flag that only counts the items.
+ */
+async function backup(file: string, dryRun: boolean): Promise<string> {
+  try {
+    const counts: Counts = new Map()
+    const gzip = dryRun ? undefined : createGzip()
+    const output = gzip && pipeline(gzip, createWriteStream(file))
+    // Errors writing the file, like a missing directory, reject the output,
+    // which is awaited along the writes.
+    output?.catch(() => undefined)
+    let exclusiveStartKey: { [key: string]: any } | undefined = undefined
+    do {
+      const scanOutput: ScanCommandOutput = await db.send(new ScanCommand({
+        TableName: TABLE_NAME,
+        ExclusiveStartKey: exclusiveStartKey,
+      }))
+      for (let item of scanOutput.Items || []) {
+        count(counts, item)
+        if (gzip && !gzip.write(JSON.stringify(item) + "\n")) await Promise.race([once(gzip, "drain"), output])
+      }
+      exclusiveStartKey = scanOutput.LastEvaluatedKey
+    } while (exclusiveStartKey)
+    if (gzip && output) {
+      gzip.end()
+      await output
+    }
+    return [formatCounts(counts), dryRun ? `Found ${total(counts)} items` : `Backed up ${total(counts)} items to ${file}`].join("\n")
+  } catch (err) {
+    console.error(err)
+    return "Couldn't back up the table"
+  }
+}
+/**
+ * restore writes every item of a backup file to the table, replacing the
+ * items with the same `pk`. The `userId` prefix of the keys of the items
+ * can be remapped, so the `Nodes` of a user can be restored as another
+ * user. With `dryRun` the items are counted without writing them.
+ * @param file - Path of the backup file.
+ * @param mappings - New `userId` of each `userId` to remap.
+ * @param dryRun - Flag that only counts the items.
+ */
+async function restore(file: string, mappings: Map<string, string>, dryRun: boolean): Promise<string> {
+  try {
+    const counts: Counts = new Map()
+    const lines = createInterface({ input: createReadStream(file).pipe(createGunzip()), crlfDelay: Infinity })
+    let batch: { [key: string]: any }[] = []
+    for await (let line of lines) {
+      if (line.trim() === "") continue
+      const item = remap(JSON.parse(line), mappings)
+      count(counts, item)
+      if (dryRun) continue
+      batch.push(item)
+      if (batch.length === BATCH_WRITE_LIMIT) {
+        await batchWrite(batch)
+        batch = []
+      }
+    }
+    if (batch.length > 0) await batchWrite(batch)
+    return [formatCounts(counts), dryRun ? `Found ${total(counts)} items` : `Restored ${total(counts)} items from ${file}`].join("\n")
+  } catch (err) {
+    console.error(err)
+    return "Couldn't restore the table"
+  }
+}
+/**
+ * batchWrite puts a batch of items, retrying the unprocessed ones.
+ * @param items - Items to put.
+ */
+async function batchWrite(items: { [key: string]: any }[]): Promise<void> {
+  let requestItems: BatchWriteCommandInput["RequestItems"] = {
+    [TABLE_NAME]: items.map(Item => ({ PutRequest: { Item } })),
+  }
+  while (requestItems && Object.keys(requestItems).length > 0) {
+    const output: BatchWriteCommandOutput = await db.send(new BatchWriteCommand({ RequestItems: requestItems }))
+    requestItems = output.UnprocessedItems
+  }
+}
+/**
+ * parseMappings reads the `--map <from>=<to>` arguments of the command.
+ * @param args - Command arguments.
+ */
+function parseMappings(args: string[]): Map<string, string> {
+  const mappings = new Map<string, string>()
+  args.forEach((arg, index) => {
+    if (arg !== "--map") return
+    const [from, to] = (args[index + 1] || "").split("=")
+    if (!from || !to) throw new Error(`invalid mapping = ${args[index + 1]}`)
+    mappings.set(from, to)
+  })
+  return mappings
+}
+/**
+ * remap replaces the `userId` prefix of the keys of an item. Besides its
+ * `pk` and `_b`, the attributes that hold the keys of other items, and
+ * the ones that hold the author of a change, are remapped as well.
+ * @param item - Item to remap.
+ * @param mappings - New `userId` of each `userId` to remap.
+ */
+function remap(item: { [key: string]: any }, mappings: Map<string, string>): { [key: string]: any } {
+  if (mappings.size === 0) return item
+  const key = (value: any): any => {
+    if (typeof value !== "string") return value
+    const head = value.startsWith("#") ? "#" : ""
+    const [userId, ...rest] = value.slice(head.length).split("#")
+    return mappings.has(userId) && rest.length > 0 ? [head + mappings.get(userId), ...rest].join("#") : value
+  }
+  const result = { ...item }
+  if (item._b === "Profile") {
+    const [userId, provider] = String(item.pk).split(".")
+    if (mappings.has(userId)) result.pk = `${mappings.get(userId)}.${provider}`
+    return result
+  }
+  for (let attribute of ["pk", "_b", "_n", "_o", "_a"]) {
+    if (attribute in item) result[attribute] = key(item[attribute])
+  }
+  if (Array.isArray(item._p)) result._p = item._p.map(key)
+  for (let attribute of ["updatedBy", "_u"]) {
+    if (mappings.has(item[attribute])) result[attribute] = mappings.get(item[attribute])
+  }
+  return result
+}
+/**
+ * count adds an item to the counts of its user and kind.
+ * @param counts - Counts to update.
+ * @param item - Item to count.
+ */
+function count(counts: Counts, item: { [key: string]: any }): void {
+  const [userId, kind] = classify(item)
+  if (!counts.has(userId)) counts.set(userId, new Map())
+  const kinds = counts.get(userId) as Map<ItemKind, number>
+  kinds.set(kind, (kinds.get(kind) || 0) + 1)
+}
+/**
+ * classify returns the `userId` an item belongs to, along with its kind.
+ * @param item - Item to classify.
+ */
+function classify(item: { [key: string]: any }): [string, ItemKind] {
+  const pk = String(item.pk)
+  if (item._b === "Profile") return [pk.split(".")[0], "user"]
+  // The state of the migrations doesn't belong to any user.
+  if (pk === "Migrations") return ["-", "migration"]
+  const userId = (pk.startsWith("#") ? pk.slice(1) : pk).split("#")[0]
+  if (pk.startsWith("#")) return [userId, "head"]
+  if (typeof item._b === "string" && item._b.endsWith("#History")) return [userId, "revision"]
+  if (typeof item._b === "string" && item._b.endsWith("#Tokens")) return [userId, "token"]
+  if (item._f !== undefined || pk.startsWith(`${userId}#Search#`)) return [userId, "search"]
+  if (item._d !== undefined) return [userId, "trash"]
+  if (item._n !== undefined) return [userId, "node"]
+  return [userId, "other"]
+}
+/**
+ * formatCounts returns the counts as a table, one line per user.
+ * @param counts - Counts to format.
+ */
+function formatCounts(counts: Counts): string {
+  const kinds: ItemKind[] = ["user", "head", "node", "trash", "revision", "search", "token", "migration", "other"]
+  const rows = [["userId", ...kinds, "total"]]
+  for (let [userId, values] of [...counts].sort(([a], [b]) => a < b ? -1 : a > b ? 1 : 0)) {
+    const row = kinds.map(kind => values.get(kind) || 0)
+    rows.push([userId, ...row.map(String), String(row.reduce((a, b) => a + b, 0))])
+  }
+  return rows.map(row => row.join("\t")).join("\n")
+}
+/**
+ * total returns the number of counted items.
+ * @param counts - Counts to add up.
+ */
+function total(counts: Counts): number {
+  let result = 0
+  for (let kinds of counts.values()) {
+    for (let value of kinds.values()) result += value
+  }
+  return result
 }
\ No newline at end of file
@@ -0,0 +1,40 @@
+import { repository as nodesRepository } from "../app/repositories/nodes.server"
+import { repository as usersRepository } from "../app/repositories/users.server"
+/**
+ * Main
+ */
+main()
+  .then(console.log)
+  .catch(console.error)
+/**
+ * Functions
+ */
+/**
+ * main is the function that will be called when running the script.
+ */
+async function main(): Promise<string> {
+  const args = process.argv.slice(2)
+  switch (args[0]) {
+    case "purge":
+      return purge()
+    default:
+      return "Invalid Command"
+  }
+}
+/**
+ * purge permanently deletes every `Node` that has been in the trash for
+ * longer than the configured retention period, for every user.
+ */
+async function purge(): Promise<string> {
+  try {
+    const users = await usersRepository.query(undefined)
+    let purged = 0
+    for (let user of users) {
+      purged += await nodesRepository.purge(user.id)
+    }
+    return `Purged ${purged} Nodes from the trash of ${users.length} users`
+  } catch (err) {
+    console.error(err)
+    return "Couldn't purge the trash"
+  }
+}
@@ -25,14 +25,111 @@ app.use(express.static("public", { maxAge: "1h" }));
 // Remix fingerprints its assets so we can cache forever
 app.use(express.static("public/build", { immutable: true, maxAge: "1y" }));
 // Routes
+/**
+ * List the sub-nodes of the Node identified by `parent`, or of the home
+ * Node. Every `/api/v1` route accepts and returns JSON.
+ */
+app.get("/api/v1/nodes", apiRoute("api.v1.nodes"))
+/**
+ * Create a new Node.
+ */
+app.post("/api/v1/nodes", apiRoute("api.v1.nodes"))
+/**
+ * Get a Node identified by `id`.
+ */
+app.get("/api/v1/nodes/:id", apiRoute("api.v1.nodes.$id"))
+/**
+ * Update the content of a Node identified by `id`.
+ */
+app.put("/api/v1/nodes/:id", apiRoute("api.v1.nodes.$id"))
+/**
+ * Update the metadata, or the position, of a Node identified by `id`.
+ */
+app.patch("/api/v1/nodes/:id", apiRoute("api.v1.nodes.$id"))
+/**
+ * Move a Node identified by `id`, along with its sub-nodes, to the trash.
+ */
+app.delete("/api/v1/nodes/:id", apiRoute("api.v1.nodes.$id"))
+/**
+ * Copy a Node identified by `id` right after it.
+ */
+app.post("/api/v1/nodes/:id/duplicate", apiRoute("api.v1.nodes.$id.duplicate"))
+/**
+ * OpenAPI document that describes every Node and user endpoint.
+ */
+app.get("/api/openapi.json", apiRoute("api.openapi", "/api/openapi"))
+/**
+ * Explore the API, and execute its requests as the current user.
+ */
+app.get("/api/docs", remixRoute("api.docs"))
 /**
  * Get the current user details.
  */
 app.get("/users/me", remixRoute("users.me"))
+/**
+ * List the Nodes in the trash of the current user.
+ */
+app.get("/trash", remixRoute("trash"))
+/**
+ * Restore a Node from the trash of the current user.
+ */
+app.post("/trash", remixRoute("trash"))
+/**
+ * List the personal API tokens of the current user.
+ */
+app.get("/settings/tokens", remixRoute("settings.tokens"))
+/**
+ * Create, or revoke, a personal API token of the current user.
+ */
+app.post("/settings/tokens", remixRoute("settings.tokens"))
+/**
+ * Search the Nodes of the current user.
+ */
+app.get("/search", remixRoute("search"))
+/**
+ * Open the ancestors of a Node found by a search, and jump to it.
+ */
+app.post("/search", remixRoute("search"))
+/**
+ * Check the integrity of the linked list of a branch. Only available to
+ * the users listed on `ADMIN_USER_IDS`.
+ */
+app.get("/admin/integrity", remixRoute("admin.integrity"))
+/**
+ * Check the integrity of the linked list of a branch, and repair it if
+ * `fix` is set. Only available to the users listed on `ADMIN_USER_IDS`.
+ */
+app.post("/admin/integrity", remixRoute("admin.integrity"))
 /**
  * Not found page. Added here to avoid being catched by the next route.
  */
 app.get("/404", remixRoute("404"))
+/**
+ * List the revisions of a Node identified by `id`.
+ */
+app.get("/:id/history", remixRoute("$id.history"))
+/**
+ * Restore a revision of a Node identified by `id`.
+ */
+app.post("/:id/history", remixRoute("$id.history"))
+/**
+ * Stream the changes made on a Node identified by `id`, and on its
+ * sub-nodes, as Server-Sent Events.
+ */
+app.get("/:id/events", apiRoute("$id.events"))
+/**
+ * Export a Node identified by `id`, along with its sub-nodes.
+ */
+app.get("/:id/export", remixRoute("$id.export"))
+/**
+ * Show the form to import Nodes into a Node identified by `id`.
+ */
+app.get("/:id/import", remixRoute("$id.import"))
+/**
+ * Import a Markdown outline, an OPML file or a JSON export into a Node
+ * identified by `id`.
+ */
+app.post("/:id/import", remixRoute("$id.import"))
 /**
  * Get a Node identifier by `id`.
  */
@@ -46,7 +143,7 @@ app.post("/:id", remixRoute("$id"))
  */
 app.put("/:id", remixRoute("$id"))
 /**
- * Delete a Node identifier by `id`.
+ * Move a Node identifier by `id`, along with its sub-nodes, to the trash.
  */
 app.delete("/:id", remixRoute("$id"))
 /**
@@ -63,9 +160,16 @@ app.all("*", remixHandler);
 exports = module.exports = { app }
 
 let port = process.env.PORT || 3000;
-app.listen(port, () => {
+const server = app.listen(port, () => {
   console.log(`Express server listening on port ${port}`);
 });
+/**
+ * Edit the content of a Node identified by `id` collaboratively, through a
+ * WebSocket connection on `/:id/collab`.
+ */
+server.on("upgrade", (req, socket, head) => {
+  require("./build").entry.module.handleUpgrade(req, socket, head).catch(() => socket.destroy());
+});
 ////////////////////////////////////////////////////////////////////////////////
 function purgeRequireCache() {
   // purge require cache on requests for "server side HMR" this won't let
@@ -86,17 +190,38 @@ function purgeRequireCache() {
  */
 function remixRoute(route) {
   return function (req, _, next) {
-    if (req.headers.accept === "application/json") {
-      const query = new URLSearchParams(req.query)
-      query.set("_data", `routes/${route}`)
-      req.url = [
-        "http://",
-        req.headers.host,
-        req.originalUrl,
-        "/?",
-        query.toString()
-      ].join("")
-    }
+    if (req.headers.accept === "application/json") toDataRequest(req, route)
     next()
   }
+}
+/**
+ * apiRoute will update the value of the `Request` url so that Remix
+ * processes it with the loader, or the action, of the route, whatever
+ * the `Accept` header of the request is.
+ * @param route - Remix route that should match.
+ * @param path - Path of the Remix route, if it's not the requested one.
+ */
+function apiRoute(route, path) {
+  return function (req, _, next) {
+    if (path) req.url = path
+    toDataRequest(req, route)
+    next()
+  }
+}
+/**
+ * toDataRequest points the url of a `Request` to the data of a Remix
+ * route, keeping its search parameters.
+ * @param req - Express request.
+ * @param route - Remix route that should match.
+ */
+function toDataRequest(req, route) {
+  const query = new URLSearchParams(req.query)
+  query.set("_data", `routes/${route}`)
+  req.url = [
+    "http://",
+    req.headers.host,
+    req.path,
+    "/?",
+    query.toString()
+  ].join("")
 }
\ No newline at end of file